@@ -5,14 +5,28 @@
 export declare class DecisionNode {
     static type: string;
     static role: string;
+    /**
+     * Handlers: input on top, "true" output on the right, "false" output at the bottom.
+     */
+    static handlers: {
+        type: string;
+        side: string;
+        offset: {
+            x: number;
+            y: number;
+        };
+        label?: string;
+    }[];
     /**
      * Schema for condition configuration.
+     * The condition names a runtime variable compared with `value` using `operator`.
      */
     static schema: {
         condition: {
             type: string;
             label: string;
             default: string;
+            required: boolean;
         };
         operator: {
             type: string;
@@ -20,6 +34,11 @@ export declare class DecisionNode {
             options: string[];
             default: string;
         };
+        value: {
+            type: string;
+            label: string;
+            default: string;
+        };
     };
     /**
      * Decision nodes accept incoming connections.
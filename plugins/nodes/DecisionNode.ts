@@ -6,20 +6,36 @@ export class DecisionNode {
   static type = 'decision';
   static role = 'Logic';
   
+  /**
+   * Handlers: input on top, "true" output on the right, "false" output at the bottom.
+   */
+  static handlers = [
+    { type: 'input', side: 'top', offset: { x: 80, y: 0 } },
+    { type: 'output', side: 'right', offset: { x: 160, y: 40 }, label: 'true' },
+    { type: 'output', side: 'bottom', offset: { x: 80, y: 80 }, label: 'false' }
+  ];
+  
   /**
    * Schema for condition configuration.
+   * The condition names a runtime variable compared with `value` using `operator`.
    */
   static schema = {
     condition: {
       type: 'text',
       label: 'Condition',
-      default: ''
+      default: '',
+      required: true
     },
     operator: {
       type: 'select',
       label: 'Operator',
       options: ['equals', 'not_equals', 'greater_than', 'less_than', 'contains'],
       default: 'equals'
+    },
+    value: {
+      type: 'text',
+      label: 'Value',
+      default: ''
     }
   };
   
@@ -5,6 +5,17 @@
 export declare class EndNode {
     static type: string;
     static role: string;
+    /**
+     * Handlers: single input on the left.
+     */
+    static handlers: {
+        type: string;
+        side: string;
+        offset: {
+            x: number;
+            y: number;
+        };
+    }[];
     /**
      * End nodes have input handlers (terminal point).
      */
@@ -6,6 +6,13 @@ export class EndNode {
   static type = 'end';
   static role = 'Core';
   
+  /**
+   * Handlers: single input on the left.
+   */
+  static handlers = [
+    { type: 'input', side: 'left', offset: { x: 0, y: 40 } }
+  ];
+  
   /**
    * End nodes have input handlers (terminal point).
    */
@@ -0,0 +1,27 @@
+/**
+ * Group node plugin - container holding other nodes.
+ * Sized by the widget around its children; can be collapsed to a regular node size.
+ */
+export declare class GroupNode {
+    static type: string;
+    static role: string;
+    static container: boolean;
+    /**
+     * Handlers: none. Connections attach to the nodes inside; collapsed groups
+     * show proxies of the handlers crossing their boundary.
+     */
+    static handlers: never[];
+    /**
+     * Groups are never connection targets themselves.
+     */
+    hasTargetHandlers(): boolean;
+    /**
+     * Icon: Stacked squares.
+     */
+    getIconPath(): string;
+    /**
+     * Shape: Rectangle (the widget draws containers at their fitted size).
+     */
+    getShapeTemplate(): string;
+}
+//# sourceMappingURL=GroupNode.d.ts.map
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * Group node plugin - container holding other nodes.
+ * Sized by the widget around its children; can be collapsed to a regular node size.
+ */
+export class GroupNode {
+  static type = 'group';
+  static role = 'Core';
+  static container = true;
+  
+  /**
+   * Handlers: none. Connections attach to the nodes inside; collapsed groups
+   * show proxies of the handlers crossing their boundary.
+   */
+  static handlers = [];
+  
+  /**
+   * Groups are never connection targets themselves.
+   */
+  hasTargetHandlers() {
+    return false;
+  }
+  
+  /**
+   * Icon: Stacked squares.
+   */
+  getIconPath() {
+    return 'M4 4h10v10H4z M10 10h10v10H10z';
+  }
+  
+  /**
+   * Shape: Rectangle (the widget draws containers at their fitted size).
+   */
+  getShapeTemplate() {
+    return 'M 0,0 L 200,0 L 200,100 L 0,100 Z';
+  }
+}
\ No newline at end of file
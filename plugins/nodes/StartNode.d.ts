@@ -5,6 +5,17 @@
 export declare class StartNode {
     static type: string;
     static role: string;
+    /**
+     * Handlers: single output on the right.
+     */
+    static handlers: {
+        type: string;
+        side: string;
+        offset: {
+            x: number;
+            y: number;
+        };
+    }[];
     /**
      * Start nodes have no input handlers (entry point).
      */
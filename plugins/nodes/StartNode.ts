@@ -6,6 +6,13 @@ export class StartNode {
   static type = 'start';
   static role = 'Core';
   
+  /**
+   * Handlers: single output on the right.
+   */
+  static handlers = [
+    { type: 'output', side: 'right', offset: { x: 160, y: 40 } }
+  ];
+  
   /**
    * Start nodes have no input handlers (entry point).
    */
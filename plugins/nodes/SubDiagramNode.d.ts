@@ -0,0 +1,44 @@
+/**
+ * Sub-diagram node plugin - runs another graph as a single step.
+ * The graph is embedded in `data.diagram` or referenced by `data.diagramId`
+ * (resolved by the host). Double-click opens it.
+ */
+export declare class SubDiagramNode {
+    static type: string;
+    static role: string;
+    /**
+     * Schema: ID of a graph provided by the host's resolver.
+     * Embedded graphs are stored in `data.diagram` and edited by opening the node.
+     */
+    static schema: {
+        diagramId: {
+            type: string;
+            label: string;
+            default: string;
+        };
+    };
+    /**
+     * Handlers: one input per entry node and one output per exit node of an
+     * embedded graph, in graph order; a single input/output pair otherwise.
+     */
+    getHandlers(data: any): {
+        type: string;
+        side: string;
+        key: string;
+        label?: any;
+    }[];
+    /**
+     * Sub-diagram nodes accept incoming connections.
+     */
+    hasTargetHandlers(): boolean;
+    /**
+     * Icon: Nested boxes.
+     */
+    getIconPath(): string;
+    /**
+     * Shape: Rectangle with inner bars (predefined process).
+     */
+    getShapeTemplate(): string;
+    getShapeAttributes(): null;
+}
+//# sourceMappingURL=SubDiagramNode.d.ts.map
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * Sub-diagram node plugin - runs another graph as a single step.
+ * The graph is embedded in `data.diagram` or referenced by `data.diagramId`
+ * (resolved by the host). Double-click opens it.
+ */
+export class SubDiagramNode {
+  static type = 'subdiagram';
+  static role = 'Logic';
+  
+  /**
+   * Schema: ID of a graph provided by the host's resolver.
+   * Embedded graphs are stored in `data.diagram` and edited by opening the node.
+   */
+  static schema = {
+    diagramId: {
+      type: 'text',
+      label: 'Diagram ID',
+      default: ''
+    }
+  };
+  
+  /**
+   * Handlers: one input per entry node and one output per exit node of an
+   * embedded graph, in graph order; a single input/output pair otherwise.
+   */
+  getHandlers(data: any) {
+    const nodes: any[] = data.diagram && data.diagram.nodes ? Object.values(data.diagram.nodes) : [];
+    const hasFlow = (node: any, flow: string) =>
+      Object.values(node.handles || {}).some((h: any) => h.flow === flow);
+    
+    const entries = nodes.filter(node => hasFlow(node, 'out') && !hasFlow(node, 'in'));
+    const exits = nodes.filter(node => hasFlow(node, 'in') && !hasFlow(node, 'out'));
+    
+    if (entries.length === 0 && exits.length === 0) {
+      return [
+        { type: 'input', side: 'left', key: 'in' },
+        { type: 'output', side: 'right', key: 'out' }
+      ];
+    }
+    
+    return [
+      ...entries.map(node => ({ type: 'input', side: 'left', key: `in_${node.id}`, label: node.label })),
+      ...exits.map(node => ({ type: 'output', side: 'right', key: `out_${node.id}`, label: node.label }))
+    ];
+  }
+  
+  /**
+   * Sub-diagram nodes accept incoming connections.
+   */
+  hasTargetHandlers() {
+    return true;
+  }
+  
+  /**
+   * Icon: Nested boxes.
+   */
+  getIconPath() {
+    return 'M3 3h18v18H3z M7 9h4v6H7z M13 9h4v6h-4z';
+  }
+  
+  /**
+   * Shape: Rectangle with inner bars (predefined process).
+   */
+  getShapeTemplate() {
+    return 'M 0,0 L 160,0 L 160,80 L 0,80 Z M 10,0 L 10,80 M 150,0 L 150,80';
+  }
+  
+  getShapeAttributes() {
+    return null;
+  }
+}
\ No newline at end of file
@@ -5,6 +5,17 @@
 export declare class TaskNode {
     static type: string;
     static role: string;
+    /**
+     * Handlers: input on the left, output on the right.
+     */
+    static handlers: {
+        type: string;
+        side: string;
+        offset: {
+            x: number;
+            y: number;
+        };
+    }[];
     /**
      * Schema defines configurable properties for tasks.
      */
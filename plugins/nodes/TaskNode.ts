@@ -6,6 +6,14 @@ export class TaskNode {
   static type = 'task';
   static role = 'Tools';
   
+  /**
+   * Handlers: input on the left, output on the right.
+   */
+  static handlers = [
+    { type: 'input', side: 'left', offset: { x: 0, y: 40 } },
+    { type: 'output', side: 'right', offset: { x: 160, y: 40 } }
+  ];
+  
   /**
    * Schema defines configurable properties for tasks.
    */
@@ -0,0 +1,82 @@
+/**
+ * Branching traversal strategy - simulates the workflow with runtime variables.
+ * Decision nodes evaluate their condition and only the taken branch runs;
+ * nodes on branches not taken are skipped and reported.
+ */
+export declare class BranchingStrategy {
+    static type: string;
+    /**
+     * Sorts nodes in topological order (Kahn's algorithm), so every node comes
+     * after all of its predecessors and its incoming branches are known.
+     *
+     * @throws Error if cycle is detected
+     */
+    sortNodes(nodes: any[], links: any[]): any[];
+    getVisitors(): {
+        start: (node: any, agg: any, context: any) => void;
+        end: (node: any, agg: any, context: any) => void;
+        task: (node: any, agg: any, context: any) => Promise<void>;
+        decision: (node: any, agg: any, context: any) => void;
+        subdiagram: (node: any, agg: any, context: any) => void;
+    };
+    getInitialAggregator(): {
+        executionLog: never[];
+        errors: never[];
+        results: {};
+        path: never[];
+        skipped: never[];
+        branches: {};
+        firedHandlers: {};
+        entries: null;
+        startTime: number;
+        metadata: {
+            strategy: string;
+            version: string;
+        };
+    };
+    /**
+     * A node runs if it has no incoming connections (and is one of the entries of
+     * a sub-diagram run), or if at least one incoming connection starts at an
+     * output handler that fired.
+     * Non-decision nodes fire all of their outputs; decisions fire one in visitDecision
+     * and sub-diagrams the ones whose exit nodes were reached, in visitSubDiagram.
+     */
+    shouldVisit(node: any, agg: any, context: any): boolean;
+    /**
+     * Records a node that is only reachable through branches not taken.
+     */
+    visitSkipped(node: any, agg: any, context: any): void;
+    visitStart(node: any, agg: any, context: any): void;
+    visitEnd(node: any, agg: any, context: any): void;
+    visitTask(node: any, agg: any, context: any): Promise<void>;
+    /**
+     * Evaluates `<variable> <operator> <value>` and fires the matching
+     * "true" or "false" output handler.
+     * An unknown operator is reported as an error and no branch is taken.
+     */
+    visitDecision(node: any, agg: any, context: any): void;
+    /**
+     * Fires the outputs mapped to exit nodes the sub-diagram's graph reached.
+     * Without a nested run (recursion disabled) all outputs fire.
+     */
+    visitSubDiagram(node: any, agg: any, context: any): void;
+    /**
+     * Scopes the run of a sub-diagram's graph: reports are shared with the parent,
+     * fired handlers are not, and only the entry nodes behind inputs reached by a
+     * fired connection start. A node without incoming connections starts all of them.
+     */
+    enterSubDiagram(node: any, agg: any, context: any, inputs: Record<string, string[]>): any;
+    /**
+     * Compares a runtime value with the decision's configured value.
+     * Numeric operators convert both sides to numbers.
+     */
+    evaluate(actual: any, operator: string, expected: any): boolean;
+    /**
+     * Reads a variable by dot path (e.g. "order.total").
+     */
+    resolveVariable(variables: any, path: string): any;
+    getIncomingLinks(node: any, links: any[]): any[];
+    getOutputHandlers(node: any): any[];
+    findNodeByHandler(nodes: any[], handlerId: string): any;
+}
+//# sourceMappingURL=BranchingStrategy.d.ts.map
\ No newline at end of file
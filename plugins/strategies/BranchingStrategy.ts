@@ -0,0 +1,346 @@
+/**
+ * Branching traversal strategy - simulates the workflow with runtime variables.
+ * Decision nodes evaluate their condition and only the taken branch runs;
+ * nodes on branches not taken are skipped and reported.
+ */
+import { simulateWork } from './SimulatedWork.js';
+
+export class BranchingStrategy {
+  static type = 'branching';
+  
+  /**
+   * Sorts nodes in topological order (Kahn's algorithm), so every node comes
+   * after all of its predecessors and its incoming branches are known.
+   */
+  sortNodes(nodes: any[], links: any[]): any[] {
+    const ownerByHandler = new Map<string, string>();
+    nodes.forEach((node: any) => {
+      node.handlers.forEach((h: any) => ownerByHandler.set(h.id, node.id));
+    });
+    
+    const inDegree = new Map<string, number>(nodes.map((node: any) => [node.id, 0]));
+    const successors = new Map<string, string[]>(nodes.map((node: any) => [node.id, []]));
+    
+    links.forEach((link: any) => {
+      const source = ownerByHandler.get(link.sourceHandlerId);
+      const target = ownerByHandler.get(link.targetHandlerId);
+      if (!source || !target) return;
+      
+      successors.get(source)!.push(target);
+      inDegree.set(target, inDegree.get(target)! + 1);
+    });
+    
+    const byId = new Map<string, any>(nodes.map((node: any) => [node.id, node]));
+    const queue = nodes.filter((node: any) => inDegree.get(node.id) === 0).map((node: any) => node.id);
+    const sorted: any[] = [];
+    
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      sorted.push(byId.get(id));
+      
+      successors.get(id)!.forEach(next => {
+        const remaining = inDegree.get(next)! - 1;
+        inDegree.set(next, remaining);
+        if (remaining === 0) queue.push(next);
+      });
+    }
+    
+    if (sorted.length < nodes.length) {
+      throw new Error('Cycle detected in graph - cannot execute branching strategy');
+    }
+    
+    return sorted;
+  }
+  
+  getVisitors() {
+    return {
+      'start': this.visitStart.bind(this),
+      'end': this.visitEnd.bind(this),
+      'task': this.visitTask.bind(this),
+      'decision': this.visitDecision.bind(this),
+      'subdiagram': this.visitSubDiagram.bind(this)
+    };
+  }
+  
+  getInitialAggregator() {
+    return {
+      executionLog: [],
+      errors: [],
+      results: {},
+      path: [],
+      skipped: [],
+      branches: {},
+      firedHandlers: {},
+      // Nodes without incoming connections that may start (all when null)
+      entries: null,
+      startTime: Date.now(),
+      metadata: {
+        strategy: 'branching',
+        version: '1.0.0'
+      }
+    };
+  }
+  
+  /**
+   * A node runs if it has no incoming connections (and is one of the entries of
+   * a sub-diagram run), or if at least one incoming connection starts at an
+   * output handler that fired.
+   * Non-decision nodes fire all of their outputs; decisions fire one in visitDecision
+   * and sub-diagrams the ones whose exit nodes were reached, in visitSubDiagram.
+   */
+  shouldVisit(node: any, agg: any, context: any): boolean {
+    const incoming = this.getIncomingLinks(node, context.links);
+    const active = incoming.length === 0
+      ? !agg.entries || agg.entries.includes(node.id)
+      : incoming.some((link: any) => agg.firedHandlers[link.sourceHandlerId]);
+    
+    if (active) {
+      agg.path.push(node.id);
+      if (node.type !== 'decision' && node.type !== 'subdiagram') {
+        this.getOutputHandlers(node).forEach((h: any) => { agg.firedHandlers[h.id] = true; });
+      }
+    }
+    
+    return active;
+  }
+  
+  /**
+   * Records a node that is only reachable through branches not taken.
+   */
+  visitSkipped(node: any, agg: any, context: any): void {
+    const blockedBy = this.getIncomingLinks(node, context.links)
+      .map((link: any) => this.findNodeByHandler(context.nodes, link.sourceHandlerId))
+      .filter((source: any) => source && agg.branches[source.id] !== undefined)
+      .map((source: any) => source.id);
+    
+    agg.skipped.push({
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      reason: 'branch_not_taken',
+      blockedBy
+    });
+    
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'node_skipped'
+    });
+    
+    console.log(`[BranchingStrategy] Skipped: ${node.label || node.id}`);
+  }
+  
+  visitStart(node: any, agg: any, context: any): void {
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'workflow_started',
+      variables: { ...context.variables }
+    });
+    
+    console.log(`[BranchingStrategy] Workflow started at node: ${node.label || node.id}`);
+  }
+  
+  visitEnd(node: any, agg: any, context: any): void {
+    const duration = Date.now() - agg.startTime;
+    
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'workflow_completed',
+      duration: duration
+    });
+    
+    agg.results.totalDuration = duration;
+    agg.results.endNodeId = node.id;
+    agg.results.status = agg.errors.length > 0 ? 'completed_with_errors' : 'success';
+    
+    console.log(`[BranchingStrategy] Workflow completed at ${node.label || node.id} in ${duration}ms`);
+  }
+  
+  async visitTask(node: any, agg: any, context: any): Promise<void> {
+    const executionTime = Math.random() * 1000;
+    
+    try {
+      await simulateWork(executionTime, context.signal);
+      
+      agg.executionLog.push({
+        timestamp: Date.now(),
+        nodeId: node.id,
+        type: node.type,
+        label: node.label,
+        action: 'task_executed',
+        executionTime: executionTime
+      });
+      
+      agg.results[node.id] = {
+        status: 'success',
+        duration: executionTime,
+        output: `Task "${node.label || node.id}" completed successfully`
+      };
+      
+      console.log(`[BranchingStrategy] Task executed: ${node.label || node.id}`);
+      
+    } catch (error: any) {
+      // Cancellation is not a task failure
+      if (context.signal?.aborted) throw error;
+      
+      agg.errors.push({
+        nodeId: node.id,
+        message: error.message,
+        timestamp: Date.now()
+      });
+    }
+  }
+  
+  /**
+   * Evaluates `<variable> <operator> <value>` and fires the matching
+   * "true" or "false" output handler.
+   * An unknown operator is reported as an error and no branch is taken.
+   */
+  visitDecision(node: any, agg: any, context: any): void {
+    const condition = node.data.condition || '';
+    const operator = node.data.operator || 'equals';
+    const actual = this.resolveVariable(context.variables, condition);
+    
+    let result: boolean;
+    try {
+      result = this.evaluate(actual, operator, node.data.value);
+    } catch (error: any) {
+      agg.errors.push({
+        nodeId: node.id,
+        message: error.message,
+        timestamp: Date.now()
+      });
+      return;
+    }
+    
+    const branch = result ? 'true' : 'false';
+    const handler = this.getOutputHandlers(node).find((h: any) => h.label === branch);
+    if (handler) {
+      agg.firedHandlers[handler.id] = true;
+    } else {
+      agg.errors.push({
+        nodeId: node.id,
+        message: `Decision has no "${branch}" output`,
+        timestamp: Date.now()
+      });
+    }
+    
+    agg.branches[node.id] = branch;
+    
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'condition_evaluated',
+      condition: condition,
+      operator: operator,
+      expected: node.data.value,
+      actual: actual,
+      result: branch
+    });
+    
+    agg.results[node.id] = {
+      status: 'evaluated',
+      condition: condition,
+      result: result,
+      branch: `${branch}_branch`
+    };
+    
+    console.log(`[BranchingStrategy] Decision evaluated: ${node.label || node.id} -> ${branch}`);
+  }
+  
+  /**
+   * Fires the outputs mapped to exit nodes the sub-diagram's graph reached.
+   * Without a nested run (recursion disabled) all outputs fire.
+   */
+  visitSubDiagram(node: any, agg: any, context: any): void {
+    const run = context.subDiagram;
+    const completed = new Set(run ? run.completed : []);
+    const fired = this.getOutputHandlers(node)
+      .filter((h: any) => !run || (run.outputs[h.id] || []).some((id: string) => completed.has(id)));
+    
+    fired.forEach((h: any) => { agg.firedHandlers[h.id] = true; });
+    
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'subdiagram_completed',
+      outputs: fired.map((h: any) => h.label || h.id)
+    });
+    
+    console.log(`[BranchingStrategy] Sub-diagram completed: ${node.label || node.id}`);
+  }
+  
+  /**
+   * Scopes the run of a sub-diagram's graph: reports are shared with the parent,
+   * fired handlers are not, and only the entry nodes behind inputs reached by a
+   * fired connection start. A node without incoming connections starts all of them.
+   */
+  enterSubDiagram(node: any, agg: any, context: any, inputs: Record<string, string[]>): any {
+    const incoming = this.getIncomingLinks(node, context.links);
+    const entries = incoming.length === 0
+      ? null
+      : Array.from(new Set(incoming
+        .filter((link: any) => agg.firedHandlers[link.sourceHandlerId])
+        .flatMap((link: any) => inputs[link.targetHandlerId] || [])));
+    
+    return { ...agg, firedHandlers: {}, entries };
+  }
+  
+  /**
+   * Compares a runtime value with the decision's configured value.
+   * Numeric operators convert both sides to numbers.
+   */
+  evaluate(actual: any, operator: string, expected: any): boolean {
+    switch (operator) {
+      case 'equals':
+        return String(actual) === String(expected ?? '');
+      case 'not_equals':
+        return String(actual) !== String(expected ?? '');
+      case 'greater_than':
+        return Number(actual) > Number(expected);
+      case 'less_than':
+        return Number(actual) < Number(expected);
+      case 'contains':
+        return Array.isArray(actual)
+          ? actual.some((item: any) => String(item) === String(expected))
+          : String(actual ?? '').includes(String(expected ?? ''));
+      default:
+        throw new Error(`Unknown operator "${operator}"`);
+    }
+  }
+  
+  /**
+   * Reads a variable by dot path (e.g. "order.total").
+   */
+  resolveVariable(variables: any, path: string): any {
+    if (!path) return undefined;
+    
+    return path.split('.').reduce((value: any, key: string) => {
+      return value === undefined || value === null ? undefined : value[key];
+    }, variables);
+  }
+  
+  getIncomingLinks(node: any, links: any[]): any[] {
+    return links.filter((link: any) => node.handlers.some((h: any) => h.id === link.targetHandlerId));
+  }
+  
+  getOutputHandlers(node: any): any[] {
+    return node.handlers.filter((h: any) => h.flow === 'out');
+  }
+  
+  findNodeByHandler(nodes: any[], handlerId: string): any {
+    return nodes.find((n: any) => n.handlers.some((h: any) => h.id === handlerId)) || null;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Parallel traversal strategy - executes workflow level by level.
+ * Nodes are grouped into topological levels; independent branches of a level
+ * run at the same time and join at nodes with several incoming connections.
+ */
+export declare class ParallelStrategy {
+    static type: string;
+    /**
+     * Default maximum of nodes running at once (overridden by `concurrency`
+     * in the traverse payload).
+     */
+    static concurrency: number;
+    private predecessorsByGraph;
+    /**
+     * Flattened levels, for callers that only need an execution order.
+     */
+    sortNodes(nodes: any[], links: any[]): any[];
+    /**
+     * Groups nodes into topological levels (Kahn's algorithm).
+     * A node's level is one more than its deepest predecessor, so a join
+     * always runs after every branch leading into it.
+     *
+     * @throws Error if cycle is detected
+     */
+    getLevels(nodes: any[], links: any[]): any[][];
+    getVisitors(): {
+        start: (node: any, agg: any, context: any) => Promise<void>;
+        end: (node: any, agg: any, context: any) => Promise<void>;
+        task: (node: any, agg: any, context: any) => Promise<void>;
+        decision: (node: any, agg: any, context: any) => Promise<void>;
+    };
+    getInitialAggregator(): {
+        executionLog: never[];
+        errors: never[];
+        results: {};
+        timings: {};
+        joins: {};
+        criticalPath: {
+            nodes: never[];
+            duration: number;
+        };
+        maxConcurrency: number;
+        running: number;
+        startTime: number;
+        metadata: {
+            strategy: string;
+            version: string;
+        };
+    };
+    visitStart(node: any, agg: any, context: any): Promise<void>;
+    visitEnd(node: any, agg: any, context: any): Promise<void>;
+    visitTask(node: any, agg: any, context: any): Promise<void>;
+    /**
+     * Decisions fan out: every branch runs in parallel.
+     */
+    visitDecision(node: any, agg: any, context: any): Promise<void>;
+    /**
+     * Runs a visitor body and records its timing, joins and the critical path.
+     */
+    track(node: any, agg: any, context: any, work: () => void | Promise<void>): Promise<void>;
+    /**
+     * Walks critical predecessors back to the first node of the chain.
+     */
+    tracePath(nodeId: string, timings: any): string[];
+    /**
+     * Predecessors of the graph being run, built on its first node.
+     */
+    getPredecessors(context: any): Map<string, string[]>;
+    /**
+     * Maps every node to the distinct nodes connected into it.
+     */
+    buildPredecessors(nodes: any[], links: any[]): Map<string, string[]>;
+}
+//# sourceMappingURL=ParallelStrategy.d.ts.map
\ No newline at end of file
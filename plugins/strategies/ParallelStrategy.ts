@@ -0,0 +1,289 @@
+/**
+ * Parallel traversal strategy - executes workflow level by level.
+ * Nodes are grouped into topological levels; independent branches of a level
+ * run at the same time and join at nodes with several incoming connections.
+ */
+import { simulateWork } from './SimulatedWork.js';
+
+export class ParallelStrategy {
+  static type = 'parallel';
+  
+  /**
+   * Default maximum of nodes running at once (overridden by `concurrency`
+   * in the traverse payload).
+   */
+  static concurrency = 4;
+  
+  // Predecessors per graph, keyed by its link list (one per run and sub-diagram)
+  private predecessorsByGraph = new WeakMap<any[], Map<string, string[]>>();
+  
+  /**
+   * Flattened levels, for callers that only need an execution order.
+   */
+  sortNodes(nodes: any[], links: any[]): any[] {
+    return this.getLevels(nodes, links).flat();
+  }
+  
+  /**
+   * Groups nodes into topological levels (Kahn's algorithm).
+   * A node's level is one more than its deepest predecessor, so a join
+   * always runs after every branch leading into it.
+   *
+   * @throws Error if cycle is detected
+   */
+  getLevels(nodes: any[], links: any[]): any[][] {
+    const predecessors = this.buildPredecessors(nodes, links);
+    const successors = new Map<string, string[]>(nodes.map((node: any) => [node.id, []]));
+    const inDegree = new Map<string, number>();
+    
+    predecessors.forEach((sources, nodeId) => {
+      inDegree.set(nodeId, sources.length);
+      sources.forEach(source => successors.get(source)!.push(nodeId));
+    });
+    
+    const byId = new Map<string, any>(nodes.map((node: any) => [node.id, node]));
+    const levels: any[][] = [];
+    let current = nodes.filter((node: any) => inDegree.get(node.id) === 0).map((node: any) => node.id);
+    let placed = 0;
+    
+    while (current.length > 0) {
+      levels.push(current.map(id => byId.get(id)));
+      placed += current.length;
+      
+      const next: string[] = [];
+      current.forEach(id => {
+        successors.get(id)!.forEach(target => {
+          const remaining = inDegree.get(target)! - 1;
+          inDegree.set(target, remaining);
+          if (remaining === 0) next.push(target);
+        });
+      });
+      current = next;
+    }
+    
+    if (placed < nodes.length) {
+      throw new Error('Cycle detected in graph - cannot execute parallel strategy');
+    }
+    
+    return levels;
+  }
+  
+  getVisitors() {
+    return {
+      'start': this.visitStart.bind(this),
+      'end': this.visitEnd.bind(this),
+      'task': this.visitTask.bind(this),
+      'decision': this.visitDecision.bind(this)
+    };
+  }
+  
+  getInitialAggregator() {
+    return {
+      executionLog: [],
+      errors: [],
+      results: {},
+      timings: {},
+      joins: {},
+      criticalPath: {
+        nodes: [],
+        duration: 0
+      },
+      maxConcurrency: 0,
+      running: 0,
+      startTime: Date.now(),
+      metadata: {
+        strategy: 'parallel',
+        version: '1.0.0'
+      }
+    };
+  }
+  
+  visitStart(node: any, agg: any, context: any): Promise<void> {
+    return this.track(node, agg, context, () => {
+      agg.executionLog.push({
+        timestamp: Date.now(),
+        nodeId: node.id,
+        type: node.type,
+        label: node.label,
+        action: 'workflow_started'
+      });
+      
+      console.log(`[ParallelStrategy] Workflow started at node: ${node.label || node.id}`);
+    });
+  }
+  
+  visitEnd(node: any, agg: any, context: any): Promise<void> {
+    return this.track(node, agg, context, () => {
+      const duration = Date.now() - agg.startTime;
+      
+      agg.executionLog.push({
+        timestamp: Date.now(),
+        nodeId: node.id,
+        type: node.type,
+        label: node.label,
+        action: 'workflow_completed',
+        duration: duration
+      });
+      
+      agg.results.totalDuration = duration;
+      agg.results.status = agg.errors.length > 0 ? 'completed_with_errors' : 'success';
+      
+      console.log(`[ParallelStrategy] Workflow completed in ${duration}ms`);
+    });
+  }
+  
+  visitTask(node: any, agg: any, context: any): Promise<void> {
+    return this.track(node, agg, context, async () => {
+      const executionTime = Math.random() * 1000;
+      
+      try {
+        await simulateWork(executionTime, context.signal);
+        
+        agg.executionLog.push({
+          timestamp: Date.now(),
+          nodeId: node.id,
+          type: node.type,
+          label: node.label,
+          action: 'task_executed',
+          executionTime: executionTime
+        });
+        
+        agg.results[node.id] = {
+          status: 'success',
+          duration: executionTime,
+          output: `Task "${node.label || node.id}" completed successfully`
+        };
+        
+        console.log(`[ParallelStrategy] Task executed: ${node.label || node.id}`);
+        
+      } catch (error: any) {
+        // Cancellation is not a task failure
+        if (context.signal?.aborted) throw error;
+        
+        agg.errors.push({
+          nodeId: node.id,
+          message: error.message,
+          timestamp: Date.now()
+        });
+      }
+    });
+  }
+  
+  /**
+   * Decisions fan out: every branch runs in parallel.
+   */
+  visitDecision(node: any, agg: any, context: any): Promise<void> {
+    return this.track(node, agg, context, () => {
+      agg.executionLog.push({
+        timestamp: Date.now(),
+        nodeId: node.id,
+        type: node.type,
+        label: node.label,
+        action: 'branches_forked',
+        branches: node.handlers.filter((h: any) => h.flow === 'out').map((h: any) => h.label || h.id)
+      });
+    });
+  }
+  
+  /**
+   * Runs a visitor body and records its timing, joins and the critical path.
+   */
+  async track(node: any, agg: any, context: any, work: () => void | Promise<void>): Promise<void> {
+    const predecessors = this.getPredecessors(context).get(node.id) || [];
+    const start = Date.now() - agg.startTime;
+    
+    agg.running++;
+    agg.maxConcurrency = Math.max(agg.maxConcurrency, agg.running);
+    
+    try {
+      await work();
+    } finally {
+      agg.running--;
+    }
+    
+    const end = Date.now() - agg.startTime;
+    const timed = predecessors.filter(id => agg.timings[id]);
+    
+    // Earliest finish: the slowest dependency chain leading here plus this node
+    const critical = timed.reduce((slowest: string | null, id: string) => {
+      return !slowest || agg.timings[id].earliestFinish > agg.timings[slowest].earliestFinish ? id : slowest;
+    }, null);
+    const earliestFinish = (critical ? agg.timings[critical].earliestFinish : 0) + (end - start);
+    
+    agg.timings[node.id] = {
+      level: timed.reduce((level: number, id: string) => Math.max(level, agg.timings[id].level + 1), 0),
+      start,
+      end,
+      duration: end - start,
+      earliestFinish,
+      criticalPredecessor: critical
+    };
+    
+    if (predecessors.length > 1) {
+      const arrivals = timed.map(id => agg.timings[id].end);
+      agg.joins[node.id] = {
+        branches: predecessors,
+        waitTime: arrivals.length > 0 ? Math.max(...arrivals) - Math.min(...arrivals) : 0,
+        lastArrival: timed.reduce((last: string | null, id: string) => {
+          return !last || agg.timings[id].end > agg.timings[last].end ? id : last;
+        }, null)
+      };
+    }
+    
+    if (earliestFinish >= agg.criticalPath.duration) {
+      agg.criticalPath = {
+        nodes: this.tracePath(node.id, agg.timings),
+        duration: earliestFinish
+      };
+    }
+  }
+  
+  /**
+   * Walks critical predecessors back to the first node of the chain.
+   */
+  tracePath(nodeId: string, timings: any): string[] {
+    const path: string[] = [];
+    let current: string | null = nodeId;
+    
+    while (current) {
+      path.unshift(current);
+      current = timings[current].criticalPredecessor;
+    }
+    
+    return path;
+  }
+  
+  /**
+   * Predecessors of the graph being run, built on its first node.
+   */
+  getPredecessors(context: any): Map<string, string[]> {
+    let predecessors = this.predecessorsByGraph.get(context.links);
+    if (!predecessors) {
+      predecessors = this.buildPredecessors(context.nodes, context.links);
+      this.predecessorsByGraph.set(context.links, predecessors);
+    }
+    return predecessors;
+  }
+  
+  /**
+   * Maps every node to the distinct nodes connected into it.
+   */
+  buildPredecessors(nodes: any[], links: any[]): Map<string, string[]> {
+    const ownerByHandler = new Map<string, string>();
+    nodes.forEach((node: any) => {
+      node.handlers.forEach((h: any) => ownerByHandler.set(h.id, node.id));
+    });
+    
+    const predecessors = new Map<string, string[]>(nodes.map((node: any) => [node.id, []]));
+    links.forEach((link: any) => {
+      const source = ownerByHandler.get(link.sourceHandlerId);
+      const target = ownerByHandler.get(link.targetHandlerId);
+      if (!source || !target) return;
+      
+      const sources = predecessors.get(target)!;
+      if (!sources.includes(source)) sources.push(source);
+    });
+    
+    return predecessors;
+  }
+}
@@ -23,6 +23,7 @@ export declare class SequentialStrategy {
         end: (node: any, agg: any, context: any) => void;
         task: (node: any, agg: any, context: any) => void;
         decision: (node: any, agg: any, context: any) => void;
+        subdiagram: (node: any, agg: any, context: any) => void;
     };
     /**
      * Returns initial aggregator state.
@@ -46,10 +47,14 @@ export declare class SequentialStrategy {
      * Visits an end node.
      */
     visitEnd(node: any, agg: any, context: any): void;
+    /**
+     * Runs after the nodes of the sub-diagram's graph; records how many of them ran.
+     */
+    visitSubDiagram(node: any, agg: any, context: any): void;
     /**
      * Visits a task node - simulates task execution.
      */
-    visitTask(node: any, agg: any, context: any): void;
+    visitTask(node: any, agg: any, context: any): Promise<void>;
     /**
      * Visits a decision node - evaluates condition.
      */
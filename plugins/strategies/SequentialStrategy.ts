@@ -2,6 +2,8 @@
  * Sequential traversal strategy - executes workflow in topological order.
  * Implements depth-first traversal with cycle detection.
  */
+import { simulateWork } from './SimulatedWork.js';
+
 export class SequentialStrategy {
   static type = 'sequential';
   
@@ -70,7 +72,8 @@ export class SequentialStrategy {
       'start': this.visitStart.bind(this),
       'end': this.visitEnd.bind(this),
       'task': this.visitTask.bind(this),
-      'decision': this.visitDecision.bind(this)
+      'decision': this.visitDecision.bind(this),
+      'subdiagram': this.visitSubDiagram.bind(this)
     };
   }
   
@@ -117,7 +120,25 @@ export class SequentialStrategy {
     console.log(`[SequentialStrategy] Workflow completed in ${duration}ms`);
   }
   
-  visitTask(node: any, agg: any, context: any): void {
+  /**
+   * Runs after the nodes of the sub-diagram's graph; records how many of them ran.
+   */
+  visitSubDiagram(node: any, agg: any, context: any): void {
+    const completed = context.subDiagram ? context.subDiagram.completed.length : 0;
+    
+    agg.executionLog.push({
+      timestamp: Date.now(),
+      nodeId: node.id,
+      type: node.type,
+      label: node.label,
+      action: 'subdiagram_completed',
+      nodesRun: completed
+    });
+    
+    console.log(`[SequentialStrategy] Sub-diagram completed: ${node.label || node.id} (${completed} nodes)`);
+  }
+  
+  async visitTask(node: any, agg: any, context: any): Promise<void> {
     const startTime = Date.now();
     
     try {
@@ -126,6 +147,7 @@ export class SequentialStrategy {
       const mode = node.data.mode || 'sync';
       
       const executionTime = Math.random() * 1000;
+      await simulateWork(executionTime, context.signal);
       const success = Math.random() > 0.1;
       
       agg.executionLog.push({
@@ -166,6 +188,9 @@ export class SequentialStrategy {
       console.log(`[SequentialStrategy] Task executed: ${node.label || node.id} (${success ? 'success' : 'failed'})`);
       
     } catch (error: any) {
+      // Cancellation is not a task failure
+      if (context.signal?.aborted) throw error;
+      
       agg.errors.push({
         nodeId: node.id,
         message: error.message,
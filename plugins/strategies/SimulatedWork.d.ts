@@ -0,0 +1,9 @@
+/**
+ * Simulated task work shared by the bundled strategies.
+ * Not listed in the manifest: strategies import it directly.
+ */
+/**
+ * Waits for a simulated task duration; rejects early when the traversal is cancelled.
+ */
+export declare function simulateWork(duration: number, signal?: AbortSignal): Promise<void>;
+//# sourceMappingURL=SimulatedWork.d.ts.map
\ No newline at end of file
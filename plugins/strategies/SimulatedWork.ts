@@ -0,0 +1,27 @@
+/**
+ * Simulated task work shared by the bundled strategies.
+ * Not listed in the manifest: strategies import it directly.
+ */
+
+/**
+ * Waits for a simulated task duration; rejects early when the traversal is cancelled.
+ */
+export function simulateWork(duration: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Task cancelled'));
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, duration);
+    
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Task cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
\ No newline at end of file
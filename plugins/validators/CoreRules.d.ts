@@ -0,0 +1,39 @@
+/**
+ * Core validation rules for workflow diagrams.
+ * Each class is registered as a validation rule plugin and reports diagnostics.
+ */
+/**
+ * Start nodes begin the flow: nothing may connect into them.
+ */
+export declare class StartNodeInputsRule {
+    static type: string;
+    static severity: string;
+    validate(context: any): any[];
+}
+/**
+ * Every output branch of a decision must lead somewhere.
+ */
+export declare class DecisionBranchesRule {
+    static type: string;
+    static severity: string;
+    validate(context: any): any[];
+}
+/**
+ * Nodes that cannot be reached from any start node never run.
+ * Skipped while the diagram has no start node; nodes without handlers
+ * (e.g. groups) are never reported.
+ */
+export declare class UnreachableNodeRule {
+    static type: string;
+    static severity: string;
+    validate(context: any): any[];
+}
+/**
+ * Schema fields flagged `required` must have a value.
+ */
+export declare class RequiredFieldRule {
+    static type: string;
+    static severity: string;
+    validate(context: any): any[];
+}
+//# sourceMappingURL=CoreRules.d.ts.map
\ No newline at end of file
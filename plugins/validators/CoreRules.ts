@@ -0,0 +1,107 @@
+/**
+ * Core validation rules for workflow diagrams.
+ * Each class is registered as a validation rule plugin and reports diagnostics.
+ */
+
+/**
+ * Start nodes begin the flow: nothing may connect into them.
+ */
+export class StartNodeInputsRule {
+  static type = 'start-no-inputs';
+  static severity = 'error';
+
+  validate(context: any): any[] {
+    return context.nodes
+      .filter((node: any) => node.type === 'start')
+      .filter((node: any) => context.queries.getIncomingLinks(node.id).length > 0)
+      .map((node: any) => ({
+        nodeId: node.id,
+        message: 'Start node must not have incoming connections'
+      }));
+  }
+}
+
+/**
+ * Every output branch of a decision must lead somewhere.
+ */
+export class DecisionBranchesRule {
+  static type = 'decision-branches';
+  static severity = 'warning';
+
+  validate(context: any): any[] {
+    const connectedSources = new Set(context.links.map((link: any) => link.sourceHandlerId));
+    const reports: any[] = [];
+
+    context.nodes
+      .filter((node: any) => node.type === 'decision')
+      .forEach((node: any) => {
+        node.handlers
+          .filter((handler: any) => handler.flow === 'out' && !connectedSources.has(handler.id))
+          .forEach((handler: any) => {
+            reports.push({
+              nodeId: node.id,
+              message: `Decision branch "${handler.label || handler.id}" is not connected`
+            });
+          });
+      });
+
+    return reports;
+  }
+}
+
+/**
+ * Nodes that cannot be reached from any start node never run.
+ * Skipped while the diagram has no start node; nodes without handlers
+ * (e.g. groups) are never reported.
+ */
+export class UnreachableNodeRule {
+  static type = 'unreachable';
+  static severity = 'warning';
+
+  validate(context: any): any[] {
+    const starts = context.nodes.filter((node: any) => node.type === 'start');
+    if (starts.length === 0) return [];
+
+    const reachable = new Set(starts.map((node: any) => node.id));
+    starts.forEach((start: any) => {
+      context.queries.getDescendants(start.id).forEach((node: any) => reachable.add(node.id));
+    });
+
+    return context.nodes
+      .filter((node: any) => !reachable.has(node.id) && node.handlers.length > 0)
+      .map((node: any) => ({
+        nodeId: node.id,
+        message: 'Node is not reachable from a start node'
+      }));
+  }
+}
+
+/**
+ * Schema fields flagged `required` must have a value.
+ */
+export class RequiredFieldRule {
+  static type = 'required-field';
+  static severity = 'warning';
+
+  validate(context: any): any[] {
+    const reports: any[] = [];
+
+    context.nodes.forEach((node: any) => {
+      const schema = context.getNodeSchema(node.type) || {};
+
+      Object.keys(schema)
+        .filter(key => schema[key].required)
+        .forEach(key => {
+          const value = node.data[key];
+          if (value === undefined || value === null || value === '') {
+            reports.push({
+              nodeId: node.id,
+              message: `Required field "${schema[key].label || key}" is empty`
+            });
+          }
+        });
+    });
+
+    return reports;
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Screen reader mirror of the canvas: a keyboard-navigable outline of the graph
+ * and a live region announcing changes.
+ */
+import { EventBus } from '../core/EventBus';
+import { Store } from '../core/State';
+import { DiagramAPI } from '../core/API';
+import { Config } from '../core/Config';
+import { GraphDescription } from '../utils/GraphDescription';
+import { NodeId, ConnectionId, SelectionState, OutlineEntry, EventType } from '../core/types';
+
+/**
+ * Events after which the outline is updated (once they settle, see OUTLINE_REFRESH_DELAY).
+ * NODE_MOVED is left out: it fires on every drag frame. The reading order is
+ * refreshed by HISTORY_CHANGED once the move is recorded.
+ */
+const OUTLINE_EVENTS: EventType[] = [
+  'NODE_CREATED',
+  'NODE_UPDATED',
+  'NODE_REMOVED',
+  'CONNECTION_CREATED',
+  'CONNECTION_UPDATED',
+  'CONNECTION_REMOVED',
+  'STATE_LOADED',
+  'HISTORY_CHANGED'
+];
+
+// Changes collected until the next announcement
+interface PendingAnnouncement {
+  addedNodes: string[];
+  removedNodes: string[];
+  addedLinks: string[];
+  removedLinks: string[];
+  selection: SelectionState | null;
+  loaded: boolean;
+}
+
+/**
+ * Accessible mirror of the graph for screen reader users.
+ *
+ * The outline is a tree (visually hidden until it has focus): top-level nodes in
+ * reading order, each with the nodes it groups and its outgoing connections.
+ * Arrow keys move through it, Enter or Space selects the item on the canvas,
+ * Escape returns to the canvas.
+ *
+ * Node and connection changes and selection changes are announced through a
+ * polite live region; bursts (paste, delete) are summarized in one message.
+ */
+export class AccessibilityLayer {
+  private store: Store;
+  private api: DiagramAPI;
+  private eventBus: EventBus;
+  private canvas: SVGSVGElement;
+  private root: HTMLElement;
+  private live: HTMLElement;
+  private tree: HTMLElement;
+  private unsubscribers: (() => void)[] = [];
+  
+  // Descriptions of the items shown, kept to announce removals
+  private names = new Map<string, string>();
+  // Outline items by key, reused when the outline is updated
+  private items = new Map<string, HTMLElement>();
+  private activeKey: string | null = null;
+  private selectedKeys = new Set<string>();
+  private refreshTimer: number | null = null;
+  private pending: PendingAnnouncement | null = null;
+  
+  constructor(container: HTMLElement, canvas: SVGSVGElement, store: Store, api: DiagramAPI, eventBus: EventBus) {
+    this.store = store;
+    this.api = api;
+    this.eventBus = eventBus;
+    this.canvas = canvas;
+    
+    this.root = document.createElement('div');
+    this.root.className = 'diagram-a11y';
+    
+    this.live = document.createElement('div');
+    this.live.className = 'diagram-a11y-live';
+    this.live.setAttribute('role', 'status');
+    this.live.setAttribute('aria-live', 'polite');
+    this.live.setAttribute('aria-atomic', 'true');
+    
+    this.tree = document.createElement('ul');
+    this.tree.className = 'diagram-a11y-outline';
+    this.tree.setAttribute('role', 'tree');
+    this.tree.setAttribute('aria-multiselectable', 'true');
+    this.tree.addEventListener('keydown', e => this.handleKeyDown(e));
+    this.tree.addEventListener('click', e => this.handleClick(e));
+    
+    this.root.append(this.live, this.tree);
+    container.appendChild(this.root);
+    
+    this.canvas.setAttribute('role', 'graphics-document');
+    this.canvas.setAttribute('aria-roledescription', 'diagram');
+    this.canvas.setAttribute('aria-label', 'Diagram canvas. The diagram outline follows.');
+    
+    this.render();
+    this.subscribeToEvents();
+  }
+  
+  /**
+   * Announces a message through the live region.
+   */
+  announce(message: string): void {
+    // Screen readers skip repeated identical text; alternate a trailing space
+    this.live.textContent = this.live.textContent === message ? `${message} ` : message;
+  }
+  
+  // ========== OUTLINE ==========
+  
+  /**
+   * Updates the outline once edits pause, so bursts (typing a label, undo/redo)
+   * cost a single update.
+   */
+  private scheduleRender(): void {
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+    }
+    
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      this.render();
+    }, Config.OUTLINE_REFRESH_DELAY);
+  }
+  
+  private render(): void {
+    const hadFocus = this.tree.contains(document.activeElement);
+    const entries = GraphDescription.outline(this.store);
+    
+    const previous = this.items;
+    this.items = new Map();
+    this.names.clear();
+    this.tree.setAttribute('aria-label', entries.length > 0 ? 'Diagram outline' : 'Diagram outline, empty');
+    this.renderEntries(this.tree, entries, previous);
+    
+    const items = this.getItems();
+    if (!this.activeKey || !items.some(item => this.keyOf(item) === this.activeKey)) {
+      this.activeKey = items.length > 0 ? this.keyOf(items[0]) : null;
+    }
+    this.updateItemStates();
+    
+    if (hadFocus) this.focusItem(this.activeKey);
+  }
+  
+  /**
+   * Updates the items of a list in place. Items are matched by key, so unchanged
+   * ones keep their elements and only what changed is written to the DOM.
+   */
+  private renderEntries(list: HTMLElement, entries: ReadonlyArray<OutlineEntry>, previous: Map<string, HTMLElement>): void {
+    entries.forEach((entry, index) => {
+      const item = this.renderEntry(entry, previous);
+      const current = list.children[index] ?? null;
+      if (current !== item) list.insertBefore(item, current);
+    });
+    
+    while (list.children.length > entries.length) {
+      list.lastElementChild!.remove();
+    }
+  }
+  
+  private renderEntry(entry: OutlineEntry, previous: Map<string, HTMLElement>): HTMLElement {
+    const key = `${entry.type}:${entry.id}`;
+    this.names.set(key, entry.text);
+    
+    let item = previous.get(key);
+    if (!item) {
+      item = document.createElement('li');
+      item.setAttribute('role', 'treeitem');
+      item.dataset.key = key;
+      
+      const text = document.createElement('span');
+      text.className = 'diagram-a11y-text';
+      item.appendChild(text);
+    }
+    this.items.set(key, item);
+    
+    const label = entry.type === 'link' ? `Connection ${entry.text}` : entry.text;
+    if (item.getAttribute('aria-label') !== label) {
+      item.setAttribute('aria-label', label);
+      item.firstElementChild!.textContent = entry.text;
+    }
+    item.setAttribute('aria-level', String(entry.level));
+    
+    let group = item.querySelector<HTMLElement>(':scope > [role="group"]');
+    if (entry.children.length > 0) {
+      if (!group) {
+        group = document.createElement('ul');
+        group.setAttribute('role', 'group');
+        item.appendChild(group);
+        item.setAttribute('aria-expanded', 'true');
+      }
+      this.renderEntries(group, entry.children, previous);
+    } else if (group) {
+      group.remove();
+      item.removeAttribute('aria-expanded');
+    }
+    
+    return item;
+  }
+  
+  /**
+   * Applies the roving tabindex and the canvas selection to the items.
+   */
+  private updateItemStates(): void {
+    this.getItems().forEach(item => {
+      const key = this.keyOf(item);
+      item.tabIndex = key === this.activeKey ? 0 : -1;
+      item.setAttribute('aria-selected', String(this.selectedKeys.has(key)));
+    });
+  }
+  
+  private getItems(): HTMLElement[] {
+    return Array.from(this.tree.querySelectorAll<HTMLElement>('[role="treeitem"]'));
+  }
+  
+  private keyOf(item: HTMLElement): string {
+    return item.dataset.key!;
+  }
+  
+  private focusItem(key: string | null): void {
+    const item = this.getItems().find(i => this.keyOf(i) === key);
+    if (!item) return;
+    
+    this.activeKey = key;
+    this.updateItemStates();
+    item.focus();
+  }
+  
+  private handleKeyDown(event: KeyboardEvent): void {
+    const current = (event.target as HTMLElement).closest<HTMLElement>('[role="treeitem"]');
+    if (!current) return;
+    
+    const items = this.getItems();
+    const index = items.indexOf(current);
+    let target: HTMLElement | null | undefined;
+    
+    switch (event.key) {
+      case 'ArrowDown':
+        target = items[index + 1];
+        break;
+      case 'ArrowUp':
+        target = items[index - 1];
+        break;
+      case 'Home':
+        target = items[0];
+        break;
+      case 'End':
+        target = items[items.length - 1];
+        break;
+      case 'ArrowRight':
+        target = current.querySelector<HTMLElement>('[role="treeitem"]');
+        break;
+      case 'ArrowLeft':
+        target = current.parentElement?.closest<HTMLElement>('[role="treeitem"]');
+        break;
+      case 'Enter':
+      case ' ':
+        this.selectItem(current, event.shiftKey || event.ctrlKey || event.metaKey);
+        break;
+      case 'Escape':
+        this.canvas.focus();
+        break;
+      default:
+        return;
+    }
+    
+    event.preventDefault();
+    event.stopPropagation();
+    if (target) this.focusItem(this.keyOf(target));
+  }
+  
+  private handleClick(event: MouseEvent): void {
+    const item = (event.target as HTMLElement).closest<HTMLElement>('[role="treeitem"]');
+    if (!item) return;
+    
+    event.stopPropagation();
+    this.focusItem(this.keyOf(item));
+    this.selectItem(item, event.shiftKey || event.ctrlKey || event.metaKey);
+  }
+  
+  private selectItem(item: HTMLElement, additive: boolean): void {
+    const [type, id] = this.keyOf(item).split(/:(.*)/);
+    this.api.commands.selectObject(type as 'node' | 'link', id, additive);
+  }
+  
+  // ========== ANNOUNCEMENTS ==========
+  
+  private queue(update: (pending: PendingAnnouncement) => void): void {
+    if (!this.pending) {
+      this.pending = { addedNodes: [], removedNodes: [], addedLinks: [], removedLinks: [], selection: null, loaded: false };
+      queueMicrotask(() => this.flush());
+    }
+    update(this.pending);
+  }
+  
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) return;
+    
+    const messages: string[] = [];
+    const summarize = (verb: string, names: string[], plural: string) => {
+      if (names.length === 1) messages.push(`${verb} ${names[0]}`);
+      else if (names.length > 1) messages.push(`${verb} ${names.length} ${plural}`);
+    };
+    
+    if (pending.loaded) {
+      const nodes = this.store.getAllNodes().length;
+      const links = this.store.getAllLinks().length;
+      messages.push(`Diagram changed: ${nodes} ${nodes === 1 ? 'node' : 'nodes'}, ${links} ${links === 1 ? 'connection' : 'connections'}`);
+    } else {
+      summarize('Added', pending.addedNodes, 'nodes');
+      summarize('Deleted', pending.removedNodes, 'nodes');
+      summarize('Added connection', pending.addedLinks, 'connections');
+      summarize('Removed connection', pending.removedLinks, 'connections');
+    }
+    
+    const selection = pending.selection;
+    const removed = pending.removedNodes.length + pending.removedLinks.length > 0;
+    if (selection && !(removed && !selection.primary)) {
+      messages.push(this.describeSelection(selection));
+    }
+    
+    if (messages.length > 0) this.announce(messages.join('. '));
+  }
+  
+  private describeSelection(selection: SelectionState): string {
+    const count = selection.nodes.length + selection.links.length + selection.notes.length;
+    if (count === 0 || !selection.primary) return 'Selection cleared';
+    if (count > 1) return `${count} items selected`;
+    
+    const { type, id } = selection.primary;
+    if (type === 'node') {
+      const node = this.store.getNode(id as NodeId);
+      return node ? `Selected ${GraphDescription.describeNode(this.store, node)}` : 'Selected node';
+    }
+    if (type === 'link') {
+      const link = this.store.getLink(id as ConnectionId);
+      return link ? `Selected connection ${GraphDescription.describeLink(this.store, link)}` : 'Selected connection';
+    }
+    return 'Selected note';
+  }
+  
+  private subscribeToEvents(): void {
+    OUTLINE_EVENTS.forEach(type => {
+      this.unsubscribers.push(this.eventBus.on(type, () => this.scheduleRender()));
+    });
+    
+    this.unsubscribers.push(
+      this.eventBus.on('NODE_CREATED', node => {
+        const stored = this.store.getNode(node.id as NodeId);
+        if (stored) this.queue(p => p.addedNodes.push(GraphDescription.nodeSummary(stored)));
+      }),
+      this.eventBus.on('NODE_REMOVED', id => {
+        this.queue(p => p.removedNodes.push(this.names.get(`node:${id}`) ?? 'node'));
+      }),
+      this.eventBus.on('CONNECTION_CREATED', link => {
+        const stored = this.store.getLink(link.id as ConnectionId);
+        if (stored) this.queue(p => p.addedLinks.push(GraphDescription.describeLink(this.store, stored)));
+      }),
+      this.eventBus.on('CONNECTION_REMOVED', id => {
+        this.queue(p => p.removedLinks.push(this.names.get(`link:${id}`) ?? 'connection'));
+      }),
+      this.eventBus.on('STATE_LOADED', () => this.queue(p => { p.loaded = true; })),
+      this.eventBus.on('SELECTION_CHANGED', selection => {
+        this.selectedKeys = new Set([
+          ...selection.nodes.map(id => `node:${id}`),
+          ...selection.links.map(id => `link:${id}`)
+        ]);
+        if (selection.primary && selection.primary.type !== 'note') {
+          this.activeKey = `${selection.primary.type}:${selection.primary.id}`;
+        }
+        this.updateItemStates();
+        this.queue(p => { p.selection = selection; });
+      })
+    );
+  }
+  
+  destroy(): void {
+    if (this.refreshTimer !== null) {
+      window.clearTimeout(this.refreshTimer);
+    }
+    this.unsubscribers.forEach(unsub => unsub());
+    this.root.remove();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Breadcrumb trail of the sub-diagram navigation path.
+ */
+import { EventBus } from '../core/EventBus';
+import { DiagramAPI } from '../core/API';
+import { BreadcrumbItem } from '../core/types';
+
+/**
+ * UI widget showing the path from the main diagram to the sub-diagram shown.
+ * Clicking a level returns to it; hidden while the main diagram is shown.
+ */
+export class Breadcrumb {
+  private container: HTMLElement;
+  private api: DiagramAPI;
+  private eventBus: EventBus;
+  private unsubscribers: (() => void)[] = [];
+  
+  constructor(container: HTMLElement, api: DiagramAPI, eventBus: EventBus) {
+    this.container = container;
+    this.api = api;
+    this.eventBus = eventBus;
+    
+    this.render(this.api.queries.getBreadcrumb());
+    this.subscribeToEvents();
+  }
+  
+  private render(path: ReadonlyArray<BreadcrumbItem>): void {
+    this.container.innerHTML = '';
+    if (path.length <= 1) return;
+    
+    const nav = document.createElement('nav');
+    nav.className = 'breadcrumb';
+    nav.setAttribute('aria-label', 'Sub-diagram path');
+    
+    path.forEach((item, level) => {
+      if (level > 0) {
+        const separator = document.createElement('span');
+        separator.className = 'breadcrumb-separator';
+        separator.textContent = '›';
+        nav.appendChild(separator);
+      }
+      
+      const isCurrent = level === path.length - 1;
+      const button = document.createElement('button');
+      button.className = 'breadcrumb-item';
+      button.textContent = item.label;
+      button.disabled = isCurrent;
+      if (isCurrent) {
+        button.setAttribute('aria-current', 'page');
+      } else {
+        button.addEventListener('click', () => this.api.commands.exitSubDiagram(level));
+      }
+      nav.appendChild(button);
+    });
+    
+    this.container.appendChild(nav);
+  }
+  
+  private subscribeToEvents(): void {
+    this.unsubscribers.push(
+      this.eventBus.on('SUBDIAGRAM_ENTERED', payload => this.render(payload.path)),
+      this.eventBus.on('SUBDIAGRAM_EXITED', payload => this.render(payload.path))
+    );
+  }
+  
+  destroy(): void {
+    this.unsubscribers.forEach(unsub => unsub());
+    this.container.innerHTML = '';
+  }
+}
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Provides contextual actions based on clicked element.
  */
 import { DiagramAPI } from '../core/API';
-import { Position } from '../core/types';
+import { Position, NodeId, NodeAlignment, DistributeAxis } from '../core/types';
 
 /**
  * Menu item definition.
@@ -156,6 +156,13 @@ export class ContextMenu {
    * Gets menu items for node context.
    */
   private getNodeMenuItems(nodeId: string): MenuItem[] {
+    const node = this.api.queries.getNode(nodeId as any);
+    const isGroup = this.api.queries.getAllNodesDefinition()
+      .some(definition => definition.type === node?.type && definition.container);
+    // Align/distribute apply to a multi-selection the node is part of
+    const { nodes: selected } = this.api.queries.getSelection();
+    const arranged = selected.includes(nodeId as any) ? selected : [];
+    
     return [
       {
         label: 'Edit Label',
@@ -169,8 +176,8 @@ export class ContextMenu {
         label: 'Duplicate',
         icon: '📋',
         action: () => {
-          console.log('[ContextMenu] Duplicate node:', nodeId);
-          // TODO: Implement node duplication
+          this.selectTargetNode(nodeId);
+          this.api.commands.duplicateSelection();
         }
       },
       { label: '', divider: true, action: () => {} },
@@ -178,16 +185,51 @@ export class ContextMenu {
         label: 'Copy',
         icon: '📄',
         action: () => {
-          console.log('[ContextMenu] Copy node:', nodeId);
-          // TODO: Implement clipboard
+          this.selectTargetNode(nodeId);
+          this.api.commands.copySelection();
         }
       },
       {
         label: 'Cut',
         icon: '✂️',
         action: () => {
-          console.log('[ContextMenu] Cut node:', nodeId);
-          // TODO: Implement clipboard
+          this.selectTargetNode(nodeId);
+          this.api.commands.cutSelection();
+        }
+      },
+      { label: '', divider: true, action: () => {} },
+      {
+        label: 'Group Selection',
+        icon: '🔲',
+        action: () => {
+          this.selectTargetNode(nodeId);
+          const { groupId } = this.api.commands.groupNodes(this.api.queries.getSelection().nodes) ?? {};
+          if (groupId) this.api.commands.selectObject('node', groupId);
+        }
+      },
+      ...(isGroup ? [
+        {
+          label: node?.collapsed ? 'Expand Group' : 'Collapse Group',
+          icon: node?.collapsed ? '➕' : '➖',
+          action: () => {
+            this.api.commands.toggleGroup(nodeId as any);
+          }
+        },
+        {
+          label: 'Ungroup',
+          icon: '⬚',
+          action: () => {
+            this.api.commands.ungroupNodes(nodeId as any);
+          }
+        }
+      ] : []),
+      ...this.getArrangeMenuItems(arranged),
+      { label: '', divider: true, action: () => {} },
+      {
+        label: this.api.queries.getBreakpoints().includes(nodeId as any) ? 'Remove Breakpoint' : 'Add Breakpoint',
+        icon: '🔴',
+        action: () => {
+          this.api.commands.toggleBreakpoint(nodeId as any);
         }
       },
       { label: '', divider: true, action: () => {} },
@@ -203,6 +245,42 @@ export class ContextMenu {
     ];
   }
   
+  /**
+   * Gets align (2+ nodes) and distribute (3+ nodes) items for a multi-selection.
+   */
+  private getArrangeMenuItems(nodeIds: ReadonlyArray<NodeId>): MenuItem[] {
+    if (nodeIds.length < 2) return [];
+    
+    const align = (label: string, icon: string, alignment: NodeAlignment): MenuItem => ({
+      label,
+      icon,
+      action: () => {
+        this.api.commands.alignNodes(nodeIds, alignment);
+      }
+    });
+    
+    const distribute = (label: string, icon: string, axis: DistributeAxis): MenuItem => ({
+      label,
+      icon,
+      disabled: nodeIds.length < 3,
+      action: () => {
+        this.api.commands.distributeNodes(nodeIds, axis);
+      }
+    });
+    
+    return [
+      { label: '', divider: true, action: () => {} },
+      align('Align Left', '⇤', 'left'),
+      align('Align Center', '↔', 'center'),
+      align('Align Right', '⇥', 'right'),
+      align('Align Top', '⤒', 'top'),
+      align('Align Middle', '↕', 'middle'),
+      align('Align Bottom', '⤓', 'bottom'),
+      distribute('Distribute Horizontally', '⋯', 'horizontal'),
+      distribute('Distribute Vertically', '⋮', 'vertical')
+    ];
+  }
+  
   /**
    * Gets menu items for connection context.
    */
@@ -222,6 +300,14 @@ export class ContextMenu {
           console.log('[ContextMenu] Change path type:', linkId);
         }
       },
+      {
+        label: 'Remove Bend Points',
+        icon: '📐',
+        disabled: !this.api.queries.getLink(linkId as any)?.waypoints.length,
+        action: () => {
+          this.api.commands.updateLink({ id: linkId as any, waypoints: [] });
+        }
+      },
       { label: '', divider: true, action: () => {} },
       {
         label: 'Delete',
@@ -264,13 +350,20 @@ export class ContextMenu {
           // TODO: Create note at position
         }
       },
+      {
+        label: 'Paste',
+        icon: '📋',
+        disabled: this.api.queries.getClipboard() === null,
+        action: () => {
+          this.api.commands.paste();
+        }
+      },
       { label: '', divider: true, action: () => {} },
       {
         label: 'Select All',
         icon: '☑️',
         action: () => {
-          console.log('[ContextMenu] Select all');
-          // TODO: Implement multi-select
+          this.api.commands.selectAll();
         }
       },
       {
@@ -281,6 +374,15 @@ export class ContextMenu {
         }
       },
       { label: '', divider: true, action: () => {} },
+      {
+        label: 'Auto Layout',
+        icon: '🗂️',
+        action: () => {
+          this.api.commands.autoLayout().catch(error => {
+            console.error('[ContextMenu] Auto layout failed:', error);
+          });
+        }
+      },
       {
         label: 'Zoom to Fit',
         icon: '🔍',
@@ -298,6 +400,17 @@ export class ContextMenu {
     ];
   }
   
+  /**
+   * Makes the right-clicked node part of the selection the action applies to.
+   * Keeps an existing multi-selection that already contains the node.
+   */
+  private selectTargetNode(nodeId: string): void {
+    const { nodes } = this.api.queries.getSelection();
+    if (!nodes.includes(nodeId as any)) {
+      this.api.commands.selectObject('node', nodeId);
+    }
+  }
+  
   /**
    * Adjusts menu position to keep it on screen.
    */
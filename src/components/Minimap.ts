@@ -0,0 +1,396 @@
+/**
+ * Overview of the whole graph with the visible part of the canvas marked.
+ * Drag the viewport rectangle or click anywhere to move the canvas there.
+ */
+import * as d3 from 'd3';
+import { EventBus } from '../core/EventBus';
+import { Store } from '../core/State';
+import { Config } from '../core/Config';
+import { NodeId, Position, Rect, Transform, EventType } from '../core/types';
+
+/**
+ * Applies a canvas transform chosen on the minimap.
+ */
+export type MinimapNavigateHandler = (transform: Transform) => void;
+
+/**
+ * Events after which the simplified graph is redrawn.
+ * Transform changes only move the viewport rectangle; NODE_MOVED fires on every
+ * drag frame and only updates the moved nodes, until the history step redraws all.
+ */
+const CONTENT_EVENTS: EventType[] = [
+  'NODE_CREATED',
+  'NODE_UPDATED',
+  'NODE_REMOVED',
+  'CONNECTION_CREATED',
+  'CONNECTION_UPDATED',
+  'CONNECTION_REMOVED',
+  'STATE_LOADED',
+  'HISTORY_CHANGED'
+];
+
+interface MinimapNode extends Rect {
+  id: NodeId;
+  group: boolean;
+}
+
+interface MinimapLink {
+  id: string;
+  sourceId: NodeId;
+  targetId: NodeId;
+  source: Position;
+  target: Position;
+}
+
+/**
+ * Minimap navigator drawn in its own small SVG.
+ *
+ * Nodes are plain rectangles and connections straight lines between node
+ * centers; nodes inside collapsed groups are left out. The view fits the graph
+ * and the viewport. Updates follow RENDER_REQUESTED, at most once per frame,
+ * and never touch the main scene.
+ *
+ * @example
+ * ```typescript
+ * const minimap = new Minimap(container, canvas, store, eventBus, t => input.applyTransform(t));
+ * ```
+ */
+export class Minimap {
+  private container: HTMLElement;
+  private canvas: SVGSVGElement;
+  private store: Store;
+  private eventBus: EventBus;
+  private onNavigate: MinimapNavigateHandler;
+  private root: HTMLElement;
+  private unsubscribers: (() => void)[] = [];
+  
+  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  private groupLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private linkLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private nodeLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private viewportRect: d3.Selection<SVGRectElement, unknown, null, undefined>;
+  
+  // Drawn shapes by ID, and nodes moved since they were drawn
+  private nodes = new Map<NodeId, MinimapNode>();
+  private links = new Map<string, MinimapLink>();
+  private movedNodes = new Set<NodeId>();
+  
+  // Bounds of the drawn graph, null when empty
+  private contentBounds: Rect | null = null;
+  private contentDirty = true;
+  private frame: number | null = null;
+  // Pointer offset from the viewport center while dragging; the view is kept fixed meanwhile
+  private dragOffset: Position | null = null;
+  
+  /**
+   * Creates a new Minimap instance.
+   *
+   * @param container - HTML element to render the minimap into
+   * @param canvas - Main canvas SVG, whose size gives the viewport
+   * @param store - State store providing nodes, connections and the transform
+   * @param eventBus - Event bus for render and graph events
+   * @param onNavigate - Applies the transform chosen on the minimap
+   */
+  constructor(
+    container: HTMLElement,
+    canvas: SVGSVGElement,
+    store: Store,
+    eventBus: EventBus,
+    onNavigate: MinimapNavigateHandler
+  ) {
+    this.container = container;
+    this.canvas = canvas;
+    this.store = store;
+    this.eventBus = eventBus;
+    this.onNavigate = onNavigate;
+    
+    this.root = document.createElement('div');
+    this.root.className = 'minimap';
+    this.container.appendChild(this.root);
+    
+    // The outline of the accessibility layer covers navigation for assistive technology
+    this.svg = d3.select(this.root).append('svg')
+      .attr('width', Config.MINIMAP_WIDTH)
+      .attr('height', Config.MINIMAP_HEIGHT)
+      .attr('preserveAspectRatio', 'xMidYMid meet')
+      .attr('aria-hidden', 'true');
+    
+    this.groupLayer = this.svg.append('g').attr('class', 'minimap-groups');
+    this.linkLayer = this.svg.append('g').attr('class', 'minimap-links');
+    this.nodeLayer = this.svg.append('g').attr('class', 'minimap-nodes');
+    this.viewportRect = this.svg.append('rect').attr('class', 'minimap-viewport');
+    
+    const svgNode = this.svg.node()!;
+    svgNode.addEventListener('pointerdown', e => this.handlePointerDown(e));
+    svgNode.addEventListener('pointermove', e => this.handlePointerMove(e));
+    svgNode.addEventListener('pointerup', e => this.handlePointerUp(e));
+    svgNode.addEventListener('pointercancel', e => this.handlePointerUp(e));
+    
+    this.update();
+    this.subscribeToEvents();
+  }
+  
+  // ========== DRAWING ==========
+  
+  private scheduleUpdate(): void {
+    if (this.frame !== null) return;
+    
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.update();
+    });
+  }
+  
+  private update(): void {
+    if (this.contentDirty) {
+      this.contentDirty = false;
+      this.drawContent();
+    } else if (this.movedNodes.size > 0) {
+      this.moveContent();
+    }
+    
+    const viewport = this.getViewport();
+    this.viewportRect
+      .attr('x', viewport.x)
+      .attr('y', viewport.y)
+      .attr('width', viewport.width)
+      .attr('height', viewport.height);
+    
+    // Keep the view still under a dragging pointer
+    if (this.dragOffset) return;
+    
+    const bounds = this.contentBounds ? this.union(this.contentBounds, viewport) : viewport;
+    const padding = Config.MINIMAP_PADDING;
+    this.svg.attr('viewBox', [
+      bounds.x - padding,
+      bounds.y - padding,
+      bounds.width + padding * 2,
+      bounds.height + padding * 2
+    ].join(' '));
+  }
+  
+  private drawContent(): void {
+    const nodes: MinimapNode[] = this.store.getAllNodes()
+      .filter(node => !this.store.isNodeHidden(node.id))
+      .map(node => ({
+        id: node.id,
+        x: node.position.x,
+        y: node.position.y,
+        width: node.width,
+        height: node.height,
+        group: node.isContainer() && !node.collapsed
+      }));
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    
+    const links: MinimapLink[] = [];
+    this.store.getAllLinks().forEach(link => {
+      const sourceId = this.store.getVisibleNodeIdForHandler(link.sourceHandlerId);
+      const targetId = this.store.getVisibleNodeIdForHandler(link.targetHandlerId);
+      const source = sourceId ? byId.get(sourceId) : undefined;
+      const target = targetId ? byId.get(targetId) : undefined;
+      
+      // Connections inside a collapsed group are not shown
+      if (!source || !target || source === target) return;
+      links.push({
+        id: link.id,
+        sourceId: source.id,
+        targetId: target.id,
+        source: this.center(source),
+        target: this.center(target)
+      });
+    });
+    
+    this.placeRects(this.groupLayer.selectAll<SVGRectElement, MinimapNode>('rect')
+      .data(nodes.filter(node => node.group), d => d.id)
+      .join('rect')
+      .attr('class', 'minimap-group'));
+    
+    this.placeRects(this.nodeLayer.selectAll<SVGRectElement, MinimapNode>('rect')
+      .data(nodes.filter(node => !node.group), d => d.id)
+      .join('rect')
+      .attr('class', 'minimap-node'));
+    
+    this.placeLines(this.linkLayer.selectAll<SVGLineElement, MinimapLink>('line')
+      .data(links, d => d.id)
+      .join('line')
+      .attr('class', 'minimap-link'));
+    
+    this.nodes = byId;
+    this.links = new Map(links.map(link => [link.id, link]));
+    this.movedNodes.clear();
+    this.contentBounds = nodes.length > 0 ? nodes.reduce<Rect>((acc, node) => this.union(acc, node), nodes[0]) : null;
+  }
+  
+  /**
+   * Updates the moved nodes, the groups fitted around them and the lines
+   * attached to them, reading only those nodes and their connections.
+   */
+  private moveContent(): void {
+    const changed = new Set<NodeId>();
+    const attached = new Set<string>();
+    
+    this.movedNodes.forEach(id => {
+      // Enclosing groups may be resized without moving
+      let current = changed.has(id) ? null : this.store.getNode(id);
+      while (current && !changed.has(current.id)) {
+        changed.add(current.id);
+        
+        const shape = this.nodes.get(current.id);
+        if (shape) {
+          Object.assign(shape, { x: current.position.x, y: current.position.y, width: current.width, height: current.height });
+          this.contentBounds = this.contentBounds ? this.union(this.contentBounds, shape) : { ...shape };
+        }
+        
+        // Nodes hidden in a collapsed group still carry the lines drawn to the group
+        this.store.getLinksForNode(current.id).forEach(link => {
+          if (this.links.has(link.id)) attached.add(link.id);
+        });
+        
+        current = current.parentId ? this.store.getNode(current.parentId) : null;
+      }
+    });
+    this.movedNodes.clear();
+    
+    attached.forEach(id => {
+      const line = this.links.get(id)!;
+      line.source = this.center(this.nodes.get(line.sourceId)!);
+      line.target = this.center(this.nodes.get(line.targetId)!);
+    });
+    
+    this.placeRects(this.groupLayer.selectAll<SVGRectElement, MinimapNode>('rect').filter(d => changed.has(d.id)));
+    this.placeRects(this.nodeLayer.selectAll<SVGRectElement, MinimapNode>('rect').filter(d => changed.has(d.id)));
+    this.placeLines(this.linkLayer.selectAll<SVGLineElement, MinimapLink>('line').filter(d => attached.has(d.id)));
+  }
+  
+  private placeRects(rects: d3.Selection<SVGRectElement, MinimapNode, SVGGElement, unknown>): void {
+    rects
+      .attr('x', d => d.x)
+      .attr('y', d => d.y)
+      .attr('width', d => d.width)
+      .attr('height', d => d.height);
+  }
+  
+  private placeLines(lines: d3.Selection<SVGLineElement, MinimapLink, SVGGElement, unknown>): void {
+    lines
+      .attr('x1', d => d.source.x)
+      .attr('y1', d => d.source.y)
+      .attr('x2', d => d.target.x)
+      .attr('y2', d => d.target.y);
+  }
+  
+  // ========== NAVIGATION ==========
+  
+  private handlePointerDown(event: PointerEvent): void {
+    if (event.button !== 0) return;
+    
+    const point = this.toGraph(event);
+    const viewport = this.getViewport();
+    const center = this.center(viewport);
+    
+    // Grabbing the viewport keeps its offset; elsewhere it jumps to the pointer
+    this.dragOffset = event.target === this.viewportRect.node()
+      ? { x: point.x - center.x, y: point.y - center.y }
+      : { x: 0, y: 0 };
+    
+    this.svg.node()!.setPointerCapture(event.pointerId);
+    this.svg.classed('dragging', true);
+    event.preventDefault();
+    
+    this.centerOn(point);
+  }
+  
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.dragOffset) return;
+    this.centerOn(this.toGraph(event));
+  }
+  
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.dragOffset) return;
+    
+    this.dragOffset = null;
+    this.svg.classed('dragging', false);
+    this.svg.node()!.releasePointerCapture(event.pointerId);
+    this.scheduleUpdate();
+  }
+  
+  /**
+   * Moves the canvas so the viewport is centered at the pointer, less the drag offset.
+   */
+  private centerOn(point: Position): void {
+    const { k } = this.store.getTransform();
+    const offset = this.dragOffset ?? { x: 0, y: 0 };
+    
+    this.onNavigate({
+      k,
+      x: this.canvas.clientWidth / 2 - (point.x - offset.x) * k,
+      y: this.canvas.clientHeight / 2 - (point.y - offset.y) * k
+    });
+  }
+  
+  // ========== HELPERS ==========
+  
+  /**
+   * Part of the graph visible on the canvas, in graph coordinates.
+   */
+  private getViewport(): Rect {
+    const { k, x, y } = this.store.getTransform();
+    return {
+      x: -x / k,
+      y: -y / k,
+      width: this.canvas.clientWidth / k,
+      height: this.canvas.clientHeight / k
+    };
+  }
+  
+  private toGraph(event: PointerEvent): Position {
+    const matrix = this.svg.node()!.getScreenCTM();
+    if (!matrix) return { x: 0, y: 0 };
+    
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  }
+  
+  private center(rect: Rect): Position {
+    return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  }
+  
+  private union(a: Rect, b: Rect): Rect {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+      x,
+      y,
+      width: Math.max(a.x + a.width, b.x + b.width) - x,
+      height: Math.max(a.y + a.height, b.y + b.height) - y
+    };
+  }
+  
+  private subscribeToEvents(): void {
+    CONTENT_EVENTS.forEach(type => {
+      this.unsubscribers.push(this.eventBus.on(type, () => {
+        this.contentDirty = true;
+        this.scheduleUpdate();
+      }));
+    });
+    
+    this.unsubscribers.push(this.eventBus.on('NODE_MOVED', ({ id }) => {
+      this.movedNodes.add(id);
+      this.scheduleUpdate();
+    }));
+    
+    // The viewport changes with the canvas size as well as with the transform
+    const onResize = () => this.scheduleUpdate();
+    window.addEventListener('resize', onResize);
+    
+    this.unsubscribers.push(
+      this.eventBus.on('RENDER_REQUESTED', () => this.scheduleUpdate()),
+      () => window.removeEventListener('resize', onResize)
+    );
+  }
+  
+  destroy(): void {
+    this.unsubscribers.forEach(unsub => unsub());
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.root.remove();
+  }
+}
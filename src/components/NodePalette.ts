@@ -1,18 +1,32 @@
 /**
  * Node palette showing available node types grouped by role.
- * Supports click-to-create and drag-and-drop.
+ * Supports click-to-create and drag-and-drop (mouse, touch and pen).
  */
 import { Registry } from '../core/Registry';
 import { DiagramAPI } from '../core/API';
+import { Config } from '../core/Config';
 import { NodeRole } from '../core/types';
 
+/**
+ * DataTransfer format carrying the node type of a palette drag.
+ */
+export const NODE_TYPE_DRAG_FORMAT = 'application/node-type';
+
+/**
+ * Drops a node type at a client position.
+ * Returns false if the position is not over the canvas.
+ */
+export type NodeDropHandler = (type: string, client: { x: number; y: number }) => boolean;
+
 /**
  * Palette widget displaying available node types.
  * Nodes are grouped by role category and support both click and drag interactions.
+ * The mouse drags with native drag-and-drop; touch and pen drag a floating copy
+ * of the item, since native drag-and-drop does not start from touch.
  * 
  * @example
  * ```typescript
- * const palette = new NodePalette(container, registry, api);
+ * const palette = new NodePalette(container, registry, api, (type, point) => input.dropNode(type, point));
  * palette.refresh(); // Update after plugins load
  * ```
  */
@@ -20,6 +34,9 @@ export class NodePalette {
   private container: HTMLElement;
   private registry: Registry;
   private api: DiagramAPI;
+  private onDrop: NodeDropHandler | null;
+  // Set when a pointer drag ends, so the click that follows does not create a second node
+  private suppressClick = false;
   
   /**
    * Creates a new NodePalette instance.
@@ -27,11 +44,13 @@ export class NodePalette {
    * @param container - HTML element to render palette into
    * @param registry - Plugin registry for accessing node definitions
    * @param api - Diagram API for creating nodes
+   * @param onDrop - Creates nodes dropped by touch or pen on the canvas
    */
-  constructor(container: HTMLElement, registry: Registry, api: DiagramAPI) {
+  constructor(container: HTMLElement, registry: Registry, api: DiagramAPI, onDrop?: NodeDropHandler) {
     this.container = container;
     this.registry = registry;
     this.api = api;
+    this.onDrop = onDrop ?? null;
     
     this.render();
   }
@@ -138,7 +157,7 @@ export class NodePalette {
         const dragEvent = e as DragEvent;
         const nodeType = (e.currentTarget as HTMLElement).getAttribute('data-node-type');
         if (nodeType && dragEvent.dataTransfer) {
-          dragEvent.dataTransfer.setData('application/node-type', nodeType);
+          dragEvent.dataTransfer.setData(NODE_TYPE_DRAG_FORMAT, nodeType);
           dragEvent.dataTransfer.effectAllowed = 'copy';
           
           (e.currentTarget as HTMLElement).classList.add('dragging');
@@ -149,10 +168,16 @@ export class NodePalette {
         (e.currentTarget as HTMLElement).classList.remove('dragging');
       });
       
+      // Touch and pen drag
+      el.addEventListener('pointerdown', (e: Event) => {
+        this.startPointerDrag(e as PointerEvent, el as HTMLElement);
+      });
+      
       // Click - create node at center of viewport
       el.addEventListener('click', (e: Event) => {
         const nodeType = (e.currentTarget as HTMLElement).getAttribute('data-node-type');
         if (!nodeType) return;
+        if (this.suppressClick) return;
         
         // Create at center (400, 300) - will be adjusted by viewport transform
         this.api.commands.createNode({
@@ -166,6 +191,63 @@ export class NodePalette {
     });
   }
   
+  /**
+   * Drags a palette item with a touch or pen pointer.
+   * The drag starts once the pointer has moved beyond Config.TOUCH_SLOP; vertical
+   * swipes that start scrolling the palette cancel it.
+   * 
+   * @param event - Pointer down on the item
+   * @param item - Palette item element
+   */
+  private startPointerDrag(event: PointerEvent, item: HTMLElement): void {
+    const nodeType = item.getAttribute('data-node-type');
+    if (event.pointerType === 'mouse' || !nodeType || !this.onDrop) return;
+    
+    const start = { x: event.clientX, y: event.clientY };
+    let ghost: HTMLElement | null = null;
+    
+    const move = (e: PointerEvent) => {
+      if (e.pointerId !== event.pointerId) return;
+      
+      if (!ghost) {
+        if (Math.hypot(e.clientX - start.x, e.clientY - start.y) <= Config.TOUCH_SLOP) return;
+        item.setPointerCapture(e.pointerId);
+        ghost = item.cloneNode(true) as HTMLElement;
+        ghost.classList.add('palette-drag-ghost');
+        document.body.appendChild(ghost);
+        item.classList.add('dragging');
+      }
+      
+      ghost.style.left = `${e.clientX}px`;
+      ghost.style.top = `${e.clientY}px`;
+    };
+    
+    const end = (e: PointerEvent) => {
+      if (e.pointerId !== event.pointerId) return;
+      
+      item.removeEventListener('pointermove', move);
+      item.removeEventListener('pointerup', end);
+      item.removeEventListener('pointercancel', end);
+      if (!ghost) return;
+      
+      ghost.remove();
+      item.classList.remove('dragging');
+      if (e.type !== 'pointerup') return;
+      
+      // The click, if any, is dispatched right after pointerup
+      this.suppressClick = true;
+      window.setTimeout(() => { this.suppressClick = false; });
+      
+      if (this.onDrop!(nodeType, { x: e.clientX, y: e.clientY })) {
+        console.log(`[NodePalette] Created node via drop: ${nodeType}`);
+      }
+    };
+    
+    item.addEventListener('pointermove', move);
+    item.addEventListener('pointerup', end);
+    item.addEventListener('pointercancel', end);
+  }
+  
   /**
    * Cleans up the palette.
    */
@@ -6,7 +6,7 @@ import { EventBus } from '../core/EventBus';
 import { SelectionManager } from '../core/SelectionManager';
 import { DiagramAPI } from '../core/API';
 import { Registry } from '../core/Registry';
-import { PropertySchema, NodeData, ConnectionData } from '../core/types';
+import { PropertySchema, NodeData, ConnectionData, SelectionState } from '../core/types';
 
 /**
  * Panel for editing properties of selected graph elements.
@@ -58,6 +58,11 @@ export class PropertiesPanel {
       return;
     }
     
+    if (this.selectionManager.getSelectionSize() > 1) {
+      this.renderMultiSelectionProperties(this.selectionManager.getSelectionState());
+      return;
+    }
+    
     if (selection.type === 'node') {
       this.renderNodeProperties(selection.id);
     } else if (selection.type === 'link') {
@@ -269,6 +274,63 @@ export class PropertiesPanel {
     this.attachLinkEventListeners(linkId);
   }
   
+  /**
+   * Renders shared properties for a multi-selection.
+   * Appearance changes apply to every selected node.
+   */
+  private renderMultiSelectionProperties(state: SelectionState): void {
+    const summary = [
+      this.pluralize(state.nodes.length, 'node'),
+      this.pluralize(state.links.length, 'connection'),
+      this.pluralize(state.notes.length, 'note')
+    ].filter(Boolean).join(', ');
+    
+    let html = '<div class="properties-panel">';
+    html += '<div class="properties-header">Multiple Selection</div>';
+    html += '<div class="properties-body">';
+    html += `<p class="hint">${summary} selected</p>`;
+    
+    if (state.nodes.length > 0) {
+      // Pre-fill with the first node's colors
+      const firstNode = this.api.queries.getNode(state.nodes[0]);
+      
+      html += '<div class="property-divider"></div>';
+      html += '<div class="property-section-title">Node Appearance</div>';
+      html += `
+        <div class="property-field">
+          <label for="prop-fill">Fill Color</label>
+          <input 
+            type="color" 
+            id="prop-fill" 
+            value="${firstNode?.style.fill || '#ffffff'}"
+          />
+        </div>
+        
+        <div class="property-field">
+          <label for="prop-stroke">Stroke Color</label>
+          <input 
+            type="color" 
+            id="prop-stroke" 
+            value="${firstNode?.style.stroke || '#333333'}"
+          />
+        </div>
+      `;
+    }
+    
+    html += `
+      <div class="property-divider"></div>
+      <div class="property-actions">
+        ${state.nodes.length > 0 ? '<button id="btn-apply" class="btn-primary">Apply</button>' : ''}
+        <button id="btn-delete" class="btn-danger">Delete Selected</button>
+      </div>
+    `;
+    
+    html += '</div></div>';
+    this.container.innerHTML = html;
+    
+    this.attachMultiSelectionEventListeners(state);
+  }
+  
   private renderNoteProperties(noteId: string): void {
     this.container.innerHTML = `
       <div class="properties-panel">
@@ -358,6 +420,35 @@ export class PropertiesPanel {
     });
   }
   
+  private attachMultiSelectionEventListeners(state: SelectionState): void {
+    const applyBtn = this.container.querySelector('#btn-apply');
+    const deleteBtn = this.container.querySelector('#btn-delete');
+    
+    applyBtn?.addEventListener('click', () => {
+      const fill = (this.container.querySelector('#prop-fill') as HTMLInputElement)?.value;
+      const stroke = (this.container.querySelector('#prop-stroke') as HTMLInputElement)?.value;
+      
+      this.api.commands.updateNodes(state.nodes.map(id => ({
+        id,
+        style: { fill, stroke }
+      })));
+      
+      console.log(`[PropertiesPanel] ${state.nodes.length} nodes updated`);
+    });
+    
+    deleteBtn?.addEventListener('click', () => {
+      if (confirm('Delete all selected elements?')) {
+        this.api.commands.deleteSelection();
+        console.log('[PropertiesPanel] Selection deleted');
+      }
+    });
+  }
+  
+  private pluralize(count: number, noun: string): string {
+    if (count === 0) return '';
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+  
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
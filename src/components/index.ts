@@ -4,6 +4,10 @@
 export { InlineEditor } from './InlineEditor';
 export type { InlineEditorConfig } from './InlineEditor';
 export { ZoomControls } from './ZoomControls';
+export { Breadcrumb } from './Breadcrumb';
 export { NodePalette } from './NodePalette';
 export { PropertiesPanel } from './PropertiesPanel';
-export { ContextMenu } from './ContextMenu';
\ No newline at end of file
+export { ContextMenu } from './ContextMenu';
+export { Minimap } from './Minimap';
+export type { MinimapNavigateHandler } from './Minimap';
+export { AccessibilityLayer } from './AccessibilityLayer';
\ No newline at end of file
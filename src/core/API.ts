@@ -1,5 +1,5 @@
 /**
- * Command-Query API Facade implementing strict CQS separation.
+ * Command-Query API Facade implementing CQS separation (strict mode is opt-in).
  * Provides the public interface for external consumers with comprehensive validation.
  * FIXED: Adds handler creation when creating nodes
  */
@@ -9,6 +9,9 @@ import { Registry } from './Registry';
 import { SelectionManager } from './SelectionManager';
 import { HistoryManager } from '../services/HistoryManager';
 import { SerializationService } from '../services/SerializationService';
+import { ClipboardService, ClipboardError } from '../services/ClipboardService';
+import { ValidationService } from '../services/ValidationService';
+import { SnapService } from '../services/SnapService';
 import { 
   WidgetAPI,
   WidgetCommands,
@@ -17,18 +20,40 @@ import {
   UpdateNodePayload,
   SpawnConnectedPayload,
   UpdateLinkPayload,
+  CreateLinkOptions,
+  CreateNoteOptions,
+  CreateNodeResult,
+  SpawnConnectedResult,
+  CreateLinkResult,
+  CreateNoteResult,
+  ConnectionValidationResult,
+  SubgraphData,
+  Diagnostic,
   TraversePayload,
+  TraversalStatus,
+  AutoLayoutPayload,
+  NodeAlignment,
+  DistributeAxis,
+  GroupNodesOptions,
+  GroupNodesResult,
+  SnapOptions,
+  BreadcrumbItem,
+  SubDiagramResolver,
   NodeMetadata,
   NodeData,
   ConnectionData,
   SerializedState,
+  GraphState,
+  Selection,
+  SelectionState,
+  Dimensions,
+  Position,
   NodeId,
   ConnectionId,
   HandlerId,
   NoteId,
   createNodeId,
   createConnectionId,
-  createHandlerId,
   createNoteId
 } from './types';
 import { Node } from '../domain/models/Node';
@@ -36,6 +61,18 @@ import { Connection } from '../domain/models/Connection';
 import { Note } from '../domain/models/Note';
 import { Handler } from '../domain/models/Handler';
 import { Config } from './Config';
+import { HandlerFactory } from '../services/HandlerFactory';
+import { GraphQueryService, GraphSubset } from '../services/GraphQueryService';
+import { TraversalEngine, TraversalError } from '../services/TraversalEngine';
+import { LayoutService } from '../services/LayoutService';
+import { SubDiagramService, SubDiagramError, SubDiagramExit } from '../services/SubDiagramService';
+import { ConnectionValidator } from './validation/ConnectionValidator';
+import { deepClone } from '../utils/DeepClone';
+import { GraphDescription } from '../utils/GraphDescription';
+
+// Default size of newly created nodes
+const DEFAULT_NODE_WIDTH = 200;
+const DEFAULT_NODE_HEIGHT = 100;
 
 /**
  * Custom error for API command failures.
@@ -53,28 +90,56 @@ export class CommandError extends Error {
 
 /**
  * Main API facade implementing Command-Query Separation.
- * Commands mutate state and return void (effects communicated via events).
+ * Commands mutate state and communicate effects via events; creation commands also
+ * return the new IDs unless strict CQS mode is enabled.
  * Queries return immutable data copies with no side effects.
  */
 export class DiagramAPI implements WidgetAPI {
   readonly commands: WidgetCommands;
   readonly queries: WidgetQueries;
   
+  private transactionDepth: number = 0;
+  // Set by a nested rollback: the enclosing levels can no longer commit
+  private transactionAborted: boolean = false;
+  private handlerFactory: HandlerFactory;
+  private connectionValidator: ConnectionValidator;
+  private graphQueries: GraphQueryService;
+  private traversalEngine: TraversalEngine;
+  private layoutService: LayoutService;
+  private subDiagrams: SubDiagramService;
+  
   constructor(
     private eventBus: EventBus,
     private store: Store,
     private registry: Registry,
     private selectionManager: SelectionManager,
     private historyManager: HistoryManager,
-    private serializationService: SerializationService
+    private serializationService: SerializationService,
+    private clipboardService: ClipboardService,
+    private validationService: ValidationService,
+    private snapService: SnapService,
+    private options: { strictCQS?: boolean; resolveSubDiagram?: SubDiagramResolver; autoSizeNodes?: boolean } = {}
   ) {
+    this.handlerFactory = new HandlerFactory(registry);
+    this.connectionValidator = new ConnectionValidator(store, registry);
+    this.graphQueries = new GraphQueryService(store);
+    this.subDiagrams = new SubDiagramService(
+      eventBus,
+      store,
+      selectionManager,
+      serializationService,
+      historyManager,
+      options.resolveSubDiagram
+    );
+    this.traversalEngine = new TraversalEngine(eventBus, store, registry, this.subDiagrams);
+    this.layoutService = new LayoutService(store);
     this.commands = this.createCommandsAPI();
     this.queries = this.createQueriesAPI();
   }
   
   /**
    * Creates the Commands API namespace.
-   * All commands are void-returning and emit events on completion.
+   * All commands emit events on completion; creation commands return the created IDs.
    */
   private createCommandsAPI(): WidgetCommands {
     return {
@@ -83,7 +148,7 @@ export class DiagramAPI implements WidgetAPI {
         this.eventBus.emit('PLUGINS_LOADED', undefined);
       },
       
-      createNode: (payload: CreateNodePayload) => {
+      createNode: (payload: CreateNodePayload): CreateNodeResult | void => {
         try {
           this.validateCreateNodePayload(payload);
           
@@ -96,11 +161,12 @@ export class DiagramAPI implements WidgetAPI {
             );
           }
           
-          // Generate unique ID
-          const nodeId = createNodeId(`node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+          // Use caller-supplied ID or generate a unique one
+          const nodeId = this.resolveNodeId(payload.id, 'createNode');
           
-          // Create handlers based on node type
-          const handlers = this.createHandlersForNode(nodeId, payload.type);
+          // Create handlers based on node type, placed for the node's size
+          const size = this.getInitialSize(payload);
+          const handlers = this.createHandlersForNode(nodeId, payload.type, payload.data || {}, size);
           
           const node = new Node(
             nodeId,
@@ -110,15 +176,25 @@ export class DiagramAPI implements WidgetAPI {
             payload.label || '',
             payload.data || {},
             handlers,
-            200, // default width
-            100  // default height
+            size.width,
+            size.height
           );
           
+          if (payload.parentId !== undefined) {
+            this.validateParent(payload.parentId, 'createNode');
+            node.parentId = payload.parentId;
+          }
+          
           this.store.addNode(node);
           this.historyManager.save();
           
           console.log(`[API] Node created: ${nodeId} with ${handlers.length} handlers`);
           
+          return this.result<CreateNodeResult>({
+            nodeId,
+            handlerIds: handlers.map(h => h.id)
+          });
+          
         } catch (error) {
           console.error('[API] createNode failed:', error);
           throw error instanceof CommandError ? error : new CommandError(
@@ -161,6 +237,12 @@ export class DiagramAPI implements WidgetAPI {
           }
           
           this.store.updateNode(payload.id, payload);
+          if (payload.data !== undefined) {
+            this.refreshHandlersForNode(payload.id);
+          }
+          if (payload.label !== undefined) {
+            this.autoSizeNode(payload.id);
+          }
           this.historyManager.save();
           
           console.log(`[API] Node updated: ${payload.id}`);
@@ -175,10 +257,43 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
-      spawnNodeConnected: (payload: SpawnConnectedPayload) => {
+      resizeNode: (id: NodeId, size: Dimensions) => {
+        try {
+          this.validateSize(size, 'resizeNode');
+          
+          const node = this.store.getNode(id);
+          if (!node) {
+            throw new CommandError(`Node ${id} not found`, 'resizeNode');
+          }
+          
+          if (node.isContainer()) {
+            throw new CommandError(`Node ${id} is a group and sized by its children`, 'resizeNode');
+          }
+          
+          this.store.resizeNode(id, this.clampSize(size));
+          this.historyManager.save();
+          
+          console.log(`[API] Node resized: ${id} (${node.width}×${node.height})`);
+          
+        } catch (error) {
+          console.error('[API] resizeNode failed:', error);
+          throw error instanceof CommandError ? error : new CommandError(
+            'Failed to resize node',
+            'resizeNode',
+            error
+          );
+        }
+      },
+      
+      spawnNodeConnected: (payload: SpawnConnectedPayload): SpawnConnectedResult | void => {
         try {
           this.validateSpawnConnectedPayload(payload);
           
+          const start = this.connectionValidator.canStartFrom(payload.sourceHandlerId);
+          if (!start.valid) {
+            throw new CommandError(start.reason || 'Invalid source handler', 'spawnNodeConnected', { rule: start.rule });
+          }
+          
           const definition = this.registry.getNodeDefinition(payload.type);
           if (!definition) {
             throw new CommandError(
@@ -188,7 +303,10 @@ export class DiagramAPI implements WidgetAPI {
           }
           
           // Create new node
-          const nodeId = createNodeId(`node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+          const nodeId = this.resolveNodeId(payload.id, 'spawnNodeConnected');
+          const requestedConnId = payload.connectionId
+            ? this.resolveConnectionId(payload.connectionId, 'spawnNodeConnected')
+            : null;
           
           // Create handlers
           const handlers = this.createHandlersForNode(nodeId, payload.type);
@@ -201,34 +319,38 @@ export class DiagramAPI implements WidgetAPI {
             '',
             {},
             handlers,
-            200,
-            100
+            DEFAULT_NODE_WIDTH,
+            DEFAULT_NODE_HEIGHT
           );
           
           this.store.addNode(node);
           
-          // Find first input handler on new node
-          const targetHandler = node.handlers.find(h => 
-            h.flow === 'in' || h.flow === 'any'
+          // Connect to the first handler of the new node that passes the connection rules
+          const targetHandler = node.handlers.find(h =>
+            this.connectionValidator.validate(payload.sourceHandlerId, h.id).valid
           );
           
+          let connectionId: ConnectionId | null = null;
+          
           if (targetHandler) {
             // Get default connection type
             const connDef = this.registry.getConnectionDefinition('default') || 
                            this.registry.getAllConnectionDefinitions()[0];
             
             if (connDef) {
-              const connId = createConnectionId(`conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+              const connId = requestedConnId || this.resolveConnectionId(undefined, 'spawnNodeConnected');
+              const oriented = this.connectionValidator.validate(payload.sourceHandlerId, targetHandler.id);
               
               const connection = new Connection(
                 connId,
                 'default',
                 connDef,
-                createHandlerId(payload.sourceHandlerId),
-                targetHandler.id
+                oriented.sourceHandlerId!,
+                oriented.targetHandlerId!
               );
               
               this.store.addLink(connection);
+              connectionId = connId;
             }
           }
           
@@ -236,6 +358,12 @@ export class DiagramAPI implements WidgetAPI {
           
           console.log(`[API] Node spawned and connected: ${nodeId}`);
           
+          return this.result<SpawnConnectedResult>({
+            nodeId,
+            handlerIds: node.handlers.map(h => h.id),
+            connectionId
+          });
+          
         } catch (error) {
           console.error('[API] spawnNodeConnected failed:', error);
           throw error instanceof CommandError ? error : new CommandError(
@@ -246,53 +374,44 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
-      createLink: (sourceHandlerId: HandlerId, targetHandlerId: HandlerId) => {
+      createLink: (
+        sourceHandlerId: HandlerId,
+        targetHandlerId: HandlerId,
+        options: CreateLinkOptions = {}
+      ): CreateLinkResult | void => {
         try {
-          // Validate handlers exist
-          const sourcePos = this.store.getHandlerAbsolutePosition(sourceHandlerId);
-          const targetPos = this.store.getHandlerAbsolutePosition(targetHandlerId);
+          const connectionType = options.type || 'default';
           
-          if (!sourcePos) {
-            throw new CommandError(
-              `Source handler ${sourceHandlerId} not found`,
-              'createLink'
-            );
-          }
+          // Get connection type (fall back to the first registered one for the default type)
+          const connDef = this.registry.hasConnectionType(connectionType)
+            ? this.registry.getConnectionDefinition(connectionType)
+            : (options.type ? null : this.registry.getAllConnectionDefinitions()[0] ?? null);
           
-          if (!targetPos) {
-            throw new CommandError(
-              `Target handler ${targetHandlerId} not found`,
-              'createLink'
-            );
-          }
-          
-          // Prevent self-connection
-          if (sourceHandlerId === targetHandlerId) {
+          if (!connDef) {
             throw new CommandError(
-              'Cannot connect handler to itself',
+              options.type ? `Connection type "${options.type}" not registered` : 'No connection type available',
               'createLink'
             );
           }
           
-          // Get default connection type
-          const connDef = this.registry.getConnectionDefinition('default') || 
-                         this.registry.getAllConnectionDefinitions()[0];
-          
-          if (!connDef) {
+          // Validate against connection rules (flow, roles, fan-in/out, duplicates, node types)
+          const validation = this.connectionValidator.validate(sourceHandlerId, targetHandlerId, connectionType);
+          if (!validation.valid) {
             throw new CommandError(
-              'No connection type available',
-              'createLink'
+              validation.reason || 'Invalid connection',
+              'createLink',
+              { rule: validation.rule, sourceHandlerId, targetHandlerId }
             );
           }
           
-          const connId = createConnectionId(`conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+          const connId = this.resolveConnectionId(options.id, 'createLink');
           
           const connection = new Connection(
             connId,
-            'default',
+            connectionType,
             connDef,
-            sourceHandlerId,
-            targetHandlerId
+            validation.sourceHandlerId!,
+            validation.targetHandlerId!
           );
           
           this.store.addLink(connection);
@@ -300,6 +419,8 @@ export class DiagramAPI implements WidgetAPI {
           
           console.log(`[API] Link created: ${connId}`);
           
+          return this.result<CreateLinkResult>({ connectionId: connId });
+          
         } catch (error) {
           console.error('[API] createLink failed:', error);
           throw error instanceof CommandError ? error : new CommandError(
@@ -356,14 +477,14 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
-      createNote: (x: number, y: number) => {
+      createNote: (x: number, y: number, options: CreateNoteOptions = {}): CreateNoteResult | void => {
         try {
-          const noteId = createNoteId(`note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+          const noteId = this.resolveNoteId(options.id, 'createNote');
           
           const note = new Note(
             noteId,
             { x, y },
-            'New Note'
+            options.text ?? 'New Note'
           );
           
           this.store.addNote(note);
@@ -371,9 +492,11 @@ export class DiagramAPI implements WidgetAPI {
           
           console.log(`[API] Note created: ${noteId}`);
           
+          return this.result<CreateNoteResult>({ noteId });
+          
         } catch (error) {
           console.error('[API] createNote failed:', error);
-          throw new CommandError('Failed to create note', 'createNote', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to create note', 'createNote', error);
         }
       },
       
@@ -420,6 +543,50 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
+      beginTransaction: () => {
+        this.beginTransaction();
+      },
+      
+      commitTransaction: () => {
+        this.commitTransaction();
+      },
+      
+      rollbackTransaction: () => {
+        this.rollbackTransaction();
+      },
+      
+      transaction: <T>(fn: () => T): T => {
+        this.beginTransaction();
+        const level = this.transactionDepth;
+        
+        // Only roll back this level if fn did not already close it
+        const abort = (error: unknown) => {
+          if (this.transactionDepth >= level) this.rollbackTransaction();
+          throw error;
+        };
+        
+        let result: T;
+        try {
+          result = fn();
+        } catch (error) {
+          return abort(error);
+        }
+        
+        // Async callbacks: settle the transaction when the promise does
+        if (result && typeof (result as any).then === 'function') {
+          return (result as any).then(
+            (value: unknown) => {
+              this.commitTransaction();
+              return value;
+            },
+            abort
+          ) as T;
+        }
+        
+        this.commitTransaction();
+        return result;
+      },
+      
       zoomIn: () => {
         try {
           const transform = this.store.getTransform();
@@ -465,12 +632,14 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
-      selectObject: (type: 'node' | 'link', id: string) => {
+      selectObject: (type: 'node' | 'link' | 'note', id: string, additive: boolean = false) => {
         try {
           if (type === 'node') {
-            this.selectionManager.selectNode(createNodeId(id));
+            this.selectionManager.selectNode(createNodeId(id), additive);
           } else if (type === 'link') {
-            this.selectionManager.selectLink(createConnectionId(id));
+            this.selectionManager.selectLink(createConnectionId(id), additive);
+          } else if (type === 'note') {
+            this.selectionManager.selectNote(createNoteId(id), additive);
           }
           
           console.log(`[API] Selected ${type}: ${id}`);
@@ -479,6 +648,30 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
+      selectObjects: (items: ReadonlyArray<Selection>, additive: boolean = false) => {
+        try {
+          this.selectionManager.selectMany(items, additive);
+          console.log(`[API] Selected ${items.length} object(s)`);
+        } catch (error) {
+          console.error('[API] selectObjects failed:', error);
+        }
+      },
+      
+      selectAll: () => {
+        try {
+          const items: Selection[] = [
+            ...this.store.getAllNodes().map(n => ({ type: 'node' as const, id: n.id })),
+            ...this.store.getAllLinks().map(l => ({ type: 'link' as const, id: l.id })),
+            ...this.store.getAllNotes().map(n => ({ type: 'note' as const, id: n.id }))
+          ];
+          
+          this.selectionManager.selectMany(items);
+          console.log(`[API] Selected all: ${items.length} object(s)`);
+        } catch (error) {
+          console.error('[API] selectAll failed:', error);
+        }
+      },
+      
       deselectAll: () => {
         try {
           this.selectionManager.clearSelection();
@@ -488,9 +681,145 @@ export class DiagramAPI implements WidgetAPI {
         }
       },
       
+      deleteSelection: () => {
+        try {
+          const { nodes, links, notes } = this.selectionManager.getSelectionState();
+          if (nodes.length === 0 && links.length === 0 && notes.length === 0) {
+            return;
+          }
+          
+          this.selectionManager.clearSelection();
+          
+          // Links first: removing a node already drops its connected links
+          links.forEach(id => {
+            if (this.store.getLink(id)) this.store.removeLink(id);
+          });
+          nodes.forEach(id => {
+            if (this.store.getNode(id)) this.store.removeNode(id);
+          });
+          notes.forEach(id => this.store.removeNote(id));
+          
+          this.historyManager.save();
+          
+          console.log(`[API] Selection deleted: ${nodes.length} node(s), ${links.length} link(s), ${notes.length} note(s)`);
+          
+        } catch (error) {
+          console.error('[API] deleteSelection failed:', error);
+          throw new CommandError('Failed to delete selection', 'deleteSelection', error);
+        }
+      },
+      
+      updateNodes: (payloads: ReadonlyArray<UpdateNodePayload>) => {
+        try {
+          payloads.forEach(payload => {
+            this.validateUpdateNodePayload(payload);
+            
+            if (!this.store.getNode(payload.id)) {
+              throw new CommandError(
+                `Node ${payload.id} not found`,
+                'updateNodes'
+              );
+            }
+          });
+          
+          payloads.forEach(payload => {
+            this.store.updateNode(payload.id, payload);
+            if (payload.data !== undefined) {
+              this.refreshHandlersForNode(payload.id);
+            }
+            if (payload.label !== undefined) {
+              this.autoSizeNode(payload.id);
+            }
+          });
+          this.historyManager.save();
+          
+          console.log(`[API] Nodes updated: ${payloads.length}`);
+          
+        } catch (error) {
+          console.error('[API] updateNodes failed:', error);
+          throw error instanceof CommandError ? error : new CommandError(
+            'Failed to update nodes',
+            'updateNodes',
+            error
+          );
+        }
+      },
+      
+      copySelection: () => {
+        try {
+          const fragment = this.clipboardService.copy();
+          if (!fragment) {
+            console.warn('[API] Nothing to copy');
+            return;
+          }
+          
+          this.clipboardService.writeToSystemClipboard(fragment);
+          console.log('[API] Selection copied');
+        } catch (error) {
+          console.error('[API] copySelection failed:', error);
+          throw new CommandError('Failed to copy selection', 'copySelection', error);
+        }
+      },
+      
+      cutSelection: () => {
+        try {
+          const fragment = this.clipboardService.cut();
+          if (!fragment) {
+            console.warn('[API] Nothing to cut');
+            return;
+          }
+          
+          this.clipboardService.writeToSystemClipboard(fragment);
+          this.historyManager.save();
+          
+          console.log('[API] Selection cut');
+        } catch (error) {
+          console.error('[API] cutSelection failed:', error);
+          throw new CommandError('Failed to cut selection', 'cutSelection', error);
+        }
+      },
+      
+      paste: (data?: SerializedState | string) => {
+        try {
+          const result = this.clipboardService.paste(data);
+          if (result.nodes.length === 0 && result.notes.length === 0) {
+            return;
+          }
+          
+          this.historyManager.save();
+          
+          console.log(`[API] Pasted ${result.nodes.length} node(s), ${result.connections.length} link(s), ${result.notes.length} note(s)`);
+        } catch (error) {
+          console.error('[API] paste failed:', error);
+          throw new CommandError(
+            error instanceof ClipboardError ? error.message : 'Failed to paste',
+            'paste',
+            error
+          );
+        }
+      },
+      
+      duplicateSelection: () => {
+        try {
+          const result = this.clipboardService.duplicate();
+          if (result.nodes.length === 0 && result.notes.length === 0) {
+            return;
+          }
+          
+          this.historyManager.save();
+          
+          console.log(`[API] Duplicated ${result.nodes.length} node(s), ${result.notes.length} note(s)`);
+        } catch (error) {
+          console.error('[API] duplicateSelection failed:', error);
+          throw new CommandError('Failed to duplicate selection', 'duplicateSelection', error);
+        }
+      },
+      
       importState: (data: SerializedState) => {
         try {
           const state = this.serializationService.deserialize(data);
+          // The imported document replaces the whole path, not just the sub-diagram shown
+          this.subDiagrams.reset();
           this.store.setState(state);
           this.historyManager.reset();
           this.historyManager.save();
@@ -506,33 +835,24 @@ export class DiagramAPI implements WidgetAPI {
       traverseDiagram: async (payload: TraversePayload) => {
         try {
           this.validateTraversePayload(payload);
-          
-          const strategy = this.registry.getStrategy(payload.strategy);
-          if (!strategy) {
-            this.eventBus.emit('TRAVERSE_ERROR', {
-              message: `Strategy "${payload.strategy}" not found`,
-              code: 'STRATEGY_NOT_FOUND'
-            });
-            return;
+          // The graph is about to be replaced by the sub-diagram being opened
+          if (this.subDiagrams.isEntering()) {
+            throw new TraversalError('Cannot traverse while a sub-diagram is being opened', 'SUBDIAGRAM_ENTERING');
           }
           
-          const nodes = this.store.getAllNodes();
-          const links = this.store.getAllLinks();
-          
-          const sortedNodes = strategy.sortNodes([...nodes as any], [...links as any]);
-          const visitors = strategy.getVisitors();
-          let aggregator = strategy.getInitialAggregator();
+          const outcome = await this.traversalEngine.run(payload.strategy, {
+            signal: payload.signal,
+            paused: payload.paused,
+            variables: payload.variables,
+            concurrency: payload.concurrency,
+            recurse: payload.recurse
+          });
           
-          for (const node of sortedNodes) {
-            const visitor = visitors[node.type];
-            if (visitor) {
-              visitor(node, aggregator, { nodes, links });
-            }
-          }
+          if (outcome.cancelled) return;
           
           this.eventBus.emit('TRAVERSE_COMPLETED', {
             strategy: payload.strategy,
-            result: aggregator
+            result: outcome.result
           });
           
           console.log(`[API] Traversal completed: ${payload.strategy}`);
@@ -542,79 +862,437 @@ export class DiagramAPI implements WidgetAPI {
           const errorMsg = error instanceof Error ? error.message : 'Traversal failed';
           this.eventBus.emit('TRAVERSE_ERROR', {
             message: errorMsg,
-            code: 'TRAVERSAL_ERROR'
+            code: error instanceof TraversalError ? error.code : 'TRAVERSAL_ERROR'
+          });
+        }
+      },
+      
+      pauseTraversal: () => {
+        this.traversalEngine.pause();
+      },
+      
+      resumeTraversal: () => {
+        this.traversalEngine.resume();
+      },
+      
+      stepOver: () => {
+        this.traversalEngine.stepOver();
+      },
+      
+      stepInto: () => {
+        this.traversalEngine.stepInto();
+      },
+      
+      cancelTraversal: () => {
+        this.traversalEngine.cancel();
+      },
+      
+      setBreakpoint: (nodeId: NodeId, enabled: boolean = true) => {
+        if (!this.store.getNode(nodeId)) {
+          throw new CommandError(`Node ${nodeId} not found`, 'setBreakpoint');
+        }
+        this.traversalEngine.setBreakpoint(nodeId, enabled);
+      },
+      
+      toggleBreakpoint: (nodeId: NodeId) => {
+        if (!this.store.getNode(nodeId)) {
+          throw new CommandError(`Node ${nodeId} not found`, 'toggleBreakpoint');
+        }
+        this.traversalEngine.toggleBreakpoint(nodeId);
+      },
+      
+      clearBreakpoints: () => {
+        this.traversalEngine.clearBreakpoints();
+      },
+      
+      autoLayout: async (payload: AutoLayoutPayload = {}) => {
+        try {
+          this.validateAutoLayoutPayload(payload);
+          
+          const positions = this.layoutService.compute({
+            algorithm: payload.algorithm ?? 'layered',
+            direction: payload.direction ?? this.layoutService.inferDirection(),
+            spacing: {
+              node: payload.spacing?.node ?? Config.LAYOUT_NODE_SPACING,
+              layer: payload.spacing?.layer ?? Config.LAYOUT_LAYER_SPACING
+            }
           });
+          
+          const duration = payload.animate === false ? 0 : Config.LAYOUT_ANIMATION_DURATION;
+          await this.layoutService.animate(positions, duration);
+          
+          // Intermediate frames are not saved: the whole layout is one undo step
+          this.historyManager.save();
+          
+          console.log(`[API] Auto layout applied: ${payload.algorithm ?? 'layered'} (${positions.size} nodes)`);
+          
+        } catch (error) {
+          console.error('[API] autoLayout failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to apply layout', 'autoLayout', error);
+        }
+      },
+      
+      alignNodes: (nodeIds: ReadonlyArray<NodeId>, alignment: NodeAlignment) => {
+        try {
+          if (!['left', 'center', 'right', 'top', 'middle', 'bottom'].includes(alignment)) {
+            throw new CommandError(`Unknown alignment "${alignment}"`, 'alignNodes');
+          }
+          this.validateArrangedNodes(nodeIds, 2, 'alignNodes');
+          
+          this.applyPositions(this.layoutService.computeAlignment(nodeIds, alignment));
+          
+          console.log(`[API] Nodes aligned: ${alignment} (${nodeIds.length} nodes)`);
+          
+        } catch (error) {
+          console.error('[API] alignNodes failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to align nodes', 'alignNodes', error);
+        }
+      },
+      
+      distributeNodes: (nodeIds: ReadonlyArray<NodeId>, axis: DistributeAxis) => {
+        try {
+          if (axis !== 'horizontal' && axis !== 'vertical') {
+            throw new CommandError(`Unknown axis "${axis}"`, 'distributeNodes');
+          }
+          this.validateArrangedNodes(nodeIds, 3, 'distributeNodes');
+          
+          this.applyPositions(this.layoutService.computeDistribution(nodeIds, axis));
+          
+          console.log(`[API] Nodes distributed: ${axis} (${nodeIds.length} nodes)`);
+          
+        } catch (error) {
+          console.error('[API] distributeNodes failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to distribute nodes', 'distributeNodes', error);
+        }
+      },
+      
+      // ===== Groups =====
+      
+      groupNodes: (nodeIds: ReadonlyArray<NodeId>, options: GroupNodesOptions = {}): GroupNodesResult | void => {
+        try {
+          if (nodeIds.length === 0) {
+            throw new CommandError('At least one node is required', 'groupNodes');
+          }
+          
+          const members = nodeIds.map(id => {
+            const member = this.store.getNode(id);
+            if (!member) {
+              throw new CommandError(`Node ${id} not found`, 'groupNodes', { nodeId: id });
+            }
+            return member;
+          });
+          
+          const type = options.type ?? 'group';
+          const definition = this.registry.getNodeDefinition(type);
+          if (!definition) {
+            throw new CommandError(`Node type "${type}" not registered`, 'groupNodes');
+          }
+          
+          // The new group takes the place of its members in the hierarchy
+          const parentId = members[0].parentId;
+          const groupId = this.resolveNodeId(undefined, 'groupNodes');
+          const group = new Node(
+            groupId,
+            type,
+            definition,
+            {
+              x: Math.min(...members.map(m => m.position.x)) - Config.GROUP_PADDING,
+              y: Math.min(...members.map(m => m.position.y)) - Config.GROUP_PADDING - Config.GROUP_HEADER_HEIGHT
+            },
+            options.label ?? 'Group',
+            {},
+            this.createHandlersForNode(groupId, type),
+            DEFAULT_NODE_WIDTH,
+            DEFAULT_NODE_HEIGHT
+          );
+          
+          if (!group.isContainer()) {
+            throw new CommandError(`Node type "${type}" is not a container`, 'groupNodes');
+          }
+          group.parentId = parentId && !nodeIds.includes(parentId) ? parentId : null;
+          
+          this.store.addNode(group);
+          members.forEach(member => this.store.setNodeParent(member.id, groupId));
+          if (options.collapsed) {
+            this.store.setNodeCollapsed(groupId, true);
+          }
+          this.historyManager.save();
+          
+          console.log(`[API] Group created: ${groupId} with ${members.length} node(s)`);
+          
+          return this.result<GroupNodesResult>({ groupId });
+          
+        } catch (error) {
+          console.error('[API] groupNodes failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to group nodes', 'groupNodes', error);
+        }
+      },
+      
+      ungroupNodes: (groupId: NodeId) => {
+        try {
+          const group = this.store.getNode(groupId);
+          if (!group || !group.isContainer()) {
+            throw new CommandError(`Group ${groupId} not found`, 'ungroupNodes');
+          }
+          
+          // Children move up one level before the group itself is removed
+          this.store.getChildNodeIds(groupId).forEach(childId => {
+            this.store.setNodeParent(childId, group.parentId);
+          });
+          this.store.removeNode(groupId);
+          this.historyManager.save();
+          
+          console.log(`[API] Group removed: ${groupId}`);
+          
+        } catch (error) {
+          console.error('[API] ungroupNodes failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to ungroup nodes', 'ungroupNodes', error);
+        }
+      },
+      
+      setNodeParent: (nodeId: NodeId, parentId: NodeId | null) => {
+        try {
+          if (!this.store.getNode(nodeId)) {
+            throw new CommandError(`Node ${nodeId} not found`, 'setNodeParent');
+          }
+          
+          if (parentId !== null) {
+            this.validateParent(parentId, 'setNodeParent');
+            if (parentId === nodeId || this.store.getDescendantIds(nodeId).includes(parentId)) {
+              throw new CommandError('A node cannot be placed inside itself', 'setNodeParent', { nodeId, parentId });
+            }
+          }
+          
+          this.store.setNodeParent(nodeId, parentId);
+          this.historyManager.save();
+          
+        } catch (error) {
+          console.error('[API] setNodeParent failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to set node parent', 'setNodeParent', error);
         }
+      },
+      
+      collapseGroup: (groupId: NodeId) => {
+        this.setGroupCollapsed(groupId, true, 'collapseGroup');
+      },
+      
+      expandGroup: (groupId: NodeId) => {
+        this.setGroupCollapsed(groupId, false, 'expandGroup');
+      },
+      
+      toggleGroup: (groupId: NodeId) => {
+        const group = this.store.getNode(groupId);
+        this.setGroupCollapsed(groupId, !group?.collapsed, 'toggleGroup');
+      },
+      
+      // ===== Sub-diagrams =====
+      
+      enterSubDiagram: async (nodeId: NodeId) => {
+        try {
+          this.assertCanNavigate('enterSubDiagram');
+          await this.subDiagrams.enter(nodeId);
+          
+        } catch (error) {
+          console.error('[API] enterSubDiagram failed:', error);
+          throw error instanceof CommandError ? error : new CommandError(
+            error instanceof SubDiagramError ? error.message : 'Failed to enter sub-diagram',
+            'enterSubDiagram',
+            error
+          );
+        }
+      },
+      
+      exitSubDiagram: (level?: number) => {
+        try {
+          const depth = this.subDiagrams.getDepth();
+          const target = level ?? depth - 1;
+          if (!Number.isInteger(target) || target < 0 || target > depth) {
+            throw new CommandError(`Invalid breadcrumb level ${level}`, 'exitSubDiagram', { depth });
+          }
+          this.assertCanNavigate('exitSubDiagram');
+          
+          // Embedded graphs are written back into their node, one undo step per level
+          while (this.subDiagrams.getDepth() > target) {
+            this.subDiagrams.exit(exit => {
+              if (exit.diagramId !== null || !exit.changed || !this.store.getNode(exit.nodeId)) return;
+              
+              this.store.updateNode(exit.nodeId, { data: { diagram: exit.state } });
+              this.refreshHandlersForNode(exit.nodeId);
+              this.historyManager.save();
+            });
+          }
+          
+        } catch (error) {
+          console.error('[API] exitSubDiagram failed:', error);
+          throw error instanceof CommandError ? error : new CommandError('Failed to exit sub-diagram', 'exitSubDiagram', error);
+        }
+      },
+      
+      setSnapping: (options: Partial<SnapOptions>) => {
+        const invalid = Object.entries(options || {}).filter(([, value]) => typeof value !== 'boolean');
+        if (!options || invalid.length > 0) {
+          throw new CommandError('Snapping options must be booleans', 'setSnapping', { invalid: invalid.map(([key]) => key) });
+        }
+        
+        this.snapService.setOptions(options);
       }
     };
   }
   
   /**
-   * Creates handlers for a node based on its type.
-   * This is the key fix - handlers need to be created!
+   * Navigation replaces the graph shown: not while it is traversed or edited in a transaction.
    */
-  private createHandlersForNode(nodeId: NodeId, nodeType: string): Handler[] {
-    const handlers: Handler[] = [];
-    
-    // Get all registered handler types
-    const handlerDefinitions = this.registry.getAllHandlerDefinitions();
-    
-    if (handlerDefinitions.length === 0) {
-      console.warn('[API] No handler definitions registered');
-      return handlers;
+  private assertCanNavigate(command: string): void {
+    if (this.traversalEngine.isRunning()) {
+      throw new CommandError('Cannot navigate while a traversal is running', command);
     }
-    
-    // Define handler layout based on node type
-    const layouts: Record<string, Array<{type: string, offset: {x: number, y: number}, role: 'source' | 'target' | ''}>> = {
-      'start': [
-        { type: 'output', offset: { x: 160, y: 40 }, role: 'source' }  // Right side
-      ],
-      'end': [
-        { type: 'input', offset: { x: 0, y: 40 }, role: 'target' }  // Left side
-      ],
-      'task': [
-        { type: 'input', offset: { x: 0, y: 40 }, role: 'target' },    // Left side
-        { type: 'output', offset: { x: 160, y: 40 }, role: 'source' }  // Right side
-      ],
-      'decision': [
-        { type: 'input', offset: { x: 80, y: 0 }, role: 'target' },    // Top
-        { type: 'output', offset: { x: 160, y: 40 }, role: 'source' }, // Right (true)
-        { type: 'output', offset: { x: 80, y: 80 }, role: 'source' }   // Bottom (false)
-      ]
-    };
-    
-    const layout = layouts[nodeType] || [
-      { type: 'input', offset: { x: 0, y: 40 }, role: 'target' as const },
-      { type: 'output', offset: { x: 160, y: 40 }, role: 'source' as const }
-    ];
-    
-    // Create handlers based on layout
-    layout.forEach((spec, index) => {
-      const handlerDef = this.registry.getHandlerDefinition(spec.type);
-      
-      if (!handlerDef) {
-        console.warn(`[API] Handler type "${spec.type}" not registered, skipping`);
-        return;
+    if (this.subDiagrams.isEntering()) {
+      throw new CommandError('Cannot navigate while a sub-diagram is being opened', command);
+    }
+    if (this.transactionDepth > 0) {
+      throw new CommandError('Cannot navigate inside a transaction', command);
+    }
+  }
+  
+  /**
+   * Collapses or expands a group; collapsing deselects the nodes it hides.
+   */
+  private setGroupCollapsed(groupId: NodeId, collapsed: boolean, command: string): void {
+    try {
+      const group = this.store.getNode(groupId);
+      if (!group || !group.isContainer()) {
+        throw new CommandError(`Group ${groupId} not found`, command);
       }
       
-      const handlerId = createHandlerId(`${nodeId}_handler_${spec.type}_${index}`);
+      if (group.collapsed === collapsed) return;
       
-      const handler = new Handler(
-        handlerId,
-        spec.type,
-        handlerDef,
-        spec.offset,
-        '', // label
-        spec.role
-      );
+      this.store.setNodeCollapsed(groupId, collapsed);
+      if (collapsed) {
+        const hidden = new Set<string>(this.store.getDescendantIds(groupId));
+        const selected = this.selectionManager.getSelectedItems();
+        const remaining = selected.filter(item => !(item.type === 'node' && hidden.has(item.id)));
+        if (remaining.length !== selected.length) {
+          this.selectionManager.selectMany(remaining);
+        }
+      }
+      this.historyManager.save();
       
-      handlers.push(handler);
-    });
+      console.log(`[API] Group ${collapsed ? 'collapsed' : 'expanded'}: ${groupId}`);
+      
+    } catch (error) {
+      console.error(`[API] ${command} failed:`, error);
+      throw error instanceof CommandError ? error : new CommandError('Failed to change group state', command, error);
+    }
+  }
+  
+  /**
+   * Creates handlers for a node from the layout declared by its plugin.
+   */
+  private createHandlersForNode(
+    nodeId: NodeId,
+    nodeType: string,
+    data: Record<string, unknown> = {},
+    size: Dimensions = { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT }
+  ): Handler[] {
+    const handlers = this.handlerFactory.createHandlers(nodeId, nodeType, data, size);
     
     console.log(`[API] Created ${handlers.length} handlers for node type "${nodeType}"`);
     return handlers;
   }
   
+  /**
+   * Writes an edited embedded graph back into its node in a parent graph held
+   * outside the store (see SubDiagramService.getRootState), as exitSubDiagram does.
+   */
+  private writeBackSubDiagram(parent: GraphState, exit: SubDiagramExit): void {
+    const node: Node | undefined = parent.nodes.find((n: Node) => n.id === exit.nodeId);
+    if (exit.diagramId !== null || !exit.changed || !node) return;
+    
+    node.data = { ...node.data, diagram: exit.state };
+    if (!this.handlerFactory.isDataDriven(node.type)) return;
+    
+    const handlers = this.handlerFactory.regenerateHandlers(node.id, node.type, node.data, node.getDimensions(), node.handlers);
+    const keptIds = new Set<string>(handlers.map(h => h.id));
+    const removedIds = new Set<string>(node.handlers.filter(h => !keptIds.has(h.id)).map(h => h.id));
+    
+    node.handlers.splice(0, node.handlers.length, ...handlers);
+    parent.links = parent.links.filter((link: Connection) =>
+      !removedIds.has(link.sourceHandlerId) && !removedIds.has(link.targetHandlerId)
+    );
+  }
+  
+  /**
+   * Regenerates the handlers of data-driven nodes after their data changed.
+   * Handler IDs are kept where possible; links on removed handlers are dropped.
+   */
+  private refreshHandlersForNode(id: NodeId): void {
+    const node = this.store.getNode(id);
+    if (!node || !this.handlerFactory.isDataDriven(node.type)) return;
+    
+    const handlers = this.handlerFactory.regenerateHandlers(
+      node.id,
+      node.type,
+      node.data,
+      node.getDimensions(),
+      node.handlers
+    );
+    this.store.setNodeHandlers(id, handlers);
+  }
+  
+  /**
+   * Size of a new node: the requested size, or the default size widened to the
+   * label when auto-sizing is enabled.
+   */
+  private getInitialSize(payload: CreateNodePayload): Dimensions {
+    if (payload.width !== undefined || payload.height !== undefined) {
+      const size = { width: payload.width ?? DEFAULT_NODE_WIDTH, height: payload.height ?? DEFAULT_NODE_HEIGHT };
+      this.validateSize(size, 'createNode');
+      return this.clampSize(size);
+    }
+    
+    const size = { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT };
+    return this.options.autoSizeNodes ? { ...size, width: this.getLabelWidth(payload.label || '') } : size;
+  }
+  
+  /**
+   * Fits the width of a node to its label (WidgetConfig.autoSizeNodes only).
+   */
+  private autoSizeNode(id: NodeId): void {
+    const node = this.store.getNode(id);
+    if (!this.options.autoSizeNodes || !node || node.isContainer()) return;
+    
+    const width = this.getLabelWidth(node.label, node.style.fontSize);
+    if (width !== node.width) {
+      this.store.resizeNode(id, { width, height: node.height });
+    }
+  }
+  
+  /**
+   * Estimates the node width a label needs: text plus padding on both sides,
+   * rounded up to the 8px module, from the default width up to Config.NODE_AUTO_MAX_WIDTH.
+   */
+  private getLabelWidth(label: string, fontSize: number = Config.DEFAULT_FONT_SIZE): number {
+    const text = label.length * fontSize * Config.AVERAGE_CHAR_WIDTH + Config.NODE_PADDING * 2;
+    const width = Math.ceil(text / Config.MODULE) * Config.MODULE;
+    return Math.min(Config.NODE_AUTO_MAX_WIDTH, Math.max(DEFAULT_NODE_WIDTH, width));
+  }
+  
+  private clampSize(size: Dimensions): Dimensions {
+    return {
+      width: Math.max(Config.NODE_MIN_WIDTH, Math.round(size.width)),
+      height: Math.max(Config.NODE_MIN_HEIGHT, Math.round(size.height))
+    };
+  }
+  
+  /**
+   * Moves nodes to computed positions at once and records a single undo step.
+   */
+  private applyPositions(positions: Map<NodeId, Position>): void {
+    this.layoutService.finish();
+    positions.forEach((position, id) => this.store.moveNode(id, position));
+    this.historyManager.save();
+  }
+  
   /**
    * Creates the Queries API namespace.
    */
@@ -636,7 +1314,8 @@ export class DiagramAPI implements WidgetAPI {
             const ctor = (def as any).constructor;
             return Object.freeze({
               type: ctor.type,
-              role: ctor.role
+              role: ctor.role,
+              container: !!(def.container ?? ctor.container)
             });
           });
         } catch (error) {
@@ -667,7 +1346,11 @@ export class DiagramAPI implements WidgetAPI {
       
       getGraphData: (): Readonly<SerializedState> => {
         try {
-          return Object.freeze(this.serializationService.serialize());
+          // Inside a sub-diagram the document includes the edits of every open level
+          const state = this.subDiagrams.getDepth() > 0
+            ? this.subDiagrams.getRootState((parent, exit) => this.writeBackSubDiagram(parent, exit))
+            : this.serializationService.serialize();
+          return Object.freeze(state);
         } catch (error) {
           console.error('[API] getGraphData failed:', error);
           return Object.freeze({
@@ -681,10 +1364,277 @@ export class DiagramAPI implements WidgetAPI {
             notes: {}
           });
         }
+      },
+      
+      getSelection: (): SelectionState => {
+        return this.selectionManager.getSelectionState();
+      },
+      
+      canConnect: (
+        sourceHandlerId: HandlerId,
+        targetHandlerId: HandlerId,
+        connectionType?: string
+      ): ConnectionValidationResult => {
+        return Object.freeze(this.connectionValidator.validate(sourceHandlerId, targetHandlerId, connectionType));
+      },
+      
+      getClipboard: (): Readonly<SerializedState> | null => {
+        const fragment = this.clipboardService.getContent();
+        return fragment ? deepClone(fragment) : null;
+      },
+      
+      // ===== Graph structure =====
+      
+      getNodeByHandler: (handlerId: HandlerId): Readonly<NodeData> | null => {
+        const node = this.graphQueries.getNodeForHandler(handlerId);
+        return node ? node.getData() : null;
+      },
+      
+      getIncomingLinks: (nodeId: NodeId): ReadonlyArray<Readonly<ConnectionData>> => {
+        return this.toLinkData(this.graphQueries.getIncomingLinks(nodeId));
+      },
+      
+      getOutgoingLinks: (nodeId: NodeId): ReadonlyArray<Readonly<ConnectionData>> => {
+        return this.toLinkData(this.graphQueries.getOutgoingLinks(nodeId));
+      },
+      
+      getPredecessors: (nodeId: NodeId): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getPredecessors(nodeId));
+      },
+      
+      getSuccessors: (nodeId: NodeId): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getSuccessors(nodeId));
+      },
+      
+      getAncestors: (nodeId: NodeId): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getAncestors(nodeId));
+      },
+      
+      getDescendants: (nodeId: NodeId): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getDescendants(nodeId));
+      },
+      
+      getShortestPath: (fromNodeId: NodeId, toNodeId: NodeId): Readonly<SubgraphData> | null => {
+        const path = this.graphQueries.getShortestPath(fromNodeId, toNodeId);
+        return path ? this.toSubgraphData(path) : null;
+      },
+      
+      getConnectedComponents: (): ReadonlyArray<ReadonlyArray<Readonly<NodeData>>> => {
+        return Object.freeze(this.graphQueries.getConnectedComponents().map(nodes => this.toNodeData(nodes)));
+      },
+      
+      getCycles: (): ReadonlyArray<ReadonlyArray<Readonly<NodeData>>> => {
+        return Object.freeze(this.graphQueries.getCycles().map(nodes => this.toNodeData(nodes)));
+      },
+      
+      getRoots: (): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getRoots());
+      },
+      
+      getLeaves: (): ReadonlyArray<Readonly<NodeData>> => {
+        return this.toNodeData(this.graphQueries.getLeaves());
+      },
+      
+      getSubgraph: (nodeIds: ReadonlyArray<NodeId>): Readonly<SubgraphData> => {
+        return this.toSubgraphData(this.graphQueries.getSubgraph(nodeIds));
+      },
+      
+      // ===== Groups =====
+      
+      getChildren: (groupId: NodeId): ReadonlyArray<Readonly<NodeData>> => {
+        const nodes = this.store.getChildNodeIds(groupId)
+          .map(id => this.store.getNode(id))
+          .filter((node): node is Node => node !== null);
+        return this.toNodeData(nodes);
+      },
+      
+      // ===== Sub-diagrams =====
+      
+      getBreadcrumb: (): ReadonlyArray<BreadcrumbItem> => {
+        return Object.freeze(this.subDiagrams.getPath().map(item => Object.freeze(item)));
+      },
+      
+      // ===== Editing =====
+      
+      getSnapping: (): Readonly<SnapOptions> => {
+        return Object.freeze(this.snapService.getOptions());
+      },
+      
+      // ===== Accessibility =====
+      
+      getOutline: (): string => {
+        return GraphDescription.formatOutline(GraphDescription.outline(this.store));
+      },
+      
+      // ===== Traversal =====
+      
+      getTraversalStatus: (): TraversalStatus => {
+        return this.traversalEngine.getStatus();
+      },
+      
+      getBreakpoints: (): ReadonlyArray<NodeId> => {
+        return Object.freeze(this.traversalEngine.getBreakpoints());
+      },
+      
+      // ===== Validation =====
+      
+      getDiagnostics: (elementId?: NodeId | ConnectionId): ReadonlyArray<Diagnostic> => {
+        return this.validationService.getDiagnostics(elementId);
       }
     };
   }
   
+  // ========== QUERY HELPERS ==========
+  
+  private toNodeData(nodes: ReadonlyArray<Readonly<Node>>): ReadonlyArray<Readonly<NodeData>> {
+    return Object.freeze(nodes.map(node => node.getData()));
+  }
+  
+  private toLinkData(links: ReadonlyArray<Readonly<Connection>>): ReadonlyArray<Readonly<ConnectionData>> {
+    return Object.freeze(links.map(link => link.getData()));
+  }
+  
+  private toSubgraphData(subset: GraphSubset): Readonly<SubgraphData> {
+    return Object.freeze({
+      nodes: this.toNodeData(subset.nodes),
+      connections: this.toLinkData(subset.connections)
+    });
+  }
+  
+  // ========== ID & RESULT HELPERS ==========
+  
+  /**
+   * Returns a command result, or nothing in strict CQS mode.
+   */
+  private result<T>(value: T): T | void {
+    if (this.options.strictCQS) return;
+    return Object.freeze(value);
+  }
+  
+  /**
+   * Validates a caller-supplied node ID, or generates a unique one.
+   */
+  private resolveNodeId(id: string | undefined, command: string): NodeId {
+    if (id === undefined) {
+      return createNodeId(`node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+    }
+    
+    this.validateSuppliedId(id, command);
+    if (this.store.getNode(id as NodeId)) {
+      throw new CommandError(`Node ID "${id}" already exists`, command);
+    }
+    return createNodeId(id);
+  }
+  
+  /**
+   * Validates a caller-supplied connection ID, or generates a unique one.
+   */
+  private resolveConnectionId(id: string | undefined, command: string): ConnectionId {
+    if (id === undefined) {
+      return createConnectionId(`conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+    }
+    
+    this.validateSuppliedId(id, command);
+    if (this.store.getLink(id as ConnectionId)) {
+      throw new CommandError(`Connection ID "${id}" already exists`, command);
+    }
+    return createConnectionId(id);
+  }
+  
+  /**
+   * Validates a caller-supplied note ID, or generates a unique one.
+   */
+  private resolveNoteId(id: string | undefined, command: string): NoteId {
+    if (id === undefined) {
+      return createNoteId(`note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+    }
+    
+    this.validateSuppliedId(id, command);
+    if (this.store.getNote(id as NoteId)) {
+      throw new CommandError(`Note ID "${id}" already exists`, command);
+    }
+    return createNoteId(id);
+  }
+  
+  private validateSuppliedId(id: string, command: string): void {
+    if (typeof id !== 'string' || id.trim() === '') {
+      throw new CommandError('Supplied ID must be a non-empty string', command);
+    }
+  }
+  
+  // ========== TRANSACTIONS ==========
+  
+  /**
+   * Opens a transaction: history saves and render requests are held back until commit.
+   * Transactions can be nested; only the outermost commit records the history step.
+   */
+  private beginTransaction(): void {
+    this.transactionDepth++;
+    this.historyManager.beginBatch();
+    this.eventBus.hold('RENDER_REQUESTED');
+    
+    console.log(`[API] Transaction started (depth ${this.transactionDepth})`);
+  }
+  
+  /**
+   * Closes the innermost transaction.
+   * The outermost commit records one combined history step and requests one render.
+   * A level enclosing a rolled back one cannot commit: it is rolled back and the commit throws.
+   */
+  private commitTransaction(): void {
+    if (this.transactionDepth === 0) {
+      throw new CommandError('No transaction in progress', 'commitTransaction');
+    }
+    
+    if (this.transactionAborted) {
+      this.rollbackTransaction();
+      throw new CommandError('Transaction was aborted by a nested rollback', 'commitTransaction');
+    }
+    
+    this.transactionDepth--;
+    this.historyManager.commitBatch();
+    this.eventBus.release('RENDER_REQUESTED');
+    
+    if (this.transactionDepth === 0) {
+      console.log('[API] Transaction committed');
+    }
+  }
+  
+  /**
+   * Aborts the innermost transaction. Enclosing levels are marked aborted and the
+   * state from before the outermost one is restored when that level ends.
+   */
+  private rollbackTransaction(): void {
+    if (this.transactionDepth === 0) {
+      throw new CommandError('No transaction in progress', 'rollbackTransaction');
+    }
+    
+    this.transactionDepth--;
+    if (this.transactionDepth > 0) {
+      this.transactionAborted = true;
+      this.eventBus.release('RENDER_REQUESTED');
+      console.log(`[API] Transaction aborted (depth ${this.transactionDepth + 1})`);
+      return;
+    }
+    
+    this.transactionAborted = false;
+    try {
+      this.historyManager.rollbackBatch();
+      
+      // Drop selected items that no longer exist after the rollback
+      const remaining = this.selectionManager.getSelectedItems().filter(item =>
+        item.type === 'node' ? !!this.store.getNode(item.id as NodeId) :
+        item.type === 'link' ? !!this.store.getLink(item.id as ConnectionId) :
+        !!this.store.getNote(item.id as NoteId)
+      );
+      this.selectionManager.selectMany(remaining);
+    } finally {
+      this.eventBus.release('RENDER_REQUESTED');
+    }
+    
+    console.log('[API] Transaction rolled back');
+  }
+  
   // ========== VALIDATION HELPERS ==========
   
   private validateCreateNodePayload(payload: CreateNodePayload): void {
@@ -701,6 +1651,35 @@ export class DiagramAPI implements WidgetAPI {
     }
   }
   
+  private validateSize(size: Dimensions, command: string): void {
+    if (!size || typeof size.width !== 'number' || typeof size.height !== 'number' ||
+        !isFinite(size.width) || !isFinite(size.height)) {
+      throw new CommandError('Width and height must be finite numbers', command, { size });
+    }
+  }
+  
+  private validateArrangedNodes(nodeIds: ReadonlyArray<NodeId>, minimum: number, command: string): void {
+    const missing = nodeIds.filter(id => !this.store.getNode(id));
+    if (missing.length > 0) {
+      throw new CommandError(`Node ${missing[0]} not found`, command, { missing });
+    }
+    
+    if (new Set(nodeIds).size < minimum) {
+      throw new CommandError(`At least ${minimum} nodes are required`, command, { count: nodeIds.length });
+    }
+  }
+  
+  private validateParent(parentId: NodeId, command: string): void {
+    const parent = this.store.getNode(parentId);
+    if (!parent) {
+      throw new CommandError(`Parent node ${parentId} not found`, command);
+    }
+    
+    if (!parent.isContainer()) {
+      throw new CommandError(`Node ${parentId} is not a container`, command, { type: parent.type });
+    }
+  }
+  
   private validateUpdateNodePayload(payload: UpdateNodePayload): void {
     if (!payload.id) {
       throw new CommandError('Node ID is required', 'updateNode');
@@ -725,11 +1704,37 @@ export class DiagramAPI implements WidgetAPI {
     if (!payload.id) {
       throw new CommandError('Link ID is required', 'updateLink');
     }
+    
+    if (payload.waypoints !== undefined && (
+      !Array.isArray(payload.waypoints) ||
+      payload.waypoints.some(p => !p || !Number.isFinite(p.x) || !Number.isFinite(p.y))
+    )) {
+      throw new CommandError('Waypoints must be an array of positions', 'updateLink', payload.waypoints);
+    }
+  }
+  
+  private validateAutoLayoutPayload(payload: AutoLayoutPayload): void {
+    if (payload.algorithm !== undefined && payload.algorithm !== 'layered' && payload.algorithm !== 'tree') {
+      throw new CommandError(`Unknown layout algorithm "${payload.algorithm}"`, 'autoLayout');
+    }
+    
+    if (payload.direction !== undefined && payload.direction !== 'LR' && payload.direction !== 'TB') {
+      throw new CommandError(`Unknown layout direction "${payload.direction}"`, 'autoLayout');
+    }
+    
+    const { node, layer } = payload.spacing ?? {};
+    if ([node, layer].some(value => value !== undefined && (!Number.isFinite(value) || value < 0))) {
+      throw new CommandError('Layout spacing must be a non-negative number', 'autoLayout', payload.spacing);
+    }
   }
   
   private validateTraversePayload(payload: TraversePayload): void {
     if (!payload.strategy || typeof payload.strategy !== 'string') {
       throw new CommandError('Strategy name is required', 'traverseDiagram');
     }
+    
+    if (payload.concurrency !== undefined && (!Number.isInteger(payload.concurrency) || payload.concurrency < 1)) {
+      throw new CommandError('Concurrency must be a positive integer', 'traverseDiagram', { concurrency: payload.concurrency });
+    }
   }
 }
\ No newline at end of file
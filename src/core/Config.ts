@@ -4,8 +4,11 @@
 export const Config = {
   // Sizing (8px module)
   MODULE: 8,
-  NODE_MIN_WIDTH: 160,
+  NODE_MIN_WIDTH: 160,   // Shape templates and handler offsets are drawn at the minimum size
   NODE_MIN_HEIGHT: 80,
+  NODE_AUTO_MAX_WIDTH: 480,  // Widest node sized to its label
+  RESIZE_HANDLE_SIZE: 8,
+  WAYPOINT_RADIUS: 5,  // Bend point handles on selected connections
   NODE_PADDING: 16,
   HANDLER_SIZE: 12,
   HANDLER_SPACING: 24,
@@ -15,17 +18,60 @@ export const Config = {
   GRID_COLOR: '#e0e0e0',
   GRID_STROKE_WIDTH: 0.5,
   
+  // Snapping
+  SNAP_THRESHOLD: 6,  // Screen pixels within which a dragged edge or center snaps to a guide
+  SNAP_GUIDE_RANGE: 800,  // Nodes farther away than this are not aligned with
+  GUIDE_COLOR: '#e91e63',
+  
+  // Keyboard
+  NUDGE_STEP: 1,  // Arrow-key move in graph units; with Shift the move is GRID_SIZE
+  FOCUS_MARGIN: 40,  // Screen pixels kept around a node brought into view by keyboard focus
+  
+  // Accessibility
+  OUTLINE_REFRESH_DELAY: 250,  // Milliseconds the screen reader outline waits for a burst of edits to settle
+  
+  // Touch and pen
+  TOUCH_SLOP: 8,  // Screen pixels a touch may move and still count as a tap or long press
+  LONG_PRESS_DELAY: 500,  // Milliseconds a touch is held still to open the context menu
+  DOUBLE_TAP_DELAY: 300,
+  COARSE_HIT_SIZE: 40,  // Handler and connection hit areas on coarse pointers (touch targets at 100% zoom)
+  
+  // Minimap
+  MINIMAP_WIDTH: 200,
+  MINIMAP_HEIGHT: 140,
+  MINIMAP_PADDING: 40,  // Graph units shown around the graph and the viewport
+  
   // Zoom
   ZOOM_MIN: 0.1,
   ZOOM_MAX: 3.0,
   ZOOM_STEP: 0.1,
   
+  // Groups
+  GROUP_PADDING: 24,
+  GROUP_HEADER_HEIGHT: 32,
+  GROUP_COLLAPSED_WIDTH: 200,
+  GROUP_COLLAPSED_HEIGHT: 100,
+  GROUP_FILL: '#f5f7fa',
+  
+  // Layout
+  LAYOUT_NODE_SPACING: 40,
+  LAYOUT_LAYER_SPACING: 80,
+  LAYOUT_ANIMATION_DURATION: 400,
+  
+  // Sub-diagrams
+  SUBDIAGRAM_MAX_DEPTH: 8,  // Nesting limit when traversals recurse
+  
   // History
   HISTORY_MAX_DEPTH: 50,
   
   // Rendering
   CLEARANCE: 20,  // Connection clearance from nodes
   CORNER_RADIUS: 8,  // Orthogonal path corners
+  PARALLEL_EDGE_SPACING: 6,  // Gap between orthogonal connections sharing a channel
+  LINE_JUMP_SIZE: 5,  // Radius of the hop a horizontal connection draws where it crosses a vertical one
+  ROUTE_MAX_OBSTACLES: 60,  // Above this many nodes around a connection, it falls back to the plain smooth step
+  RENDER_MARGIN: 200,  // Screen pixels drawn beyond the viewport edges, so panning shows no empty border
+  DETAIL_ZOOM_MIN: 0.4,  // Below this zoom nodes are plain shapes, without labels, icons or handlers
   
   // Colors
   DEFAULT_NODE_FILL: '#ffffff',
@@ -34,8 +80,18 @@ export const Config = {
   DEFAULT_LINK_WIDTH: 2,
   SELECTION_COLOR: '#0066cc',
   GHOST_CONNECTION_COLOR: '#999999',
+  VALID_CONNECTION_COLOR: '#2e7d32',
+  INVALID_CONNECTION_COLOR: '#d32f2f',
+  DIAGNOSTIC_ERROR_COLOR: '#d32f2f',
+  DIAGNOSTIC_WARNING_COLOR: '#f9a825',
+  DIAGNOSTIC_INFO_COLOR: '#1976d2',
+  DIAGNOSTIC_BADGE_RADIUS: 8,
+  ACTIVE_NODE_COLOR: '#ff9800',
+  PAUSED_NODE_COLOR: '#e65100',
+  BREAKPOINT_COLOR: '#e53935',
   
   // Text
   DEFAULT_FONT_SIZE: 14,
-  DEFAULT_FONT_FAMILY: 'Inter, system-ui, sans-serif'
+  DEFAULT_FONT_FAMILY: 'Inter, system-ui, sans-serif',
+  AVERAGE_CHAR_WIDTH: 0.6  // In em, estimates label widths without a DOM
 } as const;
\ No newline at end of file
@@ -5,9 +5,12 @@ import { EventType, EventPayloadMap, EventCallback, UnsubscribeFn } from './type
 
 export class EventBus {
   private listeners: Map<EventType, Set<EventCallback<any>>>;
+  // Held events: hold count and whether an emit was swallowed while held
+  private held: Map<EventType, { count: number; pending: boolean; payload: any }>;
 
   constructor() {
     this.listeners = new Map();
+    this.held = new Map();
   }
   
   on<T extends EventType>(
@@ -43,6 +46,13 @@ emit<T extends EventType>(
   event: T, 
   payload: T extends keyof EventPayloadMap ? EventPayloadMap[T] : never
 ): void {
+  const hold = this.held.get(event);
+  if (hold) {
+    hold.pending = true;
+    hold.payload = payload;
+    return;
+  }
+  
   const callbacks = this.listeners.get(event);
   if (callbacks) {
     callbacks.forEach(callback => {
@@ -55,8 +65,39 @@ emit<T extends EventType>(
   }
 }
   
+  /**
+   * Holds back an event: emits are coalesced until the matching release().
+   * Holds can be nested.
+   */
+  hold(event: EventType): void {
+    const hold = this.held.get(event);
+    if (hold) {
+      hold.count++;
+    } else {
+      this.held.set(event, { count: 1, pending: false, payload: undefined });
+    }
+  }
+  
+  /**
+   * Releases a held event. When the last hold is released and the event was
+   * emitted meanwhile, it is emitted once with the latest payload.
+   */
+  release(event: EventType): void {
+    const hold = this.held.get(event);
+    if (!hold) return;
+    
+    hold.count--;
+    if (hold.count > 0) return;
+    
+    this.held.delete(event);
+    if (hold.pending) {
+      this.emit(event, hold.payload);
+    }
+  }
+  
   clear(): void {
     this.listeners.clear();
+    this.held.clear();
   }
   
   hasListeners(event: EventType): boolean {
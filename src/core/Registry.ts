@@ -7,6 +7,7 @@ import {
   HandlerPluginDefinition,
   StrategyPluginDefinition,
   ConnectionPluginDefinition,
+  ValidationRulePluginDefinition,
   NodeRole
 } from './types';
 import { PluginValidator, PluginCategory } from './validation/PluginValidator';
@@ -35,6 +36,7 @@ export class Registry {
   private handlers: Map<string, HandlerPluginDefinition>;
   private strategies: Map<string, StrategyPluginDefinition>;
   private connections: Map<string, ConnectionPluginDefinition>;
+  private validators: Map<string, ValidationRulePluginDefinition>;
   private validator: PluginValidator;
   
   constructor() {
@@ -42,6 +44,7 @@ export class Registry {
     this.handlers = new Map();
     this.strategies = new Map();
     this.connections = new Map();
+    this.validators = new Map();
     this.validator = new PluginValidator();
   }
   
@@ -368,6 +371,67 @@ export class Registry {
     return this.connections.has(type);
   }
   
+  // ========== VALIDATION RULE PLUGINS ==========
+  
+  /**
+   * Registers a validation rule plugin definition.
+   * 
+   * @param definition - Validation rule instance to register
+   * @throws {PluginRegistrationError} If plugin fails validation
+   */
+  registerValidator(definition: ValidationRulePluginDefinition): void {
+    if (!definition) {
+      throw new TypeError('Validation rule definition cannot be null or undefined');
+    }
+    
+    const ctor = (definition as any).constructor;
+    const type = ctor.type;
+    
+    if (!type || typeof type !== 'string') {
+      throw new PluginRegistrationError(
+        'Validation rule plugin must have static type property',
+        'unknown',
+        'validator'
+      );
+    }
+    
+    const validation = this.validator.validate(definition, 'validator');
+    if (!validation.valid && validation.error) {
+      throw new PluginRegistrationError(
+        `Invalid validation rule plugin "${validation.error.plugin}": missing ${validation.error.missing.join(', ')}`,
+        type,
+        'validator',
+        validation.error.missing
+      );
+    }
+    
+    if (this.validators.has(type)) {
+      console.warn(`[Registry] Validation rule "${type}" is already registered. Overwriting.`);
+    }
+    
+    this.validators.set(type, definition);
+    console.log(`[Registry] Registered validation rule: ${type}`);
+  }
+  
+  /**
+   * Removes a validation rule.
+   * 
+   * @param type - Rule type identifier
+   * @returns True if the rule was registered
+   */
+  unregisterValidator(type: string): boolean {
+    return this.validators.delete(type);
+  }
+  
+  /**
+   * Gets all registered validation rule definitions.
+   * 
+   * @returns Array of all validation rules
+   */
+  getAllValidators(): ValidationRulePluginDefinition[] {
+    return Array.from(this.validators.values());
+  }
+  
   // ========== UTILITY ==========
   
   /**
@@ -379,6 +443,7 @@ export class Registry {
     this.handlers.clear();
     this.strategies.clear();
     this.connections.clear();
+    this.validators.clear();
     console.log('[Registry] All plugins cleared');
   }
   
@@ -387,12 +452,13 @@ export class Registry {
    * 
    * @returns Count of plugins by category
    */
-  getStats(): { nodes: number; handlers: number; strategies: number; connections: number } {
+  getStats(): { nodes: number; handlers: number; strategies: number; connections: number; validators: number } {
     return {
       nodes: this.nodes.size,
       handlers: this.handlers.size,
       strategies: this.strategies.size,
-      connections: this.connections.size
+      connections: this.connections.size,
+      validators: this.validators.size
     };
   }
 }
\ No newline at end of file
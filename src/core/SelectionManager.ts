@@ -1,80 +1,195 @@
 /**
  * [cite_start]Manages the selection state of graph elements[cite: 335].
+ * Supports multi-selection: any number of nodes, links and notes can be selected at once.
  */
 import { EventBus } from './EventBus';
-import { Selection, NodeId, ConnectionId, NoteId } from './types';
+import { Selection, SelectionState, NodeId, ConnectionId, NoteId } from './types';
+
+type SelectionType = Selection['type'];
 
 export class SelectionManager {
-  private selection: Selection | null = null;
+  // Insertion-ordered; the last entry is the primary (most recently selected) item
+  private items: Map<string, Selection> = new Map();
   private eventBus: EventBus;
 
   constructor(eventBus: EventBus) {
     this.eventBus = eventBus;
   }
-  
+
   // ========== QUERIES ==========
-  
+
+  /**
+   * Gets the primary selection (the most recently selected item).
+   */
   getSelection(): Readonly<Selection> | null {
-    return this.selection ? { ...this.selection } : null;
+    const primary = this.getPrimary();
+    return primary ? { ...primary } : null;
+  }
+
+  /**
+   * Gets a snapshot of every selected node, link and note.
+   */
+  getSelectionState(): SelectionState {
+    return Object.freeze({
+      nodes: this.getSelectedIds('node') as NodeId[],
+      links: this.getSelectedIds('link') as ConnectionId[],
+      notes: this.getSelectedIds('note') as NoteId[],
+      primary: this.getSelection()
+    });
+  }
+
+  getSelectedItems(): ReadonlyArray<Selection> {
+    return Array.from(this.items.values()).map(item => ({ ...item }));
+  }
+
+  getSelectedNodeIds(): NodeId[] {
+    return this.getSelectedIds('node') as NodeId[];
+  }
+
+  getSelectedLinkIds(): ConnectionId[] {
+    return this.getSelectedIds('link') as ConnectionId[];
+  }
+
+  getSelectedNoteIds(): NoteId[] {
+    return this.getSelectedIds('note') as NoteId[];
   }
-  
-  isSelected(type: 'node' | 'link' | 'note', id: string): boolean {
-    return this.selection?.type === type && this.selection?.id === id;
+
+  isSelected(type: SelectionType, id: string): boolean {
+    return this.items.has(this.key(type, id));
   }
-  
+
   hasSelection(): boolean {
-    return this.selection !== null;
+    return this.items.size > 0;
   }
-  
+
+  getSelectionSize(): number {
+    return this.items.size;
+  }
+
   // ========== COMMANDS ==========
-  
-  selectNode(id: NodeId): void {
-    this.setSelection({ type: 'node', id });
+
+  selectNode(id: NodeId, additive: boolean = false): void {
+    this.select({ type: 'node', id }, additive);
+  }
+
+  selectLink(id: ConnectionId, additive: boolean = false): void {
+    this.select({ type: 'link', id }, additive);
+  }
+
+  selectNote(id: NoteId, additive: boolean = false): void {
+    this.select({ type: 'note', id }, additive);
   }
-  
-  selectLink(id: ConnectionId): void {
-    this.setSelection({ type: 'link', id });
+
+  /**
+   * Adds the item to the selection if absent, removes it otherwise (shift/ctrl-click).
+   */
+  toggle(type: SelectionType, id: string): void {
+    const key = this.key(type, id);
+
+    if (this.items.has(key)) {
+      this.items.delete(key);
+    } else {
+      this.items.set(key, { type, id });
+    }
+
+    this.emitChange();
+  }
+
+  /**
+   * Selects several items at once (e.g. rubber-band selection).
+   *
+   * @param items - Items to select
+   * @param additive - Keep the current selection and add to it
+   */
+  selectMany(items: ReadonlyArray<Selection>, additive: boolean = false): void {
+    const next = additive ? new Map(this.items) : new Map<string, Selection>();
+    items.forEach(item => {
+      const key = this.key(item.type, item.id);
+      next.delete(key);
+      next.set(key, { type: item.type, id: item.id });
+    });
+
+    if (this.isSameSelection(next)) return;
+
+    this.items = next;
+    this.emitChange();
   }
-  
-  selectNote(id: NoteId): void {
-    this.setSelection({ type: 'note', id });
+
+  deselect(type: SelectionType, id: string): void {
+    if (this.items.delete(this.key(type, id))) {
+      this.emitChange();
+    }
   }
-  
+
   clearSelection(): void {
-    if (this.selection === null) return;
-    
-    this.selection = null;
-    this.eventBus.emit('SELECTION_CHANGED', null);
-    this.eventBus.emit('RENDER_REQUESTED', undefined);
+    if (this.items.size === 0) return;
+
+    this.items.clear();
+    this.emitChange();
   }
-  
-  private setSelection(selection: Selection): void {
+
+  private select(selection: Selection, additive: boolean): void {
+    const key = this.key(selection.type, selection.id);
+
     // Don't emit if selection hasn't changed
-    if (this.selection?.type === selection.type && this.selection?.id === selection.id) {
+    if (!additive && this.items.size === 1 && this.items.has(key)) {
       return;
     }
-    
-    this.selection = selection;
-    this.eventBus.emit('SELECTION_CHANGED', selection);
-    this.eventBus.emit('RENDER_REQUESTED', undefined);
+    if (additive && this.getPrimary() === this.items.get(key)) {
+      return;
+    }
+
+    if (!additive) {
+      this.items.clear();
+    }
+    this.items.delete(key);
+    this.items.set(key, selection);
+    this.emitChange();
   }
-  
+
   // Auto-clear selection when items are removed
   handleNodeRemoved(nodeId: NodeId): void {
-    if (this.selection?.type === 'node' && this.selection?.id === nodeId) {
-      this.clearSelection();
-    }
+    this.deselect('node', nodeId);
   }
-  
+
   handleLinkRemoved(linkId: ConnectionId): void {
-    if (this.selection?.type === 'link' && this.selection?.id === linkId) {
-      this.clearSelection();
-    }
+    this.deselect('link', linkId);
   }
-  
+
   handleNoteRemoved(noteId: NoteId): void {
-    if (this.selection?.type === 'note' && this.selection?.id === noteId) {
-      this.clearSelection();
-    }
+    this.deselect('note', noteId);
+  }
+
+  // ========== HELPERS ==========
+
+  private key(type: SelectionType, id: string): string {
+    return `${type}:${id}`;
+  }
+
+  private getPrimary(): Selection | null {
+    let primary: Selection | null = null;
+    this.items.forEach(item => { primary = item; });
+    return primary;
+  }
+
+  private getSelectedIds(type: SelectionType): string[] {
+    const ids: string[] = [];
+    this.items.forEach(item => {
+      if (item.type === type) ids.push(item.id);
+    });
+    return ids;
+  }
+
+  private isSameSelection(next: Map<string, Selection>): boolean {
+    if (next.size !== this.items.size) return false;
+
+    const currentKeys = Array.from(this.items.keys());
+    const nextKeys = Array.from(next.keys());
+    return nextKeys.every((key, index) => key === currentKeys[index]);
+  }
+
+  private emitChange(): void {
+    this.eventBus.emit('SELECTION_CHANGED', this.getSelectionState());
+    this.eventBus.emit('RENDER_REQUESTED', undefined);
   }
-}
\ No newline at end of file
+}
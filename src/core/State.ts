@@ -11,20 +11,37 @@ import {
   HandlerId,
   NoteId,
   Position,
+  Rect,
   Transform,
   NodeData,
   ConnectionData,
-  Dimensions
+  Dimensions,
+  Direction,
+  FlowType
 } from './types';
+import { Config } from './Config';
 import { Node } from '../domain/models/Node';
 import { Connection } from '../domain/models/Connection';
 import { Note } from '../domain/models/Note';
 import { Handler } from '../domain/models/Handler';
 import { deepClone, deepFreeze } from '../utils/DeepClone';
+import { QuadTree } from '../utils/QuadTree';
+import { getLinkArea } from '../utils/LinkArea';
 
 interface StoreCache {
+  nodesById: Map<NodeId, Node>;
+  linksById: Map<ConnectionId, Connection>;
   handlerAbsolutePositions: Map<HandlerId, Position>;
+  handlerToNode: Map<HandlerId, NodeId>;
   nodeToLinks: Map<NodeId, Connection[]>;
+  // Direct children by parent ID (children may be added before their group)
+  childrenByParent: Map<NodeId, NodeId[]>;
+  // Boundary handlers shown on collapsed groups, and the offset each hidden handler is drawn at
+  groupProxies: Map<NodeId, Handler[]>;
+  proxyOffsets: Map<HandlerId, { groupId: NodeId; offset: Position }>;
+  // Spatial indexes of node bounds and of the area each connection may be drawn in
+  nodeIndex: QuadTree<NodeId>;
+  linkIndex: QuadTree<ConnectionId>;
 }
 
 /**
@@ -58,8 +75,16 @@ export class Store {
       transform: { k: 1, x: 0, y: 0 }
     };
     this.cache = {
+      nodesById: new Map(),
+      linksById: new Map(),
       handlerAbsolutePositions: new Map(),
-      nodeToLinks: new Map()
+      handlerToNode: new Map(),
+      nodeToLinks: new Map(),
+      childrenByParent: new Map(),
+      groupProxies: new Map(),
+      proxyOffsets: new Map(),
+      nodeIndex: new QuadTree(),
+      linkIndex: new QuadTree()
     };
 
     // Auto-clear selection on item removal
@@ -81,7 +106,7 @@ export class Store {
    */
   getNode(id: NodeId): Readonly<Node> | null {
     try {
-      const node = this.state.nodes.find((n: Node) => n.id === id);
+      const node = this.findNode(id);
       return node ? deepFreeze(node.clone()) : null;
     } catch (error) {
       console.error(`[Store] Error retrieving node ${id}:`, error);
@@ -111,7 +136,7 @@ export class Store {
    */
   getLink(id: ConnectionId): Readonly<Connection> | null {
     try {
-      const link = this.state.links.find((l: Connection) => l.id === id);
+      const link = this.cache.linksById.get(id);
       return link ? deepFreeze(link.clone()) : null;
     } catch (error) {
       console.error(`[Store] Error retrieving link ${id}:`, error);
@@ -189,6 +214,92 @@ export class Store {
     }
   }
   
+  /**
+   * Gets the distinct nodes a node has outgoing connections to, in connection order.
+   * Reads the node-to-links cache without copying any connection.
+   * 
+   * @param nodeId - Node identifier
+   * @returns Target node IDs (the node itself for a self-loop)
+   */
+  getSuccessorIds(nodeId: NodeId): NodeId[] {
+    const successors = new Set<NodeId>();
+    (this.cache.nodeToLinks.get(nodeId) || []).forEach((link: Connection) => {
+      if (this.cache.handlerToNode.get(link.sourceHandlerId) !== nodeId) return;
+      
+      const targetId = this.cache.handlerToNode.get(link.targetHandlerId);
+      if (targetId) successors.add(targetId);
+    });
+    return Array.from(successors);
+  }
+  
+  /**
+   * Retrieves the nodes whose bounds intersect an area.
+   * Uses the spatial index; nodes hidden in collapsed groups are included.
+   * 
+   * @param rect - Area in graph coordinates
+   * @returns Frozen node copies in graph order
+   */
+  getNodesInRect(rect: Rect): ReadonlyArray<Readonly<Node>> {
+    try {
+      const ids = new Set(this.cache.nodeIndex.search(rect));
+      if (ids.size === 0) return [];
+      return deepFreeze(
+        this.state.nodes.filter((n: Node) => ids.has(n.id)).map((n: Node) => n.clone())
+      );
+    } catch (error) {
+      console.error('[Store] Error retrieving nodes in area:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Retrieves the connections that may be drawn across an area.
+   * Uses the spatial index of the area around each connection's endpoints, so
+   * the result can include connections passing close by.
+   * 
+   * @param rect - Area in graph coordinates
+   * @returns Frozen connection copies in graph order
+   */
+  getLinksInRect(rect: Rect): ReadonlyArray<Readonly<Connection>> {
+    try {
+      const ids = new Set(this.cache.linkIndex.search(rect));
+      if (ids.size === 0) return [];
+      return deepFreeze(
+        this.state.links.filter((l: Connection) => ids.has(l.id)).map((l: Connection) => l.clone())
+      );
+    } catch (error) {
+      console.error('[Store] Error retrieving links in area:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Gets the bounds of the nodes orthogonal connections are routed around:
+   * visible nodes intersecting an area, expanded groups left out.
+   * Reads the spatial index without copying nodes.
+   * 
+   * @param rect - Area in graph coordinates
+   * @returns Node bounds in graph coordinates
+   */
+  getObstaclesInRect(rect: Rect): Rect[] {
+    return this.cache.nodeIndex.search(rect)
+      .map(id => this.findNode(id))
+      .filter((node): node is Node => !!node && !(node.isContainer() && !node.collapsed) && !this.isNodeHidden(node.id))
+      .map(node => ({ x: node.position.x, y: node.position.y, width: node.width, height: node.height }));
+  }
+  
+  /**
+   * Retrieves a handler by ID.
+   * Uses cached lookup for O(1) performance.
+   * 
+   * @param handlerId - Handler identifier
+   * @returns Frozen handler copy or null if not found
+   */
+  getHandler(handlerId: HandlerId): Readonly<Handler> | null {
+    const handler = this.findNodeByHandlerId(handlerId)?.handlers.find((h: Handler) => h.id === handlerId);
+    return handler ? deepFreeze(handler.clone()) : null;
+  }
+  
   /**
    * Gets the absolute position of a handler in graph coordinates.
    * Uses cached positions for performance.
@@ -200,6 +311,84 @@ export class Store {
     return this.cache.handlerAbsolutePositions.get(handlerId) || null;
   }
   
+  /**
+   * Resolves the node owning a handler.
+   * Uses cached lookup for O(1) performance.
+   * 
+   * @param handlerId - Handler identifier
+   * @returns Owning node ID or null if handler not found
+   */
+  getNodeIdForHandler(handlerId: HandlerId): NodeId | null {
+    return this.cache.handlerToNode.get(handlerId) || null;
+  }
+  
+  /**
+   * Gets the direct children of a group node.
+   * 
+   * @param id - Group node identifier
+   * @returns Child node IDs, in the order they joined the group
+   */
+  getChildNodeIds(id: NodeId): NodeId[] {
+    return [...(this.cache.childrenByParent.get(id) || [])];
+  }
+  
+  /**
+   * Gets every node nested (at any depth) in a group node.
+   * 
+   * @param id - Group node identifier
+   * @returns Descendant node IDs, parents before their children
+   */
+  getDescendantIds(id: NodeId): NodeId[] {
+    const result: NodeId[] = [];
+    const seen = new Set<NodeId>([id]);
+    const queue = [id];
+    
+    while (queue.length > 0) {
+      const children = this.getChildNodeIds(queue.shift()!).filter(childId => !seen.has(childId));
+      children.forEach(childId => seen.add(childId));
+      result.push(...children);
+      queue.push(...children);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Checks if a node is hidden inside a collapsed group.
+   * 
+   * @param id - Node identifier
+   * @returns True if any ancestor is collapsed
+   */
+  isNodeHidden(id: NodeId): boolean {
+    return this.getCollapsedAncestor(id) !== null;
+  }
+  
+  /**
+   * Resolves the node a handler is drawn on: its owner, or the outermost
+   * collapsed group hiding the owner.
+   * 
+   * @param handlerId - Handler identifier
+   * @returns Visible node ID or null if handler not found
+   */
+  getVisibleNodeIdForHandler(handlerId: HandlerId): NodeId | null {
+    const owner = this.getNodeIdForHandler(handlerId);
+    if (!owner) return null;
+    
+    return this.getCollapsedAncestor(owner) ?? owner;
+  }
+  
+  /**
+   * Gets the boundary handlers shown on a collapsed group.
+   * Each proxy keeps the ID of the hidden handler it stands for.
+   * 
+   * @param id - Group node identifier
+   * @returns Frozen proxy handlers (empty unless the group is collapsed)
+   */
+  getProxyHandlers(id: NodeId): ReadonlyArray<Readonly<Handler>> {
+    const proxies = this.cache.groupProxies.get(id) || [];
+    return deepFreeze(proxies.map(h => h.clone()));
+  }
+  
   /**
    * Exports complete graph state snapshot.
    * 
@@ -228,7 +417,7 @@ export class Store {
   
   /**
    * Adds a node to the graph.
-   * Rebuilds caches and emits NODE_CREATED event.
+   * Updates caches and emits NODE_CREATED event.
    * 
    * @param node - Node instance to add
    * @throws {TypeError} If node is null/undefined
@@ -240,8 +429,16 @@ export class Store {
     
     try {
       this.state.nodes.push(node);
-      this.rebuildNodeToLinksCache();
+      this.cache.nodesById.set(node.id, node);
+      this.addChild(node.parentId, node.id);
       this.updateHandlerPositionCache(node);
+      this.updateNodeIndex(node);
+      
+      // Children may be added before or after their group (e.g. when pasting)
+      this.fitGroup(node);
+      this.fitAncestors(node.parentId);
+      this.updateGroupProxies(this.getProxyGroupsAround(node.id));
+      
       this.eventBus.emit('NODE_CREATED', node as any);
       this.eventBus.emit('RENDER_REQUESTED', undefined);
     } catch (error) {
@@ -258,21 +455,29 @@ export class Store {
    */
   removeNode(id: NodeId): void {
     try {
-      const index = this.state.nodes.findIndex((n: Node) => n.id === id);
-      if (index === -1) {
+      const node = this.findNode(id);
+      if (!node) {
         console.warn(`[Store] Cannot remove node ${id}: not found`);
         return;
       }
       
-      const node = this.state.nodes[index];
+      // Removing a group removes its contents
+      this.getChildNodeIds(id).forEach(childId => this.removeNode(childId));
       
       // Remove connected links
       const connectedLinks = this.getLinksForNode(id);
       connectedLinks.forEach((link: Readonly<Connection>) => this.removeLink(link.id));
       
-      this.state.nodes.splice(index, 1);
-      this.rebuildNodeToLinksCache();
+      const proxyGroups = this.getProxyGroupsAround(id);
+      this.state.nodes.splice(this.state.nodes.indexOf(node), 1);
+      this.cache.nodesById.delete(id);
+      this.cache.nodeIndex.remove(id);
+      this.removeChild(node.parentId, id);
+      this.cache.childrenByParent.delete(id);
+      this.cache.nodeToLinks.delete(id);
       this.removeHandlerPositionsForNode(node);
+      this.fitAncestors(node.parentId);
+      this.updateGroupProxies(proxyGroups);
       
       this.eventBus.emit('NODE_REMOVED', id);
       this.eventBus.emit('RENDER_REQUESTED', undefined);
@@ -290,7 +495,7 @@ export class Store {
    */
   updateNode(id: NodeId, changes: Partial<NodeData>): void {
     try {
-      const node = this.state.nodes.find((n: Node) => n.id === id);
+      const node = this.findNode(id);
       if (!node) {
         console.warn(`[Store] Cannot update node ${id}: not found`);
         return;
@@ -308,6 +513,146 @@ export class Store {
     }
   }
   
+  /**
+   * Replaces the handlers of a node (e.g. after a data-driven layout changed).
+   * Links attached to handlers that no longer exist are removed.
+   * 
+   * @param id - Node identifier
+   * @param handlers - New handler list
+   */
+  setNodeHandlers(id: NodeId, handlers: Handler[]): void {
+    try {
+      const node = this.findNode(id);
+      if (!node) {
+        console.warn(`[Store] Cannot set handlers of node ${id}: not found`);
+        return;
+      }
+      
+      const keptIds = new Set(handlers.map(h => h.id));
+      this.getLinksForNode(id)
+        .filter((link: Readonly<Connection>) =>
+          (this.findNodeByHandlerId(link.sourceHandlerId) === node && !keptIds.has(link.sourceHandlerId)) ||
+          (this.findNodeByHandlerId(link.targetHandlerId) === node && !keptIds.has(link.targetHandlerId))
+        )
+        .forEach((link: Readonly<Connection>) => this.removeLink(link.id));
+      
+      this.removeHandlerPositionsForNode(node);
+      node.handlers.splice(0, node.handlers.length, ...handlers);
+      this.updateHandlerPositionCache(node);
+      
+      this.eventBus.emit('NODE_UPDATED', node as any);
+      this.eventBus.emit('RENDER_REQUESTED', undefined);
+    } catch (error) {
+      console.error(`[Store] Error setting handlers of node ${id}:`, error);
+    }
+  }
+  
+  /**
+   * Resizes a node. Handler offsets are scaled with the node so every handler
+   * keeps its place on the outline (and its ID and connections).
+   * Containers are sized by their children and cannot be resized.
+   * 
+   * @param id - Node identifier
+   * @param size - New width and height in pixels
+   */
+  resizeNode(id: NodeId, size: Dimensions): void {
+    try {
+      const node = this.findNode(id);
+      if (!node) {
+        console.warn(`[Store] Cannot resize node ${id}: not found`);
+        return;
+      }
+      if (node.isContainer()) {
+        console.warn(`[Store] Cannot resize group ${id}: sized by its children`);
+        return;
+      }
+      
+      const scaleX = size.width / node.width;
+      const scaleY = size.height / node.height;
+      const handlers = node.handlers.map(h =>
+        h.cloneAt({ x: h.offset.x * scaleX, y: h.offset.y * scaleY }, h.direction)
+      );
+      
+      this.removeHandlerPositionsForNode(node);
+      node.width = size.width;
+      node.height = size.height;
+      node.handlers.splice(0, node.handlers.length, ...handlers);
+      this.updateHandlerPositionCache(node);
+      this.updateNodeIndex(node);
+      this.fitAncestors(node.parentId);
+      
+      this.eventBus.emit('NODE_UPDATED', node as any);
+      this.eventBus.emit('RENDER_REQUESTED', undefined);
+    } catch (error) {
+      console.error(`[Store] Error resizing node ${id}:`, error);
+    }
+  }
+  
+  /**
+   * Moves a node into a group, or to the top level.
+   * Both the old and the new group are refitted around their children.
+   * 
+   * @param id - Node identifier
+   * @param parentId - Group node, or null for the top level
+   */
+  setNodeParent(id: NodeId, parentId: NodeId | null): void {
+    try {
+      const node = this.findNode(id);
+      if (!node) {
+        console.warn(`[Store] Cannot set parent of node ${id}: not found`);
+        return;
+      }
+      
+      if (parentId !== null && (parentId === id || !this.findNode(parentId) || this.getDescendantIds(id).includes(parentId))) {
+        console.warn(`[Store] Cannot move node ${id} into ${parentId}: invalid parent`);
+        return;
+      }
+      
+      const previousParent = node.parentId;
+      const proxyGroups = this.getProxyGroupsAround(id);
+      node.parentId = parentId;
+      this.removeChild(previousParent, id);
+      this.addChild(parentId, id);
+      
+      this.fitAncestors(previousParent);
+      this.fitAncestors(parentId);
+      this.updateGroupProxies([...proxyGroups, ...this.getProxyGroupsAround(id)]);
+      
+      this.eventBus.emit('NODE_UPDATED', node as any);
+      this.eventBus.emit('RENDER_REQUESTED', undefined);
+    } catch (error) {
+      console.error(`[Store] Error setting parent of node ${id}:`, error);
+    }
+  }
+  
+  /**
+   * Collapses or expands a group node.
+   * A collapsed group shrinks to a regular node size; connections crossing its
+   * boundary are drawn to proxy handlers on its edges.
+   * 
+   * @param id - Group node identifier
+   * @param collapsed - New state
+   */
+  setNodeCollapsed(id: NodeId, collapsed: boolean): void {
+    try {
+      const node = this.findNode(id);
+      if (!node) {
+        console.warn(`[Store] Cannot collapse node ${id}: not found`);
+        return;
+      }
+      
+      node.collapsed = collapsed;
+      this.fitGroup(node);
+      this.fitAncestors(node.parentId);
+      this.updateGroupProxies(this.getProxyGroupsAround(id));
+      
+      this.eventBus.emit('NODE_UPDATED', node as any);
+      this.eventBus.emit('RENDER_REQUESTED', undefined);
+    } catch (error) {
+      console.error(`[Store] Error collapsing node ${id}:`, error);
+    }
+  }
+  
   /**
    * Moves a node to a new position.
    * Updates handler position cache.
@@ -317,23 +662,20 @@ export class Store {
    */
   moveNode(id: NodeId, newPosition: Position): void {
     try {
-      const node = this.state.nodes.find((n: Node) => n.id === id);
+      const node = this.findNode(id);
       if (!node) {
         console.warn(`[Store] Cannot move node ${id}: not found`);
         return;
       }
       
-      const oldPosition = { ...node.position };
-      (node.position as any).x = newPosition.x;
-      (node.position as any).y = newPosition.y;
+      const dx = newPosition.x - node.position.x;
+      const dy = newPosition.y - node.position.y;
       
-      this.updateHandlerPositionCache(node);
+      // Groups carry their children along; enclosing groups grow or shrink to fit
+      this.translateNode(node, dx, dy);
+      this.getDescendantIds(id).forEach(childId => this.translateNode(this.findNode(childId)!, dx, dy));
+      this.fitAncestors(node.parentId);
       
-      this.eventBus.emit('NODE_MOVED', {
-        id,
-        from: oldPosition,
-        to: newPosition
-      });
       this.eventBus.emit('RENDER_REQUESTED', undefined);
     } catch (error) {
       console.error(`[Store] Error moving node ${id}:`, error);
@@ -353,7 +695,9 @@ export class Store {
     
     try {
       this.state.links.push(link);
-      this.rebuildNodeToLinksCache();
+      this.cache.linksById.set(link.id, link);
+      this.indexLink(link);
+      this.updateGroupProxies(this.getProxyGroupsOfLink(link));
       this.eventBus.emit('CONNECTION_CREATED', link as any);
       this.eventBus.emit('RENDER_REQUESTED', undefined);
     } catch (error) {
@@ -375,8 +719,10 @@ export class Store {
         return;
       }
       
-      this.state.links.splice(index, 1);
-      this.rebuildNodeToLinksCache();
+      const [link] = this.state.links.splice(index, 1);
+      this.cache.linksById.delete(id);
+      this.unindexLink(link);
+      this.updateGroupProxies(this.getProxyGroupsOfLink(link));
       this.eventBus.emit('CONNECTION_REMOVED', id);
       this.eventBus.emit('RENDER_REQUESTED', undefined);
     } catch (error) {
@@ -392,13 +738,14 @@ export class Store {
    */
   updateLink(id: ConnectionId, changes: Partial<ConnectionData>): void {
     try {
-      const link = this.state.links.find((l: Connection) => l.id === id);
+      const link = this.cache.linksById.get(id);
       if (!link) {
         console.warn(`[Store] Cannot update link ${id}: not found`);
         return;
       }
       
       link.update(changes);
+      if (changes.waypoints !== undefined) this.updateLinkIndex(link);
       
       this.eventBus.emit('CONNECTION_UPDATED', link as any);
       this.eventBus.emit('RENDER_REQUESTED', undefined);
@@ -509,8 +856,23 @@ export class Store {
   
   private rebuildAllCaches(): void {
     try {
+      this.cache.nodesById = new Map(this.state.nodes.map((n: Node) => [n.id, n]));
+      this.cache.linksById = new Map(this.state.links.map((l: Connection) => [l.id, l]));
+      this.cache.childrenByParent.clear();
+      this.state.nodes.forEach((n: Node) => this.addChild(n.parentId, n.id));
+      this.cache.nodeToLinks.clear();
+      this.cache.groupProxies.clear();
+      this.cache.proxyOffsets.clear();
+      this.cache.nodeIndex.clear();
+      this.cache.linkIndex.clear();
+      
+      // Handler lookups are needed to map connections to nodes
+      this.rebuildHandlerPositionCache();
       this.rebuildNodeToLinksCache();
+      this.fitAllGroups();
       this.rebuildHandlerPositionCache();
+      this.updateGroupProxies(this.state.nodes.filter((n: Node) => n.collapsed).map((n: Node) => n.id));
+      this.state.nodes.forEach((node: Node) => this.updateNodeIndex(node));
     } catch (error) {
       console.error('[Store] Error rebuilding caches:', error);
     }
@@ -518,28 +880,53 @@ export class Store {
   
   private rebuildNodeToLinksCache(): void {
     this.cache.nodeToLinks.clear();
-    this.state.links.forEach((link: Connection) => {
-      const sourceNode = this.findNodeByHandlerId(link.sourceHandlerId);
-      const targetNode = this.findNodeByHandlerId(link.targetHandlerId);
-      
-      if (sourceNode) {
-        if (!this.cache.nodeToLinks.has(sourceNode.id)) {
-          this.cache.nodeToLinks.set(sourceNode.id, []);
-        }
-        this.cache.nodeToLinks.get(sourceNode.id)!.push(link);
+    this.state.links.forEach((link: Connection) => this.indexLink(link));
+  }
+  
+  /**
+   * Adds a connection to the node-to-links cache and the spatial index.
+   * Edits index only the connection they change; full rebuilds are left to setState.
+   */
+  private indexLink(link: Connection): void {
+    this.getLinkNodeIds(link).forEach(nodeId => {
+      if (!this.cache.nodeToLinks.has(nodeId)) {
+        this.cache.nodeToLinks.set(nodeId, []);
       }
+      this.cache.nodeToLinks.get(nodeId)!.push(link);
+    });
+    
+    this.updateLinkIndex(link);
+  }
+  
+  private unindexLink(link: Connection): void {
+    this.getLinkNodeIds(link).forEach(nodeId => {
+      const links = this.cache.nodeToLinks.get(nodeId);
+      if (!links) return;
       
-      if (targetNode && targetNode.id !== sourceNode?.id) {
-        if (!this.cache.nodeToLinks.has(targetNode.id)) {
-          this.cache.nodeToLinks.set(targetNode.id, []);
-        }
-        this.cache.nodeToLinks.get(targetNode.id)!.push(link);
-      }
+      const index = links.indexOf(link);
+      if (index !== -1) links.splice(index, 1);
+      if (links.length === 0) this.cache.nodeToLinks.delete(nodeId);
     });
+    
+    this.cache.linkIndex.remove(link.id);
+  }
+  
+  /**
+   * Nodes owning the ends of a connection (one entry for a self-loop).
+   */
+  private getLinkNodeIds(link: Connection): NodeId[] {
+    const sourceId = this.cache.handlerToNode.get(link.sourceHandlerId);
+    const targetId = this.cache.handlerToNode.get(link.targetHandlerId);
+    
+    const ids: NodeId[] = [];
+    if (sourceId) ids.push(sourceId);
+    if (targetId && targetId !== sourceId) ids.push(targetId);
+    return ids;
   }
   
   private rebuildHandlerPositionCache(): void {
     this.cache.handlerAbsolutePositions.clear();
+    this.cache.handlerToNode.clear();
     this.state.nodes.forEach((node: Node) => {
       this.updateHandlerPositionCache(node);
     });
@@ -547,23 +934,273 @@ export class Store {
   
   private updateHandlerPositionCache(node: Node): void {
     node.handlers.forEach((handler: Handler) => {
+      // Hidden handlers on a collapsed group's boundary are drawn at their proxy
+      const proxy = this.cache.proxyOffsets.get(handler.id);
+      const origin = proxy ? this.findNode(proxy.groupId)?.position ?? node.position : node.position;
+      const offset = proxy ? proxy.offset : handler.offset;
       const absolutePosition = {
-        x: node.position.x + handler.offset.x,
-        y: node.position.y + handler.offset.y
+        x: origin.x + offset.x,
+        y: origin.y + offset.y
       };
       this.cache.handlerAbsolutePositions.set(handler.id, absolutePosition);
+      this.cache.handlerToNode.set(handler.id, node.id);
     });
+    
+    (this.cache.nodeToLinks.get(node.id) || []).forEach((link: Connection) => this.updateLinkIndex(link));
   }
   
   private removeHandlerPositionsForNode(node: Node): void {
     node.handlers.forEach((handler: Handler) => {
       this.cache.handlerAbsolutePositions.delete(handler.id);
+      this.cache.handlerToNode.delete(handler.id);
+    });
+  }
+  
+  private updateNodeIndex(node: Node): void {
+    this.cache.nodeIndex.insert(node.id, {
+      x: node.position.x,
+      y: node.position.y,
+      width: node.width,
+      height: node.height
+    });
+  }
+  
+  /**
+   * Indexes the area a connection can be drawn in (see getLinkArea).
+   */
+  private updateLinkIndex(link: Connection): void {
+    const source = this.cache.handlerAbsolutePositions.get(link.sourceHandlerId);
+    const target = this.cache.handlerAbsolutePositions.get(link.targetHandlerId);
+    if (!source || !target) {
+      this.cache.linkIndex.remove(link.id);
+      return;
+    }
+    
+    this.cache.linkIndex.insert(link.id, getLinkArea(source, target, link.waypoints));
+  }
+  
+  // ========== GROUP GEOMETRY ==========
+  
+  private findNode(id: NodeId): Node | null {
+    return this.cache.nodesById.get(id) || null;
+  }
+  
+  /**
+   * Outermost collapsed ancestor of a node, or null if the node is visible.
+   */
+  private getCollapsedAncestor(id: NodeId): NodeId | null {
+    let collapsed: NodeId | null = null;
+    let parentId = this.findNode(id)?.parentId ?? null;
+    const seen = new Set<NodeId>();
+    
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = this.findNode(parentId);
+      if (!parent) break;
+      if (parent.collapsed) collapsed = parent.id;
+      parentId = parent.parentId;
+    }
+    
+    return collapsed;
+  }
+  
+  /**
+   * Moves a single node (not its children) and refreshes its handler positions.
+   */
+  private translateNode(node: Node, dx: number, dy: number): void {
+    if (dx === 0 && dy === 0) return;
+    
+    const from = { ...node.position };
+    (node.position as any).x += dx;
+    (node.position as any).y += dy;
+    this.updateHandlerPositionCache(node);
+    this.updateNodeIndex(node);
+    
+    // Proxies of a collapsed group follow the group
+    (this.cache.groupProxies.get(node.id) || []).forEach(proxy => {
+      const owner = this.findNodeByHandlerId(proxy.id);
+      if (owner) this.updateHandlerPositionCache(owner);
     });
+    
+    this.eventBus.emit('NODE_MOVED', { id: node.id, from, to: { ...node.position } });
+  }
+  
+  /**
+   * Sizes a group around its children (plus padding and a header), or to a
+   * regular node size while collapsed. Empty groups keep their bounds.
+   */
+  private fitGroup(node: Node): void {
+    if (node.collapsed) {
+      node.width = Config.GROUP_COLLAPSED_WIDTH;
+      node.height = Config.GROUP_COLLAPSED_HEIGHT;
+      this.updateNodeIndex(node);
+      return;
+    }
+    
+    const children = this.getChildNodeIds(node.id).map(id => this.findNode(id)!);
+    if (children.length === 0) return;
+    
+    const minX = Math.min(...children.map((c: Node) => c.position.x));
+    const minY = Math.min(...children.map((c: Node) => c.position.y));
+    const maxX = Math.max(...children.map((c: Node) => c.position.x + c.width));
+    const maxY = Math.max(...children.map((c: Node) => c.position.y + c.height));
+    
+    const x = minX - Config.GROUP_PADDING;
+    const y = minY - Config.GROUP_PADDING - Config.GROUP_HEADER_HEIGHT;
+    node.width = maxX - minX + Config.GROUP_PADDING * 2;
+    node.height = maxY - minY + Config.GROUP_PADDING * 2 + Config.GROUP_HEADER_HEIGHT;
+    
+    this.translateNode(node, x - node.position.x, y - node.position.y);
+    this.updateNodeIndex(node);
+  }
+  
+  /**
+   * Refits every group from the given one up to the top level.
+   */
+  private fitAncestors(id: NodeId | null): void {
+    const seen = new Set<NodeId>();
+    let current = id ? this.findNode(id) : null;
+    
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      this.fitGroup(current);
+      current = current.parentId ? this.findNode(current.parentId) : null;
+    }
+  }
+  
+  /**
+   * Refits all groups, innermost first.
+   * Nodes in a parent cycle (invalid data) are not reached and keep their bounds.
+   */
+  private fitAllGroups(): void {
+    // Top-down by levels, then fitted in reverse so children are sized before their group
+    const order = this.state.nodes.filter((n: Node) => !n.parentId || !this.findNode(n.parentId));
+    for (let i = 0; i < order.length; i++) {
+      this.getChildNodeIds(order[i].id).forEach(childId => order.push(this.findNode(childId)!));
+    }
+    
+    order.reverse().forEach((node: Node) => this.fitGroup(node));
+  }
+  
+  private addChild(parentId: NodeId | null, childId: NodeId): void {
+    if (!parentId) return;
+    
+    const children = this.cache.childrenByParent.get(parentId);
+    if (children) {
+      children.push(childId);
+    } else {
+      this.cache.childrenByParent.set(parentId, [childId]);
+    }
+  }
+  
+  private removeChild(parentId: NodeId | null, childId: NodeId): void {
+    const children = parentId ? this.cache.childrenByParent.get(parentId) : undefined;
+    if (!children) return;
+    
+    const index = children.indexOf(childId);
+    if (index !== -1) children.splice(index, 1);
+    if (children.length === 0) this.cache.childrenByParent.delete(parentId!);
+  }
+  
+  /**
+   * Groups whose proxies may change when a node is added, removed, moved to
+   * another group or collapsed: its outermost collapsed ancestor, the node
+   * itself and the collapsed groups nested in it.
+   */
+  private getProxyGroupsAround(id: NodeId): NodeId[] {
+    const groups = [id, ...this.getDescendantIds(id).filter(childId => this.findNode(childId)!.collapsed)];
+    const ancestor = this.getCollapsedAncestor(id);
+    return ancestor ? [ancestor, ...groups] : groups;
+  }
+  
+  /**
+   * Groups whose proxies may change when a connection is added or removed:
+   * the collapsed groups hiding either end.
+   */
+  private getProxyGroupsOfLink(link: Connection): NodeId[] {
+    return [link.sourceHandlerId, link.targetHandlerId]
+      .map(handlerId => this.cache.handlerToNode.get(handlerId))
+      .map(nodeId => nodeId ? this.getCollapsedAncestor(nodeId) : null)
+      .filter((groupId): groupId is NodeId => groupId !== null);
+  }
+  
+  /**
+   * Recomputes the proxy handlers of the given groups; groups that are gone,
+   * expanded or hidden in another collapsed group lose theirs.
+   * Every hidden handler with a connection leaving a group gets a proxy on
+   * the group edge matching its direction; proxies of an edge are spread evenly.
+   */
+  private updateGroupProxies(groupIds: Iterable<NodeId>): void {
+    const changed = new Set<HandlerId>();
+    
+    new Set(groupIds).forEach(groupId => {
+      (this.cache.groupProxies.get(groupId) || []).forEach(proxy => {
+        this.cache.proxyOffsets.delete(proxy.id);
+        changed.add(proxy.id);
+      });
+      this.cache.groupProxies.delete(groupId);
+      
+      const group = this.findNode(groupId);
+      if (!group || !group.collapsed || this.isNodeHidden(groupId)) return;
+      
+      // Connections of the nodes inside, from the per-node link index
+      const inside = new Set(this.getDescendantIds(groupId));
+      const boundary = new Map<HandlerId, Handler>();
+      
+      inside.forEach(nodeId => {
+        (this.cache.nodeToLinks.get(nodeId) || []).forEach((link: Connection) => {
+          const source = this.findNodeByHandlerId(link.sourceHandlerId);
+          const target = this.findNodeByHandlerId(link.targetHandlerId);
+          if (!source || !target) return;
+          
+          const sourceInside = inside.has(source.id);
+          const targetInside = inside.has(target.id);
+          if (sourceInside && !targetInside) {
+            boundary.set(link.sourceHandlerId, source.handlers.find(h => h.id === link.sourceHandlerId)!);
+          }
+          if (targetInside && !sourceInside) {
+            boundary.set(link.targetHandlerId, target.handlers.find(h => h.id === link.targetHandlerId)!);
+          }
+        });
+      });
+      
+      const sides = new Map<Direction, Handler[]>();
+      boundary.forEach(handler => {
+        const side = handler.direction === Direction.OMNI
+          ? (handler.flow === FlowType.IN ? Direction.LEFT : Direction.RIGHT)
+          : handler.direction;
+        if (!sides.has(side)) sides.set(side, []);
+        sides.get(side)!.push(handler);
+      });
+      
+      const proxies: Handler[] = [];
+      sides.forEach((handlers, side) => {
+        handlers.forEach((handler, index) => {
+          const t = (index + 1) / (handlers.length + 1);
+          const offset =
+            side === Direction.LEFT ? { x: 0, y: group.height * t } :
+            side === Direction.RIGHT ? { x: group.width, y: group.height * t } :
+            side === Direction.TOP ? { x: group.width * t, y: 0 } :
+            { x: group.width * t, y: group.height };
+          
+          proxies.push(handler.cloneAt(offset, side));
+          this.cache.proxyOffsets.set(handler.id, { groupId, offset });
+          changed.add(handler.id);
+        });
+      });
+      
+      if (proxies.length > 0) {
+        this.cache.groupProxies.set(groupId, proxies);
+      }
+    });
+    
+    // Only the owners of handlers that gained or lost a proxy move
+    new Set(Array.from(changed, handlerId => this.findNodeByHandlerId(handlerId)))
+      .forEach(owner => { if (owner) this.updateHandlerPositionCache(owner); });
   }
   
   private findNodeByHandlerId(handlerId: HandlerId): Node | null {
-    return this.state.nodes.find((node: Node) => 
-      node.handlers.some((h: Handler) => h.id === handlerId)
-    ) || null;
+    const nodeId = this.cache.handlerToNode.get(handlerId);
+    return nodeId ? this.findNode(nodeId) : null;
   }
 }
\ No newline at end of file
@@ -11,12 +11,21 @@ import { Config } from './Config';
 import { DiagramAPI } from './API';
 import { HistoryManager } from '../services/HistoryManager';
 import { SerializationService } from '../services/SerializationService';
+import { ClipboardService } from '../services/ClipboardService';
+import { ValidationService } from '../services/ValidationService';
+import { SnapService } from '../services/SnapService';
+import { Keymap } from '../services/Keymap';
 import { PluginLoader } from '../services/PluginLoader';
 import { InputSystem } from '../services/InputSystem';
-import { RenderEngine } from '../rendering/RenderEngine';
+import { RenderEngine, SvgRenderEngine } from '../rendering/RenderEngine';
+import { CanvasRenderEngine } from '../rendering/CanvasRenderEngine';
 import { ZoomControls } from '../components/ZoomControls';
+import { Minimap } from '../components/Minimap';
+import { Breadcrumb } from '../components/Breadcrumb';
 import { NodePalette } from '../components/NodePalette';
 import { PropertiesPanel } from '../components/PropertiesPanel';
+import { ContextMenu } from '../components/ContextMenu';
+import { AccessibilityLayer } from '../components/AccessibilityLayer';
 import { WidgetConfig, WidgetAPI, EventCallback, UnsubscribeFn, EventType } from './types';
 
 /**
@@ -51,17 +60,24 @@ export class DAGWidget {
   private selectionManager: SelectionManager;
   private historyManager: HistoryManager;
   private serializationService: SerializationService;
+  private clipboardService: ClipboardService;
+  private validationService: ValidationService;
+  private snapService: SnapService;
   private pluginLoader: PluginLoader;
   private renderEngine: RenderEngine;
   private inputSystem: InputSystem;
+  private accessibilityLayer: AccessibilityLayer;
   
   private container: HTMLElement;
   private svg!: SVGSVGElement;
   
   private ui?: {
     zoomControls: ZoomControls;
+    minimap: Minimap;
+    breadcrumb: Breadcrumb;
     nodePalette: NodePalette;
     propertiesPanel: PropertiesPanel;
+    contextMenu: ContextMenu;
   };
   
   /**
@@ -101,6 +117,16 @@ export class DAGWidget {
       this.eventBus
     );
     
+    this.clipboardService = new ClipboardService(
+      this.store,
+      this.selectionManager,
+      this.serializationService
+    );
+    
+    this.validationService = new ValidationService(this.eventBus, this.store, this.registry);
+    
+    this.snapService = new SnapService(this.store, config.snapping);
+    
     this.pluginLoader = new PluginLoader(this.registry, this.eventBus);
     
     // Create DOM structure
@@ -108,14 +134,16 @@ export class DAGWidget {
     this.createDOMStructure(config);
     
     // Initialize rendering
-    console.log('[DAGWidget] Initializing render engine...');
-    this.renderEngine = new RenderEngine(
-      this.svg,
-      this.store,
-      this.registry,
-      this.eventBus,
-      this.selectionManager
-    );
+    console.log('[DAGWidget] Initializing render engine:', config.renderer ?? 'svg');
+    this.renderEngine = config.renderer === 'canvas'
+      ? new CanvasRenderEngine(this.svg, this.store, this.registry, this.eventBus)
+      : new SvgRenderEngine(
+        this.svg,
+        this.store,
+        this.registry,
+        this.eventBus,
+        this.selectionManager
+      );
     
     // Create API first (needed by InputSystem)
     console.log('[DAGWidget] Creating public API...');
@@ -125,10 +153,24 @@ export class DAGWidget {
       this.registry,
       this.selectionManager,
       this.historyManager,
-      this.serializationService
+      this.serializationService,
+      this.clipboardService,
+      this.validationService,
+      this.snapService,
+      {
+        strictCQS: config.strictCQS,
+        resolveSubDiagram: config.resolveSubDiagram,
+        autoSizeNodes: config.autoSizeNodes
+      }
     );
     
     this.api = apiInstance;
+    this.validationService.start(apiInstance.queries);
+    
+    // Route history requests raised by interactions (drag end, group delete, shortcuts)
+    this.eventBus.on('HISTORY_SAVE_REQUESTED', () => this.historyManager.save());
+    this.eventBus.on('HISTORY_UNDO_REQUESTED', () => this.api.commands.undo());
+    this.eventBus.on('HISTORY_REDO_REQUESTED', () => this.api.commands.redo());
     
     // Initialize input system (needs API for creating connections)
     console.log('[DAGWidget] Initializing input system...');
@@ -139,9 +181,14 @@ export class DAGWidget {
       this.eventBus,
       this.selectionManager,
       this.renderEngine,
+      this.snapService,
+      new Keymap(config.keymap),
       apiInstance
     );
     
+    // Screen reader outline and announcements, also without the default UI
+    this.accessibilityLayer = new AccessibilityLayer(this.container, this.svg, this.store, apiInstance, this.eventBus);
+    
     // Load plugins if manifest URL provided
     if (config.manifestUrl) {
       console.log('[DAGWidget] Loading plugins from:', config.manifestUrl);
@@ -194,6 +241,10 @@ export class DAGWidget {
     this.svg.setAttribute('width', '100%');
     this.svg.setAttribute('height', '100%');
     this.svg.style.cursor = 'grab';
+    // Focusable so keyboard navigation works without a mouse
+    this.svg.setAttribute('tabindex', '0');
+    // Touch gestures are handled by the editor, not by page scrolling or zooming
+    this.svg.style.touchAction = 'none';
     
     this.container.appendChild(this.svg);
     
@@ -203,8 +254,10 @@ export class DAGWidget {
       uiContainer.className = 'dag-widget-ui';
       uiContainer.innerHTML = `
         <div class="ui-top-left" id="zoom-controls-container"></div>
+        <div class="ui-top-center" id="breadcrumb-container"></div>
         <div class="ui-left" id="node-palette-container"></div>
         <div class="ui-right" id="properties-panel-container"></div>
+        <div class="ui-bottom-right" id="minimap-container"></div>
       `;
       
       this.container.appendChild(uiContainer);
@@ -215,26 +268,44 @@ export class DAGWidget {
   }
   
   /**
-   * Creates UI components (zoom controls, palette, properties panel).
+   * Creates UI components (zoom controls, minimap, palette, properties panel).
    */
   private createUIComponents(): void {
     const zoomContainer = this.container.querySelector('#zoom-controls-container') as HTMLElement;
+    const minimapContainer = this.container.querySelector('#minimap-container') as HTMLElement;
+    const breadcrumbContainer = this.container.querySelector('#breadcrumb-container') as HTMLElement;
     const paletteContainer = this.container.querySelector('#node-palette-container') as HTMLElement;
     const propertiesContainer = this.container.querySelector('#properties-panel-container') as HTMLElement;
     
-    if (zoomContainer && paletteContainer && propertiesContainer) {
+    if (zoomContainer && minimapContainer && breadcrumbContainer && paletteContainer && propertiesContainer) {
       this.ui = {
         zoomControls: new ZoomControls(zoomContainer, this.api as DiagramAPI, this.eventBus),
-        nodePalette: new NodePalette(paletteContainer, this.registry, this.api as DiagramAPI),
+        minimap: new Minimap(
+          minimapContainer,
+          this.svg,
+          this.store,
+          this.eventBus,
+          (transform) => this.inputSystem.applyTransform(transform)
+        ),
+        breadcrumb: new Breadcrumb(breadcrumbContainer, this.api as DiagramAPI, this.eventBus),
+        nodePalette: new NodePalette(
+          paletteContainer,
+          this.registry,
+          this.api as DiagramAPI,
+          (type, point) => this.inputSystem.dropNode(type, point)
+        ),
         propertiesPanel: new PropertiesPanel(
           propertiesContainer,
           this.eventBus,
           this.selectionManager,
           this.api as DiagramAPI,
           this.registry
-        )
+        ),
+        contextMenu: new ContextMenu(this.container, this.api as DiagramAPI)
       };
       
+      this.inputSystem.setContextMenu(this.ui.contextMenu);
+      
       // Refresh palette when plugins load
       this.eventBus.on('PLUGINS_LOADED', () => {
         this.ui!.nodePalette.refresh();
@@ -271,6 +342,13 @@ export class DAGWidget {
         left: 16px;
       }
       
+      .ui-top-center {
+        position: absolute;
+        top: 16px;
+        left: 50%;
+        transform: translateX(-50%);
+      }
+      
       .ui-left {
         position: absolute;
         top: 80px;
@@ -284,6 +362,12 @@ export class DAGWidget {
         right: 16px;
         max-height: calc(100% - 32px);
       }
+      
+      .ui-bottom-right {
+        position: absolute;
+        right: 16px;
+        bottom: 16px;
+      }
     `;
     
     document.head.appendChild(style);
@@ -317,7 +401,10 @@ export class DAGWidget {
     'CONNECTION_CREATED', 'CONNECTION_UPDATED', 'CONNECTION_REMOVED',
     'SELECTION_CHANGED', 'HISTORY_CHANGED', 'STATE_LOADED',
     'PLUGINS_LOADED', 'TRAVERSE_COMPLETED', 'TRAVERSE_ERROR',
-    'RENDER_REQUESTED', 'NOTE_CREATED', 'NOTE_UPDATED', 'NOTE_REMOVED'
+    'TRAVERSE_NODE_STARTED', 'TRAVERSE_NODE_COMPLETED', 'TRAVERSE_NODE_SKIPPED', 'TRAVERSE_PAUSED',
+    'TRAVERSE_RESUMED', 'TRAVERSE_CANCELLED', 'BREAKPOINTS_CHANGED',
+    'RENDER_REQUESTED', 'NOTE_CREATED', 'NOTE_UPDATED', 'NOTE_REMOVED',
+    'VALIDATION_CHANGED', 'SUBDIAGRAM_ENTERED', 'SUBDIAGRAM_EXITED'
   ];
   
   eventTypes.forEach(event => {
@@ -371,6 +458,11 @@ export class DAGWidget {
     this.renderEngine.stopRenderLoop();
     this.renderEngine.destroy();
     this.inputSystem.destroy();
+    this.accessibilityLayer.destroy();
+    this.validationService.stop();
+    this.ui?.minimap.destroy();
+    this.ui?.breadcrumb.destroy();
+    this.ui?.contextMenu.destroy();
     this.eventBus.clear();
     this.container.innerHTML = '';
     
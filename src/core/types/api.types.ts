@@ -8,6 +8,7 @@ import {
     LinkLabel, NodeRole, FlowType, Direction, 
     ConnectionPathType, Dimensions 
 } from './graph.types';
+import type { Selection, SelectionState } from './event.types';
 
 // Interfaces used as instances in runtime
 export interface NodeInstance {
@@ -22,6 +23,10 @@ export interface NodeInstance {
     style: NodeStyle;
     data: Record<string, unknown>;
     readonly handlers: HandlerInstance[];
+    /** Containing group node, or null at top level */
+    readonly parentId: NodeId | null;
+    /** Group nodes only: children hidden behind the collapsed group */
+    readonly collapsed: boolean;
     
     getShapeTemplate(): string;
     getShapeAttributes(): Record<string, unknown> | null;
@@ -37,6 +42,7 @@ export interface HandlerInstance {
     readonly offset: Position;
     readonly direction: Direction;
     readonly dimensions: Dimensions;
+    readonly maxConnections?: number;
     label: string;
     
     getData(): HandlerData;
@@ -50,6 +56,8 @@ export interface ConnectionInstance {
     pathType: ConnectionPathType;
     style: LinkStyle;
     label?: LinkLabel;
+    /** Bend points the connection passes through, from source to target */
+    waypoints: Position[];
     data: Record<string, unknown>;
     
     getData(): ConnectionData;
@@ -73,15 +81,57 @@ export interface WidgetConfig {
   initialZoom?: number;
   initialOffset?: { x: number; y: number };
   manifestUrl?: string;
+  /** Strict Command-Query Separation: commands return nothing, effects are only reported via events */
+  strictCQS?: boolean;
+  /** Loads the graphs sub-diagram nodes reference by ID (`data.diagramId`) */
+  resolveSubDiagram?: SubDiagramResolver;
+  /** Widen nodes to fit their label when created or relabelled (default: false) */
+  autoSizeNodes?: boolean;
+  /** Snapping of dragged nodes (default: grid on, guides on) */
+  snapping?: Partial<SnapOptions>;
+  /** Shortcut overrides per action, e.g. `{ duplicate: 'Mod+Shift+d', zoomReset: [] }` */
+  keymap?: KeyBindings;
+  /** Rendering backend (default: 'svg'); 'canvas' suits dense, mostly read-only diagrams */
+  renderer?: RendererType;
 }
 
+/** Rendering backends: SVG elements, or a single canvas painted each frame */
+export type RendererType = 'svg' | 'canvas';
+
+/** Editor actions that can be bound to keyboard shortcuts */
+export type KeyAction =
+  | 'focusNext' | 'focusPrevious'
+  | 'followOutgoing' | 'followIncoming' | 'nextConnection' | 'previousConnection'
+  | 'nudgeLeft' | 'nudgeRight' | 'nudgeUp' | 'nudgeDown'
+  | 'nudgeLeftGrid' | 'nudgeRightGrid' | 'nudgeUpGrid' | 'nudgeDownGrid'
+  | 'editLabel' | 'selectAll' | 'deselect' | 'delete'
+  | 'copy' | 'cut' | 'paste' | 'duplicate' | 'undo' | 'redo'
+  | 'zoomIn' | 'zoomOut' | 'zoomReset';
+
+/**
+ * Shortcuts per action, written as modifiers plus a `KeyboardEvent.key` value:
+ * `'Mod+Shift+z'`, `'Alt+ArrowRight'`, `'+'`. `Mod` is Cmd on macOS and Ctrl elsewhere.
+ * An action's list replaces its default shortcuts; an empty list unbinds it.
+ */
+export type KeyBindings = Partial<Record<KeyAction, string | ReadonlyArray<string>>>;
+
+/** Host callback returning a referenced sub-diagram, or null if unknown */
+export type SubDiagramResolver = (diagramId: string) => SerializedState | null | Promise<SerializedState | null>;
+
 // Payloads
 export interface CreateNodePayload {
+  /** Optional caller-supplied ID (must be unique); generated when omitted */
+  id?: string;
   type: string;
   x: number;
   y: number;
   label?: string;
   data?: Record<string, unknown>;
+  /** Group node the new node is placed in */
+  parentId?: NodeId;
+  /** Size in pixels, at least Config.NODE_MIN_WIDTH × NODE_MIN_HEIGHT (default: 200 × 100) */
+  width?: number;
+  height?: number;
 }
 
 export interface UpdateNodePayload {
@@ -93,50 +143,225 @@ export interface UpdateNodePayload {
 }
 
 export interface SpawnConnectedPayload {
+  /** Optional caller-supplied node ID (must be unique) */
+  id?: string;
+  /** Optional caller-supplied connection ID (must be unique) */
+  connectionId?: string;
   type: string;
   x: number;
   y: number;
   sourceHandlerId: HandlerId;
 }
 
+export interface CreateLinkOptions {
+  /** Optional caller-supplied ID (must be unique) */
+  id?: string;
+  /** Connection plugin type (default: 'default') */
+  type?: string;
+}
+
+export interface CreateNoteOptions {
+  /** Optional caller-supplied ID (must be unique) */
+  id?: string;
+  text?: string;
+}
+
 export interface UpdateLinkPayload {
   id: ConnectionId;
   label?: LinkLabel;
   style?: LinkStyle;
+  /** Replaces the bend points; an empty array restores the automatic path */
+  waypoints?: Position[];
 }
 
 export interface TraversePayload {
   strategy: string;
+  /** Cancels the traversal when aborted */
+  signal?: AbortSignal;
+  /** Pause before the first node (step-by-step debugging) */
+  paused?: boolean;
+  /** Runtime variables handed to visitors as `context.variables` */
+  variables?: Record<string, unknown>;
+  /** Maximum nodes running at once, for strategies that run levels in parallel */
+  concurrency?: number;
+  /** Run the graphs of sub-diagram nodes in place (default: true) */
+  recurse?: boolean;
+}
+
+export interface GroupNodesOptions {
+  /** Container node type (default: 'group') */
+  type?: string;
+  label?: string;
+  /** Create the group collapsed */
+  collapsed?: boolean;
+}
+
+export type LayoutAlgorithm = 'layered' | 'tree';
+
+/** Main flow direction: left-to-right or top-to-bottom */
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutSpacing {
+  /** Gap between neighbouring nodes of a layer */
+  node: number;
+  /** Gap between consecutive layers */
+  layer: number;
+}
+
+/** Edge or center line selected nodes are aligned on ('center' is vertical, 'middle' horizontal) */
+export type NodeAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/** Axis along which nodes are spaced evenly */
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface AutoLayoutPayload {
+  /** Default: 'layered' */
+  algorithm?: LayoutAlgorithm;
+  /** Inferred from the directions of the output handlers when omitted */
+  direction?: LayoutDirection;
+  spacing?: Partial<LayoutSpacing>;
+  /** Animate node moves (default: true) */
+  animate?: boolean;
+}
+
+/** Snapping applied while nodes are dragged; holding Alt suspends it */
+export interface SnapOptions {
+  /** Snap the dragged nodes' top-left corner to the grid */
+  grid: boolean;
+  /** Align with the edges and centers of nearby nodes (wins over the grid) */
+  guides: boolean;
+}
+
+export type TraversalState = 'idle' | 'running' | 'paused';
+
+export interface TraversalStatus {
+  readonly state: TraversalState;
+  readonly strategy: string | null;
+  /** Node being visited, or the node the traversal is paused before */
+  readonly activeNodeId: NodeId | null;
+}
+
+/** One level of the sub-diagram navigation path; the root has no node */
+export interface BreadcrumbItem {
+  readonly nodeId: NodeId | null;
+  readonly label: string;
+}
+
+// Command Results
+export interface CreateNodeResult {
+  readonly nodeId: NodeId;
+  readonly handlerIds: ReadonlyArray<HandlerId>;
+}
+
+export interface GroupNodesResult {
+  readonly groupId: NodeId;
+}
+
+export interface SpawnConnectedResult extends CreateNodeResult {
+  /** Null when the new node has no input handler or no connection type is registered */
+  readonly connectionId: ConnectionId | null;
+}
+
+export interface CreateLinkResult {
+  readonly connectionId: ConnectionId;
+}
+
+export interface CreateNoteResult {
+  readonly noteId: NoteId;
+}
+
+export interface ConnectionValidationResult {
+  readonly valid: boolean;
+  /** Name of the rule that rejected the connection */
+  readonly rule?: string;
+  readonly reason?: string;
+  /** Oriented endpoints (a connection dragged from an input is flipped to follow the flow) */
+  readonly sourceHandlerId?: HandlerId;
+  readonly targetHandlerId?: HandlerId;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Problem reported by a validation rule, attached to a node, a connection or the whole graph.
+ */
+export interface Diagnostic {
+  /** Type of the validation rule plugin that reported it */
+  readonly rule: string;
+  readonly severity: DiagnosticSeverity;
+  readonly message: string;
+  readonly nodeId?: NodeId;
+  readonly linkId?: ConnectionId;
 }
 
 // Commands
+// Creation commands return the new IDs, or nothing with WidgetConfig.strictCQS (hence `| void`).
 export interface WidgetCommands {
   loadPlugins(url?: string): void;
-  createNode(payload: CreateNodePayload): void;
+  createNode(payload: CreateNodePayload): CreateNodeResult | void;
   deleteNode(id: NodeId): void;
   updateNode(payload: UpdateNodePayload): void;
-  spawnNodeConnected(payload: SpawnConnectedPayload): void;
-  createLink(sourceHandlerId: HandlerId, targetHandlerId: HandlerId): void;
+  /** Sizes are clamped to Config.NODE_MIN_WIDTH × NODE_MIN_HEIGHT; handlers keep their place on the outline */
+  resizeNode(id: NodeId, size: Dimensions): void;
+  spawnNodeConnected(payload: SpawnConnectedPayload): SpawnConnectedResult | void;
+  createLink(sourceHandlerId: HandlerId, targetHandlerId: HandlerId, options?: CreateLinkOptions): CreateLinkResult | void;
   deleteLink(id: ConnectionId): void;
   updateLink(payload: UpdateLinkPayload): void;
-  createNote(x: number, y: number): void;
+  createNote(x: number, y: number, options?: CreateNoteOptions): CreateNoteResult | void;
   deleteNote(id: NoteId): void;
   undo(): void;
   redo(): void;
+  beginTransaction(): void;
+  commitTransaction(): void;
+  rollbackTransaction(): void;
+  transaction<T>(fn: () => T): T;
   zoomIn(): void;
   zoomOut(): void;
   zoomReset(): void;
   zoomFit(): void;
-  selectObject(type: 'node' | 'link', id: string): void;
+  selectObject(type: 'node' | 'link' | 'note', id: string, additive?: boolean): void;
+  selectObjects(items: ReadonlyArray<Selection>, additive?: boolean): void;
+  selectAll(): void;
   deselectAll(): void;
+  deleteSelection(): void;
+  updateNodes(payloads: ReadonlyArray<UpdateNodePayload>): void;
+  copySelection(): void;
+  cutSelection(): void;
+  paste(data?: SerializedState | string): void;
+  duplicateSelection(): void;
   importState(data: SerializedState): void;
   traverseDiagram(payload: TraversePayload): Promise<void>;
+  pauseTraversal(): void;
+  resumeTraversal(): void;
+  stepOver(): void;
+  stepInto(): void;
+  cancelTraversal(): void;
+  setBreakpoint(nodeId: NodeId, enabled?: boolean): void;
+  toggleBreakpoint(nodeId: NodeId): void;
+  clearBreakpoints(): void;
+  autoLayout(payload?: AutoLayoutPayload): Promise<void>;
+  groupNodes(nodeIds: ReadonlyArray<NodeId>, options?: GroupNodesOptions): GroupNodesResult | void;
+  ungroupNodes(groupId: NodeId): void;
+  setNodeParent(nodeId: NodeId, parentId: NodeId | null): void;
+  collapseGroup(groupId: NodeId): void;
+  expandGroup(groupId: NodeId): void;
+  toggleGroup(groupId: NodeId): void;
+  enterSubDiagram(nodeId: NodeId): Promise<void>;
+  /** Returns to a breadcrumb level (default: the parent diagram) */
+  exitSubDiagram(level?: number): void;
+  setSnapping(options: Partial<SnapOptions>): void;
+  /** Aligns at least two nodes; one undo step */
+  alignNodes(nodeIds: ReadonlyArray<NodeId>, alignment: NodeAlignment): void;
+  /** Spaces at least three nodes evenly between the outermost ones; one undo step */
+  distributeNodes(nodeIds: ReadonlyArray<NodeId>, axis: DistributeAxis): void;
 }
 
 // Queries Data Objects
 export interface NodeMetadata {
   readonly type: string;
   readonly role: NodeRole;
+  /** Group nodes that can hold other nodes */
+  readonly container: boolean;
 }
 
 export interface NodeData {
@@ -145,9 +370,13 @@ export interface NodeData {
   readonly label: string;
   readonly note: string;
   readonly position: Readonly<Position>;
+  readonly width: number;
+  readonly height: number;
   readonly style: Readonly<NodeStyle>;
   readonly data: Readonly<Record<string, unknown>>;
   readonly handlers: ReadonlyArray<HandlerData>;
+  readonly parentId: NodeId | null;
+  readonly collapsed: boolean;
 }
 
 export interface HandlerData {
@@ -156,6 +385,7 @@ export interface HandlerData {
   readonly flow: FlowType;
   readonly offset: Position;
   readonly direction: Direction;
+  readonly maxConnections?: number;
   label: string;
 }
 
@@ -167,6 +397,7 @@ export interface ConnectionData {
   readonly pathType: ConnectionPathType;
   readonly label?: Readonly<LinkLabel>;
   readonly style: Readonly<LinkStyle>;
+  readonly waypoints: ReadonlyArray<Readonly<Position>>;
   readonly data: Readonly<Record<string, unknown>>;
 }
 
@@ -177,12 +408,66 @@ export interface NoteData {
     readonly dimensions: Dimensions;
 }
 
+/** Entry of the text outline of the graph */
+export interface OutlineEntry {
+  readonly type: 'node' | 'link';
+  readonly id: string;
+  /** Spoken description, e.g. "Task A → Decision B" */
+  readonly text: string;
+  /** Nesting depth, 1 for top-level nodes */
+  readonly level: number;
+  readonly children: ReadonlyArray<OutlineEntry>;
+}
+
+/** Nodes and connections returned by path and subgraph queries */
+export interface SubgraphData {
+  readonly nodes: ReadonlyArray<Readonly<NodeData>>;
+  readonly connections: ReadonlyArray<Readonly<ConnectionData>>;
+}
+
 export interface WidgetQueries {
   getNode(id: NodeId): Readonly<NodeData> | null;
   getAllNodesDefinition(): ReadonlyArray<NodeMetadata>;
   getNodeIconPathData(type: string): string;
   getLink(id: ConnectionId): Readonly<ConnectionData> | null;
   getGraphData(): Readonly<SerializedState>;
+  getSelection(): SelectionState;
+  canConnect(sourceHandlerId: HandlerId, targetHandlerId: HandlerId, connectionType?: string): ConnectionValidationResult;
+  getClipboard(): Readonly<SerializedState> | null;
+  
+  // Graph structure
+  getNodeByHandler(handlerId: HandlerId): Readonly<NodeData> | null;
+  getIncomingLinks(nodeId: NodeId): ReadonlyArray<Readonly<ConnectionData>>;
+  getOutgoingLinks(nodeId: NodeId): ReadonlyArray<Readonly<ConnectionData>>;
+  getPredecessors(nodeId: NodeId): ReadonlyArray<Readonly<NodeData>>;
+  getSuccessors(nodeId: NodeId): ReadonlyArray<Readonly<NodeData>>;
+  getAncestors(nodeId: NodeId): ReadonlyArray<Readonly<NodeData>>;
+  getDescendants(nodeId: NodeId): ReadonlyArray<Readonly<NodeData>>;
+  getShortestPath(fromNodeId: NodeId, toNodeId: NodeId): Readonly<SubgraphData> | null;
+  getConnectedComponents(): ReadonlyArray<ReadonlyArray<Readonly<NodeData>>>;
+  getCycles(): ReadonlyArray<ReadonlyArray<Readonly<NodeData>>>;
+  getRoots(): ReadonlyArray<Readonly<NodeData>>;
+  getLeaves(): ReadonlyArray<Readonly<NodeData>>;
+  getSubgraph(nodeIds: ReadonlyArray<NodeId>): Readonly<SubgraphData>;
+  
+  // Groups
+  getChildren(groupId: NodeId): ReadonlyArray<Readonly<NodeData>>;
+  
+  // Sub-diagrams
+  getBreadcrumb(): ReadonlyArray<BreadcrumbItem>;
+  
+  // Editing
+  getSnapping(): Readonly<SnapOptions>;
+  
+  // Accessibility
+  getOutline(): string;
+  
+  // Traversal
+  getTraversalStatus(): TraversalStatus;
+  getBreakpoints(): ReadonlyArray<NodeId>;
+  
+  // Validation
+  getDiagnostics(elementId?: NodeId | ConnectionId): ReadonlyArray<Diagnostic>;
 }
 
 export interface WidgetAPI {
@@ -210,9 +495,15 @@ export interface SerializedNode {
   data: Record<string, unknown>;
   presentation: {
     position: Position;
+    /** Missing in documents saved before nodes were resizable: Config.NODE_MIN_WIDTH × NODE_MIN_HEIGHT */
+    size?: Dimensions;
     style: NodeStyle;
+    /** Group nodes only */
+    collapsed?: boolean;
   };
   handles: Record<string, SerializedHandler>;
+  /** Containing group node; omitted at top level */
+  parentId?: NodeId;
 }
 
 export interface SerializedHandler {
@@ -220,6 +511,7 @@ export interface SerializedHandler {
   type: string;
   label: string;
   flow: FlowType;
+  maxConnections?: number;
   presentation: {
     offset: Position;
     direction: Direction;
@@ -234,6 +526,8 @@ export interface SerializedConnection {
   pathType: ConnectionPathType;
   label?: LinkLabel;
   style: LinkStyle;
+  /** Bend points from source to target; omitted when the path is automatic */
+  waypoints?: Position[];
   data: Record<string, unknown>;
 }
 
@@ -3,7 +3,7 @@
  */
 
 import { NodeId, ConnectionId, NoteId, Position, GraphState } from './graph.types';
-import { NodeInstance, ConnectionInstance, NoteInstance } from './api.types';
+import { NodeInstance, ConnectionInstance, NoteInstance, Diagnostic, BreadcrumbItem, SerializedState } from './api.types';
 
 export type EventType = 
   | 'NODE_CREATED'
@@ -22,10 +22,20 @@ export type EventType =
   | 'PLUGINS_LOADED'
   | 'TRAVERSE_COMPLETED'
   | 'TRAVERSE_ERROR'
+  | 'TRAVERSE_NODE_STARTED'
+  | 'TRAVERSE_NODE_COMPLETED'
+  | 'TRAVERSE_NODE_SKIPPED'
+  | 'TRAVERSE_PAUSED'
+  | 'TRAVERSE_RESUMED'
+  | 'TRAVERSE_CANCELLED'
+  | 'BREAKPOINTS_CHANGED'
   | 'RENDER_REQUESTED'
   | 'NOTE_CREATED'
   | 'NOTE_UPDATED'
-  | 'NOTE_REMOVED';
+  | 'NOTE_REMOVED'
+  | 'VALIDATION_CHANGED'
+  | 'SUBDIAGRAM_ENTERED'
+  | 'SUBDIAGRAM_EXITED';
 
 export interface NodeMovedPayload {
   readonly id: NodeId;
@@ -38,6 +48,13 @@ export interface Selection {
   readonly id: string;
 }
 
+export interface SelectionState {
+  readonly nodes: ReadonlyArray<NodeId>;
+  readonly links: ReadonlyArray<ConnectionId>;
+  readonly notes: ReadonlyArray<NoteId>;
+  readonly primary: Selection | null; // Most recently selected item
+}
+
 export interface HistoryStatus {
   readonly canUndo: boolean;
   readonly canRedo: boolean;
@@ -48,11 +65,54 @@ export interface TraverseResult {
   readonly result: unknown;
 }
 
+export interface ValidationChangedPayload {
+  readonly diagnostics: ReadonlyArray<Diagnostic>;
+}
+
+export interface TraverseNodePayload {
+  readonly strategy: string;
+  readonly nodeId: NodeId;
+  readonly nodeType: string;
+  /** Nesting level (0 for nodes of the traversed diagram) */
+  readonly depth: number;
+}
+
+export interface TraverseNodeCompletedPayload extends TraverseNodePayload {
+  readonly durationMs: number;
+}
+
+export interface TraversePausedPayload {
+  readonly strategy: string;
+  readonly nodeId: NodeId;
+  readonly reason: 'breakpoint' | 'step' | 'pause';
+}
+
+export interface TraverseStatusPayload {
+  readonly strategy: string;
+  readonly nodeId: NodeId | null;
+}
+
+export interface BreakpointsChangedPayload {
+  readonly nodeIds: ReadonlyArray<NodeId>;
+}
+
 export interface ErrorPayload {
   readonly message: string;
   readonly code?: string;
 }
 
+export interface SubDiagramPayload {
+  /** Sub-diagram node entered or left */
+  readonly nodeId: NodeId;
+  /** Navigation path after the change, root first */
+  readonly path: ReadonlyArray<BreadcrumbItem>;
+}
+
+export interface SubDiagramExitedPayload extends SubDiagramPayload {
+  /** Graph of the sub-diagram as left (already written back if embedded) */
+  readonly state: SerializedState;
+}
+
 // The Map linking Event Types to their Payloads
 export interface EventPayloadMap {
   NODE_CREATED: NodeInstance;
@@ -62,7 +122,7 @@ export interface EventPayloadMap {
   CONNECTION_CREATED: ConnectionInstance;
   CONNECTION_UPDATED: ConnectionInstance;
   CONNECTION_REMOVED: ConnectionId;
-  SELECTION_CHANGED: Selection | null;
+  SELECTION_CHANGED: SelectionState;
   HISTORY_CHANGED: HistoryStatus;
   HISTORY_SAVE_REQUESTED: void;
   HISTORY_UNDO_REQUESTED: void;
@@ -71,10 +131,20 @@ export interface EventPayloadMap {
   PLUGINS_LOADED: void;
   TRAVERSE_COMPLETED: TraverseResult;
   TRAVERSE_ERROR: ErrorPayload;
+  TRAVERSE_NODE_STARTED: TraverseNodePayload;
+  TRAVERSE_NODE_COMPLETED: TraverseNodeCompletedPayload;
+  TRAVERSE_NODE_SKIPPED: TraverseNodePayload;
+  TRAVERSE_PAUSED: TraversePausedPayload;
+  TRAVERSE_RESUMED: TraverseStatusPayload;
+  TRAVERSE_CANCELLED: TraverseStatusPayload;
+  BREAKPOINTS_CHANGED: BreakpointsChangedPayload;
   RENDER_REQUESTED: void;
   NOTE_CREATED: NoteInstance;
   NOTE_UPDATED: NoteInstance;
   NOTE_REMOVED: NoteId;
+  VALIDATION_CHANGED: ValidationChangedPayload;
+  SUBDIAGRAM_ENTERED: SubDiagramPayload;
+  SUBDIAGRAM_EXITED: SubDiagramExitedPayload;
 }
 
 export type EventCallback<T extends EventType> = T extends keyof EventPayloadMap 
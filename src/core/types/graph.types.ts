@@ -55,6 +55,33 @@ export interface Dimensions {
   readonly height: number;
 }
 
+export interface Rect {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Alignment guide line drawn while dragging (graph coordinates).
+ * Vertical guides run at x = position from y = from to y = to; horizontal ones the other way round.
+ */
+export interface AlignmentGuide {
+  readonly orientation: 'vertical' | 'horizontal';
+  readonly position: number;
+  readonly from: number;
+  readonly to: number;
+}
+
+/**
+ * Part of the diagram under the pointer, as found by the render engine.
+ */
+export type HitTarget =
+  | { readonly type: 'node' | 'group-toggle' | 'resize-handle'; readonly nodeId: NodeId }
+  | { readonly type: 'handler'; readonly nodeId: NodeId; readonly handlerId: HandlerId }
+  | { readonly type: 'link' | 'link-label'; readonly linkId: ConnectionId }
+  | { readonly type: 'waypoint'; readonly linkId: ConnectionId; readonly index: number };
+
 export interface Vector2D {
   readonly x: number;
   readonly y: number;
@@ -2,8 +2,16 @@
  * Plugin system interfaces and contract definitions.
  */
 
-import { NodeRole, FlowType, Dimensions } from './graph.types';
-import type { NodeInstance, ConnectionInstance, ConnectionData } from './api.types';
+import { NodeRole, FlowType, Dimensions, Direction, Position, NodeId, HandlerId } from './graph.types';
+import type {
+  NodeInstance,
+  ConnectionInstance,
+  ConnectionData,
+  NodeData,
+  Diagnostic,
+  DiagnosticSeverity,
+  WidgetQueries
+} from './api.types';
 
 export interface PluginDefinition<T = unknown> {
   readonly type: string;
@@ -19,6 +27,27 @@ export interface PropertyFieldDefinition {
   label: string;
   default?: unknown;
   options?: string[];
+  /** Reported by the required-field validation rule when left empty */
+  required?: boolean;
+}
+
+/**
+ * Declarative description of one handler on a node.
+ * Can be provided as a static `handlers` array on the plugin class, or computed
+ * from node data by `getHandlers(data)` (e.g. a switch node with one output per case).
+ */
+export interface HandlerLayoutSpec {
+  /** Handler plugin type (e.g. 'input', 'output') */
+  type: string;
+  /** Side of the node; derived from the offset when omitted */
+  side?: Direction;
+  /** Offset relative to the node's top-left corner; distributed along `side` when omitted */
+  offset?: Position;
+  /** Stable key used in the handler ID; keep it unique per node to preserve IDs across regenerations */
+  key?: string;
+  label?: string;
+  /** Maximum number of connections attached to this handler (unlimited when omitted) */
+  maxConnections?: number;
 }
 
 export interface NodePluginDefinition extends PluginDefinition {
@@ -28,6 +57,10 @@ export interface NodePluginDefinition extends PluginDefinition {
   getShapeTemplate(): string;
   getShapeAttributes?(): Record<string, unknown> | null;
   schema?: PropertySchema;
+  /** Container nodes (groups) hold child nodes and can be collapsed */
+  container?: boolean;
+  handlers?: ReadonlyArray<HandlerLayoutSpec>;
+  getHandlers?(data: Record<string, unknown>): ReadonlyArray<HandlerLayoutSpec>;
 }
 
 export interface HandlerPluginDefinition extends PluginDefinition {
@@ -37,20 +70,116 @@ export interface HandlerPluginDefinition extends PluginDefinition {
   getShapeAttributes?(): Record<string, unknown> | null;
 }
 
-export interface StrategyPluginDefinition extends PluginDefinition {
+export interface StrategyPluginDefinition<TAggregator = unknown> extends PluginDefinition {
   sortNodes(nodes: NodeInstance[], links: ConnectionInstance[]): NodeInstance[];
-  getVisitors(): VisitorMap;
-  getInitialAggregator(): unknown;
+  getVisitors(): VisitorMap<TAggregator>;
+  getInitialAggregator(): TAggregator;
+  /**
+   * Decides whether a node runs (e.g. only nodes on taken branches).
+   * Nodes are visited when omitted.
+   */
+  shouldVisit?(node: NodeInstance, agg: TAggregator, context: TraverseContext): boolean;
+  /** Called instead of the visitor for nodes rejected by `shouldVisit` */
+  visitSkipped?(node: NodeInstance, agg: TAggregator, context: TraverseContext): void;
+  /**
+   * Creates the aggregator the graph of a sub-diagram node runs with, e.g. to
+   * start only the entry nodes behind inputs that fired. Called with the parent's
+   * aggregator and context; `inputs` maps input handlers to entry nodes.
+   * The graph shares the parent's aggregator when omitted.
+   */
+  enterSubDiagram?(
+    node: NodeInstance,
+    agg: TAggregator,
+    context: TraverseContext,
+    inputs: SubDiagramRun['inputs']
+  ): TAggregator;
+  /**
+   * Groups nodes into levels run one after another; nodes of a level run
+   * concurrently. `sortNodes` is used when omitted.
+   */
+  getLevels?(nodes: NodeInstance[], links: ConnectionInstance[]): NodeInstance[][];
+  /** Default maximum nodes running at once within a level */
+  concurrency?: number;
+}
+
+/**
+ * Connection rules declared by a connection plugin (static `rules` or instance property).
+ * Flow compatibility and handler-to-itself checks always apply.
+ */
+export interface ConnectionRules {
+  /** Allow connecting two handlers of the same node (default: false) */
+  allowSelfNode?: boolean;
+  /** Allow more than one connection between the same two handlers (default: false) */
+  allowDuplicates?: boolean;
+  /** Maximum outgoing connections of this type per source handler */
+  maxFanOut?: number;
+  /** Maximum incoming connections of this type per target handler */
+  maxFanIn?: number;
+  /** Node types allowed as source (any when omitted) */
+  allowedSourceNodeTypes?: ReadonlyArray<string>;
+  /** Node types allowed as target (any when omitted) */
+  allowedTargetNodeTypes?: ReadonlyArray<string>;
 }
 
 export interface ConnectionPluginDefinition extends PluginDefinition {
   getData(): ConnectionData;
+  rules?: ConnectionRules;
+}
+
+/**
+ * Input of a validation rule run: immutable graph snapshot plus read-only queries.
+ */
+export interface ValidationContext {
+  nodes: ReadonlyArray<NodeData>;
+  links: ReadonlyArray<ConnectionData>;
+  queries: WidgetQueries;
+  getNodeSchema(type: string): PropertySchema | null;
 }
 
-export type VisitorMap = Record<string, VisitorFunction>;
-export type VisitorFunction = (node: NodeInstance, agg: any, context: TraverseContext) => void;
+/**
+ * Diagnostic as returned by a rule; `rule` is filled in from the plugin type
+ * and `severity` defaults to the plugin's static `severity` (or 'error').
+ */
+export type DiagnosticReport = Omit<Diagnostic, 'rule' | 'severity'> & {
+  severity?: DiagnosticSeverity;
+};
+
+export interface ValidationRulePluginDefinition extends PluginDefinition {
+  readonly severity?: DiagnosticSeverity;
+  validate(context: ValidationContext): ReadonlyArray<DiagnosticReport>;
+}
+
+export type VisitorMap<TAggregator = any> = Record<string, VisitorFunction<TAggregator>>;
+
+/**
+ * Visits one node. May return a promise: the traversal waits for it before moving on.
+ */
+export type VisitorFunction<TAggregator = any> = (
+  node: NodeInstance,
+  agg: TAggregator,
+  context: TraverseContext
+) => void | Promise<void>;
 
 export interface TraverseContext {
   nodes: ReadonlyArray<NodeInstance>;
   links: ReadonlyArray<ConnectionInstance>;
+  /** Aborted when the traversal is cancelled; pass it on to fetch calls and timers */
+  signal: AbortSignal;
+  /** Runtime variables supplied with TraversePayload.variables */
+  variables: Readonly<Record<string, unknown>>;
+  /** Set for the visitor of a sub-diagram node, after its graph ran */
+  subDiagram?: SubDiagramRun;
+}
+
+/**
+ * Outcome of running the graph of a sub-diagram node.
+ * Ports map the node's handlers to the entry (no inputs) and exit (no outputs)
+ * nodes of the child graph.
+ */
+export interface SubDiagramRun {
+  nodeId: NodeId;
+  inputs: Readonly<Record<HandlerId, ReadonlyArray<NodeId>>>;
+  outputs: Readonly<Record<HandlerId, ReadonlyArray<NodeId>>>;
+  /** Child nodes whose visitor ran (skipped nodes are left out) */
+  completed: ReadonlyArray<NodeId>;
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+/**
+ * Connection validation rules (flow compatibility, roles, fan-in/out, duplicates, node types).
+ * Used by the API before creating links and by the input system for ghost feedback.
+ */
+import { Store } from '../State';
+import { Registry } from '../Registry';
+import {
+  FlowType,
+  HandlerId,
+  ConnectionRules,
+  ConnectionValidationResult
+} from '../types';
+import { Node } from '../../domain/models/Node';
+import { Handler } from '../../domain/models/Handler';
+import { Connection } from '../../domain/models/Connection';
+
+/**
+ * Everything a rule needs to know about a candidate connection.
+ */
+export interface ConnectionCandidate {
+  source: Readonly<Handler>;
+  target: Readonly<Handler>;
+  sourceNode: Readonly<Node>;
+  targetNode: Readonly<Node>;
+  connectionType: string;
+  rules: ConnectionRules;
+  /** Existing links attached to the source or target node */
+  links: ReadonlyArray<Readonly<Connection>>;
+}
+
+/**
+ * Single validation rule. Returns null when the candidate passes,
+ * or a human-readable reason when it is rejected.
+ */
+export interface ConnectionValidationRule {
+  readonly name: string;
+  check(candidate: ConnectionCandidate): string | null;
+}
+
+/**
+ * Flow compatibility truth table (REQ-VALID-001).
+ */
+export class FlowValidationRule implements ConnectionValidationRule {
+  readonly name = 'flow';
+
+  private static readonly VALID_CONNECTIONS: Record<FlowType, FlowType[]> = {
+    [FlowType.IN]: [FlowType.OUT, FlowType.ANY],
+    [FlowType.OUT]: [FlowType.IN, FlowType.ANY],
+    [FlowType.BI]: [FlowType.BI, FlowType.ANY],
+    [FlowType.ANY]: [FlowType.IN, FlowType.OUT, FlowType.BI, FlowType.ANY]
+  };
+
+  check({ source, target }: ConnectionCandidate): string | null {
+    const allowedTargets = FlowValidationRule.VALID_CONNECTIONS[source.flow] || [];
+    return allowedTargets.includes(target.flow)
+      ? null
+      : `Cannot connect "${source.flow}" handler to "${target.flow}" handler`;
+  }
+}
+
+/**
+ * Rejects handler-to-itself and, unless allowed by the connection type, node-to-itself.
+ */
+export class SelfConnectionRule implements ConnectionValidationRule {
+  readonly name = 'self';
+
+  check({ source, target, sourceNode, targetNode, rules }: ConnectionCandidate): string | null {
+    if (source.id === target.id) {
+      return 'Cannot connect handler to itself';
+    }
+    if (sourceNode.id === targetNode.id && !rules.allowSelfNode) {
+      return 'Cannot connect a node to itself';
+    }
+    return null;
+  }
+}
+
+/**
+ * Explicit handler roles: a 'target' handler cannot start a connection, a 'source' cannot end one.
+ */
+export class HandlerRoleRule implements ConnectionValidationRule {
+  readonly name = 'role';
+
+  check({ source, target }: ConnectionCandidate): string | null {
+    if (source.role === 'target') {
+      return 'Source handler only accepts incoming connections';
+    }
+    if (target.role === 'source') {
+      return 'Target handler only allows outgoing connections';
+    }
+    return null;
+  }
+}
+
+/**
+ * Per-handler limits: handler `maxConnections` and connection type `maxFanOut` / `maxFanIn`.
+ */
+export class FanLimitRule implements ConnectionValidationRule {
+  readonly name = 'fan';
+
+  check({ source, target, connectionType, rules, links }: ConnectionCandidate): string | null {
+    const attached = (id: HandlerId) =>
+      links.filter(l => l.sourceHandlerId === id || l.targetHandlerId === id).length;
+
+    if (source.maxConnections !== undefined && attached(source.id) >= source.maxConnections) {
+      return `Source handler accepts at most ${source.maxConnections} connection(s)`;
+    }
+    if (target.maxConnections !== undefined && attached(target.id) >= target.maxConnections) {
+      return `Target handler accepts at most ${target.maxConnections} connection(s)`;
+    }
+
+    if (rules.maxFanOut !== undefined) {
+      const fanOut = links.filter(l => l.type === connectionType && l.sourceHandlerId === source.id).length;
+      if (fanOut >= rules.maxFanOut) {
+        return `Source handler allows at most ${rules.maxFanOut} outgoing "${connectionType}" connection(s)`;
+      }
+    }
+    if (rules.maxFanIn !== undefined) {
+      const fanIn = links.filter(l => l.type === connectionType && l.targetHandlerId === target.id).length;
+      if (fanIn >= rules.maxFanIn) {
+        return `Target handler allows at most ${rules.maxFanIn} incoming "${connectionType}" connection(s)`;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Rejects a second connection between the same two handlers (either direction).
+ */
+export class DuplicateConnectionRule implements ConnectionValidationRule {
+  readonly name = 'duplicate';
+
+  check({ source, target, rules, links }: ConnectionCandidate): string | null {
+    if (rules.allowDuplicates) return null;
+
+    const exists = links.some(l =>
+      (l.sourceHandlerId === source.id && l.targetHandlerId === target.id) ||
+      (l.sourceHandlerId === target.id && l.targetHandlerId === source.id)
+    );
+    return exists ? 'These handlers are already connected' : null;
+  }
+}
+
+/**
+ * Node-type allow-lists declared on the connection plugin.
+ */
+export class NodeTypeRule implements ConnectionValidationRule {
+  readonly name = 'nodeType';
+
+  check({ sourceNode, targetNode, connectionType, rules }: ConnectionCandidate): string | null {
+    if (rules.allowedSourceNodeTypes && !rules.allowedSourceNodeTypes.includes(sourceNode.type)) {
+      return `"${connectionType}" connections cannot start from "${sourceNode.type}" nodes`;
+    }
+    if (rules.allowedTargetNodeTypes && !rules.allowedTargetNodeTypes.includes(targetNode.type)) {
+      return `"${connectionType}" connections cannot end at "${targetNode.type}" nodes`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Runs all connection rules against a candidate connection.
+ *
+ * Connections are oriented before validation: when the user drags from an input
+ * to an output, the output becomes the source so links always follow the flow.
+ *
+ * @example
+ * ```typescript
+ * const validator = new ConnectionValidator(store, registry);
+ * const result = validator.validate(sourceHandlerId, targetHandlerId);
+ * if (!result.valid) console.warn(result.reason);
+ * ```
+ */
+export class ConnectionValidator {
+  private store: Store;
+  private registry: Registry;
+  private rules: ConnectionValidationRule[] = [
+    new SelfConnectionRule(),
+    new FlowValidationRule(),
+    new HandlerRoleRule(),
+    new DuplicateConnectionRule(),
+    new FanLimitRule(),
+    new NodeTypeRule()
+  ];
+
+  /**
+   * Creates a new ConnectionValidator instance.
+   *
+   * @param store - State store providing handlers and existing links
+   * @param registry - Plugin registry providing connection rules
+   */
+  constructor(store: Store, registry: Registry) {
+    this.store = store;
+    this.registry = registry;
+  }
+
+  /**
+   * Adds a custom rule, evaluated after the built-in ones.
+   *
+   * @param rule - Rule to add
+   */
+  addRule(rule: ConnectionValidationRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Validates a connection between two handlers.
+   *
+   * @param sourceHandlerId - Handler the connection starts from
+   * @param targetHandlerId - Handler the connection ends at
+   * @param connectionType - Connection plugin type (default: 'default')
+   * @returns Result with the oriented source/target IDs when valid
+   */
+  validate(
+    sourceHandlerId: HandlerId,
+    targetHandlerId: HandlerId,
+    connectionType: string = 'default'
+  ): ConnectionValidationResult {
+    const sourceNode = this.findNode(sourceHandlerId);
+    const targetNode = this.findNode(targetHandlerId);
+    let source = sourceNode?.handlers.find(h => h.id === sourceHandlerId);
+    let target = targetNode?.handlers.find(h => h.id === targetHandlerId);
+
+    if (!sourceNode || !source) {
+      return { valid: false, rule: 'exists', reason: `Source handler ${sourceHandlerId} not found` };
+    }
+    if (!targetNode || !target) {
+      return { valid: false, rule: 'exists', reason: `Target handler ${targetHandlerId} not found` };
+    }
+
+    let nodes = { source: sourceNode, target: targetNode };
+    if (this.isReversed(source, target)) {
+      [source, target] = [target, source];
+      nodes = { source: targetNode, target: sourceNode };
+    }
+
+    const candidate: ConnectionCandidate = {
+      source,
+      target,
+      sourceNode: nodes.source,
+      targetNode: nodes.target,
+      connectionType,
+      rules: this.getRules(connectionType),
+      links: this.getAttachedLinks(sourceNode, targetNode)
+    };
+
+    for (const rule of this.rules) {
+      const reason = rule.check(candidate);
+      if (reason) {
+        return { valid: false, rule: rule.name, reason };
+      }
+    }
+
+    return { valid: true, sourceHandlerId: source.id, targetHandlerId: target.id };
+  }
+
+  /**
+   * Checks if a new connection may start at a handler (role and capacity only).
+   *
+   * @param handlerId - Handler to start from
+   * @returns Validation result
+   */
+  canStartFrom(handlerId: HandlerId): ConnectionValidationResult {
+    const node = this.findNode(handlerId);
+    const handler = node?.handlers.find(h => h.id === handlerId);
+
+    if (!handler) {
+      return { valid: false, rule: 'exists', reason: `Handler ${handlerId} not found` };
+    }
+
+    if (handler.maxConnections !== undefined) {
+      const attached = this.store.getLinksForNode(node!.id)
+        .filter(l => l.sourceHandlerId === handlerId || l.targetHandlerId === handlerId).length;
+      if (attached >= handler.maxConnections) {
+        return {
+          valid: false,
+          rule: 'fan',
+          reason: `Handler accepts at most ${handler.maxConnections} connection(s)`
+        };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * A connection dragged from an input (or onto an output) is flipped to follow the flow.
+   */
+  private isReversed(source: Readonly<Handler>, target: Readonly<Handler>): boolean {
+    return (source.flow === FlowType.IN && target.flow !== FlowType.IN) ||
+      (target.flow === FlowType.OUT && source.flow !== FlowType.OUT);
+  }
+
+  private getRules(connectionType: string): ConnectionRules {
+    // Unregistered types (e.g. "default" before plugins load) have no rules of their own
+    if (!this.registry.hasConnectionType(connectionType)) return {};
+    const definition = this.registry.getConnectionDefinition(connectionType);
+    if (!definition) return {};
+
+    return definition.rules ?? (definition as any).constructor.rules ?? {};
+  }
+
+  private findNode(handlerId: HandlerId): Readonly<Node> | null {
+    const nodeId = this.store.getNodeIdForHandler(handlerId);
+    return nodeId ? this.store.getNode(nodeId) : null;
+  }
+
+  private getAttachedLinks(sourceNode: Readonly<Node>, targetNode: Readonly<Node>): ReadonlyArray<Readonly<Connection>> {
+    const links = this.store.getLinksForNode(sourceNode.id);
+    if (sourceNode.id === targetNode.id) return links;
+
+    // A link between the two nodes is listed for both
+    const ids = new Set(links.map(l => l.id));
+    return [...links, ...this.store.getLinksForNode(targetNode.id).filter(l => !ids.has(l.id))];
+  }
+}
@@ -9,7 +9,7 @@ import {
   FlowType
 } from '../types';
 
-export type PluginCategory = 'node' | 'handler' | 'strategy' | 'connection';
+export type PluginCategory = 'node' | 'handler' | 'strategy' | 'connection' | 'validator';
 
 export interface ValidationResult {
   valid: boolean;
@@ -86,6 +86,9 @@ export class PluginValidator {
       ],
       connection: [
         'getData'
+      ],
+      validator: [
+        'validate'
       ]
     };
     return interfaces[category] || [];
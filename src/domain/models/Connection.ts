@@ -7,7 +7,8 @@ import {
   ConnectionData,
   ConnectionPluginDefinition,
   ConnectionInstance,
-  NodeInstance
+  NodeInstance,
+  Position
 } from '../../core/types';
 import { Registry } from '../../core/Registry';
 
@@ -23,6 +24,8 @@ export class Connection implements ConnectionInstance {
   pathType: ConnectionPathType;
   style: LinkStyle;
   label?: LinkLabel;
+  // Bend points set by the user; empty for automatic paths
+  waypoints: Position[] = [];
   data: Record<string, unknown>;
   
   private definition: ConnectionPluginDefinition;
@@ -90,6 +93,9 @@ export class Connection implements ConnectionInstance {
     if (changes.pathType !== undefined) {
       this.pathType = changes.pathType;
     }
+    if (changes.waypoints !== undefined) {
+      this.waypoints = changes.waypoints.map(p => ({ x: p.x, y: p.y }));
+    }
   }
   
   /**
@@ -105,6 +111,7 @@ export class Connection implements ConnectionInstance {
       pathType: this.pathType,
       label: this.label ? { ...this.label } : undefined,
       style: { ...this.style },
+      waypoints: this.waypoints.map(p => ({ ...p })),
       data: { ...this.data }
     });
   }
@@ -126,6 +133,7 @@ export class Connection implements ConnectionInstance {
     
     cloned.style = { ...this.style };
     cloned.label = this.label ? { ...this.label } : undefined;
+    cloned.waypoints = this.waypoints.map(p => ({ ...p }));
     
     return cloned;
   }
@@ -22,6 +22,7 @@ export class Handler implements HandlerInstance {
   readonly offset: Position;
   readonly direction: Direction;
   readonly dimensions: Dimensions;
+  readonly maxConnections?: number;
   label: string;
   
   private definition: HandlerPluginDefinition;
@@ -35,6 +36,7 @@ export class Handler implements HandlerInstance {
    * @param label - Optional handler label
    * @param role - Handler role (source/target/both)
    * @param direction - Explicit direction or auto-calculated from offset
+   * @param maxConnections - Optional limit of attached connections
    */
   constructor(
     id: HandlerId,
@@ -43,16 +45,19 @@ export class Handler implements HandlerInstance {
     offset: Position,
     label: string = '',
     role: 'source' | 'target' | '' = '',
-    direction?: Direction
+    direction?: Direction,
+    maxConnections?: number
   ) {
     this.id = id;
     this.type = type;
     this.definition = definition;
     this.offset = offset;
     this.label = label;
-    this.flow = definition.flow;
-    this.dimensions = definition.dimensions;
+    // Plugins declare flow and dimensions as static members
+    this.flow = resolveHandlerFlow(definition);
+    this.dimensions = definition.dimensions ?? (definition as any).constructor?.dimensions;
     this.role = role;
+    this.maxConnections = maxConnections;
     
     // Calculate direction from offset if not explicitly provided
     this.direction = direction ?? this.calculateDirectionFromOffset(offset);
@@ -125,10 +130,31 @@ export class Handler implements HandlerInstance {
       flow: this.flow,
       offset: { ...this.offset },
       direction: this.direction,
+      maxConnections: this.maxConnections,
       label: this.label
     });
   }
   
+  /**
+   * Creates a copy of this handler with the same ID at another place.
+   * Used for the boundary handlers shown on collapsed groups.
+   * @param offset - Position offset relative to the new owner
+   * @param direction - Direction at the new place
+   * @returns New Handler instance
+   */
+  cloneAt(offset: Position, direction: Direction): Handler {
+    return new Handler(
+      this.id,
+      this.type,
+      this.definition,
+      { ...offset },
+      this.label,
+      this.role,
+      direction,
+      this.maxConnections
+    );
+  }
+  
   /**
    * Creates a deep copy of this handler.
    * @returns New Handler instance with copied data
@@ -141,7 +167,30 @@ export class Handler implements HandlerInstance {
       { ...this.offset },
       this.label,
       this.role,
-      this.direction
+      this.direction,
+      this.maxConnections
     );
   }
+}
+
+/**
+ * Reads the flow of a handler plugin (static `flow`, or instance property).
+ * 
+ * @param definition - Handler plugin definition
+ * @returns Flow type of the handler
+ */
+export function resolveHandlerFlow(definition: HandlerPluginDefinition): FlowType {
+  return definition.flow ?? (definition as any).constructor?.flow;
+}
+
+/**
+ * Derives the connection role of a handler from its flow.
+ * 
+ * @param flow - Handler flow type
+ * @returns 'target' for inputs, 'source' for outputs, '' otherwise
+ */
+export function getRoleForFlow(flow: FlowType): 'source' | 'target' | '' {
+  if (flow === FlowType.IN) return 'target';
+  if (flow === FlowType.OUT) return 'source';
+  return '';
 }
\ No newline at end of file
@@ -34,11 +34,14 @@ export class Node implements NodeInstance {
   label: string;
   note: string;
   readonly position: Position;
-  readonly width: number;
-  readonly height: number;
+  // Mutable: nodes are resized by the user, containers to fit their children
+  width: number;
+  height: number;
   style: NodeStyle;
   data: Record<string, unknown>;
   readonly handlers: Handler[];
+  parentId: NodeId | null;
+  collapsed: boolean;
   
   private definition: NodePluginDefinition;
   
@@ -76,6 +79,8 @@ export class Node implements NodeInstance {
     this.data = data;
     this.handlers = handlers;
     this.note = '';
+    this.parentId = null;
+    this.collapsed = false;
     this.width = width;
     this.height = height;
     this.style = {};
@@ -116,6 +121,15 @@ export class Node implements NodeInstance {
     };
   }
   
+  /**
+   * Checks if this node is a container (group) that can hold child nodes.
+   * 
+   * @returns True if the plugin declares `container`
+   */
+  isContainer(): boolean {
+    return !!(this.definition.container ?? (this.definition as any).constructor?.container);
+  }
+  
   /**
    * Checks if this node has any input handlers.
    * Used to determine if the node can be a connection target.
@@ -139,9 +153,13 @@ export class Node implements NodeInstance {
       label: this.label,
       note: this.note,
       position: { ...this.position },
+      width: this.width,
+      height: this.height,
       style: { ...this.style },
       data: { ...this.data },
-      handlers: this.handlers.map(h => h.getData())
+      handlers: this.handlers.map(h => h.getData()),
+      parentId: this.parentId,
+      collapsed: this.collapsed
     });
   }
   
@@ -169,6 +187,8 @@ export class Node implements NodeInstance {
     
     cloned.note = this.note;
     cloned.style = { ...this.style };
+    cloned.parentId = this.parentId;
+    cloned.collapsed = this.collapsed;
     return cloned;
   }
 }
\ No newline at end of file
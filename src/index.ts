@@ -17,11 +17,47 @@ export type {
   SpawnConnectedPayload,
   UpdateLinkPayload,
   TraversePayload,
+  TraversalState,
+  TraversalStatus,
+  TraverseNodePayload,
+  TraverseNodeCompletedPayload,
+  TraversePausedPayload,
+  AutoLayoutPayload,
+  LayoutAlgorithm,
+  LayoutDirection,
+  LayoutSpacing,
+  NodeAlignment,
+  DistributeAxis,
+  SnapOptions,
+  KeyAction,
+  KeyBindings,
+  RendererType,
+  HitTarget,
+  OutlineEntry,
+  CreateLinkOptions,
+  CreateNoteOptions,
+  CreateNodeResult,
+  SpawnConnectedResult,
+  GroupNodesOptions,
+  GroupNodesResult,
+  SubDiagramResolver,
+  BreadcrumbItem,
+  SubDiagramPayload,
+  SubDiagramExitedPayload,
+  CreateLinkResult,
+  CreateNoteResult,
+  ConnectionValidationResult,
+  SubgraphData,
+  Diagnostic,
+  DiagnosticSeverity,
+  ValidationChangedPayload,
   NodeMetadata,
   NodeData,
   HandlerData,
   ConnectionData,
   SerializedState,
+  Selection,
+  SelectionState,
   EventType,
   EventCallback,
   UnsubscribeFn
@@ -41,6 +77,14 @@ export type {
   HandlerPluginDefinition,
   StrategyPluginDefinition,
   ConnectionPluginDefinition,
+  HandlerLayoutSpec,
+  ConnectionRules,
+  TraverseContext,
+  SubDiagramRun,
+  VisitorFunction,
+  ValidationRulePluginDefinition,
+  ValidationContext,
+  DiagnosticReport,
   PropertySchema,
   PropertyFieldDefinition
 } from './core/types';
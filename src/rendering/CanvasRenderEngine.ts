@@ -0,0 +1,735 @@
+/**
+ * Canvas rendering backend for dense, mostly read-only diagrams.
+ * Nodes and connections are painted onto a <canvas> below the SVG, which stays
+ * on top as the surface for pointer, keyboard and zoom events.
+ */
+import { Store } from '../core/State';
+import { Registry } from '../core/Registry';
+import { EventBus } from '../core/EventBus';
+import { NodeRenderer } from './NodeRenderer';
+import { DiagnosticBadge } from './DiagnosticBadge';
+import { PathCalculator } from './geometry/PathCalculator';
+import { OrthogonalRouter } from './geometry/OrthogonalRouter';
+import { RenderEngine, getRenderArea, getVisibleNodes, getVisibleLinks } from './RenderEngine';
+import { Node } from '../domain/models/Node';
+import { Connection } from '../domain/models/Connection';
+import { Handler } from '../domain/models/Handler';
+import {
+  Transform,
+  NodeId,
+  ConnectionId,
+  HandlerId,
+  Position,
+  Rect,
+  AlignmentGuide,
+  HitTarget,
+  Diagnostic,
+  Direction,
+  SelectionState,
+  ValidationChangedPayload,
+  TraverseNodePayload,
+  TraversePausedPayload,
+  BreakpointsChangedPayload
+} from '../core/types';
+import { Config } from '../core/Config';
+import { CoordinateTransform } from '../utils/CoordinateTransform';
+import { hasCoarsePointer } from '../utils/Pointer';
+
+interface HitRegion {
+  target: HitTarget;
+  path: Path2D;
+  // Connections are hit along their stroke, this wide; other regions inside their fill
+  strokeWidth?: number;
+}
+
+interface GhostConnection {
+  sourceHandlerId: HandlerId;
+  target: Position;
+  valid: boolean | null;
+}
+
+/**
+ * Canvas backend: the visible part of the graph is repainted in one pass
+ * each frame it changes, so thousands of nodes cost no DOM elements.
+ *
+ * Shapes come from the same plugin templates as in SVG (`getShapeTemplate()`,
+ * `getIconPath()`) through Path2D. Hit regions are recorded while painting
+ * and tested topmost first. Hover styles and badge tooltips are SVG only.
+ *
+ * @example
+ * ```typescript
+ * const widget = new DAGWidget({ container: '#diagram', renderer: 'canvas' });
+ * ```
+ */
+export class CanvasRenderEngine implements RenderEngine {
+  private svg: SVGSVGElement;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  // Separate context so hit-testing does not disturb the painting state
+  private hitContext: CanvasRenderingContext2D;
+  // Hidden path used to place labels and badges along connections
+  private measurePath: SVGPathElement;
+  private gridPattern: CanvasPattern | null = null;
+  
+  private store: Store;
+  private registry: Registry;
+  private eventBus: EventBus;
+  
+  private isDirty = true;
+  private rafId: number | null = null;
+  private size = { width: 0, height: 0, ratio: 1 };
+  private hitRegions: HitRegion[] = [];
+  private shapeCache = new Map<string, Path2D>();
+  
+  private selectedNodes = new Set<NodeId>();
+  private selectedLinks = new Set<ConnectionId>();
+  private nodeDiagnostics = new Map<NodeId, Diagnostic[]>();
+  private linkDiagnostics = new Map<ConnectionId, Diagnostic[]>();
+  private breakpoints = new Set<NodeId>();
+  private activeNode: { id: NodeId; paused: boolean } | null = null;
+  private connectionTarget: { handlerId: HandlerId; valid: boolean } | null = null;
+  private ghost: GhostConnection | null = null;
+  private selectionRect: Rect | null = null;
+  private guides: ReadonlyArray<AlignmentGuide> = [];
+  
+  constructor(
+    svgElement: SVGSVGElement,
+    store: Store,
+    registry: Registry,
+    eventBus: EventBus
+  ) {
+    this.svg = svgElement;
+    this.store = store;
+    this.registry = registry;
+    this.eventBus = eventBus;
+    
+    this.svg.replaceChildren();
+    this.measurePath = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    this.measurePath.setAttribute('visibility', 'hidden');
+    this.svg.appendChild(this.measurePath);
+    
+    // Both positioned so the (transparent) SVG stays above the canvas
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'diagram-canvas';
+    this.canvas.setAttribute('aria-hidden', 'true');
+    Object.assign(this.canvas.style, { position: 'absolute', left: '0', top: '0', pointerEvents: 'none' });
+    this.svg.style.position = 'relative';
+    this.svg.before(this.canvas);
+    
+    this.context = this.canvas.getContext('2d')!;
+    this.hitContext = document.createElement('canvas').getContext('2d')!;
+    
+    this.subscribeToEvents();
+  }
+  
+  private subscribeToEvents(): void {
+    this.eventBus.on('RENDER_REQUESTED', () => this.requestRender());
+    
+    const router = OrthogonalRouter.forGraph(this.store);
+    this.eventBus.on('CONNECTION_REMOVED', id => router.remove(id));
+    this.eventBus.on('STATE_LOADED', () => router.clear());
+    
+    this.eventBus.on('SELECTION_CHANGED', (selection: SelectionState) => {
+      this.selectedNodes = new Set(selection.nodes);
+      this.selectedLinks = new Set(selection.links);
+      this.requestRender();
+    });
+    
+    this.eventBus.on('TRAVERSE_NODE_STARTED', ({ nodeId }: TraverseNodePayload) => {
+      this.setActiveNode(nodeId);
+    });
+    
+    this.eventBus.on('TRAVERSE_PAUSED', ({ nodeId }: TraversePausedPayload) => {
+      this.setActiveNode(nodeId, true);
+    });
+    
+    const clearActiveNode = () => this.setActiveNode(null);
+    this.eventBus.on('TRAVERSE_COMPLETED', clearActiveNode);
+    this.eventBus.on('TRAVERSE_ERROR', clearActiveNode);
+    this.eventBus.on('TRAVERSE_CANCELLED', clearActiveNode);
+    
+    this.eventBus.on('BREAKPOINTS_CHANGED', ({ nodeIds }: BreakpointsChangedPayload) => {
+      this.breakpoints = new Set(nodeIds);
+      this.requestRender();
+    });
+    
+    this.eventBus.on('VALIDATION_CHANGED', ({ diagnostics }: ValidationChangedPayload) => {
+      this.nodeDiagnostics = new Map();
+      this.linkDiagnostics = new Map();
+      diagnostics.forEach(d => {
+        if (d.nodeId) this.nodeDiagnostics.set(d.nodeId, [...(this.nodeDiagnostics.get(d.nodeId) ?? []), d]);
+        if (d.linkId) this.linkDiagnostics.set(d.linkId, [...(this.linkDiagnostics.get(d.linkId) ?? []), d]);
+      });
+      this.requestRender();
+    });
+  }
+  
+  private setActiveNode(nodeId: NodeId | null, paused: boolean = false): void {
+    this.activeNode = nodeId ? { id: nodeId, paused } : null;
+    this.requestRender();
+  }
+  
+  startRenderLoop(): void {
+    this.renderLoop();
+  }
+  
+  stopRenderLoop(): void {
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+  
+  private renderLoop = (): void => {
+    // The canvas follows the size of the SVG, which has no resize event
+    if (this.svg.clientWidth !== this.size.width || this.svg.clientHeight !== this.size.height) {
+      this.isDirty = true;
+    }
+    
+    if (this.isDirty) {
+      this.render();
+      this.isDirty = false;
+    }
+    
+    this.rafId = requestAnimationFrame(this.renderLoop);
+  };
+  
+  requestRender(): void {
+    this.isDirty = true;
+  }
+  
+  /**
+   * Repaints the nodes, connections and overlays around the viewport.
+   */
+  render(): void {
+    this.resize();
+    
+    const ctx = this.context;
+    const { width, height, ratio } = this.size;
+    const transform = this.store.getTransform();
+    const area = getRenderArea(this.svg, transform);
+    const nodes = getVisibleNodes(this.store, area ? this.store.getNodesInRect(area) : this.store.getAllNodes());
+    const links = getVisibleLinks(this.store, area ? this.store.getLinksInRect(area) : this.store.getAllLinks());
+    const detailed = transform.k >= Config.DETAIL_ZOOM_MIN;
+    
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    this.hitRegions = [];
+    
+    ctx.setTransform(ratio * transform.k, 0, 0, ratio * transform.k, ratio * transform.x, ratio * transform.y);
+    this.drawGrid(transform);
+    links.forEach(link => this.drawLink(link, detailed));
+    nodes.forEach(node => this.drawNode(node, detailed, transform));
+    this.drawOverlays(transform);
+    
+    // Routes that changed move the lanes and jumps of routes drawn before them
+    if (OrthogonalRouter.forGraph(this.store).takeStale().size > 0) this.requestRender();
+  }
+  
+  /**
+   * Connections are part of the single repaint, scheduled for the next frame.
+   */
+  updateLinksOnly(): void {
+    this.requestRender();
+  }
+  
+  showGhostConnection(
+    sourceHandlerId: string,
+    targetGraphPosition: Position,
+    valid: boolean | null = null
+  ): void {
+    this.ghost = { sourceHandlerId: sourceHandlerId as HandlerId, target: targetGraphPosition, valid };
+    this.requestRender();
+  }
+  
+  clearGhostConnection(): void {
+    this.ghost = null;
+    this.connectionTarget = null;
+    this.requestRender();
+  }
+  
+  highlightConnectionTarget(handlerId: HandlerId | null, valid: boolean = true): void {
+    this.connectionTarget = handlerId ? { handlerId, valid } : null;
+    this.requestRender();
+  }
+  
+  showSelectionRect(rect: Rect): void {
+    this.selectionRect = rect;
+    this.requestRender();
+  }
+  
+  clearSelectionRect(): void {
+    this.selectionRect = null;
+    this.requestRender();
+  }
+  
+  showAlignmentGuides(guides: ReadonlyArray<AlignmentGuide>): void {
+    this.guides = guides;
+    this.requestRender();
+  }
+  
+  clearAlignmentGuides(): void {
+    this.guides = [];
+    this.requestRender();
+  }
+  
+  hitTest(client: Position): HitTarget | null {
+    const rect = this.svg.getBoundingClientRect();
+    if (client.x < rect.left || client.x > rect.right || client.y < rect.top || client.y > rect.bottom) return null;
+    
+    const point = CoordinateTransform.screenToGraph(client.x - rect.left, client.y - rect.top, this.store.getTransform());
+    const ctx = this.hitContext;
+    
+    for (let i = this.hitRegions.length - 1; i >= 0; i--) {
+      const region = this.hitRegions[i];
+      if (region.strokeWidth !== undefined) {
+        ctx.lineWidth = region.strokeWidth;
+        if (ctx.isPointInStroke(region.path, point.x, point.y)) return region.target;
+      } else if (ctx.isPointInPath(region.path, point.x, point.y)) {
+        return region.target;
+      }
+    }
+    
+    return null;
+  }
+  
+  destroy(): void {
+    this.stopRenderLoop();
+    this.canvas.remove();
+    this.svg.replaceChildren();
+    this.svg.style.position = '';
+  }
+  
+  // ========== NODES ==========
+  
+  private drawNode(node: Readonly<Node>, detailed: boolean, transform: Transform): void {
+    const ctx = this.context;
+    const body = this.getBodyPath(node);
+    const isSelected = this.selectedNodes.has(node.id);
+    const active = this.activeNode?.id === node.id ? this.activeNode : null;
+    
+    let stroke = node.style.stroke || Config.DEFAULT_NODE_STROKE;
+    if (isSelected) stroke = Config.SELECTION_COLOR;
+    // Traversal highlight wins over selection while running
+    if (active) stroke = active.paused ? Config.PAUSED_NODE_COLOR : Config.ACTIVE_NODE_COLOR;
+    const strokeWidth = isSelected || active ? 3 : (node.style.strokeWidth || 2);
+    
+    ctx.save();
+    ctx.fillStyle = node.style.fill || (node.isContainer() ? Config.GROUP_FILL : Config.DEFAULT_NODE_FILL);
+    ctx.strokeStyle = stroke;
+    // Templates are stretched to the node's size, their stroke is not (non-scaling-stroke in SVG)
+    ctx.lineWidth = node.isContainer() ? strokeWidth : strokeWidth / transform.k;
+    ctx.setLineDash(node.isContainer() && !node.collapsed ? [6, 4] : []);
+    ctx.fill(body);
+    ctx.stroke(body);
+    ctx.restore();
+    this.hitRegions.push({ target: { type: 'node', nodeId: node.id }, path: body });
+    
+    ctx.save();
+    ctx.translate(node.position.x, node.position.y);
+    
+    // Low zoom: only the body and the diagnostics
+    if (detailed) {
+      this.drawIcon(node);
+      this.drawLabel(node);
+      if (node.isContainer()) this.drawGroupToggle(node);
+      this.drawHandlers(node);
+      if (isSelected && !node.isContainer()) this.drawResizeHandle(node);
+      if (this.breakpoints.has(node.id)) this.drawCircle({ x: 0, y: 0 }, 6, Config.BREAKPOINT_COLOR);
+    }
+    this.drawBadge(this.nodeDiagnostics.get(node.id), { x: node.width, y: 0 });
+    
+    ctx.restore();
+  }
+  
+  /**
+   * Node outline in graph coordinates, from the plugin's template or the group frame.
+   */
+  private getBodyPath(node: Readonly<Node>): Path2D {
+    const path = new Path2D();
+    const matrix = new DOMMatrix().translate(node.position.x, node.position.y);
+    
+    if (node.isContainer()) {
+      path.addPath(new Path2D(NodeRenderer.getContainerPath(node.width, node.height)), matrix);
+    } else {
+      // Templates are drawn at the minimum size and stretched to the node's size
+      const scale = matrix.scale(node.width / Config.NODE_MIN_WIDTH, node.height / Config.NODE_MIN_HEIGHT);
+      path.addPath(this.getShape(node.getShapeTemplate()), scale);
+    }
+    
+    return path;
+  }
+  
+  private drawIcon(node: Readonly<Node>): void {
+    const iconPath = this.registry.getNodeDefinition(node.type)?.getIconPath();
+    if (!iconPath) return;
+    
+    // Containers use a smaller icon inside their header
+    const iconSize = node.isContainer() ? 16 : 24;
+    const padding = node.isContainer() ? 8 : 12;
+    const ctx = this.context;
+    
+    ctx.save();
+    ctx.translate(padding, padding);
+    ctx.scale(iconSize / 24, iconSize / 24);
+    ctx.fillStyle = '#555';
+    ctx.fill(this.getShape(iconPath));
+    ctx.restore();
+  }
+  
+  private drawLabel(node: Readonly<Node>): void {
+    const ctx = this.context;
+    ctx.font = `500 ${node.style.fontSize || Config.DEFAULT_FONT_SIZE}px ${Config.DEFAULT_FONT_FAMILY}`;
+    ctx.fillStyle = '#333';
+    
+    // Containers show their label in the header, after the icon
+    if (node.isContainer()) {
+      ctx.textAlign = 'left';
+      ctx.fillText(this.truncate(node.label, node.width - 64), 32, Config.GROUP_HEADER_HEIGHT / 2 + 5);
+    } else {
+      ctx.textAlign = 'center';
+      ctx.fillText(this.truncate(node.label, node.width - 20), node.width / 2, node.height / 2 + 5);
+    }
+  }
+  
+  private drawGroupToggle(node: Readonly<Node>): void {
+    const ctx = this.context;
+    const x = node.width - 20;
+    const y = Config.GROUP_HEADER_HEIGHT / 2;
+    const box = this.roundedRect(x - 8, y - 8, 16, 16, 3);
+    
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#999999';
+    ctx.lineWidth = 1;
+    ctx.fill(box);
+    ctx.stroke(box);
+    
+    ctx.font = `14px ${Config.DEFAULT_FONT_FAMILY}`;
+    ctx.fillStyle = '#555555';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(node.collapsed ? '+' : '−', x, y);
+    ctx.textBaseline = 'alphabetic';
+    
+    this.hitRegions.push({ target: { type: 'group-toggle', nodeId: node.id }, path: this.toGraph(box, node) });
+  }
+  
+  private drawResizeHandle(node: Readonly<Node>): void {
+    const ctx = this.context;
+    const size = Config.RESIZE_HANDLE_SIZE;
+    const handle = new Path2D();
+    handle.rect(node.width - size / 2, node.height - size / 2, size, size);
+    
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = Config.SELECTION_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.fill(handle);
+    ctx.stroke(handle);
+    
+    this.hitRegions.push({ target: { type: 'resize-handle', nodeId: node.id }, path: this.toGraph(handle, node) });
+  }
+  
+  private drawHandlers(node: Readonly<Node>): void {
+    const ctx = this.context;
+    const target = this.connectionTarget;
+    const hitRadius = hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 2 : 8;
+    
+    // Collapsed groups also show the boundary handlers of their hidden children
+    const handlers = [...node.handlers, ...this.store.getProxyHandlers(node.id)] as Readonly<Handler>[];
+    
+    handlers.forEach(handler => {
+      const { x, y } = handler.offset;
+      const isTarget = !!target && target.handlerId === handler.id;
+      const color = isTarget ? (target!.valid ? Config.VALID_CONNECTION_COLOR : Config.INVALID_CONNECTION_COLOR) : null;
+      
+      ctx.save();
+      ctx.translate(x, y);
+      const shape = this.getShape(handler.getShapeTemplate());
+      ctx.fillStyle = color ?? '#ffffff';
+      ctx.strokeStyle = color ?? '#666666';
+      ctx.lineWidth = 2;
+      ctx.fill(shape);
+      ctx.stroke(shape);
+      
+      // Labels sit outside the node, next to the handler
+      if (handler.label) {
+        ctx.font = `10px ${Config.DEFAULT_FONT_FAMILY}`;
+        ctx.fillStyle = '#666666';
+        ctx.textAlign = handler.direction === Direction.LEFT ? 'right' : 'left';
+        ctx.fillText(
+          handler.label,
+          handler.direction === Direction.LEFT ? -10 : handler.direction === Direction.RIGHT ? 10 : 8,
+          handler.direction === Direction.TOP ? -10 : handler.direction === Direction.BOTTOM ? 18 : -8
+        );
+      }
+      ctx.restore();
+      
+      const area = new Path2D();
+      area.arc(node.position.x + x, node.position.y + y, hitRadius, 0, Math.PI * 2);
+      this.hitRegions.push({ target: { type: 'handler', nodeId: node.id, handlerId: handler.id }, path: area });
+    });
+  }
+  
+  // ========== CONNECTIONS ==========
+  
+  private drawLink(link: Readonly<Connection>, detailed: boolean): void {
+    const pathString = PathCalculator.calculatePath(link, this.store);
+    if (!pathString) return;
+    
+    const ctx = this.context;
+    const path = new Path2D(pathString);
+    const width = link.style.strokeWidth || Config.DEFAULT_LINK_WIDTH;
+    const isSelected = this.selectedLinks.has(link.id);
+    
+    ctx.save();
+    ctx.strokeStyle = isSelected ? Config.SELECTION_COLOR : (link.style.stroke || Config.DEFAULT_LINK_STROKE);
+    ctx.lineWidth = isSelected ? width + 1 : width;
+    ctx.setLineDash(link.style.strokeDasharray ? link.style.strokeDasharray.split(/[\s,]+/).map(Number) : []);
+    ctx.stroke(path);
+    ctx.restore();
+    
+    this.hitRegions.push({
+      target: { type: 'link', linkId: link.id },
+      path,
+      strokeWidth: hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 2 : 10
+    });
+    
+    const diagnostics = this.linkDiagnostics.get(link.id);
+    const hasLabel = detailed && !!link.label?.text;
+    
+    if (hasLabel || diagnostics) {
+      this.measurePath.setAttribute('d', pathString);
+      const length = this.measurePath.getTotalLength();
+      
+      if (hasLabel) this.drawLinkLabel(link, this.measurePath.getPointAtLength(length * (link.label!.offset ?? 0.5)));
+      // Slightly before the middle so it does not cover a centered label
+      if (diagnostics) this.drawBadge(diagnostics, this.measurePath.getPointAtLength(length * 0.35));
+    }
+    
+    if (isSelected) this.drawWaypoints(link);
+  }
+  
+  /**
+   * Draws the draggable handles on the waypoints of a selected connection.
+   */
+  private drawWaypoints(link: Readonly<Connection>): void {
+    const ctx = this.context;
+    const radius = hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 4 : Config.WAYPOINT_RADIUS;
+    
+    link.waypoints.forEach((point, index) => {
+      const handle = new Path2D();
+      handle.arc(point.x, point.y, radius, 0, Math.PI * 2);
+      
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = Config.SELECTION_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.fill(handle);
+      ctx.stroke(handle);
+      
+      this.hitRegions.push({ target: { type: 'waypoint', linkId: link.id, index }, path: handle });
+    });
+  }
+  
+  /**
+   * Draws a connection label, horizontal and centered at a point of the path.
+   */
+  private drawLinkLabel(link: Readonly<Connection>, point: Position): void {
+    const ctx = this.context;
+    const label = link.label!;
+    const fontSize = label.fontSize || 12;
+    const padding = 4;
+    
+    ctx.font = `${fontSize}px ${Config.DEFAULT_FONT_FAMILY}`;
+    const width = ctx.measureText(label.text).width + padding * 2;
+    const height = fontSize * 1.2 + padding * 2;
+    const box = this.roundedRect(point.x - width / 2, point.y - height / 2, width, height, 4);
+    
+    ctx.save();
+    ctx.globalAlpha = 0.95;
+    ctx.fillStyle = label.bgColor || '#ffffff';
+    ctx.strokeStyle = '#cccccc';
+    ctx.lineWidth = 1;
+    ctx.fill(box);
+    ctx.stroke(box);
+    ctx.restore();
+    
+    ctx.fillStyle = label.color || '#333333';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label.text, point.x, point.y);
+    ctx.textBaseline = 'alphabetic';
+    
+    this.hitRegions.push({ target: { type: 'link-label', linkId: link.id }, path: box });
+  }
+  
+  // ========== OVERLAYS ==========
+  
+  private drawGrid(transform: Transform): void {
+    const ctx = this.context;
+    const { width, height } = this.size;
+    
+    if (!this.gridPattern) {
+      const tile = document.createElement('canvas');
+      tile.width = Config.GRID_SIZE;
+      tile.height = Config.GRID_SIZE;
+      const tileContext = tile.getContext('2d')!;
+      tileContext.fillStyle = Config.GRID_COLOR;
+      tileContext.beginPath();
+      tileContext.arc(1, 1, 1, 0, Math.PI * 2);
+      tileContext.fill();
+      this.gridPattern = ctx.createPattern(tile, 'repeat');
+    }
+    if (!this.gridPattern) return;
+    
+    // The pattern repeats in graph coordinates, like the SVG grid
+    ctx.fillStyle = this.gridPattern;
+    ctx.fillRect(-transform.x / transform.k, -transform.y / transform.k, width / transform.k, height / transform.k);
+  }
+  
+  private drawOverlays(transform: Transform): void {
+    const ctx = this.context;
+    ctx.save();
+    
+    if (this.ghost) {
+      const source = this.store.getHandlerAbsolutePosition(this.ghost.sourceHandlerId);
+      if (source) {
+        // Green/red while hovering a handler, neutral otherwise
+        const valid = this.ghost.valid;
+        ctx.strokeStyle = valid === null
+          ? Config.GHOST_CONNECTION_COLOR
+          : valid ? Config.VALID_CONNECTION_COLOR : Config.INVALID_CONNECTION_COLOR;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 5]);
+        ctx.beginPath();
+        ctx.moveTo(source.x, source.y);
+        ctx.lineTo(this.ghost.target.x, this.ghost.target.y);
+        ctx.stroke();
+      }
+    }
+    
+    // Marquee and guides keep a 1px stroke regardless of zoom
+    ctx.lineWidth = 1 / transform.k;
+    
+    if (this.selectionRect) {
+      const { x, y, width, height } = this.selectionRect;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeStyle = Config.SELECTION_COLOR;
+      ctx.fillStyle = Config.SELECTION_COLOR;
+      ctx.globalAlpha = 0.08;
+      ctx.fillRect(x, y, width, height);
+      ctx.globalAlpha = 1;
+      ctx.strokeRect(x, y, width, height);
+    }
+    
+    if (this.guides.length > 0) {
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = Config.GUIDE_COLOR;
+      ctx.beginPath();
+      this.guides.forEach(guide => {
+        if (guide.orientation === 'vertical') {
+          ctx.moveTo(guide.position, guide.from);
+          ctx.lineTo(guide.position, guide.to);
+        } else {
+          ctx.moveTo(guide.from, guide.position);
+          ctx.lineTo(guide.to, guide.position);
+        }
+      });
+      ctx.stroke();
+    }
+    
+    ctx.restore();
+  }
+  
+  // ========== HELPERS ==========
+  
+  /**
+   * Matches the canvas backing store to the SVG's size and the device pixel ratio.
+   */
+  private resize(): void {
+    const width = this.svg.clientWidth;
+    const height = this.svg.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    if (width === this.size.width && height === this.size.height && ratio === this.size.ratio) return;
+    
+    this.size = { width, height, ratio };
+    this.canvas.width = Math.round(width * ratio);
+    this.canvas.height = Math.round(height * ratio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+  }
+  
+  /**
+   * Path2D of an SVG path string, parsed once per distinct template.
+   */
+  private getShape(template: string): Path2D {
+    let shape = this.shapeCache.get(template);
+    if (!shape) {
+      shape = new Path2D(template);
+      this.shapeCache.set(template, shape);
+    }
+    return shape;
+  }
+  
+  /**
+   * Moves a path drawn relative to a node into graph coordinates, for hit-testing.
+   */
+  private toGraph(path: Path2D, node: Readonly<Node>): Path2D {
+    const result = new Path2D();
+    result.addPath(path, new DOMMatrix().translate(node.position.x, node.position.y));
+    return result;
+  }
+  
+  private roundedRect(x: number, y: number, width: number, height: number, radius: number): Path2D {
+    const path = new Path2D();
+    path.moveTo(x + radius, y);
+    path.arcTo(x + width, y, x + width, y + height, radius);
+    path.arcTo(x + width, y + height, x, y + height, radius);
+    path.arcTo(x, y + height, x, y, radius);
+    path.arcTo(x, y, x + width, y, radius);
+    path.closePath();
+    return path;
+  }
+  
+  private drawCircle(center: Position, radius: number, fill: string): void {
+    const ctx = this.context;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = fill;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1.5;
+    ctx.fill();
+    ctx.stroke();
+  }
+  
+  /**
+   * Draws the badge of the most severe diagnostic, centered at a point.
+   */
+  private drawBadge(diagnostics: ReadonlyArray<Diagnostic> | undefined, center: Position): void {
+    if (!diagnostics || diagnostics.length === 0) return;
+    
+    const { color, symbol } = DiagnosticBadge.appearance(diagnostics[0].severity);
+    const ctx = this.context;
+    this.drawCircle(center, Config.DIAGNOSTIC_BADGE_RADIUS, color);
+    
+    ctx.font = `bold 11px ${Config.DEFAULT_FONT_FAMILY}`;
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(symbol, center.x, center.y);
+    ctx.textBaseline = 'alphabetic';
+  }
+  
+  /**
+   * Shortens text with an ellipsis to fit a width, in the current font.
+   */
+  private truncate(text: string, maxWidth: number): string {
+    const ctx = this.context;
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    
+    let truncated = text;
+    while (truncated.length > 0 && ctx.measureText(`${truncated}…`).width > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated}…`;
+  }
+}
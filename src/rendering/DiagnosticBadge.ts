@@ -0,0 +1,78 @@
+/**
+ * Diagnostic badge drawn on nodes and connections that have validation findings.
+ */
+import * as d3 from 'd3';
+import { Config } from '../core/Config';
+import { Diagnostic, DiagnosticSeverity, Position } from '../core/types';
+
+const SEVERITY_COLORS: Record<DiagnosticSeverity, string> = {
+  error: Config.DIAGNOSTIC_ERROR_COLOR,
+  warning: Config.DIAGNOSTIC_WARNING_COLOR,
+  info: Config.DIAGNOSTIC_INFO_COLOR
+};
+
+const SEVERITY_SYMBOLS: Record<DiagnosticSeverity, string> = {
+  error: '!',
+  warning: '!',
+  info: 'i'
+};
+
+export class DiagnosticBadge {
+  /**
+   * Fill color and symbol of the badge for a severity
+   */
+  static appearance(severity: DiagnosticSeverity): { color: string; symbol: string } {
+    return { color: SEVERITY_COLORS[severity], symbol: SEVERITY_SYMBOLS[severity] };
+  }
+
+  /**
+   * Draws (or removes) the badge inside an element group.
+   * The badge shows the most severe finding; its tooltip lists all messages.
+   *
+   * @param group - Node or connection group
+   * @param diagnostics - Diagnostics of the element, most severe first
+   * @param position - Badge center, in the group's coordinates
+   */
+  static render(
+    group: d3.Selection<SVGGElement, any, any, any>,
+    diagnostics: ReadonlyArray<Diagnostic>,
+    position: Position
+  ): void {
+    let badge = group.select<SVGGElement>('g.diagnostic-badge');
+
+    if (diagnostics.length === 0) {
+      badge.remove();
+      return;
+    }
+
+    if (badge.empty()) {
+      badge = group.append('g')
+        .attr('class', 'diagnostic-badge')
+        .style('cursor', 'help');
+      badge.append('circle')
+        .attr('r', Config.DIAGNOSTIC_BADGE_RADIUS)
+        .style('stroke', '#ffffff')
+        .style('stroke-width', 1.5);
+      badge.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .style('font-size', '11px')
+        .style('font-weight', 'bold')
+        .style('fill', '#ffffff')
+        .style('pointer-events', 'none')
+        .style('user-select', 'none');
+      badge.append('title');
+    }
+
+    // Keep the badge on top of the element's other parts
+    badge.raise();
+
+    const severity = diagnostics[0].severity;
+    badge
+      .attr('transform', `translate(${position.x},${position.y})`)
+      .attr('data-severity', severity);
+    badge.select('circle').style('fill', SEVERITY_COLORS[severity]);
+    badge.select('text').text(SEVERITY_SYMBOLS[severity]);
+    badge.select('title').text(diagnostics.map(d => `${d.severity}: ${d.message}`).join('\n'));
+  }
+}
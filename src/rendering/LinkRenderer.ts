@@ -4,35 +4,55 @@
  */
 import * as d3 from 'd3';
 import { Connection } from '../domain/models/Connection';
-import { Node } from '../domain/models/Node';
 import { Registry } from '../core/Registry';
 import { Store } from '../core/State';
 import { PathCalculator } from './geometry/PathCalculator';
 import { Config } from '../core/Config';
-import { Selection, Position, HandlerId } from '../core/types';
+import { SelectionState, HandlerId, ConnectionId, Diagnostic, Position } from '../core/types';
+import { DiagnosticBadge } from './DiagnosticBadge';
+import { GraphDescription } from '../utils/GraphDescription';
+import { hasCoarsePointer } from '../utils/Pointer';
 
 export class LinkRenderer {
   private registry: Registry;
   private store: Store;
-  private selectionState: Selection | null = null;
+  private selectedIds: Set<ConnectionId> = new Set();
+  private diagnostics: Map<ConnectionId, Diagnostic[]> = new Map();
   
   constructor(registry: Registry, store: Store) {
     this.registry = registry;
     this.store = store;
   }
   
-  setSelection(selection: Selection | null): void {
-    this.selectionState = selection;
+  setSelection(selection: SelectionState): void {
+    this.selectedIds = new Set(selection.links);
   }
   
+  setDiagnostics(diagnostics: ReadonlyArray<Diagnostic>): void {
+    this.diagnostics = new Map();
+    diagnostics.forEach(d => {
+      if (!d.linkId) return;
+      if (!this.diagnostics.has(d.linkId)) this.diagnostics.set(d.linkId, []);
+      this.diagnostics.get(d.linkId)!.push(d);
+    });
+  }
+  
+  /**
+   * Joins the connections to draw with the links layer.
+   * Only new connections and the changed ones are redrawn.
+   *
+   * @param container - Links layer
+   * @param connections - Connections to draw
+   * @param changed - Connections to redraw, or null to redraw all
+   * @param detailed - Whether to draw labels
+   */
   render(
     container: d3.Selection<SVGGElement, unknown, null, undefined>,
     connections: ReadonlyArray<Readonly<Connection>>,
-    nodes: ReadonlyArray<Readonly<Node>>
+    changed: ReadonlySet<ConnectionId> | null = null,
+    detailed: boolean = true
   ): void {
-    const handlerPositions = this.getHandlerPositions();
     const connectionsArray = connections as any[];
-    const nodesArray = nodes as any[];
     
     const linkGroups = container
       .selectAll<SVGGElement, Connection>('g.connection')
@@ -43,18 +63,24 @@ export class LinkRenderer {
     const enterGroups = linkGroups.enter()
       .append('g')
       .attr('class', 'connection')
-      .attr('data-connection-id', (d: Connection) => d.id);
+      .attr('data-connection-id', (d: Connection) => d.id)
+      .attr('role', 'graphics-symbol')
+      .attr('aria-roledescription', 'connection');
       
     enterGroups.each((d: Connection, i: number, groups: ArrayLike<SVGGElement>) => {
       const group = d3.select(groups[i]);
       this.createLinkStructure(group as any);
     });
     
-    const allGroups = enterGroups.merge(linkGroups);
+    const allGroups = changed
+      ? enterGroups.merge(linkGroups.filter((d: Connection) => changed.has(d.id)))
+      : enterGroups.merge(linkGroups);
+    
+    allGroups.attr('aria-label', (d: Connection) => GraphDescription.describeLink(this.store, d));
     
     allGroups.each((d: Connection, i: number, groups: ArrayLike<SVGGElement>) => {
       const group = d3.select(groups[i]);
-      this.updateLinkContent(group as any, d, nodesArray, handlerPositions);
+      this.updateLinkContent(group as any, d, detailed);
     });
     
     this.updateSelectionStyles(allGroups as any);
@@ -63,7 +89,8 @@ export class LinkRenderer {
   renderGhost(
     container: d3.Selection<SVGGElement, unknown, null, undefined>,
     sourceHandlerId: string,
-    targetPosition: { x: number; y: number }
+    targetPosition: { x: number; y: number },
+    valid: boolean | null = null
   ): void {
     container.selectAll('.ghost-connection').remove();
     
@@ -75,13 +102,20 @@ export class LinkRenderer {
     }
     
     const ghostGroup = container.append('g')
-      .attr('class', 'ghost-connection');
+      .attr('class', 'ghost-connection')
+      .classed('valid', valid === true)
+      .classed('invalid', valid === false);
+      
+    // Green/red while hovering a handler, neutral otherwise
+    const color = valid === null
+      ? Config.GHOST_CONNECTION_COLOR
+      : valid ? Config.VALID_CONNECTION_COLOR : Config.INVALID_CONNECTION_COLOR;
       
     // Draw line from handler center to target position
     ghostGroup.append('path')
       .attr('class', 'ghost-path')
       .attr('d', `M ${sourcePos.x},${sourcePos.y} L ${targetPosition.x},${targetPosition.y}`)
-      .style('stroke', Config.GHOST_CONNECTION_COLOR)
+      .style('stroke', color)
       .style('stroke-width', 2)
       .style('stroke-dasharray', '5,5')
       .style('fill', 'none')
@@ -98,7 +132,7 @@ export class LinkRenderer {
     group.append('path')
       .attr('class', 'connection-hitarea')
       .style('stroke', 'transparent')
-      .style('stroke-width', 10)
+      .style('stroke-width', hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 2 : 10)
       .style('fill', 'none')
       .style('cursor', 'pointer');
       
@@ -127,10 +161,9 @@ export class LinkRenderer {
   private updateLinkContent(
     group: d3.Selection<SVGGElement, Connection, null, undefined>,
     connection: Connection,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>
+    detailed: boolean
   ): void {
-    const pathString = PathCalculator.calculatePath(connection, nodes, handlerPositions);
+    const pathString = PathCalculator.calculatePath(connection, this.store);
     
     if (!pathString) {
       group.style('display', 'none');
@@ -152,19 +185,61 @@ export class LinkRenderer {
       pathSelection.style('stroke-dasharray', null);
     }
       
-    if (connection.label && connection.label.text) {
-      this.renderLabel(group, connection, nodes, handlerPositions, pathString);
+    // Labels are left out at low zoom
+    if (detailed && connection.label && connection.label.text) {
+      this.renderLabel(group, connection);
     } else {
       group.select('.connection-label').style('display', 'none');
     }
+    
+    this.renderDiagnostics(group, connection);
+    this.renderWaypoints(group, connection);
+  }
+  
+  /**
+   * Draws a draggable handle on every waypoint of selected connections.
+   */
+  private renderWaypoints(
+    group: d3.Selection<SVGGElement, Connection, null, undefined>,
+    connection: Connection
+  ): void {
+    const waypoints = this.selectedIds.has(connection.id) ? connection.waypoints : [];
+    
+    group.selectAll<SVGCircleElement, Position>('circle.connection-waypoint')
+      .data(waypoints)
+      .join(enter => enter.append('circle')
+        .attr('class', 'connection-waypoint')
+        .attr('r', hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 4 : Config.WAYPOINT_RADIUS)
+        .style('fill', '#ffffff')
+        .style('stroke', Config.SELECTION_COLOR)
+        .style('stroke-width', 1.5)
+        .style('pointer-events', 'all')
+        .style('cursor', 'move'))
+      .attr('data-waypoint-index', (_, i) => i)
+      .attr('cx', d => d.x)
+      .attr('cy', d => d.y);
+  }
+  
+  private renderDiagnostics(
+    group: d3.Selection<SVGGElement, Connection, null, undefined>,
+    connection: Connection
+  ): void {
+    const diagnostics = this.diagnostics.get(connection.id) || [];
+    const pathElement = group.select('.connection-path').node() as SVGPathElement | null;
+    
+    if (diagnostics.length === 0 || !pathElement) {
+      DiagnosticBadge.render(group, [], { x: 0, y: 0 });
+      return;
+    }
+    
+    // Slightly before the middle so it does not cover a centered label
+    const point = pathElement.getPointAtLength(pathElement.getTotalLength() * 0.35);
+    DiagnosticBadge.render(group, diagnostics, { x: point.x, y: point.y });
   }
   
   private renderLabel(
     group: d3.Selection<SVGGElement, Connection, null, undefined>,
-    connection: Connection,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>,
-    pathString: string
+    connection: Connection
   ): void {
     if (!connection.label || !connection.label.text) return;
     
@@ -212,8 +287,7 @@ export class LinkRenderer {
   ): void {
     groups.each((d: Connection, i: number, groups: ArrayLike<SVGGElement>) => {
       const group = d3.select(groups[i]);
-      const isSelected = this.selectionState?.type === 'link' && 
-                        this.selectionState?.id === d.id;
+      const isSelected = this.selectedIds.has(d.id);
       
       group.select('.connection-path')
         .classed('selected', isSelected)
@@ -225,20 +299,4 @@ export class LinkRenderer {
                (d.style.strokeWidth || Config.DEFAULT_LINK_WIDTH));
     });
   }
-  
-  private getHandlerPositions(): Map<string, Position> {
-    const map = new Map<string, Position>();
-    const nodes = this.store.getAllNodes();
-    
-    nodes.forEach((node: Readonly<Node>) => {
-      node.handlers.forEach((handler: any) => {
-        const pos = this.store.getHandlerAbsolutePosition(handler.id);
-        if (pos) {
-          map.set(handler.id, pos);
-        }
-      });
-    });
-    
-    return map;
-  }
 }
\ No newline at end of file
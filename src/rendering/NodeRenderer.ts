@@ -7,7 +7,13 @@ import { Handler } from '../domain/models/Handler';
 import { Registry } from '../core/Registry';
 import { Store } from '../core/State';
 import { Config } from '../core/Config';
-import { Selection } from '../core/types';
+import { SelectionState, NodeId, HandlerId, Direction, Diagnostic } from '../core/types';
+import { DiagnosticBadge } from './DiagnosticBadge';
+import { GraphDescription } from '../utils/GraphDescription';
+import { hasCoarsePointer } from '../utils/Pointer';
+
+// Parts of a node left out at low zoom
+const DETAIL_SELECTOR = '.node-icon, .node-label, .handlers, .group-toggle, .resize-handle, .breakpoint-marker';
 
 interface RenderContext {
   selection: d3.Selection<SVGGElement, Node, null, undefined>;
@@ -19,20 +25,68 @@ interface RenderContext {
 export class NodeRenderer {
   private registry: Registry;
   private store: Store;
-  private selectionState: Selection | null = null;
+  private selectedIds: Set<NodeId> = new Set();
+  private diagnostics: Map<NodeId, Diagnostic[]> = new Map();
+  private breakpoints: Set<NodeId> = new Set();
+  // Node visited by a running traversal
+  private activeNode: { id: NodeId; paused: boolean } | null = null;
+  // Handler hovered while dragging a new connection, with its validity
+  private connectionTarget: { handlerId: HandlerId; valid: boolean } | null = null;
   
   constructor(registry: Registry, store: Store) {
     this.registry = registry;
     this.store = store;
   }
   
-  setSelection(selection: Selection | null): void {
-    this.selectionState = selection;
+  setSelection(selection: SelectionState): void {
+    this.selectedIds = new Set(selection.nodes);
+  }
+  
+  setBreakpoints(nodeIds: ReadonlyArray<NodeId>): void {
+    this.breakpoints = new Set(nodeIds);
+  }
+  
+  setActiveNode(nodeId: NodeId | null, paused: boolean = false): void {
+    this.activeNode = nodeId ? { id: nodeId, paused } : null;
   }
   
+  setDiagnostics(diagnostics: ReadonlyArray<Diagnostic>): void {
+    this.diagnostics = new Map();
+    diagnostics.forEach(d => {
+      if (!d.nodeId) return;
+      if (!this.diagnostics.has(d.nodeId)) this.diagnostics.set(d.nodeId, []);
+      this.diagnostics.get(d.nodeId)!.push(d);
+    });
+  }
+  
+  /**
+   * Highlights the handler under the cursor during connection creation.
+   *
+   * @param container - Nodes layer
+   * @param target - Hovered handler and whether the connection would be valid, or null to clear
+   */
+  setConnectionTarget(
+    container: d3.Selection<SVGGElement, unknown, null, undefined>,
+    target: { handlerId: HandlerId; valid: boolean } | null
+  ): void {
+    this.connectionTarget = target;
+    this.updateHandlerStyles(container.selectAll<SVGGElement, Handler>('g.handler'));
+  }
+  
+  /**
+   * Joins the nodes to draw with the nodes layer.
+   * Only new nodes and the changed ones are redrawn.
+   *
+   * @param container - Nodes layer
+   * @param nodes - Nodes to draw, in drawing order
+   * @param changed - Nodes to redraw, or null to redraw all
+   * @param detailed - Whether to draw labels, icons and handlers
+   */
   render(
     container: d3.Selection<SVGGElement, unknown, null, undefined>,
-    nodes: ReadonlyArray<Node>
+    nodes: ReadonlyArray<Node>,
+    changed: ReadonlySet<NodeId> | null = null,
+    detailed: boolean = true
   ): void {
     // Bind data with key function for object constancy
     const nodeGroups = container
@@ -47,7 +101,9 @@ export class NodeRenderer {
       .append('g')
       .attr('class', 'node')
       .attr('data-node-id', d => d.id)
-      .attr('data-node-type', d => d.type);
+      .attr('data-node-type', d => d.type)
+      .attr('role', 'graphics-symbol')
+      .attr('aria-roledescription', 'node');
       
     // Create node structure for new elements
     enterGroups.each((d, i, nodes) => {
@@ -56,15 +112,23 @@ export class NodeRenderer {
     });
     
     // UPDATE: Merge enter + update selections
-    const allGroups = enterGroups.merge(nodeGroups);
+    // Document order follows data order so groups stay behind their children
+    enterGroups.merge(nodeGroups).order();
+    
+    const allGroups = changed
+      ? enterGroups.merge(nodeGroups.filter(d => changed.has(d.id)))
+      : enterGroups.merge(nodeGroups);
     
     // Update positions
     allGroups.attr('transform', d => `translate(${d.position.x},${d.position.y})`);
     
+    // Accessible name (connections are described by the outline in AccessibilityLayer)
+    allGroups.attr('aria-label', d => GraphDescription.nodeSummary(d));
+    
     // Update content
     allGroups.each((d, i, nodes) => {
       const group = d3.select(nodes[i]);
-      this.updateNodeContent(group as any, d);
+      this.updateNodeContent(group as any, d, detailed);
     });
     
     // Update selection styles
@@ -98,7 +162,8 @@ export class NodeRenderer {
   
   private updateNodeContent(
     group: d3.Selection<SVGGElement, Node, null, undefined>,
-    node: Node
+    node: Node,
+    detailed: boolean
   ): void {
     const context: RenderContext = {
       selection: group,
@@ -108,9 +173,50 @@ export class NodeRenderer {
     };
     
     this.renderBody(context);
+    
+    // Low zoom: the details are hidden, not kept up to date (text measuring is costly)
+    group.selectAll(DETAIL_SELECTOR).style('display', () => detailed ? null : 'none');
+    if (!detailed) {
+      this.renderDiagnostics(context);
+      return;
+    }
+    
     this.renderIcon(context);
     this.renderLabel(context);
+    this.renderGroupToggle(context);
     this.renderHandlers(context);
+    this.renderResizeHandle(context);
+    this.renderBreakpoint(context);
+    this.renderDiagnostics(context);
+  }
+  
+  private renderBreakpoint(context: RenderContext): void {
+    const { selection, node } = context;
+    let marker = selection.select<SVGCircleElement>('circle.breakpoint-marker');
+    
+    if (!this.breakpoints.has(node.id)) {
+      marker.remove();
+      return;
+    }
+    
+    if (marker.empty()) {
+      marker = selection.append('circle')
+        .attr('class', 'breakpoint-marker')
+        .attr('r', 6)
+        .style('fill', Config.BREAKPOINT_COLOR)
+        .style('stroke', '#ffffff')
+        .style('stroke-width', 1.5)
+        .style('pointer-events', 'none');
+    }
+    
+    // Top-left corner of the shape
+    marker.attr('cx', 0).attr('cy', 0);
+  }
+  
+  private renderDiagnostics(context: RenderContext): void {
+    const { selection, node } = context;
+    // Top-right corner of the shape
+    DiagnosticBadge.render(selection, this.diagnostics.get(node.id) || [], { x: node.width, y: 0 });
   }
   
   private renderBody(context: RenderContext): void {
@@ -120,11 +226,27 @@ export class NodeRenderer {
     
     const body = selection.select<SVGPathElement>('.node-body');
     
+    // Containers are sized by their children, not by a fixed template
+    if (node.isContainer()) {
+      body
+        .attr('d', NodeRenderer.getContainerPath(node.width, node.height))
+        .attr('transform', null)
+        .style('fill', node.style.fill || Config.GROUP_FILL)
+        .style('stroke', node.style.stroke || Config.DEFAULT_NODE_STROKE)
+        .style('stroke-width', node.style.strokeWidth || 2)
+        .style('stroke-dasharray', node.collapsed ? 'none' : '6,4');
+      return;
+    }
+    
     // Get shape template and attributes
     const template = node.getShapeTemplate();
     const attributes = node.getShapeAttributes();
     
-    body.attr('d', template);
+    // Templates are drawn at the minimum size and stretched to the node's size
+    body
+      .attr('d', template)
+      .attr('transform', `scale(${node.width / Config.NODE_MIN_WIDTH},${node.height / Config.NODE_MIN_HEIGHT})`)
+      .style('vector-effect', 'non-scaling-stroke');
     
     // Apply custom attributes
     if (attributes) {
@@ -140,6 +262,86 @@ export class NodeRenderer {
       .style('stroke-width', node.style.strokeWidth || 2);
   }
   
+  /**
+   * Rounded rectangle with the header separated by a line.
+   */
+  static getContainerPath(width: number, height: number): string {
+    const r = 8;
+    const header = Math.min(Config.GROUP_HEADER_HEIGHT, height);
+    return `M ${r},0 H ${width - r} Q ${width},0 ${width},${r} V ${height - r} ` +
+      `Q ${width},${height} ${width - r},${height} H ${r} Q 0,${height} 0,${height - r} ` +
+      `V ${r} Q 0,0 ${r},0 Z M 0,${header} H ${width}`;
+  }
+  
+  /**
+   * Draws the collapse/expand button in the header of container nodes.
+   */
+  private renderGroupToggle(context: RenderContext): void {
+    const { selection, node } = context;
+    let toggle = selection.select<SVGGElement>('g.group-toggle');
+    
+    if (!node.isContainer()) {
+      toggle.remove();
+      return;
+    }
+    
+    if (toggle.empty()) {
+      toggle = selection.append('g')
+        .attr('class', 'group-toggle')
+        .style('cursor', 'pointer');
+      toggle.append('rect')
+        .attr('x', -8)
+        .attr('y', -8)
+        .attr('width', 16)
+        .attr('height', 16)
+        .attr('rx', 3)
+        .style('fill', '#ffffff')
+        .style('stroke', '#999999');
+      toggle.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .style('font-size', '14px')
+        .style('fill', '#555555')
+        .style('pointer-events', 'none')
+        .style('user-select', 'none');
+      toggle.append('title');
+    }
+    
+    toggle.attr('transform', `translate(${node.width - 20},${Config.GROUP_HEADER_HEIGHT / 2})`);
+    toggle.select('text').text(node.collapsed ? '+' : '−');
+    toggle.select('title').text(node.collapsed ? 'Expand group' : 'Collapse group');
+  }
+  
+  /**
+   * Draws the resize grip at the bottom-right corner of selected nodes.
+   * Containers are sized by their children and get none.
+   */
+  private renderResizeHandle(context: RenderContext): void {
+    const { selection, node } = context;
+    let handle = selection.select<SVGRectElement>('rect.resize-handle');
+    
+    if (!this.selectedIds.has(node.id) || node.isContainer()) {
+      handle.remove();
+      return;
+    }
+    
+    const size = Config.RESIZE_HANDLE_SIZE;
+    if (handle.empty()) {
+      handle = selection.append('rect')
+        .attr('class', 'resize-handle')
+        .attr('width', size)
+        .attr('height', size)
+        .style('fill', '#ffffff')
+        .style('stroke', Config.SELECTION_COLOR)
+        .style('stroke-width', 1.5)
+        .style('cursor', 'nwse-resize');
+    }
+    
+    handle
+      .attr('x', node.width - size / 2)
+      .attr('y', node.height - size / 2);
+  }
+  
   private renderIcon(context: RenderContext): void {
     const { selection, node } = context;
     const definition = this.registry.getNodeDefinition(node.type);
@@ -152,8 +354,9 @@ export class NodeRenderer {
     if (!iconPath) return;
     
     // Icon positioned at top-left with padding (Simple placement logic)
-    const iconSize = 24;
-    const padding = 12;
+    // Containers use a smaller icon inside their header
+    const iconSize = node.isContainer() ? 16 : 24;
+    const padding = node.isContainer() ? 8 : 12;
     
     iconGroup.append('path')
       .attr('d', iconPath)
@@ -166,8 +369,22 @@ export class NodeRenderer {
     const { selection, node } = context;
     const label = selection.select<SVGTextElement>('.node-label');
     
+    // Containers show their label in the header, after the icon
+    if (node.isContainer()) {
+      label
+        .attr('x', 32)
+        .attr('y', Config.GROUP_HEADER_HEIGHT / 2 + 5)
+        .attr('text-anchor', 'start')
+        .text(node.label)
+        .style('font-size', node.style.fontSize || Config.DEFAULT_FONT_SIZE)
+        .style('font-family', Config.DEFAULT_FONT_FAMILY);
+      this.truncateText(label, node.width - 64);
+      return;
+    }
+    
     // Center text based on node width/height
     label
+      .attr('text-anchor', 'middle')
       .attr('x', node.width / 2)
       .attr('y', node.height / 2 + 5) // Center vertically (+5 for baseline approx)
       .text(node.label)
@@ -202,10 +419,13 @@ export class NodeRenderer {
     const { selection, node } = context;
     const handlersGroup = selection.select('.handlers');
     
+    // Collapsed groups also show the boundary handlers of their hidden children
+    const handlers = [...node.handlers, ...this.store.getProxyHandlers(node.id)] as Handler[];
+    
     // Bind handler data
     const handlerGroups = handlersGroup
       .selectAll<SVGGElement, Handler>('g.handler')
-      .data(node.handlers, (d: Handler) => d.id);
+      .data(handlers, (d: Handler) => d.id);
       
     // EXIT
     handlerGroups.exit().remove();
@@ -224,20 +444,52 @@ export class NodeRenderer {
       
     enterHandlers.append('circle')
       .attr('class', 'handler-hitarea')
-      .attr('r', 8)
       .style('fill', 'transparent')
       .style('cursor', 'crosshair');
       
+    enterHandlers.append('text')
+      .attr('class', 'handler-label')
+      .style('font-size', '10px')
+      .style('fill', '#666666')
+      .style('pointer-events', 'none')
+      .style('user-select', 'none');
+      
     // UPDATE
     const allHandlers = enterHandlers.merge(handlerGroups);
     
     allHandlers.attr('transform', d => `translate(${d.offset.x},${d.offset.y})`);
     
+    // Finger-sized targets on touch devices
+    allHandlers.select('.handler-hitarea')
+      .attr('r', hasCoarsePointer() ? Config.COARSE_HIT_SIZE / 2 : 8);
+    
     allHandlers.select('.handler-shape')
-      .attr('d', d => d.getShapeTemplate())
-      .style('fill', '#ffffff')
-      .style('stroke', '#666666')
-      .style('stroke-width', 2);
+      .attr('d', d => d.getShapeTemplate());
+      
+    this.updateHandlerStyles(allHandlers);
+      
+    // Labels sit outside the node, next to the handler
+    allHandlers.select<SVGTextElement>('.handler-label')
+      .text(d => d.label || '')
+      .attr('x', d => d.direction === Direction.LEFT ? -10 : d.direction === Direction.RIGHT ? 10 : 8)
+      .attr('y', d => d.direction === Direction.TOP ? -10 : d.direction === Direction.BOTTOM ? 18 : -8)
+      .attr('text-anchor', d => d.direction === Direction.LEFT ? 'end' : 'start');
+  }
+  
+  private updateHandlerStyles(handlers: d3.Selection<SVGGElement, Handler, any, any>): void {
+    const target = this.connectionTarget;
+    
+    handlers.each((d, i, groups) => {
+      const isTarget = !!target && target.handlerId === d.id;
+      const group = d3.select(groups[i])
+        .classed('valid-target', isTarget && target!.valid)
+        .classed('invalid-target', isTarget && !target!.valid);
+        
+      group.select('.handler-shape')
+        .style('fill', isTarget ? (target!.valid ? Config.VALID_CONNECTION_COLOR : Config.INVALID_CONNECTION_COLOR) : '#ffffff')
+        .style('stroke', isTarget ? (target!.valid ? Config.VALID_CONNECTION_COLOR : Config.INVALID_CONNECTION_COLOR) : '#666666')
+        .style('stroke-width', 2);
+    });
   }
   
   private updateSelectionStyles(
@@ -245,13 +497,21 @@ export class NodeRenderer {
   ): void {
     groups.each((d, i, nodes) => {
       const group = d3.select(nodes[i]);
-      const isSelected = this.selectionState?.type === 'node' && 
-                        this.selectionState?.id === d.id;
+      const isSelected = this.selectedIds.has(d.id);
+      const active = this.activeNode?.id === d.id ? this.activeNode : null;
+      
+      let stroke = d.style.stroke || Config.DEFAULT_NODE_STROKE;
+      if (isSelected) stroke = Config.SELECTION_COLOR;
+      // Traversal highlight wins over selection while running
+      if (active) stroke = active.paused ? Config.PAUSED_NODE_COLOR : Config.ACTIVE_NODE_COLOR;
+      
+      group.classed('traversal-active', !!active && !active.paused);
+      group.classed('traversal-paused', !!active && active.paused);
       
       group.select('.node-body')
         .classed('selected', isSelected)
-        .style('stroke', isSelected ? Config.SELECTION_COLOR : (d.style.stroke || Config.DEFAULT_NODE_STROKE))
-        .style('stroke-width', isSelected ? '3' : (d.style.strokeWidth?.toString() || '2'));
+        .style('stroke', stroke)
+        .style('stroke-width', isSelected || active ? '3' : (d.style.strokeWidth?.toString() || '2'));
     });
   }
 }
\ No newline at end of file
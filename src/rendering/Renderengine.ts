@@ -1,6 +1,8 @@
 /**
  * Main orchestrator for the rendering loop and layer management.
  * FIXED: Accepts graph coordinates for ghost connection
+ * Only the part of the graph around the viewport is drawn, and only what changed.
+ * RenderEngine is the interface shared by the SVG and canvas backends.
  */
 import * as d3 from 'd3';
 import { Store } from '../core/State';
@@ -10,15 +12,118 @@ import { SelectionManager } from '../core/SelectionManager';
 import { NodeRenderer } from './NodeRenderer';
 import { LinkRenderer } from './LinkRenderer';
 import { Grid } from './Grid';
-import { Transform, NodeId } from '../core/types';
+import { OrthogonalRouter } from './geometry/OrthogonalRouter';
+import { Node } from '../domain/models/Node';
+import { Connection } from '../domain/models/Connection';
+import {
+  Transform,
+  NodeId,
+  ConnectionId,
+  ConnectionPathType,
+  HandlerId,
+  SelectionState,
+  Rect,
+  AlignmentGuide,
+  HitTarget,
+  Position,
+  ValidationChangedPayload,
+  TraverseNodePayload,
+  TraversePausedPayload,
+  BreakpointsChangedPayload
+} from '../core/types';
+import { Config } from '../core/Config';
 
 interface RenderState {
   isDirty: boolean;
   isGhostDirty: boolean;
   rafId: number | null;
+  // Entities changed since the last render; everything is redrawn when `all` is set
+  changes: { all: boolean; nodes: Set<NodeId>; links: Set<ConnectionId> };
+  detailed: boolean;
 }
 
-export class RenderEngine {
+/**
+ * Rendering backend of a widget, chosen with WidgetConfig.renderer.
+ * Overlays (ghost connection, marquee, guides) take graph coordinates.
+ */
+export interface RenderEngine {
+  startRenderLoop(): void;
+  stopRenderLoop(): void;
+  requestRender(): void;
+  render(): void;
+  /** Redraws right away the connections of a node (or all changed ones), e.g. while it is dragged */
+  updateLinksOnly(nodeId?: NodeId): void;
+  showGhostConnection(sourceHandlerId: string, targetGraphPosition: Position, valid?: boolean | null): void;
+  clearGhostConnection(): void;
+  highlightConnectionTarget(handlerId: HandlerId | null, valid?: boolean): void;
+  showSelectionRect(rect: Rect): void;
+  clearSelectionRect(): void;
+  showAlignmentGuides(guides: ReadonlyArray<AlignmentGuide>): void;
+  clearAlignmentGuides(): void;
+  /**
+   * Finds the part of the diagram drawn at a client position, topmost first.
+   *
+   * @returns The hit target, or null over empty canvas
+   */
+  hitTest(client: Position): HitTarget | null;
+  destroy(): void;
+}
+
+/**
+ * Viewport in graph coordinates, with Config.RENDER_MARGIN around it.
+ * Null while the canvas has no size (e.g. not yet laid out): everything is drawn.
+ */
+export function getRenderArea(svg: SVGSVGElement, transform: Transform): Rect | null {
+  if (svg.clientWidth === 0 || svg.clientHeight === 0) return null;
+  
+  const margin = Config.RENDER_MARGIN;
+  return {
+    x: (-transform.x - margin) / transform.k,
+    y: (-transform.y - margin) / transform.k,
+    width: (svg.clientWidth + margin * 2) / transform.k,
+    height: (svg.clientHeight + margin * 2) / transform.k
+  };
+}
+
+/**
+ * Nodes not hidden inside a collapsed group, groups before their children
+ * so children are drawn on top.
+ */
+export function getVisibleNodes(store: Store, nodes: ReadonlyArray<Readonly<Node>>): Readonly<Node>[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const depth = (node: Readonly<Node>): number => {
+    let level = 0;
+    let parent = node.parentId ? byId.get(node.parentId) : undefined;
+    while (parent && level < nodes.length) {
+      level++;
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return level;
+  };
+  
+  return nodes
+    .filter(node => !store.isNodeHidden(node.id))
+    .map(node => ({ node, level: depth(node) }))
+    .sort((a, b) => a.level - b.level)
+    .map(entry => entry.node);
+}
+
+/**
+ * Drops connections that run entirely inside a collapsed group.
+ */
+export function getVisibleLinks(store: Store, links: ReadonlyArray<Readonly<Connection>>): Readonly<Connection>[] {
+  return links.filter(link => {
+    const source = store.getVisibleNodeIdForHandler(link.sourceHandlerId);
+    const target = store.getVisibleNodeIdForHandler(link.targetHandlerId);
+    return !(source && source === target && store.getNode(source)?.collapsed);
+  });
+}
+
+/**
+ * SVG backend: every node and connection is an element, so the browser
+ * does hit-testing and the DOM carries the accessibility attributes.
+ */
+export class SvgRenderEngine implements RenderEngine {
   private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
   private layers: {
     grid: Grid;
@@ -35,8 +140,11 @@ export class RenderEngine {
   
   private nodeRenderer: NodeRenderer;
   private linkRenderer: LinkRenderer;
+  private router: OrthogonalRouter;
   
   private state: RenderState;
+  private selection: SelectionState | null = null;
+  private activeNodeId: NodeId | null = null;
   
   constructor(
     svgElement: SVGSVGElement,
@@ -54,11 +162,14 @@ export class RenderEngine {
     this.state = {
       isDirty: true,
       isGhostDirty: false,
-      rafId: null
+      rafId: null,
+      changes: { all: true, nodes: new Set(), links: new Set() },
+      detailed: true
     };
     
     this.nodeRenderer = new NodeRenderer(registry, store);
     this.linkRenderer = new LinkRenderer(registry, store);
+    this.router = OrthogonalRouter.forGraph(store);
     
     this.layers = this.initializeLayers();
     this.subscribeToEvents();
@@ -81,11 +192,117 @@ export class RenderEngine {
   private subscribeToEvents(): void {
     this.eventBus.on('RENDER_REQUESTED', () => this.requestRender());
     
-    this.eventBus.on('SELECTION_CHANGED', (selection: any) => {
+    // Frequent edits redraw only what they touch
+    this.eventBus.on('NODE_MOVED', ({ id, from, to }) => {
+      this.markNodeChanged(id);
+      this.markRoutesAround(id, [from, to]);
+    });
+    this.eventBus.on('CONNECTION_UPDATED', link => this.state.changes.links.add(link.id as ConnectionId));
+    
+    // Structural changes can move group bounds and proxy handlers anywhere
+    const markAllChanged = () => { this.state.changes.all = true; };
+    this.eventBus.on('NODE_CREATED', markAllChanged);
+    this.eventBus.on('NODE_UPDATED', markAllChanged);
+    this.eventBus.on('NODE_REMOVED', markAllChanged);
+    this.eventBus.on('CONNECTION_CREATED', markAllChanged);
+    this.eventBus.on('CONNECTION_REMOVED', markAllChanged);
+    this.eventBus.on('STATE_LOADED', markAllChanged);
+    this.eventBus.on('CONNECTION_REMOVED', id => this.router.remove(id));
+    this.eventBus.on('STATE_LOADED', () => this.router.clear());
+    
+    this.eventBus.on('SELECTION_CHANGED', (selection: SelectionState) => {
+      // Restyle the items entering and leaving the selection
+      [this.selection, selection].forEach(s => {
+        s?.nodes.forEach(id => this.state.changes.nodes.add(id));
+        s?.links.forEach(id => this.state.changes.links.add(id));
+      });
+      this.selection = selection;
+      
       this.nodeRenderer.setSelection(selection);
       this.linkRenderer.setSelection(selection);
       this.requestRender();
     });
+    
+    this.eventBus.on('TRAVERSE_NODE_STARTED', ({ nodeId }: TraverseNodePayload) => {
+      this.setActiveNode(nodeId);
+    });
+    
+    this.eventBus.on('TRAVERSE_PAUSED', ({ nodeId }: TraversePausedPayload) => {
+      this.setActiveNode(nodeId, true);
+    });
+    
+    const clearActiveNode = () => this.setActiveNode(null);
+    this.eventBus.on('TRAVERSE_COMPLETED', clearActiveNode);
+    this.eventBus.on('TRAVERSE_ERROR', clearActiveNode);
+    this.eventBus.on('TRAVERSE_CANCELLED', clearActiveNode);
+    
+    this.eventBus.on('BREAKPOINTS_CHANGED', ({ nodeIds }: BreakpointsChangedPayload) => {
+      this.nodeRenderer.setBreakpoints(nodeIds);
+      markAllChanged();
+      this.requestRender();
+    });
+    
+    this.eventBus.on('VALIDATION_CHANGED', ({ diagnostics }: ValidationChangedPayload) => {
+      this.nodeRenderer.setDiagnostics(diagnostics);
+      this.linkRenderer.setDiagnostics(diagnostics);
+      markAllChanged();
+      this.requestRender();
+    });
+  }
+  
+  /**
+   * Marks a node for redrawing, with its connections and the groups around it
+   * (which are refitted silently when a child moves).
+   */
+  private markNodeChanged(id: NodeId): void {
+    const changes = this.state.changes;
+    if (changes.all) return;
+    
+    changes.nodes.add(id);
+    this.store.getLinksForNode(id).forEach(link => changes.links.add(link.id));
+    
+    let parentId = this.store.getNode(id)?.parentId ?? null;
+    while (parentId && !changes.nodes.has(parentId)) {
+      changes.nodes.add(parentId);
+      parentId = this.store.getNode(parentId)?.parentId ?? null;
+    }
+  }
+  
+  /**
+   * Marks for redrawing the smooth-step connections that may be routed around
+   * a node's old or new place.
+   */
+  private markRoutesAround(id: NodeId, positions: ReadonlyArray<Position>): void {
+    const changes = this.state.changes;
+    const node = this.store.getNode(id);
+    if (changes.all || !node) return;
+    
+    positions.forEach(({ x, y }) => {
+      this.store.getLinksInRect({ x, y, width: node.width, height: node.height })
+        .filter(link => link.pathType === ConnectionPathType.SMOOTH_STEP)
+        .forEach(link => changes.links.add(link.id));
+    });
+  }
+  
+  /**
+   * Schedules a redraw of the connections whose route was affected by routes
+   * that changed in the last pass (parallel lanes, line jumps).
+   */
+  private markStaleRoutes(): void {
+    const stale = this.router.takeStale();
+    if (stale.size === 0) return;
+    
+    stale.forEach(id => this.state.changes.links.add(id));
+    this.requestRender();
+  }
+  
+  private setActiveNode(nodeId: NodeId | null, paused: boolean = false): void {
+    if (this.activeNodeId) this.state.changes.nodes.add(this.activeNodeId);
+    if (nodeId) this.state.changes.nodes.add(nodeId);
+    this.activeNodeId = nodeId;
+    
+    this.nodeRenderer.setActiveNode(nodeId, paused);
+    this.requestRender();
   }
   
   startRenderLoop(): void {
@@ -121,15 +338,32 @@ export class RenderEngine {
     this.state.isGhostDirty = true;
   }
   
+  /**
+   * Draws the nodes and connections around the viewport.
+   * Elements scrolled out of view are removed, and drawn anew when they come
+   * back; those in view are redrawn only if they changed.
+   */
   render(): void {
-    const nodes = this.store.getAllNodes();
-    const links = this.store.getAllLinks();
     const transform = this.store.getTransform();
+    const area = getRenderArea(this.svg.node()!, transform);
+    const nodes = area ? this.store.getNodesInRect(area) : this.store.getAllNodes();
+    const links = getVisibleLinks(this.store, area ? this.store.getLinksInRect(area) : this.store.getAllLinks());
+    
+    // Crossing the detail threshold changes how every node is drawn
+    const detailed = transform.k >= Config.DETAIL_ZOOM_MIN;
+    const changes = this.state.changes;
+    if (detailed !== this.state.detailed) {
+      this.state.detailed = detailed;
+      changes.all = true;
+    }
     
     this.updateTransform(transform);
     
-    this.linkRenderer.render(this.layers.links, links as any, nodes as any);
-    this.nodeRenderer.render(this.layers.nodes, nodes as any);
+    this.linkRenderer.render(this.layers.links, links as any, changes.all ? null : changes.links, detailed);
+    this.nodeRenderer.render(this.layers.nodes, getVisibleNodes(this.store, nodes) as any, changes.all ? null : changes.nodes, detailed);
+    
+    this.state.changes = { all: false, nodes: new Set(), links: new Set() };
+    this.markStaleRoutes();
   }
   
   renderGhost(): void {
@@ -146,22 +380,125 @@ export class RenderEngine {
     this.layers.overlay.attr('transform', transformString);
   }
   
+  /**
+   * Redraws right away the connections of a node (or all changed ones),
+   * e.g. while it is dragged.
+   */
   updateLinksOnly(nodeId?: NodeId): void {
-    const nodes = this.store.getAllNodes();
-    const links = nodeId 
-      ? this.store.getLinksForNode(nodeId)
-      : this.store.getAllLinks();
-      
-    this.linkRenderer.render(this.layers.links, links as any, nodes as any);
+    if (nodeId) {
+      this.store.getLinksForNode(nodeId).forEach(link => this.state.changes.links.add(link.id));
+    }
+    
+    const area = getRenderArea(this.svg.node()!, this.store.getTransform());
+    const links = getVisibleLinks(this.store, area ? this.store.getLinksInRect(area) : this.store.getAllLinks());
+    const changes = this.state.changes;
+    
+    this.linkRenderer.render(this.layers.links, links as any, changes.all ? null : changes.links, this.state.detailed);
+    changes.links.clear();
+    this.markStaleRoutes();
   }
   
-  showGhostConnection(sourceHandlerId: string, targetGraphPosition: { x: number; y: number }): void {
+  showGhostConnection(
+    sourceHandlerId: string,
+    targetGraphPosition: { x: number; y: number },
+    valid: boolean | null = null
+  ): void {
     // FIXED: Input is already in graph coordinates, just pass it through
-    this.linkRenderer.renderGhost(this.layers.overlay, sourceHandlerId, targetGraphPosition);
+    this.linkRenderer.renderGhost(this.layers.overlay, sourceHandlerId, targetGraphPosition, valid);
   }
   
   clearGhostConnection(): void {
     this.linkRenderer.clearGhost(this.layers.overlay);
+    this.nodeRenderer.setConnectionTarget(this.layers.nodes, null);
+  }
+  
+  /**
+   * Highlights the handler hovered while creating a connection (green valid, red invalid).
+   */
+  highlightConnectionTarget(handlerId: HandlerId | null, valid: boolean = true): void {
+    this.nodeRenderer.setConnectionTarget(
+      this.layers.nodes,
+      handlerId ? { handlerId, valid } : null
+    );
+  }
+  
+  /**
+   * Draws the rubber-band selection rectangle (graph coordinates).
+   */
+  showSelectionRect(rect: Rect): void {
+    let selectionRect = this.layers.overlay.select<SVGRectElement>('rect.selection-rect');
+    
+    if (selectionRect.empty()) {
+      selectionRect = this.layers.overlay.append('rect')
+        .attr('class', 'selection-rect')
+        .style('fill', Config.SELECTION_COLOR)
+        .style('fill-opacity', 0.08)
+        .style('stroke', Config.SELECTION_COLOR)
+        .style('stroke-dasharray', '4,4')
+        .style('pointer-events', 'none');
+    }
+    
+    // Keep the stroke 1px wide regardless of zoom
+    const transform = this.store.getTransform();
+    
+    selectionRect
+      .attr('x', rect.x)
+      .attr('y', rect.y)
+      .attr('width', rect.width)
+      .attr('height', rect.height)
+      .style('stroke-width', 1 / transform.k);
+  }
+  
+  clearSelectionRect(): void {
+    this.layers.overlay.selectAll('.selection-rect').remove();
+  }
+  
+  /**
+   * Draws the alignment guides of a drag (graph coordinates).
+   */
+  showAlignmentGuides(guides: ReadonlyArray<AlignmentGuide>): void {
+    const transform = this.store.getTransform();
+    
+    this.layers.overlay
+      .selectAll<SVGLineElement, AlignmentGuide>('line.alignment-guide')
+      .data(guides as AlignmentGuide[])
+      .join(enter => enter.append('line')
+        .attr('class', 'alignment-guide')
+        .style('stroke', Config.GUIDE_COLOR)
+        .style('stroke-dasharray', '4,3')
+        .style('pointer-events', 'none'))
+      .attr('x1', d => d.orientation === 'vertical' ? d.position : d.from)
+      .attr('x2', d => d.orientation === 'vertical' ? d.position : d.to)
+      .attr('y1', d => d.orientation === 'vertical' ? d.from : d.position)
+      .attr('y2', d => d.orientation === 'vertical' ? d.to : d.position)
+      .style('stroke-width', 1 / transform.k);
+  }
+  
+  clearAlignmentGuides(): void {
+    this.layers.overlay.selectAll('.alignment-guide').remove();
+  }
+  
+  hitTest(client: Position): HitTarget | null {
+    const svg = this.svg.node()!;
+    const element = document.elementFromPoint(client.x, client.y);
+    if (!element || !svg.contains(element)) return null;
+    
+    const nodeElement = element.closest('[data-node-id]');
+    const nodeId = nodeElement?.getAttribute('data-node-id') as NodeId | undefined;
+    const linkId = element.closest('[data-connection-id]')?.getAttribute('data-connection-id') as ConnectionId | undefined;
+    
+    if (nodeId && element.closest('.group-toggle')) return { type: 'group-toggle', nodeId };
+    if (nodeId && element.closest('.resize-handle')) return { type: 'resize-handle', nodeId };
+    if (linkId && element.closest('.connection-label')) return { type: 'link-label', linkId };
+    
+    const waypoint = element.closest('[data-waypoint-index]')?.getAttribute('data-waypoint-index');
+    if (linkId && waypoint) return { type: 'waypoint', linkId, index: Number(waypoint) };
+    
+    const handlerId = element.closest('[data-handler-id]')?.getAttribute('data-handler-id') as HandlerId | undefined;
+    if (nodeId && handlerId) return { type: 'handler', nodeId, handlerId };
+    if (nodeId) return { type: 'node', nodeId };
+    if (linkId) return { type: 'link', linkId };
+    return null;
   }
   
   destroy(): void {
@@ -1,17 +1,50 @@
 /**
  * Strategy for cubic Bezier curve connections.
+ * Through waypoints, the curve is a Catmull-Rom spline leaving and entering
+ * along the handler directions.
  */
-import { PathStrategy, PathEndpoint } from './PathCalculator';
+import { PathStrategy, PathEndpoint, PathContext } from './PathCalculator';
 import { Position } from '../../core/types';
 import { CoordinateTransform } from '../../utils/CoordinateTransform';
 import { Config } from '../../core/Config';
 
 export class BezierPathStrategy implements PathStrategy {
-  calculate(source: PathEndpoint, target: PathEndpoint): string {
+  calculate(source: PathEndpoint, target: PathEndpoint, context?: PathContext): string {
+    if (context && context.waypoints.length > 0) {
+      return this.calculateThroughWaypoints(source, target, context.waypoints);
+    }
+    
     const controlPoints = this.calculateControlPoints(source, target);
     return `M ${source.position.x},${source.position.y} C ${controlPoints[0].x},${controlPoints[0].y} ${controlPoints[1].x},${controlPoints[1].y} ${target.position.x},${target.position.y}`;
   }
   
+  private calculateThroughWaypoints(
+    source: PathEndpoint,
+    target: PathEndpoint,
+    waypoints: ReadonlyArray<Position>
+  ): string {
+    const points = [source.position, ...waypoints, target.position];
+    let path = `M ${source.position.x},${source.position.y}`;
+    
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      // Endpoints leave along their handler for half the leg, at least the clearance
+      const reach = Math.max(CoordinateTransform.distance(from, to) * 0.5, Config.CLEARANCE);
+      
+      const cp1: Position = i === 0
+        ? { x: from.x + source.vector.x * reach, y: from.y + source.vector.y * reach }
+        : { x: from.x + (to.x - points[i - 1].x) / 6, y: from.y + (to.y - points[i - 1].y) / 6 };
+      const cp2: Position = i === points.length - 2
+        ? { x: to.x + target.vector.x * reach, y: to.y + target.vector.y * reach }
+        : { x: to.x - (points[i + 2].x - from.x) / 6, y: to.y - (points[i + 2].y - from.y) / 6 };
+      
+      path += ` C ${cp1.x},${cp1.y} ${cp2.x},${cp2.y} ${to.x},${to.y}`;
+    }
+    
+    return path;
+  }
+  
   private calculateControlPoints(
     source: PathEndpoint,
     target: PathEndpoint
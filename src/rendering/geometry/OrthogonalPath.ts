@@ -1,15 +1,30 @@
 /**
  * Strategy for orthogonal (Manhattan) routing with rounded corners.
+ * With a path context, connections are routed around nodes (OrthogonalRouter)
+ * and hop over the connections they cross; connections with waypoints step
+ * through them instead.
  */
-import { PathStrategy, PathEndpoint } from './PathCalculator';
+import { PathStrategy, PathEndpoint, PathContext } from './PathCalculator';
+import { OrthogonalRouter } from './OrthogonalRouter';
 import { Position, Direction } from '../../core/types';
 import { Config } from '../../core/Config';
 
 export class OrthogonalPathStrategy implements PathStrategy {
-  calculate(source: PathEndpoint, target: PathEndpoint): string {
-    const points = this.buildOrthogonalPoints(source, target);
-    const optimized = this.filterColinearPoints(points);
-    return this.applyRoundedCorners(optimized, Config.CORNER_RADIUS);
+  calculate(source: PathEndpoint, target: PathEndpoint, context?: PathContext): string {
+    // Plain smooth step between the endpoints, also used where no route avoids the nodes
+    const smoothStep = () => this.filterColinearPoints(this.buildOrthogonalPoints(source, target));
+    
+    if (!context) {
+      return this.applyRoundedCorners(smoothStep(), Config.CORNER_RADIUS);
+    }
+    
+    if (context.waypoints.length > 0) {
+      return this.applyRoundedCorners(this.buildWaypointPoints(source, target, context.waypoints), Config.CORNER_RADIUS);
+    }
+    
+    const router = OrthogonalRouter.forGraph(context.graph);
+    const points = router.route(context.connectionId, source, target, smoothStep);
+    return this.applyRoundedCorners(points, Config.CORNER_RADIUS, router.getJumps(context.connectionId));
   }
   
   private buildOrthogonalPoints(
@@ -36,6 +51,44 @@ export class OrthogonalPathStrategy implements PathStrategy {
     return points;
   }
   
+  /**
+   * Steps through the waypoints with one bend per leg: leaves the source
+   * along its handler axis, turns at every waypoint and arrives along the
+   * target handler axis unless that folds the path back over itself.
+   * Waypoints stay corners even where the path runs straight through them.
+   */
+  private buildWaypointPoints(
+    source: PathEndpoint,
+    target: PathEndpoint,
+    waypoints: ReadonlyArray<Position>
+  ): Position[] {
+    const points: Position[] = [source.position];
+    const stops = [...waypoints, target.position];
+    let horizontal = this.getAxis(source.direction) === 'horizontal';
+    
+    stops.forEach((stop, i) => {
+      const from = points[points.length - 1];
+      
+      // Starting the last leg along the previous segment would arrive along the target axis
+      if (i === stops.length - 1 && horizontal !== (this.getAxis(target.direction) === 'vertical')) {
+        const before = points[points.length - 2];
+        const doublesBack = horizontal
+          ? (from.y - before.y) * (stop.y - from.y) < 0
+          : (from.x - before.x) * (stop.x - from.x) < 0;
+        if (!doublesBack) horizontal = !horizontal;
+      }
+      
+      const bend = horizontal ? { x: stop.x, y: from.y } : { x: from.x, y: stop.y };
+      // Legs already on one axis need no bend
+      if ((bend.x !== from.x || bend.y !== from.y) && (bend.x !== stop.x || bend.y !== stop.y)) {
+        points.push(bend);
+      }
+      points.push(stop);
+    });
+    
+    return points;
+  }
+  
   private getAxis(direction: Direction): 'horizontal' | 'vertical' {
     return (direction === Direction.LEFT || direction === Direction.RIGHT) ? 'horizontal' : 'vertical';
   }
@@ -106,7 +159,14 @@ export class OrthogonalPathStrategy implements PathStrategy {
     return filtered;
   }
   
-  private applyRoundedCorners(points: Position[], radius: number): string {
+  /**
+   * @param jumps - Crossings to hop over, by segment index (see OrthogonalRouter.getJumps)
+   */
+  private applyRoundedCorners(
+    points: Position[],
+    radius: number,
+    jumps: ReadonlyMap<number, number[]> = new Map()
+  ): string {
     if (points.length < 2) return '';
     let path = `M ${points[0].x},${points[0].y}`;
     
@@ -115,6 +175,8 @@ export class OrthogonalPathStrategy implements PathStrategy {
       const curr = points[i];
       const next = points[i + 1];
       
+      path += this.drawJumps(prev, curr, jumps.get(i - 1));
+      
       // Calculate approach and exit vectors
       const dx1 = curr.x - prev.x;
       const dy1 = curr.y - prev.y;
@@ -142,7 +204,26 @@ export class OrthogonalPathStrategy implements PathStrategy {
       path += ` L ${approachX},${approachY} Q ${curr.x},${curr.y} ${exitX},${exitY}`;
     }
     
-    path += ` L ${points[points.length - 1].x},${points[points.length - 1].y}`;
+    const last = points.length - 1;
+    path += this.drawJumps(points[last - 1], points[last], jumps.get(last - 1));
+    path += ` L ${points[last].x},${points[last].y}`;
     return path;
   }
+  
+  /**
+   * Hops of a horizontal segment over crossing connections, as half circles
+   * bulging upwards.
+   */
+  private drawJumps(from: Position, to: Position, crossings?: ReadonlyArray<number>): string {
+    if (!crossings || crossings.length === 0) return '';
+    
+    const r = Config.LINE_JUMP_SIZE;
+    const step = to.x > from.x ? r : -r;
+    // Clockwise when heading right, counter-clockwise when heading left
+    const sweep = to.x > from.x ? 1 : 0;
+    
+    return crossings
+      .map(x => ` L ${x - step},${from.y} A ${r},${r} 0 0 ${sweep} ${x + step},${from.y}`)
+      .join('');
+  }
 }
\ No newline at end of file
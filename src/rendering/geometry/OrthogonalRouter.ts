@@ -0,0 +1,543 @@
+/**
+ * Obstacle-avoiding routes for smooth-step connections, with parallel edges
+ * moved apart and the crossings that get line jumps.
+ */
+import { PathEndpoint, GraphLookup } from './PathCalculator';
+import { Position, Rect, ConnectionId, Vector2D } from '../../core/types';
+import { Config } from '../../core/Config';
+import { QuadTree } from '../../utils/QuadTree';
+import { getLinkArea } from '../../utils/LinkArea';
+
+// Extra cost of a bend, in graph units: fewer bends beat a slightly shorter route
+const BEND_PENALTY = Config.CLEARANCE * 2;
+
+// Unit steps of the four directions (right, down, left, up), indexed by direction
+const STEPS: ReadonlyArray<Vector2D> = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 }
+];
+
+interface CachedRoute {
+  // Endpoints and nodes around them the route was computed for
+  signature: string;
+  points: Position[];
+  bounds: Rect;
+  // Points with parallel edges moved apart; null until needed again
+  nudged: Position[] | null;
+}
+
+// Interior segment of a route lying on a shared line, spanning min..max along it
+interface LaneSegment {
+  id: ConnectionId;
+  min: number;
+  max: number;
+}
+
+/**
+ * Routes orthogonal connections around nodes.
+ *
+ * Each route is an A* search over the orthogonal visibility graph of the
+ * nodes near the connection, inflated by Config.CLEARANCE: the grid lines are
+ * the node borders and the points just outside both handlers. Bends cost
+ * extra, so short routes with few bends win. The search stays inside the area
+ * Store indexes the connection under (getLinkArea), so culling keeps working.
+ *
+ * Routes are cached per connection and recomputed only when an endpoint or a
+ * node in that area moves. Interior segments of different connections on the
+ * same line are spread Config.PARALLEL_EDGE_SPACING apart (closer when that
+ * many lanes would not fit within the clearance), and horizontal segments hop
+ * over the vertical segments they cross.
+ *
+ * One router serves each graph (see forGraph).
+ */
+export class OrthogonalRouter {
+  private static routers = new WeakMap<GraphLookup, OrthogonalRouter>();
+
+  private graph: GraphLookup;
+  private routes = new Map<ConnectionId, CachedRoute>();
+  private index = new QuadTree<ConnectionId>();
+  // Interior segments by the line they lie on ('v:x' or 'h:y')
+  private lanes = new Map<string, LaneSegment[]>();
+  private stale = new Set<ConnectionId>();
+
+  private constructor(graph: GraphLookup) {
+    this.graph = graph;
+  }
+
+  /**
+   * Gets the router of a graph, creating it on first use.
+   */
+  static forGraph(graph: GraphLookup): OrthogonalRouter {
+    let router = OrthogonalRouter.routers.get(graph);
+    if (!router) {
+      router = new OrthogonalRouter(graph);
+      OrthogonalRouter.routers.set(graph, router);
+    }
+    return router;
+  }
+
+  /**
+   * Routes a connection, reusing the cached route while its endpoints and the
+   * nodes around it stay put.
+   *
+   * @param id - Connection identifier
+   * @param source - Source endpoint
+   * @param target - Target endpoint
+   * @param fallback - Route used when no route avoids the nodes
+   * @returns Route points from source to target, parallel edges moved apart
+   */
+  route(id: ConnectionId, source: PathEndpoint, target: PathEndpoint, fallback: () => Position[]): Position[] {
+    const area = getLinkArea(source.position, target.position);
+    const obstacles = this.graph.getObstaclesInRect(area);
+    const signature = [
+      `${source.position.x},${source.position.y},${OrthogonalRouter.directionOf(source.vector)}`,
+      `${target.position.x},${target.position.y},${OrthogonalRouter.directionOf(target.vector)}`,
+      ...obstacles.map(r => `${r.x},${r.y},${r.width},${r.height}`).sort()
+    ].join(';');
+
+    let cached = this.routes.get(id);
+    if (!cached || cached.signature !== signature) {
+      const found = obstacles.length <= Config.ROUTE_MAX_OBSTACLES
+        ? this.search(source, target, area, obstacles)
+        : null;
+      cached = this.setRoute(id, signature, OrthogonalRouter.simplify(found ?? fallback()));
+    }
+
+    if (!cached.nudged) cached.nudged = this.nudge(id, cached.points);
+    return cached.nudged;
+  }
+
+  /**
+   * Finds where a routed connection hops over others: its horizontal segments
+   * crossing vertical segments of nearby routes, away from corners.
+   *
+   * @returns Crossing x coordinates by segment index, in drawing order
+   */
+  getJumps(id: ConnectionId): Map<number, number[]> {
+    const jumps = new Map<number, number[]>();
+    const route = this.routes.get(id);
+    if (!route?.nudged) return jumps;
+
+    const points = route.nudged;
+    const keepOut = Config.CORNER_RADIUS + Config.LINE_JUMP_SIZE;
+    const others = this.index.search(route.bounds)
+      .filter(other => other !== id)
+      .map(other => this.getNudged(other));
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      if (Math.abs(a.y - b.y) > 0.5) continue;
+
+      const minX = Math.min(a.x, b.x) + keepOut;
+      const maxX = Math.max(a.x, b.x) - keepOut;
+      const crossings: number[] = [];
+
+      others.forEach(other => {
+        for (let j = 0; j < other.length - 1; j++) {
+          const c = other[j];
+          const d = other[j + 1];
+          if (Math.abs(c.x - d.x) > 0.5) continue;
+
+          if (c.x > minX && c.x < maxX &&
+              a.y > Math.min(c.y, d.y) + keepOut && a.y < Math.max(c.y, d.y) - keepOut) {
+            crossings.push(c.x);
+          }
+        }
+      });
+
+      if (crossings.length === 0) continue;
+
+      // In drawing order, without hops overlapping each other
+      crossings.sort((p, q) => b.x > a.x ? p - q : q - p);
+      const spaced = crossings.filter((x, k) => k === 0 || Math.abs(x - crossings[k - 1]) >= Config.LINE_JUMP_SIZE * 2);
+      jumps.set(i, spaced);
+    }
+
+    return jumps;
+  }
+
+  /**
+   * Drops the route of a connection (removed, or no longer smooth-step).
+   */
+  remove(id: ConnectionId): void {
+    const route = this.routes.get(id);
+    if (!route) return;
+
+    this.markNeighborsStale(id, route.bounds);
+    this.unindex(id, route.points);
+    this.routes.delete(id);
+    this.index.remove(id);
+  }
+
+  /**
+   * Drops every route, e.g. when another graph is loaded.
+   */
+  clear(): void {
+    this.routes.clear();
+    this.index.clear();
+    this.lanes.clear();
+    this.stale.clear();
+  }
+
+  /**
+   * Takes the connections whose drawn route may have changed because a route
+   * near them changed since the last call. They need redrawing.
+   */
+  takeStale(): Set<ConnectionId> {
+    const stale = this.stale;
+    this.stale = new Set();
+    return stale;
+  }
+
+  // ========== SEARCH ==========
+
+  /**
+   * A* search between the points Config.CLEARANCE out of both handlers.
+   *
+   * @returns Route points, or null if the nodes leave no way through the area
+   */
+  private search(source: PathEndpoint, target: PathEndpoint, area: Rect, obstacles: ReadonlyArray<Rect>): Position[] | null {
+    const clearance = Config.CLEARANCE;
+    const startDirection = OrthogonalRouter.directionOf(source.vector);
+    const endDirection = OrthogonalRouter.directionOf(target.vector);
+    // The route arrives against the target handler's direction
+    const arrival = (endDirection + 2) % 4;
+
+    const start = OrthogonalRouter.step(source.position, startDirection, clearance);
+    const goal = OrthogonalRouter.step(target.position, endDirection, clearance);
+
+    // Nodes crowding a handler's escape point would wall it in; they are not avoided
+    const blocks = obstacles
+      .map(r => ({ x: r.x - clearance, y: r.y - clearance, width: r.width + clearance * 2, height: r.height + clearance * 2 }))
+      .filter(b => !OrthogonalRouter.isInside(start, b) && !OrthogonalRouter.isInside(goal, b));
+
+    const xs = OrthogonalRouter.gridLines(
+      [area.x, area.x + area.width, start.x, goal.x, (start.x + goal.x) / 2, ...blocks.flatMap(b => [b.x, b.x + b.width])],
+      area.x,
+      area.x + area.width
+    );
+    const ys = OrthogonalRouter.gridLines(
+      [area.y, area.y + area.height, start.y, goal.y, (start.y + goal.y) / 2, ...blocks.flatMap(b => [b.y, b.y + b.height])],
+      area.y,
+      area.y + area.height
+    );
+
+    const columns = xs.length;
+    const vertexCount = columns * ys.length;
+    const startVertex = ys.indexOf(start.y) * columns + xs.indexOf(start.x);
+    const goalVertex = ys.indexOf(goal.y) * columns + xs.indexOf(goal.x);
+    if (startVertex < 0 || goalVertex < 0) return null;
+
+    // 0 unknown, 1 free, 2 inside a node's clearance
+    const vertexState = new Uint8Array(vertexCount);
+    const isFree = (vertex: number): boolean => {
+      if (vertexState[vertex] === 0) {
+        const point = { x: xs[vertex % columns], y: ys[Math.floor(vertex / columns)] };
+        vertexState[vertex] = blocks.some(b => OrthogonalRouter.isInside(point, b)) ? 2 : 1;
+      }
+      return vertexState[vertex] === 1;
+    };
+
+    // Grid lines include every node border, so an edge crosses a node iff its midpoint is inside
+    const isEdgeFree = (from: number, to: number): boolean => {
+      const midpoint = {
+        x: (xs[from % columns] + xs[to % columns]) / 2,
+        y: (ys[Math.floor(from / columns)] + ys[Math.floor(to / columns)]) / 2
+      };
+      return !blocks.some(b => OrthogonalRouter.isInside(midpoint, b));
+    };
+
+    const heuristic = (vertex: number): number =>
+      Math.abs(xs[vertex % columns] - goal.x) + Math.abs(ys[Math.floor(vertex / columns)] - goal.y);
+
+    // States are vertex * 4 + direction of travel; the last state marks arrival
+    const finish = vertexCount * 4;
+    const cost = new Float64Array(finish + 1).fill(Infinity);
+    const previous = new Int32Array(finish + 1).fill(-1);
+    const closed = new Uint8Array(finish + 1);
+    const open = new MinHeap();
+
+    const startState = startVertex * 4 + startDirection;
+    cost[startState] = 0;
+    open.push(startState, heuristic(startVertex));
+
+    while (open.size > 0) {
+      const state = open.pop();
+      if (state === finish) break;
+      // The heuristic is consistent: a state's first pop has its lowest cost
+      if (closed[state]) continue;
+      closed[state] = 1;
+
+      const vertex = Math.floor(state / 4);
+      const direction = state % 4;
+      const g = cost[state];
+
+      if (vertex === goalVertex) {
+        const total = g + (direction === arrival ? 0 : BEND_PENALTY);
+        if (total < cost[finish]) {
+          cost[finish] = total;
+          previous[finish] = state;
+          open.push(finish, total);
+        }
+      }
+
+      for (let next = 0; next < 4; next++) {
+        // Never double back
+        if (next === (direction + 2) % 4) continue;
+
+        const column = vertex % columns + STEPS[next].x;
+        const row = Math.floor(vertex / columns) + STEPS[next].y;
+        if (column < 0 || column >= columns || row < 0 || row >= ys.length) continue;
+
+        const neighbor = row * columns + column;
+        if (!isFree(neighbor) || !isEdgeFree(vertex, neighbor)) continue;
+
+        const length = Math.abs(xs[column] - xs[vertex % columns]) + Math.abs(ys[row] - ys[Math.floor(vertex / columns)]);
+        const nextState = neighbor * 4 + next;
+        const nextCost = g + length + (next === direction ? 0 : BEND_PENALTY);
+
+        if (nextCost < cost[nextState]) {
+          cost[nextState] = nextCost;
+          previous[nextState] = state;
+          open.push(nextState, nextCost + heuristic(neighbor));
+        }
+      }
+    }
+
+    if (previous[finish] < 0) return null;
+
+    const points: Position[] = [target.position];
+    for (let state = previous[finish]; state >= 0; state = previous[state]) {
+      const vertex = Math.floor(state / 4);
+      points.push({ x: xs[vertex % columns], y: ys[Math.floor(vertex / columns)] });
+    }
+    points.push(source.position);
+
+    return points.reverse();
+  }
+
+  // ========== PARALLEL EDGES ==========
+
+  /**
+   * Spreads the interior segments of a route sharing a line with other routes.
+   * Segments attached to handlers stay put; moving a segment sideways only
+   * stretches its neighbors, so the route stays orthogonal.
+   */
+  private nudge(id: ConnectionId, points: ReadonlyArray<Position>): Position[] {
+    const result = points.map(p => ({ x: p.x, y: p.y }));
+    const limit = Config.CLEARANCE - Config.CORNER_RADIUS;
+
+    OrthogonalRouter.interiorSegments(points).forEach(({ index, key, min, max, vertical }) => {
+      const sharing = new Set<ConnectionId>([id]);
+      this.lanes.get(key)?.forEach(segment => {
+        if (segment.id !== id && segment.min < max - 1 && min < segment.max - 1) sharing.add(segment.id);
+      });
+      if (sharing.size < 2) return;
+
+      // Stable lane order, centered on the shared line; lanes close up so
+      // that every route keeps its own lane within the clearance
+      const order = [...sharing].sort();
+      const spacing = Math.min(Config.PARALLEL_EDGE_SPACING, (limit * 2) / (order.length - 1));
+      const offset = (order.indexOf(id) - (order.length - 1) / 2) * spacing;
+
+      if (vertical) {
+        result[index].x += offset;
+        result[index + 1].x += offset;
+      } else {
+        result[index].y += offset;
+        result[index + 1].y += offset;
+      }
+    });
+
+    return result;
+  }
+
+  private getNudged(id: ConnectionId): Position[] {
+    const route = this.routes.get(id)!;
+    if (!route.nudged) route.nudged = this.nudge(id, route.points);
+    return route.nudged;
+  }
+
+  // ========== CACHE ==========
+
+  private setRoute(id: ConnectionId, signature: string, points: Position[]): CachedRoute {
+    const old = this.routes.get(id);
+    if (old) this.unindex(id, old.points);
+
+    const route: CachedRoute = { signature, points, bounds: OrthogonalRouter.boundsOf(points), nudged: null };
+    this.routes.set(id, route);
+    this.index.insert(id, route.bounds);
+
+    OrthogonalRouter.interiorSegments(points).forEach(({ key, min, max }) => {
+      if (!this.lanes.has(key)) this.lanes.set(key, []);
+      this.lanes.get(key)!.push({ id, min, max });
+    });
+
+    // Routes sharing lines with or crossing the old and new route are drawn differently now
+    if (old) this.markNeighborsStale(id, old.bounds);
+    this.markNeighborsStale(id, route.bounds);
+
+    return route;
+  }
+
+  private unindex(id: ConnectionId, points: ReadonlyArray<Position>): void {
+    OrthogonalRouter.interiorSegments(points).forEach(({ key }) => {
+      const segments = this.lanes.get(key)?.filter(segment => segment.id !== id);
+      if (segments && segments.length > 0) {
+        this.lanes.set(key, segments);
+      } else {
+        this.lanes.delete(key);
+      }
+    });
+  }
+
+  private markNeighborsStale(id: ConnectionId, bounds: Rect): void {
+    this.index.search(bounds).forEach(other => {
+      if (other === id) return;
+      this.routes.get(other)!.nudged = null;
+      this.stale.add(other);
+    });
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * Nearest of the four directions to a vector (OMNI handlers point anywhere).
+   */
+  private static directionOf(vector: Vector2D): number {
+    if (Math.abs(vector.x) >= Math.abs(vector.y)) return vector.x >= 0 ? 0 : 2;
+    return vector.y >= 0 ? 1 : 3;
+  }
+
+  private static step(point: Position, direction: number, distance: number): Position {
+    return { x: point.x + STEPS[direction].x * distance, y: point.y + STEPS[direction].y * distance };
+  }
+
+  /**
+   * Strictly inside: routes may run along the clearance border.
+   */
+  private static isInside(point: Position, rect: Rect): boolean {
+    return point.x > rect.x && point.x < rect.x + rect.width &&
+      point.y > rect.y && point.y < rect.y + rect.height;
+  }
+
+  private static gridLines(values: number[], min: number, max: number): number[] {
+    return [...new Set(values.filter(v => v >= min && v <= max))].sort((a, b) => a - b);
+  }
+
+  /**
+   * Drops repeated points and points in the middle of straight runs.
+   */
+  private static simplify(points: ReadonlyArray<Position>): Position[] {
+    const result: Position[] = [];
+
+    points.forEach(point => {
+      const last = result[result.length - 1];
+      if (last && Math.abs(last.x - point.x) < 0.1 && Math.abs(last.y - point.y) < 0.1) return;
+
+      const before = result[result.length - 2];
+      if (before && last &&
+          ((Math.abs(before.x - last.x) < 0.1 && Math.abs(last.x - point.x) < 0.1) ||
+           (Math.abs(before.y - last.y) < 0.1 && Math.abs(last.y - point.y) < 0.1))) {
+        result[result.length - 1] = point;
+        return;
+      }
+
+      result.push(point);
+    });
+
+    return result;
+  }
+
+  /**
+   * Segments not attached to a handler, with the line they lie on.
+   */
+  private static interiorSegments(points: ReadonlyArray<Position>): { index: number; key: string; min: number; max: number; vertical: boolean }[] {
+    const segments: { index: number; key: string; min: number; max: number; vertical: boolean }[] = [];
+
+    for (let i = 1; i < points.length - 2; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      const vertical = Math.abs(a.x - b.x) < 0.5;
+      if (!vertical && Math.abs(a.y - b.y) >= 0.5) continue;
+
+      segments.push(vertical
+        ? { index: i, key: `v:${Math.round(a.x)}`, min: Math.min(a.y, b.y), max: Math.max(a.y, b.y), vertical }
+        : { index: i, key: `h:${Math.round(a.y)}`, min: Math.min(a.x, b.x), max: Math.max(a.x, b.x), vertical });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Box around a route, with room for its segments to move apart.
+   */
+  private static boundsOf(points: ReadonlyArray<Position>): Rect {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const pad = Config.CLEARANCE;
+    const x = Math.min(...xs) - pad;
+    const y = Math.min(...ys) - pad;
+    return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+  }
+}
+
+/**
+ * Binary min-heap of integer items by priority, for the A* open set.
+ * Items are not updated in place: an item pushed again with a lower
+ * priority leaves its older entry behind for the caller to skip.
+ */
+class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    let index = this.items.length;
+    this.items.push(item);
+    this.priorities.push(priority);
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
@@ -2,13 +2,13 @@
  * Main entry point for path calculation logic with comprehensive error handling.
  */
 import { Connection } from '../../domain/models/Connection';
-import { Node } from '../../domain/models/Node';
 import { Handler } from '../../domain/models/Handler';
-import { Position, Vector2D, Direction, ConnectionPathType } from '../../core/types';
+import { Position, Vector2D, Direction, ConnectionPathType, HandlerId, ConnectionId, Rect } from '../../core/types';
 import { CoordinateTransform } from '../../utils/CoordinateTransform';
 import { BezierPathStrategy } from './BezierPath';
 import { OrthogonalPathStrategy } from './OrthogonalPath';
 import { StraightPathStrategy } from './StraightPath';
+import { OrthogonalRouter } from './OrthogonalRouter';
 
 export interface PathEndpoint {
   position: Position;
@@ -17,7 +17,32 @@ export interface PathEndpoint {
 }
 
 export interface PathStrategy {
-  calculate(source: PathEndpoint, target: PathEndpoint): string;
+  calculate(source: PathEndpoint, target: PathEndpoint, context?: PathContext): string;
+}
+
+/**
+ * Looks up handlers and their absolute positions by ID (implemented by Store).
+ */
+export interface HandlerLookup {
+  getHandler(handlerId: HandlerId): Readonly<Handler> | null;
+  getHandlerAbsolutePosition(handlerId: HandlerId): Position | null;
+}
+
+/**
+ * Handler lookup plus the node bounds connections are routed around (implemented by Store).
+ */
+export interface GraphLookup extends HandlerLookup {
+  getObstaclesInRect(rect: Rect): Rect[];
+}
+
+/**
+ * Connection being drawn, for strategies that look beyond its two endpoints.
+ */
+export interface PathContext {
+  connectionId: ConnectionId;
+  graph: GraphLookup;
+  // Bend points set by the user, which the path must pass through in order
+  waypoints: ReadonlyArray<Position>;
 }
 
 /**
@@ -47,18 +72,21 @@ export class PathCalculator {
    * Returns empty string on failure (safe degradation).
    * 
    * @param connection - Connection to calculate path for
-   * @param nodes - All nodes in graph (needed to locate handlers)
-   * @param handlerPositions - Cached absolute handler positions
+   * @param graph - Lookup of the connected handlers and of the nodes to route around
    * @returns SVG path string or empty string if calculation fails
    * @throws {PathCalculationError} Only if configured for strict mode
    */
   static calculatePath(
-    connection: Connection,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>
+    connection: Readonly<Connection>,
+    graph: GraphLookup
   ): string {
     try {
-      const endpoints = this.resolveEndpoints(connection, nodes, handlerPositions);
+      // Only smooth-step connections without waypoints keep a cached route
+      if (connection.pathType !== ConnectionPathType.SMOOTH_STEP || connection.waypoints.length > 0) {
+        OrthogonalRouter.forGraph(graph).remove(connection.id);
+      }
+      
+      const endpoints = this.resolveEndpoints(connection, graph);
       
       if (!endpoints) {
         console.warn(
@@ -69,16 +97,17 @@ export class PathCalculator {
       }
       
       const strategy = this.strategies[connection.pathType];
+      const context: PathContext = { connectionId: connection.id, graph, waypoints: connection.waypoints };
       
       if (!strategy) {
         console.error(
           `[PathCalculator] Unknown path type "${connection.pathType}" for connection ${connection.id}. ` +
           `Falling back to STRAIGHT.`
         );
-        return this.strategies[ConnectionPathType.STRAIGHT].calculate(endpoints.source, endpoints.target);
+        return this.strategies[ConnectionPathType.STRAIGHT].calculate(endpoints.source, endpoints.target, context);
       }
       
-      const path = strategy.calculate(endpoints.source, endpoints.target);
+      const path = strategy.calculate(endpoints.source, endpoints.target, context);
       
       if (!path || path.length === 0) {
         console.warn(`[PathCalculator] Strategy returned empty path for connection ${connection.id}`);
@@ -96,37 +125,45 @@ export class PathCalculator {
 
   /**
    * Calculates a position along the connection path at parameter t.
-   * Uses linear interpolation (MVP). Production would sample actual curve.
+   * Uses linear interpolation through the waypoints (MVP). Production would sample actual curve.
    * 
    * @param connection - Connection to calculate position on
    * @param t - Parameter from 0.0 (source) to 1.0 (target)
-   * @param nodes - All nodes in graph
-   * @param handlerPositions - Cached handler positions
+   * @param handlers - Lookup of the connected handlers and their positions
    * @returns Position at parameter t, or null if calculation fails
    */
   static calculatePositionAlongPath(
-    connection: Connection,
+    connection: Readonly<Connection>,
     t: number,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>
+    handlers: HandlerLookup
   ): Position | null {
     // Clamp t to valid range
     const clampedT = Math.max(0, Math.min(1, t));
     
     try {
-      const endpoints = this.resolveEndpoints(connection, nodes, handlerPositions);
+      const endpoints = this.resolveEndpoints(connection, handlers);
       if (!endpoints) {
         console.warn(`[PathCalculator] Cannot calculate position along path: endpoints not found for ${connection.id}`);
         return null;
       }
       
-      // Linear interpolation (simplified for MVP)
-      const { source, target } = endpoints;
+      // Linear interpolation along the polyline (simplified for MVP)
+      const points = this.getPolyline(connection, endpoints);
+      const lengths = points.slice(1).map((point, i) => CoordinateTransform.distance(points[i], point));
+      let remaining = lengths.reduce((sum, length) => sum + length, 0) * clampedT;
+      
+      for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] || i === lengths.length - 1) {
+          const ratio = lengths[i] > 0 ? Math.min(remaining / lengths[i], 1) : 0;
+          return {
+            x: points[i].x + (points[i + 1].x - points[i].x) * ratio,
+            y: points[i].y + (points[i + 1].y - points[i].y) * ratio
+          };
+        }
+        remaining -= lengths[i];
+      }
       
-      return {
-        x: source.position.x + (target.position.x - source.position.x) * clampedT,
-        y: source.position.y + (target.position.y - source.position.y) * clampedT
-      };
+      return { ...points[0] };
       
     } catch (error) {
       console.error(`[PathCalculator] Error calculating position along path for ${connection.id}:`, error);
@@ -140,16 +177,14 @@ export class PathCalculator {
    * 
    * @param connection - Connection to search on
    * @param targetPoint - Point to find closest position to
-   * @param nodes - All nodes in graph
-   * @param handlerPositions - Cached handler positions
+   * @param handlers - Lookup of the connected handlers and their positions
    * @param precision - Initial search precision (default: 0.01)
    * @returns Parameter t (0.0 to 1.0) of closest point
    */
   static findClosestTOnPath(
-    connection: Connection,
+    connection: Readonly<Connection>,
     targetPoint: Position,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>,
+    handlers: HandlerLookup,
     precision: number = 0.01
   ): number {
     try {
@@ -161,7 +196,7 @@ export class PathCalculator {
       // 20 iterations gives high precision
       for (let i = 0; i < 20; i++) {
         for (let t = minT; t <= maxT; t += precision) {
-          const point = this.calculatePositionAlongPath(connection, t, nodes, handlerPositions);
+          const point = this.calculatePositionAlongPath(connection, t, handlers);
           if (!point) continue;
           
           const distance = CoordinateTransform.distance(point, targetPoint);
@@ -185,21 +220,69 @@ export class PathCalculator {
     }
   }
 
+  /**
+   * Finds where a new waypoint goes: before the waypoint ending the leg of
+   * the polyline (source, waypoints, target) closest to the point.
+   * 
+   * @param connection - Connection to add the waypoint to
+   * @param point - Position of the new waypoint
+   * @param handlers - Lookup of the connected handlers and their positions
+   * @returns Index to insert the waypoint at in connection.waypoints
+   */
+  static findWaypointIndex(
+    connection: Readonly<Connection>,
+    point: Position,
+    handlers: HandlerLookup
+  ): number {
+    const endpoints = this.resolveEndpoints(connection, handlers);
+    if (!endpoints) return connection.waypoints.length;
+    
+    const points = this.getPolyline(connection, endpoints);
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    
+    for (let i = 0; i < points.length - 1; i++) {
+      const distance = this.distanceToSegment(point, points[i], points[i + 1]);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      }
+    }
+    
+    return bestIndex;
+  }
+
+  private static getPolyline(
+    connection: Readonly<Connection>,
+    endpoints: { source: PathEndpoint; target: PathEndpoint }
+  ): Position[] {
+    return [endpoints.source.position, ...connection.waypoints, endpoints.target.position];
+  }
+
+  private static distanceToSegment(point: Position, a: Position, b: Position): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+      : 0;
+    
+    return CoordinateTransform.distance(point, { x: a.x + dx * t, y: a.y + dy * t });
+  }
+
   /**
    * Resolves connection endpoints with positions, directions, and vectors.
    * 
    * @param connection - Connection to resolve endpoints for
-   * @param nodes - All nodes in graph
-   * @param handlerPositions - Cached handler positions
+   * @param handlers - Lookup of the connected handlers and their positions
    * @returns Endpoint data or null if handlers not found
    */
   private static resolveEndpoints(
-    connection: Connection,
-    nodes: Node[],
-    handlerPositions: Map<string, Position>
+    connection: Readonly<Connection>,
+    handlers: HandlerLookup
   ): { source: PathEndpoint; target: PathEndpoint } | null {
-    const sourcePos = handlerPositions.get(connection.sourceHandlerId);
-    const targetPos = handlerPositions.get(connection.targetHandlerId);
+    const sourcePos = handlers.getHandlerAbsolutePosition(connection.sourceHandlerId);
+    const targetPos = handlers.getHandlerAbsolutePosition(connection.targetHandlerId);
     
     if (!sourcePos) {
       console.warn(`[PathCalculator] Source handler position not found: ${connection.sourceHandlerId}`);
@@ -211,16 +294,16 @@ export class PathCalculator {
       return null;
     }
     
-    const sourceHandler = this.findHandler(connection.sourceHandlerId, nodes);
-    const targetHandler = this.findHandler(connection.targetHandlerId, nodes);
+    const sourceHandler = handlers.getHandler(connection.sourceHandlerId);
+    const targetHandler = handlers.getHandler(connection.targetHandlerId);
     
     if (!sourceHandler) {
-      console.warn(`[PathCalculator] Source handler not found in nodes: ${connection.sourceHandlerId}`);
+      console.warn(`[PathCalculator] Source handler not found: ${connection.sourceHandlerId}`);
       return null;
     }
     
     if (!targetHandler) {
-      console.warn(`[PathCalculator] Target handler not found in nodes: ${connection.targetHandlerId}`);
+      console.warn(`[PathCalculator] Target handler not found: ${connection.targetHandlerId}`);
       return null;
     }
     
@@ -238,21 +321,6 @@ export class PathCalculator {
     };
   }
 
-  /**
-   * Finds a handler by ID within the node list.
-   * 
-   * @param handlerId - Handler ID to search for
-   * @param nodes - Nodes to search within
-   * @returns Handler instance or null if not found
-   */
-  private static findHandler(handlerId: string, nodes: Node[]): Handler | null {
-    for (const node of nodes) {
-      const handler = node.handlers.find(h => h.id === handlerId);
-      if (handler) return handler;
-    }
-    return null;
-  }
-
   /**
    * Calculates the directional vector for a handler.
    * For OMNI handlers, calculates vector pointing toward other endpoint.
@@ -263,7 +331,7 @@ export class PathCalculator {
    * @returns Normalized direction vector
    */
   private static calculateHandlerVector(
-    handler: Handler,
+    handler: Readonly<Handler>,
     handlerPos: Position,
     otherPos: Position
   ): Vector2D {
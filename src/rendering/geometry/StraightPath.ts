@@ -1,10 +1,11 @@
 /**
- * Strategy for straight line connections.
+ * Strategy for straight line connections, with a corner at every waypoint.
  */
-import { PathStrategy, PathEndpoint } from './PathCalculator';
+import { PathStrategy, PathEndpoint, PathContext } from './PathCalculator';
 
 export class StraightPathStrategy implements PathStrategy {
-  calculate(source: PathEndpoint, target: PathEndpoint): string {
-    return `M ${source.position.x},${source.position.y} L ${target.position.x},${target.position.y}`;
+  calculate(source: PathEndpoint, target: PathEndpoint, context?: PathContext): string {
+    const corners = (context?.waypoints ?? []).map(p => ` L ${p.x},${p.y}`).join('');
+    return `M ${source.position.x},${source.position.y}${corners} L ${target.position.x},${target.position.y}`;
   }
 }
\ No newline at end of file
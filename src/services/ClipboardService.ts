@@ -0,0 +1,403 @@
+/**
+ * Clipboard service for copying, cutting and pasting graph fragments.
+ * Pasted content always receives fresh node, handler, connection and note IDs.
+ */
+import { Store } from '../core/State';
+import { SelectionManager } from '../core/SelectionManager';
+import { SerializationService } from './SerializationService';
+import { Config } from '../core/Config';
+import {
+  SerializedState,
+  SerializedNode,
+  SerializedHandler,
+  SerializedConnection,
+  SerializedNote,
+  NodeId,
+  ConnectionId,
+  HandlerId,
+  NoteId,
+  createNodeId,
+  createConnectionId,
+  createHandlerId,
+  createNoteId
+} from '../core/types';
+
+/**
+ * Custom error for clipboard payloads that cannot be pasted.
+ */
+export class ClipboardError extends Error {
+  constructor(message: string, public readonly details?: any) {
+    super(message);
+    this.name = 'ClipboardError';
+  }
+}
+
+/**
+ * Summary of a clipboard operation.
+ */
+export interface ClipboardResult {
+  nodes: NodeId[];
+  connections: ConnectionId[];
+  notes: NoteId[];
+}
+
+/**
+ * Service holding the internal clipboard buffer of the widget.
+ * Fragments use the regular SerializedState format, so JSON copied from
+ * another widget (or an exported file) can be pasted as well.
+ *
+ * Does not save history: callers (DiagramAPI) record one history step per operation.
+ *
+ * @example
+ * ```typescript
+ * const clipboard = new ClipboardService(store, selectionManager, serializationService);
+ *
+ * clipboard.copy();
+ * clipboard.paste(); // offset copy of the selection, selected afterwards
+ * ```
+ */
+export class ClipboardService {
+  private store: Store;
+  private selectionManager: SelectionManager;
+  private serializationService: SerializationService;
+
+  private buffer: SerializedState | null = null;
+  // Number of pastes since the last copy: each paste is offset a bit further
+  private pasteCount: number = 0;
+
+  /**
+   * Creates a new ClipboardService instance.
+   *
+   * @param store - State store the fragments are read from and pasted into
+   * @param selectionManager - Selection to copy from and to update after paste
+   * @param serializationService - Serializer used for fragments
+   */
+  constructor(
+    store: Store,
+    selectionManager: SelectionManager,
+    serializationService: SerializationService
+  ) {
+    this.store = store;
+    this.selectionManager = selectionManager;
+    this.serializationService = serializationService;
+  }
+
+  /**
+   * Checks if the internal buffer holds something to paste.
+   */
+  hasContent(): boolean {
+    return this.buffer !== null;
+  }
+
+  /**
+   * Gets the fragment currently held in the internal buffer.
+   */
+  getContent(): Readonly<SerializedState> | null {
+    return this.buffer;
+  }
+
+  /**
+   * Copies the selected nodes, notes and the connections between selected nodes.
+   *
+   * @returns Copied fragment, or null if nothing copyable is selected
+   */
+  copy(): SerializedState | null {
+    const { nodes, notes } = this.selectionManager.getSelectionState();
+    if (nodes.length === 0 && notes.length === 0) {
+      return null;
+    }
+
+    this.buffer = this.serializationService.serializeFragment(this.withDescendants(nodes), notes);
+    this.pasteCount = 0;
+
+    console.log(
+      `[ClipboardService] Copied ${Object.keys(this.buffer.nodes).length} node(s), ${Object.keys(this.buffer.connections).length} connection(s), ${notes.length} note(s)`
+    );
+
+    return this.buffer;
+  }
+
+  /**
+   * Copies the selection, then removes it from the graph.
+   * Selected links are removed too, even when not copied.
+   *
+   * @returns Copied fragment, or null if nothing copyable is selected
+   */
+  cut(): SerializedState | null {
+    const fragment = this.copy();
+    if (!fragment) {
+      return null;
+    }
+
+    const { nodes, links, notes } = this.selectionManager.getSelectionState();
+    this.selectionManager.clearSelection();
+
+    links.forEach(id => {
+      if (this.store.getLink(id)) this.store.removeLink(id);
+    });
+    // Removing a group already removed its selected children
+    nodes.forEach(id => {
+      if (this.store.getNode(id)) this.store.removeNode(id);
+    });
+    notes.forEach(id => this.store.removeNote(id));
+
+    // First paste of a cut goes back to the original position
+    this.pasteCount = -1;
+
+    return fragment;
+  }
+
+  /**
+   * Pastes a fragment into the graph with fresh IDs and selects the pasted items.
+   *
+   * @param source - Fragment or JSON text (defaults to the internal buffer)
+   * @returns IDs of the pasted items
+   * @throws {ClipboardError} If the source is not a valid fragment
+   */
+  paste(source?: SerializedState | string): ClipboardResult {
+    const fragment = source === undefined
+      ? this.buffer
+      : this.parse(source);
+
+    if (!fragment) {
+      return { nodes: [], connections: [], notes: [] };
+    }
+
+    if (source === undefined) {
+      this.pasteCount++;
+    } else {
+      // External content becomes the new buffer, pasted at its own position first
+      this.buffer = fragment;
+      this.pasteCount = 0;
+    }
+
+    const offset = Math.max(this.pasteCount, 0) * Config.GRID_SIZE * 2;
+    const result = this.insert(this.remap(fragment, offset));
+
+    console.log(
+      `[ClipboardService] Pasted ${result.nodes.length} node(s), ${result.connections.length} connection(s), ${result.notes.length} note(s)`
+    );
+
+    return result;
+  }
+
+  /**
+   * Copies and immediately pastes the selection, leaving the buffer untouched.
+   *
+   * @returns IDs of the duplicated items
+   */
+  duplicate(): ClipboardResult {
+    const { nodes, notes } = this.selectionManager.getSelectionState();
+    if (nodes.length === 0 && notes.length === 0) {
+      return { nodes: [], connections: [], notes: [] };
+    }
+
+    const fragment = this.serializationService.serializeFragment(this.withDescendants(nodes), notes);
+    return this.insert(this.remap(fragment, Config.GRID_SIZE * 2));
+  }
+
+  /**
+   * Serializes a fragment for the system clipboard.
+   *
+   * @param fragment - Fragment to serialize
+   * @returns JSON text
+   */
+  toText(fragment: SerializedState): string {
+    return JSON.stringify(fragment);
+  }
+
+  /**
+   * Best-effort write to the system clipboard (requires a secure context).
+   *
+   * @param fragment - Fragment to write
+   */
+  writeToSystemClipboard(fragment: SerializedState): void {
+    if (typeof navigator === 'undefined' || !navigator.clipboard?.writeText) {
+      return;
+    }
+
+    navigator.clipboard.writeText(this.toText(fragment)).catch(error => {
+      console.warn('[ClipboardService] System clipboard not available:', error);
+    });
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * Parses and validates pasted content.
+   * Accepts a full SerializedState or a partial one containing at least nodes or notes.
+   *
+   * @param source - Fragment or JSON text
+   * @returns Normalized fragment
+   * @throws {ClipboardError} If the content is not a diagram fragment
+   */
+  private parse(source: SerializedState | string): SerializedState {
+    let data: any = source;
+
+    if (typeof source === 'string') {
+      try {
+        data = JSON.parse(source);
+      } catch (error) {
+        throw new ClipboardError('Clipboard content is not valid JSON', error);
+      }
+    }
+
+    if (!data || typeof data !== 'object' || (!this.isRecord(data.nodes) && !this.isRecord(data.notes))) {
+      throw new ClipboardError('Clipboard content is not a diagram fragment');
+    }
+
+    const fragment: SerializedState = {
+      metadata: {
+        version: data.metadata?.version || '1.0.0',
+        createdAt: data.metadata?.createdAt || new Date().toISOString(),
+        viewport: data.metadata?.viewport || { k: 1, x: 0, y: 0 }
+      },
+      nodes: this.isRecord(data.nodes) ? data.nodes : {},
+      connections: this.isRecord(data.connections) ? data.connections : {},
+      notes: this.isRecord(data.notes) ? data.notes : {}
+    };
+
+    const validation = this.serializationService.validateState(fragment);
+    if (!validation.valid) {
+      throw new ClipboardError('Invalid clipboard content', validation.errors);
+    }
+    validation.warnings.forEach(warning => console.warn(`[ClipboardService] ${warning}`));
+
+    return fragment;
+  }
+
+  /**
+   * Adds the contents of selected groups to a node selection.
+   */
+  private withDescendants(nodeIds: ReadonlyArray<NodeId>): NodeId[] {
+    const result = new Set<NodeId>(nodeIds);
+    nodeIds.forEach(id => this.store.getDescendantIds(id).forEach(childId => result.add(childId)));
+    return Array.from(result);
+  }
+
+  /**
+   * Adds a remapped fragment to the store and selects the inserted items.
+   *
+   * @param fragment - Fragment with fresh IDs
+   * @returns IDs of the inserted items
+   */
+  private insert(fragment: SerializedState): ClipboardResult {
+    const state = this.serializationService.deserialize(fragment);
+
+    state.nodes.forEach(node => this.store.addNode(node));
+    state.links.forEach(link => this.store.addLink(link));
+    state.notes.forEach(note => this.store.addNote(note));
+
+    const result: ClipboardResult = {
+      nodes: state.nodes.map(node => node.id),
+      connections: state.links.map(link => link.id),
+      notes: state.notes.map(note => note.id)
+    };
+
+    this.selectionManager.selectMany([
+      ...result.nodes.map(id => ({ type: 'node' as const, id })),
+      ...result.connections.map(id => ({ type: 'link' as const, id })),
+      ...result.notes.map(id => ({ type: 'note' as const, id }))
+    ]);
+
+    return result;
+  }
+
+  /**
+   * Assigns fresh IDs to every entity in the fragment and offsets positions.
+   * Connections are re-pointed to the new handler IDs; connections referencing
+   * handlers outside the fragment are dropped.
+   *
+   * @param fragment - Fragment to remap
+   * @param offset - Offset applied on both axes
+   * @returns Remapped copy of the fragment
+   */
+  private remap(fragment: SerializedState, offset: number): SerializedState {
+    const handlerMap = new Map<string, HandlerId>();
+    const nodeMap = new Map<string, NodeId>();
+    const nodes: Record<string, SerializedNode> = {};
+    const connections: Record<string, SerializedConnection> = {};
+    const notes: Record<string, SerializedNote> = {};
+
+    Object.values(fragment.nodes).forEach(nodeData => {
+      const nodeId = createNodeId(`node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+      const handles: Record<string, SerializedHandler> = {};
+      nodeMap.set(nodeData.id, nodeId);
+
+      Object.values(nodeData.handles || {}).forEach((handlerData, index) => {
+        const handlerId = createHandlerId(`${nodeId}_handler_${handlerData.type}_${index}`);
+        handlerMap.set(handlerData.id, handlerId);
+        handles[handlerId] = {
+          ...handlerData,
+          id: handlerId,
+          presentation: { ...handlerData.presentation, offset: { ...handlerData.presentation.offset } }
+        };
+      });
+
+      nodes[nodeId] = {
+        ...nodeData,
+        id: nodeId,
+        data: { ...nodeData.data },
+        presentation: {
+          position: {
+            x: nodeData.presentation.position.x + offset,
+            y: nodeData.presentation.position.y + offset
+          },
+          size: nodeData.presentation.size && { ...nodeData.presentation.size },
+          style: { ...nodeData.presentation.style },
+          collapsed: nodeData.presentation.collapsed
+        },
+        handles
+      };
+    });
+
+    // Parents are re-pointed once every node has its new ID
+    Object.values(nodes).forEach(nodeData => {
+      const parentId = nodeData.parentId ? nodeMap.get(nodeData.parentId) : undefined;
+      if (parentId) {
+        nodeData.parentId = parentId;
+      } else {
+        delete nodeData.parentId;
+      }
+    });
+
+    Object.values(fragment.connections).forEach(connData => {
+      const sourceHandlerId = handlerMap.get(connData.sourceHandlerId);
+      const targetHandlerId = handlerMap.get(connData.targetHandlerId);
+      if (!sourceHandlerId || !targetHandlerId) return;
+
+      const connId = createConnectionId(`conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+      connections[connId] = {
+        ...connData,
+        id: connId,
+        sourceHandlerId,
+        targetHandlerId,
+        label: connData.label ? { ...connData.label } : undefined,
+        style: { ...connData.style },
+        waypoints: connData.waypoints?.map(p => ({ x: p.x + offset, y: p.y + offset })),
+        data: { ...connData.data }
+      };
+    });
+
+    Object.values(fragment.notes || {}).forEach(noteData => {
+      const noteId = createNoteId(`note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+      notes[noteId] = {
+        ...noteData,
+        id: noteId,
+        position: { x: noteData.position.x + offset, y: noteData.position.y + offset },
+        dimensions: { ...noteData.dimensions }
+      };
+    });
+
+    return {
+      metadata: { ...fragment.metadata },
+      nodes,
+      connections,
+      notes
+    };
+  }
+
+  private isRecord(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Graph query service: neighbors, reachability, paths, components and cycles.
+ * Works on node level; connections are resolved to nodes through their handlers.
+ */
+import { Store } from '../core/State';
+import { NodeId, HandlerId } from '../core/types';
+import { Node } from '../domain/models/Node';
+import { Connection } from '../domain/models/Connection';
+
+/**
+ * Node-level adjacency snapshot of the graph.
+ * Connections whose source or target handler cannot be resolved are ignored.
+ */
+interface GraphIndex {
+  nodes: Map<NodeId, Readonly<Node>>;
+  outgoing: Map<NodeId, Readonly<Connection>[]>;
+  incoming: Map<NodeId, Readonly<Connection>[]>;
+  sourceOf: Map<Connection['id'], NodeId>;
+  targetOf: Map<Connection['id'], NodeId>;
+}
+
+/**
+ * Result of a path or subgraph query: nodes and the connections between them.
+ */
+export interface GraphSubset {
+  nodes: Readonly<Node>[];
+  connections: Readonly<Connection>[];
+}
+
+/**
+ * Read-only graph algorithms over the Store.
+ * Neighbor, reachability and path queries follow the store's node-to-links cache
+ * from the nodes they visit; whole-graph queries build a fresh index (cycle
+ * detection reads the link cache instead). Results always reflect the current state.
+ * Results are listed in graph (insertion) order unless stated otherwise.
+ *
+ * @example
+ * ```typescript
+ * const graph = new GraphQueryService(store);
+ *
+ * graph.getSuccessors(nodeId);          // direct targets
+ * graph.getDescendants(nodeId);         // everything reachable
+ * graph.getShortestPath(startId, endId); // { nodes, connections } or null
+ * ```
+ */
+export class GraphQueryService {
+  private store: Store;
+
+  /**
+   * Creates a new GraphQueryService instance.
+   *
+   * @param store - State store providing nodes and links
+   */
+  constructor(store: Store) {
+    this.store = store;
+  }
+
+  /**
+   * Resolves the node owning a handler.
+   *
+   * @param handlerId - Handler identifier
+   * @returns Owning node or null
+   */
+  getNodeForHandler(handlerId: HandlerId): Readonly<Node> | null {
+    const nodeId = this.store.getNodeIdForHandler(handlerId);
+    return nodeId ? this.store.getNode(nodeId) : null;
+  }
+
+  /**
+   * Gets connections ending at a node.
+   */
+  getIncomingLinks(nodeId: NodeId): Readonly<Connection>[] {
+    return this.getLinks(nodeId, 'incoming');
+  }
+
+  /**
+   * Gets connections starting at a node.
+   */
+  getOutgoingLinks(nodeId: NodeId): Readonly<Connection>[] {
+    return this.getLinks(nodeId, 'outgoing');
+  }
+
+  /**
+   * Gets the direct sources of a node's incoming connections.
+   */
+  getPredecessors(nodeId: NodeId): Readonly<Node>[] {
+    return this.getNodes(this.adjacent(nodeId, 'incoming'));
+  }
+
+  /**
+   * Gets the direct targets of a node's outgoing connections.
+   */
+  getSuccessors(nodeId: NodeId): Readonly<Node>[] {
+    return this.getNodes(this.adjacent(nodeId, 'outgoing'));
+  }
+
+  /**
+   * Gets every node from which the node can be reached (the node itself only if it lies on a cycle).
+   */
+  getAncestors(nodeId: NodeId): Readonly<Node>[] {
+    return this.getNodes(this.reachable(nodeId, 'incoming'));
+  }
+
+  /**
+   * Gets every node reachable from the node (the node itself only if it lies on a cycle).
+   */
+  getDescendants(nodeId: NodeId): Readonly<Node>[] {
+    return this.getNodes(this.reachable(nodeId, 'outgoing'));
+  }
+
+  /**
+   * Finds the shortest directed path (fewest connections) between two nodes.
+   *
+   * @param fromId - Start node
+   * @param toId - End node
+   * @returns Nodes and connections along the path, in path order, or null if unreachable
+   */
+  getShortestPath(fromId: NodeId, toId: NodeId): GraphSubset | null {
+    if (!this.store.getNode(fromId) || !this.store.getNode(toId)) {
+      return null;
+    }
+
+    // Breadth-first search, remembering the connection each node was reached by
+    const via = new Map<NodeId, Readonly<Connection> | null>([[fromId, null]]);
+    const queue: NodeId[] = [fromId];
+
+    while (queue.length > 0 && !via.has(toId)) {
+      const current = queue.shift()!;
+      this.getLinks(current, 'outgoing').forEach(link => {
+        const next = this.store.getNodeIdForHandler(link.targetHandlerId)!;
+        if (!via.has(next)) {
+          via.set(next, link);
+          queue.push(next);
+        }
+      });
+    }
+
+    if (!via.has(toId)) {
+      return null;
+    }
+
+    const nodeIds: NodeId[] = [toId];
+    const connections: Readonly<Connection>[] = [];
+    let link = via.get(toId);
+    while (link) {
+      connections.unshift(link);
+      const previous = this.store.getNodeIdForHandler(link.sourceHandlerId)!;
+      nodeIds.unshift(previous);
+      link = via.get(previous);
+    }
+
+    return { nodes: this.getNodes(nodeIds), connections };
+  }
+
+  /**
+   * Groups nodes into weakly connected components (connection direction ignored).
+   *
+   * @returns One node list per component
+   */
+  getConnectedComponents(): Readonly<Node>[][] {
+    const index = this.buildIndex();
+    const visited = new Set<NodeId>();
+    const components: Readonly<Node>[][] = [];
+
+    index.nodes.forEach((_node, startId) => {
+      if (visited.has(startId)) return;
+
+      const component = new Set<NodeId>([startId]);
+      const stack: NodeId[] = [startId];
+      visited.add(startId);
+
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        [...this.neighbors(index, current, 'outgoing'), ...this.neighbors(index, current, 'incoming')]
+          .forEach(next => {
+            if (!visited.has(next)) {
+              visited.add(next);
+              component.add(next);
+              stack.push(next);
+            }
+          });
+      }
+
+      components.push(this.toNodes(index, Array.from(component)));
+    });
+
+    return components;
+  }
+
+  /**
+   * Finds the cycles of the graph as strongly connected components
+   * (Tarjan's algorithm). Each entry holds the nodes of one cyclic group;
+   * a node connected to itself forms a group on its own.
+   *
+   * The search keeps its own stack of nodes being explored, so long chains
+   * cannot overflow the call stack; successors come from the store's link cache.
+   *
+   * @returns One node list per cyclic group (empty when the graph is acyclic)
+   */
+  getCycles(): Readonly<Node>[][] {
+    const nodes = new Map(this.store.getAllNodes().map(node => [node.id, node]));
+    const order = new Map<NodeId, number>();
+    const lowLink = new Map<NodeId, number>();
+    const onStack = new Set<NodeId>();
+    const stack: NodeId[] = [];
+    // Nodes being explored, each with its successors and the next one to look at
+    const frames: { nodeId: NodeId; successors: NodeId[]; next: number }[] = [];
+    const cycles: Readonly<Node>[][] = [];
+    let counter = 0;
+
+    const open = (nodeId: NodeId): void => {
+      order.set(nodeId, counter);
+      lowLink.set(nodeId, counter);
+      counter++;
+      stack.push(nodeId);
+      onStack.add(nodeId);
+      frames.push({ nodeId, successors: this.store.getSuccessorIds(nodeId).filter(id => nodes.has(id)), next: 0 });
+    };
+
+    nodes.forEach((_node, rootId) => {
+      if (order.has(rootId)) return;
+      open(rootId);
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+        const { nodeId } = frame;
+
+        if (frame.next < frame.successors.length) {
+          const next = frame.successors[frame.next++];
+          if (!order.has(next)) {
+            open(next);
+          } else if (onStack.has(next)) {
+            lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, order.get(next)!));
+          }
+          continue;
+        }
+
+        // Every successor explored: hand the low link back to the caller
+        frames.pop();
+        const caller = frames[frames.length - 1];
+        if (caller) {
+          lowLink.set(caller.nodeId, Math.min(lowLink.get(caller.nodeId)!, lowLink.get(nodeId)!));
+        }
+
+        if (lowLink.get(nodeId) !== order.get(nodeId)) continue;
+
+        const group: NodeId[] = [];
+        let member: NodeId;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          group.push(member);
+        } while (member !== nodeId);
+
+        if (group.length > 1 || frame.successors.includes(nodeId)) {
+          cycles.push(group.reverse().map(id => nodes.get(id)!));
+        }
+      }
+    });
+
+    return cycles;
+  }
+
+  /**
+   * Checks if the graph contains at least one cycle.
+   */
+  hasCycles(): boolean {
+    return this.getCycles().length > 0;
+  }
+
+  /**
+   * Gets nodes without incoming connections.
+   */
+  getRoots(): Readonly<Node>[] {
+    const index = this.buildIndex();
+    return Array.from(index.nodes.values()).filter(node => !index.incoming.has(node.id));
+  }
+
+  /**
+   * Gets nodes without outgoing connections.
+   */
+  getLeaves(): Readonly<Node>[] {
+    const index = this.buildIndex();
+    return Array.from(index.nodes.values()).filter(node => !index.outgoing.has(node.id));
+  }
+
+  /**
+   * Extracts the subgraph induced by a set of nodes.
+   *
+   * @param nodeIds - Nodes to include (unknown IDs are ignored)
+   * @returns The nodes and every connection between two of them
+   */
+  getSubgraph(nodeIds: ReadonlyArray<NodeId>): GraphSubset {
+    const index = this.buildIndex();
+    const included = new Set(nodeIds.filter(id => index.nodes.has(id)));
+
+    const connections: Readonly<Connection>[] = [];
+    included.forEach(nodeId => {
+      (index.outgoing.get(nodeId) || []).forEach(link => {
+        if (included.has(index.targetOf.get(link.id)!)) connections.push(link);
+      });
+    });
+
+    return {
+      nodes: Array.from(index.nodes.values()).filter(node => included.has(node.id)),
+      connections
+    };
+  }
+
+  // ========== HELPERS ==========
+
+  private buildIndex(): GraphIndex {
+    const index: GraphIndex = {
+      nodes: new Map(),
+      outgoing: new Map(),
+      incoming: new Map(),
+      sourceOf: new Map(),
+      targetOf: new Map()
+    };
+
+    this.store.getAllNodes().forEach(node => index.nodes.set(node.id, node));
+
+    this.store.getAllLinks().forEach(link => {
+      const sourceId = this.store.getNodeIdForHandler(link.sourceHandlerId);
+      const targetId = this.store.getNodeIdForHandler(link.targetHandlerId);
+      if (!sourceId || !targetId) return;
+
+      index.sourceOf.set(link.id, sourceId);
+      index.targetOf.set(link.id, targetId);
+      if (!index.outgoing.has(sourceId)) index.outgoing.set(sourceId, []);
+      if (!index.incoming.has(targetId)) index.incoming.set(targetId, []);
+      index.outgoing.get(sourceId)!.push(link);
+      index.incoming.get(targetId)!.push(link);
+    });
+
+    return index;
+  }
+
+  /**
+   * Distinct direct neighbors in one direction, in connection order.
+   */
+  private neighbors(index: GraphIndex, nodeId: NodeId, direction: 'incoming' | 'outgoing'): NodeId[] {
+    const ends = direction === 'outgoing' ? index.targetOf : index.sourceOf;
+    const ids = (index[direction].get(nodeId) || []).map(link => ends.get(link.id)!);
+    return Array.from(new Set(ids));
+  }
+
+  /**
+   * Connections of a node in one direction, read from the store's node-to-links cache.
+   * Like the index, connections with an unresolved end are ignored.
+   */
+  private getLinks(nodeId: NodeId, direction: 'incoming' | 'outgoing'): Readonly<Connection>[] {
+    return this.store.getLinksForNode(nodeId).filter(link => {
+      const sourceId = this.store.getNodeIdForHandler(link.sourceHandlerId);
+      const targetId = this.store.getNodeIdForHandler(link.targetHandlerId);
+      if (!sourceId || !targetId) return false;
+      return (direction === 'outgoing' ? sourceId : targetId) === nodeId;
+    });
+  }
+
+  /**
+   * Distinct direct neighbors in one direction, without building an index.
+   */
+  private adjacent(nodeId: NodeId, direction: 'incoming' | 'outgoing'): NodeId[] {
+    const ids = this.getLinks(nodeId, direction).map(link => this.store.getNodeIdForHandler(
+      direction === 'outgoing' ? link.targetHandlerId : link.sourceHandlerId
+    )!);
+    return Array.from(new Set(ids));
+  }
+
+  private reachable(startId: NodeId, direction: 'incoming' | 'outgoing'): NodeId[] {
+    const visited = new Set<NodeId>();
+    const queue: NodeId[] = [startId];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      this.adjacent(current, direction).forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      });
+    }
+
+    return Array.from(visited);
+  }
+
+  private getNodes(nodeIds: ReadonlyArray<NodeId>): Readonly<Node>[] {
+    return nodeIds
+      .map(id => this.store.getNode(id))
+      .filter((node): node is Readonly<Node> => !!node);
+  }
+
+  private toNodes(index: GraphIndex, nodeIds: ReadonlyArray<NodeId>): Readonly<Node>[] {
+    return nodeIds
+      .map(id => index.nodes.get(id))
+      .filter((node): node is Readonly<Node> => !!node);
+  }
+}
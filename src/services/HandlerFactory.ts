@@ -0,0 +1,298 @@
+/**
+ * Handler factory building node handlers from declarative plugin layouts.
+ * Replaces the hard-coded per-type layout table formerly kept in DiagramAPI.
+ */
+import { Registry } from '../core/Registry';
+import { Config } from '../core/Config';
+import {
+  NodeId,
+  HandlerId,
+  Direction,
+  Position,
+  Dimensions,
+  HandlerLayoutSpec,
+  NodePluginDefinition,
+  createHandlerId
+} from '../core/types';
+import { Handler, resolveHandlerFlow, getRoleForFlow } from '../domain/models/Handler';
+
+/**
+ * Layout used by node plugins that do not declare any handlers:
+ * one input on the left and one output on the right.
+ */
+const DEFAULT_LAYOUT: ReadonlyArray<HandlerLayoutSpec> = [
+  { type: 'input', side: Direction.LEFT, offset: { x: 0, y: 40 } },
+  { type: 'output', side: Direction.RIGHT, offset: { x: 160, y: 40 } }
+];
+
+/**
+ * Creates and regenerates handlers for nodes.
+ *
+ * Layouts are resolved from the node plugin, in order of precedence:
+ * `getHandlers(data)` (data-driven), then the `handlers` array (instance or static).
+ * Explicit offsets are given for a node of the shape template's size
+ * (Config.NODE_MIN_WIDTH × NODE_MIN_HEIGHT) and scaled to the actual node size.
+ *
+ * @example
+ * ```typescript
+ * // Plugin declaring its handlers
+ * class SwitchNode {
+ *   static type = 'switch';
+ *   static role = 'Logic';
+ *   getHandlers(data) {
+ *     const cases = (data.cases as string[]) || [];
+ *     return [
+ *       { type: 'input', side: 'left' },
+ *       ...cases.map(c => ({ type: 'output', side: 'right', key: `case_${c}`, label: c, maxConnections: 1 }))
+ *     ];
+ *   }
+ * }
+ *
+ * const handlers = factory.createHandlers(nodeId, 'switch', { cases: ['a', 'b'] }, { width: 200, height: 100 });
+ * ```
+ */
+export class HandlerFactory {
+  private registry: Registry;
+
+  /**
+   * Creates a new HandlerFactory instance.
+   *
+   * @param registry - Plugin registry providing node and handler definitions
+   */
+  constructor(registry: Registry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Creates the handlers of a new node.
+   *
+   * @param nodeId - Owning node ID (handler IDs are derived from it)
+   * @param nodeType - Node plugin type
+   * @param data - Node data (used by data-driven layouts)
+   * @param size - Node dimensions used to place handlers declared by side only
+   * @returns Handler instances
+   */
+  createHandlers(
+    nodeId: NodeId,
+    nodeType: string,
+    data: Record<string, unknown>,
+    size: Dimensions
+  ): Handler[] {
+    const handlers: Handler[] = [];
+
+    if (this.registry.getAllHandlerDefinitions().length === 0) {
+      console.warn('[HandlerFactory] No handler definitions registered');
+      return handlers;
+    }
+
+    const layout = this.getLayout(nodeType, data);
+    const offsets = this.resolveOffsets(layout, size);
+
+    layout.forEach((spec, index) => {
+      const handler = this.createHandler(this.getHandlerId(nodeId, spec, index), spec, offsets[index], size);
+      if (handler) handlers.push(handler);
+    });
+
+    return handlers;
+  }
+
+  /**
+   * Recomputes the handlers of an existing node (e.g. after its data changed).
+   * Keyed handlers are matched by key only, so the handler of a removed case is
+   * dropped (with its connections) instead of taking over another case's ID.
+   * Unkeyed handlers keep their IDs when their generated ID still exists, otherwise
+   * leftover unkeyed handlers of the same type are reused in order.
+   *
+   * @param nodeId - Node ID
+   * @param nodeType - Node plugin type
+   * @param data - Current node data
+   * @param size - Node dimensions
+   * @param current - Handlers currently on the node
+   * @returns New handler list
+   */
+  regenerateHandlers(
+    nodeId: NodeId,
+    nodeType: string,
+    data: Record<string, unknown>,
+    size: Dimensions,
+    current: ReadonlyArray<Readonly<Handler>>
+  ): Handler[] {
+    const layout = this.getLayout(nodeType, data);
+    const offsets = this.resolveOffsets(layout, size);
+    const candidateIds = layout.map((spec, index) => this.getHandlerId(nodeId, spec, index));
+
+    // Handlers matched by ID are kept as-is
+    const claimed = new Set<string>(candidateIds.filter(id => current.some(h => h.id === id)));
+    const leftovers = current.filter(h => !claimed.has(h.id) && this.isUnkeyedId(nodeId, h));
+
+    const handlers: Handler[] = [];
+    layout.forEach((spec, index) => {
+      let id = candidateIds[index];
+
+      if (!claimed.has(id) && !spec.key) {
+        // Reuse an unmatched unkeyed handler of the same type to keep its connections
+        const reuseIndex = leftovers.findIndex(h => h.type === spec.type);
+        if (reuseIndex !== -1) {
+          id = leftovers[reuseIndex].id;
+          leftovers.splice(reuseIndex, 1);
+        }
+      }
+
+      const handler = this.createHandler(id, spec, offsets[index], size);
+      if (handler) handlers.push(handler);
+    });
+
+    return handlers;
+  }
+
+  /**
+   * Checks if the node type computes its handlers from node data.
+   *
+   * @param nodeType - Node plugin type
+   * @returns True if handlers must be regenerated when data changes
+   */
+  isDataDriven(nodeType: string): boolean {
+    const definition = this.registry.getNodeDefinition(nodeType);
+    return !!definition && !!this.getLayoutProvider(definition);
+  }
+
+  /**
+   * Resolves the declared handler layout of a node type.
+   *
+   * @param nodeType - Node plugin type
+   * @param data - Node data
+   * @returns Handler specs (default input/output pair when nothing is declared)
+   */
+  getLayout(nodeType: string, data: Record<string, unknown>): ReadonlyArray<HandlerLayoutSpec> {
+    const definition = this.registry.getNodeDefinition(nodeType);
+    if (!definition) return DEFAULT_LAYOUT;
+
+    const provider = this.getLayoutProvider(definition);
+    if (provider) {
+      try {
+        return provider(data) || [];
+      } catch (error) {
+        console.error(`[HandlerFactory] getHandlers failed for node type "${nodeType}":`, error);
+        return [];
+      }
+    }
+
+    const ctor = (definition as any).constructor;
+    const declared = definition.handlers ?? ctor?.handlers;
+    return Array.isArray(declared) ? declared : DEFAULT_LAYOUT;
+  }
+
+  // ========== HELPERS ==========
+
+  private getLayoutProvider(
+    definition: NodePluginDefinition
+  ): ((data: Record<string, unknown>) => ReadonlyArray<HandlerLayoutSpec>) | null {
+    if (typeof definition.getHandlers === 'function') {
+      return (data) => definition.getHandlers!(data);
+    }
+
+    const ctor = (definition as any).constructor;
+    if (typeof ctor?.getHandlers === 'function') {
+      return (data) => ctor.getHandlers(data);
+    }
+
+    return null;
+  }
+
+  private createHandler(
+    id: HandlerId,
+    spec: HandlerLayoutSpec,
+    offset: Position,
+    size: Dimensions
+  ): Handler | null {
+    const handlerDef = this.registry.getHandlerDefinition(spec.type);
+
+    if (!handlerDef) {
+      console.warn(`[HandlerFactory] Handler type "${spec.type}" not registered, skipping`);
+      return null;
+    }
+
+    return new Handler(
+      id,
+      spec.type,
+      handlerDef,
+      offset,
+      spec.label || '',
+      getRoleForFlow(resolveHandlerFlow(handlerDef)),
+      spec.side ?? this.nearestSide(offset, size),
+      spec.maxConnections
+    );
+  }
+
+  private getHandlerId(nodeId: NodeId, spec: HandlerLayoutSpec, index: number): HandlerId {
+    return createHandlerId(
+      spec.key ? `${nodeId}_handler_${spec.key}` : `${nodeId}_handler_${spec.type}_${index}`
+    );
+  }
+
+  private isUnkeyedId(nodeId: NodeId, handler: Readonly<Handler>): boolean {
+    const prefix = `${nodeId}_handler_${handler.type}_`;
+    return handler.id.startsWith(prefix) && /^\d+$/.test(handler.id.slice(prefix.length));
+  }
+
+  /**
+   * Computes offsets for every spec.
+   * Explicit offsets are scaled from the template size; specs without one are
+   * spread evenly along their side.
+   */
+  private resolveOffsets(layout: ReadonlyArray<HandlerLayoutSpec>, size: Dimensions): Position[] {
+    const bySide = new Map<Direction, number[]>();
+
+    layout.forEach((spec, index) => {
+      if (spec.offset) return;
+      const side = spec.side ?? Direction.RIGHT;
+      if (!bySide.has(side)) bySide.set(side, []);
+      bySide.get(side)!.push(index);
+    });
+
+    const scaleX = size.width / Config.NODE_MIN_WIDTH;
+    const scaleY = size.height / Config.NODE_MIN_HEIGHT;
+    const offsets: Position[] = layout.map(spec => spec.offset
+      ? { x: spec.offset.x * scaleX, y: spec.offset.y * scaleY }
+      : { x: 0, y: 0 });
+
+    bySide.forEach((indices, side) => {
+      indices.forEach((specIndex, i) => {
+        const t = (i + 1) / (indices.length + 1);
+        offsets[specIndex] = this.pointOnSide(side, t, size);
+      });
+    });
+
+    return offsets;
+  }
+
+  /**
+   * Finds the node edge closest to an offset (offsets are relative to the top-left corner).
+   */
+  private nearestSide(offset: Position, size: Dimensions): Direction {
+    const distances: Array<[Direction, number]> = [
+      [Direction.LEFT, Math.abs(offset.x)],
+      [Direction.RIGHT, Math.abs(size.width - offset.x)],
+      [Direction.TOP, Math.abs(offset.y)],
+      [Direction.BOTTOM, Math.abs(size.height - offset.y)]
+    ];
+
+    return distances.reduce((best, current) => current[1] < best[1] ? current : best)[0];
+  }
+
+  private pointOnSide(side: Direction, t: number, size: Dimensions): Position {
+    switch (side) {
+      case Direction.LEFT:
+        return { x: 0, y: size.height * t };
+      case Direction.TOP:
+        return { x: size.width * t, y: 0 };
+      case Direction.BOTTOM:
+        return { x: size.width * t, y: size.height };
+      case Direction.OMNI:
+        return { x: size.width / 2, y: size.height / 2 };
+      case Direction.RIGHT:
+      default:
+        return { x: size.width, y: size.height * t };
+    }
+  }
+}
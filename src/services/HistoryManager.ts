@@ -3,7 +3,7 @@
  * Stores only changed properties instead of full state snapshots.
  */
 import { EventBus } from '../core/EventBus';
-import { SerializedState, NodeData, ConnectionData, Transform } from '../core/types';
+import { SerializedState, SerializedNote, NodeData, ConnectionData, Transform } from '../core/types';
 import { deepClone } from '../utils/DeepClone';
 
 /**
@@ -13,9 +13,19 @@ import { deepClone } from '../utils/DeepClone';
 interface StateDelta {
   nodes: Record<string, { old?: NodeData; new?: NodeData }>;
   connections: Record<string, { old?: ConnectionData; new?: ConnectionData }>;
+  notes: Record<string, { old?: SerializedNote; new?: SerializedNote }>;
   viewport?: { old?: Transform; new?: Transform };
 }
 
+/**
+ * Undo/redo stacks put aside while another document is edited (e.g. a sub-diagram).
+ */
+export interface HistorySnapshot {
+  readonly undoStack: ReadonlyArray<StateDelta>;
+  readonly redoStack: ReadonlyArray<StateDelta>;
+  readonly headState: SerializedState | null;
+}
+
 /**
  * Manages undo/redo history using forward/backward delta patches.
  * Implements stack-based history with configurable depth limit.
@@ -46,6 +56,11 @@ export class HistoryManager {
   private serialize: () => SerializedState;
   private deserialize: (data: SerializedState) => void;
   
+  // Batch (transaction) state: saves are deferred until the outermost batch ends
+  private batchDepth: number = 0;
+  private batchSnapshot: SerializedState | null = null;
+  private batchPending: boolean = false;
+  
   /**
    * Creates a new HistoryManager instance.
    * 
@@ -76,6 +91,11 @@ export class HistoryManager {
    * Clears redo stack (new mutations invalidate redo history).
    */
   save(): void {
+    if (this.batchDepth > 0) {
+      this.batchPending = true;
+      return;
+    }
+    
     try {
       const newState = this.serialize();
       
@@ -118,6 +138,11 @@ export class HistoryManager {
    * @returns True if undo was successful, false if stack is empty
    */
   undo(): boolean {
+    if (this.batchDepth > 0) {
+      console.warn('[HistoryManager] Cannot undo during a batch');
+      return false;
+    }
+    
     if (!this.canUndo()) {
       console.warn('[HistoryManager] Cannot undo: stack is empty');
       return false;
@@ -153,6 +178,11 @@ export class HistoryManager {
    * @returns True if redo was successful, false if stack is empty
    */
   redo(): boolean {
+    if (this.batchDepth > 0) {
+      console.warn('[HistoryManager] Cannot redo during a batch');
+      return false;
+    }
+    
     if (!this.canRedo()) {
       console.warn('[HistoryManager] Cannot redo: stack is empty');
       return false;
@@ -181,6 +211,67 @@ export class HistoryManager {
     }
   }
   
+  /**
+   * Starts a batch: subsequent saves are collected into a single history step.
+   * Batches can be nested; only the outermost one records the step.
+   */
+  beginBatch(): void {
+    if (this.batchDepth === 0) {
+      this.batchSnapshot = this.serialize();
+      this.batchPending = false;
+    }
+    
+    this.batchDepth++;
+  }
+  
+  /**
+   * Ends the current batch.
+   * When the outermost batch ends, one combined delta is pushed (if anything was saved).
+   */
+  commitBatch(): void {
+    if (this.batchDepth === 0) {
+      console.warn('[HistoryManager] No batch to commit');
+      return;
+    }
+    
+    this.batchDepth--;
+    if (this.batchDepth > 0) return;
+    
+    const pending = this.batchPending;
+    this.batchSnapshot = null;
+    this.batchPending = false;
+    
+    if (pending) {
+      this.save();
+    }
+  }
+  
+  /**
+   * Aborts all open batches and restores the state captured by the outermost one.
+   * Nothing is pushed to the undo stack.
+   */
+  rollbackBatch(): void {
+    if (this.batchDepth === 0) {
+      console.warn('[HistoryManager] No batch to roll back');
+      return;
+    }
+    
+    const snapshot = this.batchSnapshot!;
+    this.batchDepth = 0;
+    this.batchSnapshot = null;
+    this.batchPending = false;
+    
+    this.deserialize(snapshot);
+    console.log('[HistoryManager] Batch rolled back');
+  }
+  
+  /**
+   * Checks if a batch is open.
+   */
+  isBatching(): boolean {
+    return this.batchDepth > 0;
+  }
+  
   /**
    * Checks if undo is available.
    * 
@@ -211,6 +302,32 @@ export class HistoryManager {
     console.log('[HistoryManager] History cleared');
   }
   
+  /**
+   * Captures the undo/redo stacks so they can be restored later.
+   * 
+   * @returns Snapshot of the current history
+   */
+  snapshot(): HistorySnapshot {
+    return {
+      undoStack: [...this.undoStack],
+      redoStack: [...this.redoStack],
+      headState: this.headState ? deepClone(this.headState) : null
+    };
+  }
+  
+  /**
+   * Replaces the undo/redo stacks with a snapshot taken earlier.
+   * The restored head state must match the graph currently loaded.
+   * 
+   * @param snapshot - Snapshot from `snapshot()`
+   */
+  restore(snapshot: HistorySnapshot): void {
+    this.undoStack = [...snapshot.undoStack];
+    this.redoStack = [...snapshot.redoStack];
+    this.headState = snapshot.headState ? deepClone(snapshot.headState) : null;
+    this.emitHistoryStatus();
+  }
+  
   /**
    * Gets current history statistics.
    * 
@@ -235,7 +352,8 @@ export class HistoryManager {
   private diff(oldState: SerializedState, newState: SerializedState): StateDelta {
     const delta: StateDelta = {
       nodes: {},
-      connections: {}
+      connections: {},
+      notes: {}
     };
     
     // Diff nodes
@@ -286,6 +404,32 @@ export class HistoryManager {
       }
     });
     
+    // Diff notes
+    const oldNotes = oldState.notes || {};
+    const newNotes = newState.notes || {};
+    const allNoteIds = new Set([
+      ...Object.keys(oldNotes),
+      ...Object.keys(newNotes)
+    ]);
+    
+    allNoteIds.forEach(id => {
+      const oldNote = oldNotes[id];
+      const newNote = newNotes[id];
+      
+      if (!oldNote && newNote) {
+        // Note added
+        delta.notes[id] = { new: newNote };
+      } else if (oldNote && !newNote) {
+        // Note removed
+        delta.notes[id] = { old: oldNote };
+      } else if (oldNote && newNote) {
+        // Note potentially modified
+        if (JSON.stringify(oldNote) !== JSON.stringify(newNote)) {
+          delta.notes[id] = { old: oldNote, new: newNote };
+        }
+      }
+    });
+    
     // Diff viewport
     if (JSON.stringify(oldState.metadata.viewport) !== JSON.stringify(newState.metadata.viewport)) {
       delta.viewport = {
@@ -329,6 +473,18 @@ export class HistoryManager {
       }
     });
     
+    // Apply note changes (forward)
+    Object.entries(delta.notes).forEach(([id, change]) => {
+      newState.notes = newState.notes || {};
+      if (change.new) {
+        // Add or update note
+        newState.notes[id] = change.new;
+      } else if (change.old && !change.new) {
+        // Remove note
+        delete newState.notes[id];
+      }
+    });
+    
     // Apply viewport change (forward)
     if (delta.viewport?.new) {
       newState.metadata.viewport = delta.viewport.new;
@@ -369,6 +525,18 @@ export class HistoryManager {
       }
     });
     
+    // Apply inverse note changes
+    Object.entries(delta.notes).forEach(([id, change]) => {
+      newState.notes = newState.notes || {};
+      if (change.old) {
+        // Restore old note
+        newState.notes[id] = change.old;
+      } else if (!change.old && change.new) {
+        // Remove added note
+        delete newState.notes[id];
+      }
+    });
+    
     // Apply inverse viewport change
     if (delta.viewport?.old) {
       newState.metadata.viewport = delta.viewport.old;
@@ -387,6 +555,7 @@ export class HistoryManager {
     return (
       Object.keys(delta.nodes).length === 0 &&
       Object.keys(delta.connections).length === 0 &&
+      Object.keys(delta.notes).length === 0 &&
       !delta.viewport
     );
   }
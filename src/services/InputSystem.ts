@@ -9,7 +9,11 @@ import { EventBus } from '../core/EventBus';
 import { SelectionManager } from '../core/SelectionManager';
 import { RenderEngine } from '../rendering/RenderEngine';
 import { InlineEditor } from '../components/InlineEditor';
-import { Position, NodeId, HandlerId, ConnectionId, Transform, createHandlerId, createConnectionId } from '../core/types';
+import { ContextMenu } from '../components/ContextMenu';
+import { NODE_TYPE_DRAG_FORMAT } from '../components/NodePalette';
+import { SnapService } from './SnapService';
+import { Keymap } from './Keymap';
+import { Position, Dimensions, NodeId, NoteId, HandlerId, ConnectionId, Transform, Selection, Rect, KeyAction } from '../core/types';
 import { CoordinateTransform } from '../utils/CoordinateTransform';
 import { Config } from '../core/Config';
 import { PathCalculator } from '../rendering/geometry/PathCalculator';
@@ -19,11 +23,22 @@ import { PathCalculator } from '../rendering/geometry/PathCalculator';
 abstract class InteractionState {
   constructor(protected context: InputSystem) {}
   
-  onMouseDown(event: MouseEvent): void {}
-  onMouseMove(event: MouseEvent): void {}
-  onMouseUp(event: MouseEvent): void {}
+  onPointerDown(event: PointerEvent): void {}
+  onPointerMove(event: PointerEvent): void {}
+  onPointerUp(event: PointerEvent): void {}
   onDoubleClick(event: MouseEvent): void {}
-  onKeyDown(event: KeyboardEvent): void {}
+  
+  onKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') this.cancel();
+  }
+  
+  /**
+   * Aborts the interaction (Escape, a second finger, a long press, pointercancel),
+   * undoing its effects.
+   */
+  cancel(): void {
+    this.context.setState(new IdleState(this.context));
+  }
   
   enter(): void {}
   exit(): void {}
@@ -32,92 +47,185 @@ abstract class InteractionState {
 // ========== IDLE STATE ==========
 
 class IdleState extends InteractionState {
-  onMouseDown(event: MouseEvent): void {
-    const target = event.target as SVGElement;
+  onPointerDown(event: PointerEvent): void {
+    const hit = this.context.renderEngine.hitTest({ x: event.clientX, y: event.clientY });
+    this.context.activeWaypoint = null;
     
-    const labelElement = target.closest('.connection-label') as SVGElement | null;
-    const nodeElement = target.closest('[data-node-id]') as SVGElement | null;
-    const handlerElement = target.closest('[data-handler-id]') as SVGElement | null;
-    const linkElement = target.closest('[data-connection-id]') as SVGElement | null;
+    if (hit?.type === 'group-toggle' && event.button === 0) {
+      event.stopPropagation();
+      event.preventDefault();
+      this.context.api.commands.toggleGroup(hit.nodeId);
+      return;
+    }
     
-    if (labelElement && event.button === 0) {
+    if (hit?.type === 'resize-handle' && event.button === 0) {
       event.stopPropagation();
       event.preventDefault();
-      
-      const connectionElement = labelElement.closest('[data-connection-id]') as SVGElement | null;
-      if (connectionElement) {
-        const connectionId = connectionElement.getAttribute('data-connection-id')!;
-        const mousePos = this.context.getMousePosition(event);
-        this.context.setState(new LabelDragState(
+      const node = this.context.store.getNode(hit.nodeId);
+      if (node) {
+        this.context.setState(new ResizeState(
           this.context,
-          createConnectionId(connectionId),
-          mousePos
+          node.id,
+          node.getDimensions(),
+          this.context.getPointerPosition(event)
         ));
       }
       return;
     }
     
-    if (handlerElement && event.button === 0) {
+    if (hit?.type === 'link-label' && event.button === 0) {
+      event.stopPropagation();
+      event.preventDefault();
+      const pointerPos = this.context.getPointerPosition(event);
+      this.context.setState(new LabelDragState(this.context, hit.linkId, pointerPos));
+      return;
+    }
+    
+    if (hit?.type === 'waypoint' && event.button === 0) {
+      event.stopPropagation();
+      event.preventDefault();
+      const pointerPos = this.context.getPointerPosition(event);
+      this.context.setState(new WaypointDragState(this.context, hit.linkId, hit.index, pointerPos));
+      return;
+    }
+    
+    if (hit?.type === 'handler' && event.button === 0) {
       event.stopPropagation();
       event.preventDefault();
-      const handlerId = handlerElement.getAttribute('data-handler-id')!;
-      this.context.setState(new ConnectionCreationState(this.context, createHandlerId(handlerId)));
+      this.context.setState(new ConnectionCreationState(this.context, hit.handlerId));
       return;
     }
     
-    if (nodeElement && event.button === 0) {
+    if (hit?.type === 'node' && event.button === 0) {
       event.stopPropagation();
       event.preventDefault();
-      const nodeId = nodeElement.getAttribute('data-node-id')!;
-      const node = this.context.store.getNode(nodeId as NodeId);
+      const nodeId = hit.nodeId;
+      const node = this.context.store.getNode(nodeId);
       if (!node) return;
       
-      const mousePos = this.context.getMousePosition(event);
-      this.context.selectionManager.selectNode(nodeId as NodeId);
+      const selectionManager = this.context.selectionManager;
+      
+      if (this.isToggleModifier(event)) {
+        selectionManager.toggle('node', nodeId);
+        // Shift/ctrl-click that deselects the node does not start a drag
+        if (!selectionManager.isSelected('node', nodeId)) return;
+      } else if (!selectionManager.isSelected('node', nodeId)) {
+        selectionManager.selectNode(nodeId);
+      }
+      
+      // Drag the whole selection (nodes and notes) together
+      const pointerPos = this.context.getPointerPosition(event);
       this.context.setState(new NodeDragState(
         this.context,
-        nodeId as NodeId,
-        { ...node.position },
-        mousePos
+        this.context.getSelectedPositions(),
+        pointerPos
       ));
       return;
     }
     
-    if (linkElement && event.button === 0) {
+    if (hit?.type === 'link' && event.button === 0) {
       event.stopPropagation();
-      const linkId = linkElement.getAttribute('data-connection-id')!;
-      this.context.selectionManager.selectLink(linkId as any);
+      const linkId = hit.linkId;
+      
+      if (this.isToggleModifier(event)) {
+        this.context.selectionManager.toggle('link', linkId);
+      } else {
+        this.context.selectionManager.selectLink(linkId);
+      }
+      return;
+    }
+    
+    if (event.button === 0 && event.shiftKey) {
+      // Shift-drag on empty canvas starts a rubber-band selection (Ctrl/Cmd adds to it)
+      event.stopPropagation();
+      event.preventDefault();
+      const pointerPos = this.context.getPointerPosition(event);
+      this.context.setState(new MarqueeSelectionState(
+        this.context,
+        pointerPos,
+        event.ctrlKey || event.metaKey
+      ));
+      return;
+    }
+    
+    if (event.pointerType === 'touch') {
+      // Touch pans the canvas itself (d3 zoom only handles the mouse); a tap clears the selection
+      this.context.setState(new PanState(this.context, event));
       return;
     }
     
     this.context.selectionManager.clearSelection();
   }
   
+  cancel(): void {}
+  
+  private isToggleModifier(event: MouseEvent): boolean {
+    return event.shiftKey || event.ctrlKey || event.metaKey;
+  }
+  
   onDoubleClick(event: MouseEvent): void {
-    const target = event.target as SVGElement;
-    const nodeElement = target.closest('[data-node-id]') as SVGElement | null;
+    const hit = this.context.renderEngine.hitTest({ x: event.clientX, y: event.clientY });
     
-    if (nodeElement) {
+    // Double-clicking a connection adds a bend point there; double-clicking one removes it
+    if (hit?.type === 'link') {
       event.stopPropagation();
       event.preventDefault();
-      const nodeId = nodeElement.getAttribute('data-node-id')!;
-      this.context.startNodeLabelEdit(nodeId as NodeId, event);
+      this.context.addWaypoint(hit.linkId, this.context.getPointerPosition(event));
+      return;
+    }
+    
+    if (hit?.type === 'waypoint') {
+      event.stopPropagation();
+      event.preventDefault();
+      this.context.removeWaypoint(hit.linkId, hit.index);
+      return;
+    }
+    
+    if (hit && 'nodeId' in hit) {
+      event.stopPropagation();
+      event.preventDefault();
+      const nodeId = hit.nodeId;
+      
+      // Sub-diagram nodes open their graph instead of the label editor
+      const data = this.context.store.getNode(nodeId)?.data;
+      if (data && (data.diagram || data.diagramId)) {
+        this.context.api.commands.enterSubDiagram(nodeId).catch((error: unknown) => {
+          console.warn('[InputSystem] Cannot open sub-diagram:', error);
+        });
+        return;
+      }
+      
+      this.context.startNodeLabelEdit(nodeId);
     }
   }
 }
 
 // ========== NODE DRAG STATE ==========
 
+interface DragItem {
+  type: 'node' | 'note';
+  id: string;
+  initialPosition: Position;
+}
+
 class NodeDragState extends InteractionState {
   private hasMoved = false;
+  // Bounds of the dragged items at drag start, snapped as a whole
+  private bounds: Rect | null;
+  private nodeIds: Set<NodeId>;
+  // Waypoints at drag start of the connections between dragged nodes
+  private waypoints: Map<ConnectionId, Position[]>;
   
   constructor(
     context: InputSystem,
-    private nodeId: NodeId,
-    private initialPosition: Position,
-    private startMouse: Position
+    private items: DragItem[],
+    private startPointer: Position
   ) {
     super(context);
+    
+    this.nodeIds = new Set(items.filter(item => item.type === 'node').map(item => item.id as NodeId));
+    this.bounds = this.getInitialBounds();
+    this.waypoints = context.getCarriedWaypoints(items);
   }
   
   enter(): void {
@@ -127,6 +235,7 @@ class NodeDragState extends InteractionState {
   
   exit(): void {
     this.context.setZoomEnabled(true);
+    this.context.renderEngine.clearAlignmentGuides();
     document.body.style.cursor = '';
     
     if (this.hasMoved) {
@@ -134,46 +243,232 @@ class NodeDragState extends InteractionState {
     }
   }
   
-  onMouseMove(event: MouseEvent): void {
+  onPointerMove(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
-    const currentMouse = this.context.getMousePosition(event);
+    const currentPointer = this.context.getPointerPosition(event);
     
-    const dx = currentMouse.x - this.startMouse.x;
-    const dy = currentMouse.y - this.startMouse.y;
+    let dx = currentPointer.x - this.startPointer.x;
+    let dy = currentPointer.y - this.startPointer.y;
     
-    const newPosition = {
-      x: this.initialPosition.x + dx,
-      y: this.initialPosition.y + dy
-    };
+    // A finger wobbles: taps and long presses must not move the node
+    const scale = this.context.store.getTransform().k;
+    if (!this.hasMoved && event.pointerType === 'touch' && Math.hypot(dx, dy) * scale <= Config.TOUCH_SLOP) return;
+    
+    // Alt suspends snapping for as long as it is held
+    const snapService = this.context.snapService;
+    if (this.bounds && snapService.isEnabled() && !event.altKey) {
+      const { position, guides } = snapService.snap(
+        { ...this.bounds, x: this.bounds.x + dx, y: this.bounds.y + dy },
+        this.nodeIds,
+        this.context.store.getTransform().k
+      );
+      dx = position.x - this.bounds.x;
+      dy = position.y - this.bounds.y;
+      this.context.renderEngine.showAlignmentGuides(guides);
+    } else {
+      this.context.renderEngine.clearAlignmentGuides();
+    }
     
-    this.context.store.moveNode(this.nodeId, newPosition);
+    this.moveItems(dx, dy);
     this.hasMoved = true;
-    this.context.renderEngine.updateLinksOnly(this.nodeId);
+    
+    const nodeItems = this.items.filter(item => item.type === 'node');
+    // Groups move their children and resize their parents: redraw everything
+    const isGrouped = nodeItems.length === 1 && (
+      !!this.context.store.getNode(nodeItems[0].id as NodeId)?.parentId ||
+      this.context.store.getChildNodeIds(nodeItems[0].id as NodeId).length > 0
+    );
+    if (nodeItems.length === 1 && !isGrouped) {
+      this.context.renderEngine.updateLinksOnly(nodeItems[0].id as NodeId);
+    } else if (nodeItems.length > 1) {
+      this.context.renderEngine.updateLinksOnly();
+    }
   }
   
-  onMouseUp(event: MouseEvent): void {
+  onPointerUp(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
-    if (this.hasMoved) {
-      const node = this.context.store.getNode(this.nodeId);
-      if (node) {
-        const snapped = CoordinateTransform.snapToGrid(node.position);
-        this.context.store.moveNode(this.nodeId, snapped);
+    this.context.setState(new IdleState(this.context));
+  }
+  
+  cancel(): void {
+    this.moveItems(0, 0);
+    this.hasMoved = false;
+    this.context.setState(new IdleState(this.context));
+  }
+  
+  /**
+   * Moves the dragged items by an offset from where they started.
+   */
+  private moveItems(dx: number, dy: number): void {
+    this.items.forEach(item => {
+      const position = { x: item.initialPosition.x + dx, y: item.initialPosition.y + dy };
+      if (item.type === 'node') {
+        this.context.store.moveNode(item.id as NodeId, position);
+      } else {
+        this.context.store.updateNote(item.id as NoteId, { position });
       }
+    });
+    this.context.moveWaypoints(this.waypoints, dx, dy);
+  }
+  
+  /**
+   * Bounding box of the dragged nodes; the first note's corner if only notes are dragged.
+   */
+  private getInitialBounds(): Rect | null {
+    const nodes = [...this.nodeIds]
+      .map(id => this.context.store.getNode(id))
+      .filter((node): node is NonNullable<typeof node> => !!node);
+    
+    if (nodes.length === 0) {
+      const anchor = this.items[0];
+      return anchor ? { ...anchor.initialPosition, width: 0, height: 0 } : null;
+    }
+    
+    const minX = Math.min(...nodes.map(n => n.position.x));
+    const minY = Math.min(...nodes.map(n => n.position.y));
+    return {
+      x: minX,
+      y: minY,
+      width: Math.max(...nodes.map(n => n.position.x + n.width)) - minX,
+      height: Math.max(...nodes.map(n => n.position.y + n.height)) - minY
+    };
+  }
+}
+
+// ========== RESIZE STATE ==========
+
+class ResizeState extends InteractionState {
+  private hasMoved = false;
+  
+  constructor(
+    context: InputSystem,
+    private nodeId: NodeId,
+    private initialSize: Dimensions,
+    private startPointer: Position
+  ) {
+    super(context);
+  }
+  
+  enter(): void {
+    this.context.setZoomEnabled(false);
+    document.body.style.cursor = 'nwse-resize';
+  }
+  
+  exit(): void {
+    this.context.setZoomEnabled(true);
+    document.body.style.cursor = '';
+    
+    if (this.hasMoved) {
+      (this.context.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
+    }
+  }
+  
+  onPointerMove(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    const currentPointer = this.context.getPointerPosition(event);
+    this.resize({
+      width: this.initialSize.width + currentPointer.x - this.startPointer.x,
+      height: this.initialSize.height + currentPointer.y - this.startPointer.y
+    });
+    this.hasMoved = true;
+  }
+  
+  onPointerUp(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    // The bottom-right corner snaps to the grid, like dragged nodes (not while Alt is held)
+    const node = this.context.store.getNode(this.nodeId);
+    if (this.hasMoved && node && !event.altKey) {
+      const corner = this.context.snapService.snapPoint({
+        x: node.position.x + node.width,
+        y: node.position.y + node.height
+      });
+      this.resize({ width: corner.x - node.position.x, height: corner.y - node.position.y });
     }
     
     this.context.setState(new IdleState(this.context));
   }
   
-  onKeyDown(event: KeyboardEvent): void {
-    if (event.key === 'Escape') {
-      this.context.store.moveNode(this.nodeId, this.initialPosition);
-      this.hasMoved = false;
-      this.context.setState(new IdleState(this.context));
+  cancel(): void {
+    this.resize(this.initialSize);
+    this.hasMoved = false;
+    this.context.setState(new IdleState(this.context));
+  }
+  
+  private resize(size: Dimensions): void {
+    this.context.store.resizeNode(this.nodeId, {
+      width: Math.max(Config.NODE_MIN_WIDTH, Math.round(size.width)),
+      height: Math.max(Config.NODE_MIN_HEIGHT, Math.round(size.height))
+    });
+  }
+}
+
+// ========== MARQUEE SELECTION STATE ==========
+
+class MarqueeSelectionState extends InteractionState {
+  private currentPointer: Position;
+  
+  constructor(
+    context: InputSystem,
+    private startPointer: Position,
+    private additive: boolean
+  ) {
+    super(context);
+    this.currentPointer = startPointer;
+  }
+  
+  enter(): void {
+    this.context.setZoomEnabled(false);
+    document.body.style.cursor = 'crosshair';
+  }
+  
+  exit(): void {
+    this.context.setZoomEnabled(true);
+    document.body.style.cursor = '';
+    this.context.renderEngine.clearSelectionRect();
+  }
+  
+  onPointerMove(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    this.currentPointer = this.context.getPointerPosition(event);
+    this.context.renderEngine.showSelectionRect(this.getRect());
+  }
+  
+  onPointerUp(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    const rect = this.getRect();
+    
+    // A click without dragging behaves like a plain canvas click
+    if (rect.width < 3 && rect.height < 3) {
+      if (!this.additive) {
+        this.context.selectionManager.clearSelection();
+      }
+    } else {
+      this.context.selectionManager.selectMany(this.context.getItemsInRect(rect), this.additive);
     }
+    
+    this.context.setState(new IdleState(this.context));
+  }
+  
+  
+  private getRect(): Rect {
+    return {
+      x: Math.min(this.startPointer.x, this.currentPointer.x),
+      y: Math.min(this.startPointer.y, this.currentPointer.y),
+      width: Math.abs(this.currentPointer.x - this.startPointer.x),
+      height: Math.abs(this.currentPointer.y - this.startPointer.y)
+    };
   }
 }
 
@@ -186,7 +481,7 @@ class LabelDragState extends InteractionState {
   constructor(
     context: InputSystem,
     private connectionId: ConnectionId,
-    private startMouse: Position
+    private startPointer: Position
   ) {
     super(context);
     
@@ -208,35 +503,18 @@ class LabelDragState extends InteractionState {
     }
   }
   
-  onMouseMove(event: MouseEvent): void {
+  onPointerMove(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
-    const currentMouse = this.context.getMousePosition(event);
+    const currentPointer = this.context.getPointerPosition(event);
     const connection = this.context.store.getLink(this.connectionId);
     if (!connection) {
       this.context.setState(new IdleState(this.context));
       return;
     }
     
-    const nodes = this.context.store.getAllNodes();
-    const handlerPositions = new Map<string, Position>();
-    
-    nodes.forEach((node: any) => {
-      node.handlers.forEach((handler: any) => {
-        const pos = this.context.store.getHandlerAbsolutePosition(handler.id);
-        if (pos) {
-          handlerPositions.set(handler.id, pos);
-        }
-      });
-    });
-    
-    const t = PathCalculator.findClosestTOnPath(
-      connection as any,
-      currentMouse,
-      nodes as any,
-      handlerPositions
-    );
+    const t = PathCalculator.findClosestTOnPath(connection, currentPointer, this.context.store);
     
     if (connection.label) {
       this.context.api.commands.updateLink({
@@ -251,29 +529,101 @@ class LabelDragState extends InteractionState {
     }
   }
   
-  onMouseUp(event: MouseEvent): void {
+  onPointerUp(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
     this.context.setState(new IdleState(this.context));
   }
   
-  onKeyDown(event: KeyboardEvent): void {
-    if (event.key === 'Escape') {
-      const connection = this.context.store.getLink(this.connectionId);
-      if (connection && connection.label) {
-        this.context.api.commands.updateLink({
-          id: this.connectionId,
-          label: {
-            ...connection.label,
-            offset: this.initialOffset
-          }
-        });
-      }
-      
-      this.hasMoved = false;
-      this.context.setState(new IdleState(this.context));
+  cancel(): void {
+    const connection = this.context.store.getLink(this.connectionId);
+    if (connection && connection.label) {
+      this.context.api.commands.updateLink({
+        id: this.connectionId,
+        label: {
+          ...connection.label,
+          offset: this.initialOffset
+        }
+      });
     }
+    
+    this.hasMoved = false;
+    this.context.setState(new IdleState(this.context));
+  }
+}
+
+// ========== WAYPOINT DRAG STATE ==========
+
+class WaypointDragState extends InteractionState {
+  private initialWaypoints: Position[];
+  private hasMoved = false;
+  
+  constructor(
+    context: InputSystem,
+    private connectionId: ConnectionId,
+    private index: number,
+    private startPointer: Position
+  ) {
+    super(context);
+    
+    const connection = this.context.store.getLink(connectionId);
+    this.initialWaypoints = connection ? connection.waypoints.map(p => ({ ...p })) : [];
+  }
+  
+  enter(): void {
+    this.context.setZoomEnabled(false);
+    document.body.style.cursor = 'grabbing';
+  }
+  
+  exit(): void {
+    this.context.setZoomEnabled(true);
+    document.body.style.cursor = '';
+    
+    if (this.hasMoved) {
+      (this.context.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
+    }
+    
+    // Delete removes the waypoint last pressed instead of the connection; set after the
+    // history save above, which clears it
+    this.context.activeWaypoint = { linkId: this.connectionId, index: this.index };
+  }
+  
+  onPointerMove(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    const start = this.initialWaypoints[this.index];
+    if (!start) return;
+    
+    const currentPointer = this.context.getPointerPosition(event);
+    const dx = currentPointer.x - this.startPointer.x;
+    const dy = currentPointer.y - this.startPointer.y;
+    
+    // A finger wobbles: taps and double taps must not move the waypoint
+    const scale = this.context.store.getTransform().k;
+    if (!this.hasMoved && event.pointerType === 'touch' && Math.hypot(dx, dy) * scale <= Config.TOUCH_SLOP) return;
+    
+    this.context.store.updateLink(this.connectionId, {
+      waypoints: this.initialWaypoints.map((p, i) => i === this.index ? { x: start.x + dx, y: start.y + dy } : p)
+    });
+    this.hasMoved = true;
+  }
+  
+  onPointerUp(event: PointerEvent): void {
+    event.stopPropagation();
+    event.preventDefault();
+    
+    this.context.setState(new IdleState(this.context));
+  }
+  
+  cancel(): void {
+    if (this.hasMoved) {
+      this.context.store.updateLink(this.connectionId, { waypoints: this.initialWaypoints });
+    }
+    
+    this.hasMoved = false;
+    this.context.setState(new IdleState(this.context));
   }
 }
 
@@ -298,31 +648,39 @@ class ConnectionCreationState extends InteractionState {
     this.context.renderEngine.clearGhostConnection();
   }
   
-  onMouseMove(event: MouseEvent): void {
+  onPointerMove(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
     // FIXED: Pass graph coordinates to showGhostConnection
-    const mousePos = this.context.getMousePosition(event);
-    this.context.renderEngine.showGhostConnection(this.sourceHandlerId, mousePos);
+    const pointerPos = this.context.getPointerPosition(event);
+    const targetHandlerId = this.getHoveredHandlerId(event);
+    
+    if (targetHandlerId && targetHandlerId !== this.sourceHandlerId) {
+      // Same rules as createLink: green when the drop would succeed, red otherwise
+      const { valid } = this.context.api.queries.canConnect(this.sourceHandlerId, targetHandlerId);
+      this.context.renderEngine.showGhostConnection(this.sourceHandlerId, pointerPos, valid);
+      this.context.renderEngine.highlightConnectionTarget(targetHandlerId, valid);
+    } else {
+      this.context.renderEngine.showGhostConnection(this.sourceHandlerId, pointerPos);
+      this.context.renderEngine.highlightConnectionTarget(null);
+    }
   }
   
-  onMouseUp(event: MouseEvent): void {
+  onPointerUp(event: PointerEvent): void {
     event.stopPropagation();
     event.preventDefault();
     
-    const target = event.target as SVGElement;
-    const handlerElement = target.closest('[data-handler-id]') as SVGElement | null;
+    const targetHandlerId = this.getHoveredHandlerId(event);
     
-    if (handlerElement) {
-      const targetHandlerId = handlerElement.getAttribute('data-handler-id')!;
+    if (targetHandlerId && targetHandlerId !== this.sourceHandlerId) {
+      const validation = this.context.api.queries.canConnect(this.sourceHandlerId, targetHandlerId);
       
-      if (targetHandlerId !== this.sourceHandlerId) {
+      if (!validation.valid) {
+        console.warn('[InputSystem] Connection rejected:', validation.reason);
+      } else {
         try {
-          this.context.api.commands.createLink(
-            this.sourceHandlerId,
-            createHandlerId(targetHandlerId)
-          );
+          this.context.api.commands.createLink(this.sourceHandlerId, targetHandlerId);
           console.log('[InputSystem] Connection created:', this.sourceHandlerId, '->', targetHandlerId);
         } catch (error) {
           console.error('[InputSystem] Failed to create connection:', error);
@@ -333,26 +691,137 @@ class ConnectionCreationState extends InteractionState {
     this.context.setState(new IdleState(this.context));
   }
   
-  onKeyDown(event: KeyboardEvent): void {
-    if (event.key === 'Escape') {
-      this.context.setState(new IdleState(this.context));
+  private getHoveredHandlerId(event: PointerEvent): HandlerId | null {
+    // The event target stays the source handler while the pointer is captured
+    const hit = this.context.renderEngine.hitTest({ x: event.clientX, y: event.clientY });
+    return hit?.type === 'handler' ? hit.handlerId : null;
+  }
+  
+}
+
+// ========== TOUCH PAN STATE ==========
+
+class PanState extends InteractionState {
+  private start: Position;
+  private initialTransform: Transform;
+  private hasMoved = false;
+  
+  constructor(context: InputSystem, event: PointerEvent) {
+    super(context);
+    this.start = { x: event.clientX, y: event.clientY };
+    this.initialTransform = { ...context.store.getTransform() };
+  }
+  
+  onPointerMove(event: PointerEvent): void {
+    const dx = event.clientX - this.start.x;
+    const dy = event.clientY - this.start.y;
+    if (!this.hasMoved && Math.hypot(dx, dy) <= Config.TOUCH_SLOP) return;
+    
+    this.hasMoved = true;
+    this.context.applyTransform({
+      ...this.initialTransform,
+      x: this.initialTransform.x + dx,
+      y: this.initialTransform.y + dy
+    });
+  }
+  
+  onPointerUp(event: PointerEvent): void {
+    if (!this.hasMoved) {
+      this.context.selectionManager.clearSelection();
     }
+    this.context.setState(new IdleState(this.context));
+  }
+}
+
+// ========== PINCH ZOOM STATE ==========
+
+class PinchState extends InteractionState {
+  private initialTransform: Transform;
+  private initialDistance: number;
+  // Graph point under the fingers when the pinch started
+  private anchor: Position;
+  
+  constructor(context: InputSystem) {
+    super(context);
+    
+    const [a, b] = context.getTouchPoints();
+    this.initialTransform = { ...context.store.getTransform() };
+    this.initialDistance = Math.max(1, Math.hypot(b.x - a.x, b.y - a.y));
+    this.anchor = CoordinateTransform.screenToGraph((a.x + b.x) / 2, (a.y + b.y) / 2, this.initialTransform);
+  }
+  
+  onPointerMove(event: PointerEvent): void {
+    const [a, b] = this.context.getTouchPoints();
+    if (!a || !b) return;
+    
+    const scale = this.initialTransform.k * Math.hypot(b.x - a.x, b.y - a.y) / this.initialDistance;
+    const k = Math.min(Config.ZOOM_MAX, Math.max(Config.ZOOM_MIN, scale));
+    
+    // Keeping the anchor under the midpoint also pans with two fingers
+    this.context.applyTransform({
+      k,
+      x: (a.x + b.x) / 2 - this.anchor.x * k,
+      y: (a.y + b.y) / 2 - this.anchor.y * k
+    });
+  }
+  
+  onPointerUp(event: PointerEvent): void {
+    // Lifting either finger ends the pinch; the other one is ignored until lifted
+    this.context.setState(new IdleState(this.context));
   }
 }
 
 // ========== MAIN INPUT SYSTEM ==========
 
+// Arrow-key moves in nudge steps (grid steps for the *Grid actions)
+const NUDGE_ACTIONS: Partial<Record<KeyAction, Position & { grid: boolean }>> = {
+  nudgeLeft: { x: -1, y: 0, grid: false },
+  nudgeRight: { x: 1, y: 0, grid: false },
+  nudgeUp: { x: 0, y: -1, grid: false },
+  nudgeDown: { x: 0, y: 1, grid: false },
+  nudgeLeftGrid: { x: -1, y: 0, grid: true },
+  nudgeRightGrid: { x: 1, y: 0, grid: true },
+  nudgeUpGrid: { x: 0, y: -1, grid: true },
+  nudgeDownGrid: { x: 0, y: 1, grid: true }
+};
+
+// Shortcuts that also raise the browser's copy/cut/paste events, handled there
+const NATIVE_CLIPBOARD_SHORTCUTS: Partial<Record<KeyAction, string>> = {
+  copy: 'Mod+c',
+  cut: 'Mod+x',
+  paste: 'Mod+v'
+};
+
 export class InputSystem {
   private currentState: InteractionState;
   private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
   private zoom: d3.ZoomBehavior<SVGSVGElement, unknown>;
   private inlineEditor: InlineEditor;
+  private contextMenu: ContextMenu | null = null;
+  private keymap: Keymap;
+  
+  // Touch points on the canvas by pointer ID, in client coordinates
+  private touches = new Map<number, { start: Position; current: Position; gesture: boolean }>();
+  private longPress: { pointerId: number; timer: number; fired: boolean } | null = null;
+  private lastTap: { time: number; position: Position } | null = null;
+  private lastPointerType = 'mouse';
+  
+  // Waypoint last pressed, removed by the delete key while its connection is selected
+  activeWaypoint: { linkId: ConnectionId; index: number } | null = null;
+  
+  private unsubscribers: (() => void)[] = [];
+  
+  private onKeyDown = (e: KeyboardEvent) => this.handleKeyDown(e);
+  private onCopy = (e: ClipboardEvent) => this.handleClipboard(e, 'copy');
+  private onCut = (e: ClipboardEvent) => this.handleClipboard(e, 'cut');
+  private onPaste = (e: ClipboardEvent) => this.handlePaste(e);
   
   store: Store;
   registry: Registry;
   eventBus: EventBus;
   selectionManager: SelectionManager;
   renderEngine: RenderEngine;
+  snapService: SnapService;
   api: any;
   
   constructor(
@@ -362,6 +831,8 @@ export class InputSystem {
     eventBus: EventBus,
     selectionManager: SelectionManager,
     renderEngine: RenderEngine,
+    snapService: SnapService,
+    keymap: Keymap,
     api: any
   ) {
     this.svg = d3.select(svgElement);
@@ -370,6 +841,8 @@ export class InputSystem {
     this.eventBus = eventBus;
     this.selectionManager = selectionManager;
     this.renderEngine = renderEngine;
+    this.snapService = snapService;
+    this.keymap = keymap;
     this.api = api;
     
     this.currentState = new IdleState(this);
@@ -384,13 +857,14 @@ export class InputSystem {
     this.zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([Config.ZOOM_MIN, Config.ZOOM_MAX])
       .filter((event: any) => {
-        const target = event.target as SVGElement;
-        const isNode = target.closest('[data-node-id]');
-        const isHandler = target.closest('[data-handler-id]');
-        const isLink = target.closest('[data-connection-id]');
-        const isLabel = target.closest('.connection-label');
+        // Pointer down on a diagram item starts an interaction instead of a pan
+        const isItem = this.renderEngine.hitTest({ x: event.clientX, y: event.clientY }) !== null;
+        // Shift-drag on the canvas is reserved for rubber-band selection
+        const isMarquee = event.type === 'mousedown' && event.shiftKey;
+        // Touch gestures are handled with pointer events (PanState, PinchState)
+        const isTouch = event.type.startsWith('touch');
         
-        return !isNode && !isHandler && !isLink && !isLabel;
+        return !isItem && !isMarquee && !isTouch;
       })
       .on('zoom', (event: any) => {
         const transform: Transform = {
@@ -407,68 +881,535 @@ export class InputSystem {
   private attachEvents(): void {
     const svgNode = this.svg.node()!;
     
-    svgNode.addEventListener('mousedown', (e) => this.handleMouseDown(e), true);
-    svgNode.addEventListener('mousemove', (e) => this.handleMouseMove(e), true);
-    svgNode.addEventListener('mouseup', (e) => this.handleMouseUp(e), true);
+    svgNode.addEventListener('pointerdown', (e) => this.handlePointerDown(e), true);
+    svgNode.addEventListener('pointermove', (e) => this.handlePointerMove(e), true);
+    svgNode.addEventListener('pointerup', (e) => this.handlePointerUp(e), true);
+    svgNode.addEventListener('pointercancel', (e) => this.handlePointerCancel(e), true);
     svgNode.addEventListener('dblclick', (e) => this.handleDoubleClick(e), true);
     svgNode.addEventListener('contextmenu', (e) => this.handleContextMenu(e));
+    svgNode.addEventListener('dragover', (e) => this.handleDragOver(e));
+    svgNode.addEventListener('drop', (e) => this.handleDrop(e));
     
-    document.addEventListener('keydown', (e) => this.handleKeyDown(e));
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('copy', this.onCopy);
+    document.addEventListener('cut', this.onCut);
+    document.addEventListener('paste', this.onPaste);
+    
+    // The index goes stale once the selection moves on or undo/redo rewrites the waypoints
+    this.unsubscribers.push(
+      this.eventBus.on('SELECTION_CHANGED', () => { this.activeWaypoint = null; }),
+      this.eventBus.on('HISTORY_CHANGED', () => { this.activeWaypoint = null; })
+    );
   }
   
-  private handleMouseDown(event: MouseEvent): void {
+  private handlePointerDown(event: PointerEvent): void {
     if (this.inlineEditor.isActive()) return;
-    this.currentState.onMouseDown(event);
+    this.lastPointerType = event.pointerType;
+    // Interaction handlers prevent the default focus change; keep keyboard focus on the canvas
+    this.svg.node()!.focus({ preventScroll: true });
+    
+    if (event.pointerType === 'touch') {
+      // No emulated mouse events: touch is handled here, not by d3 zoom
+      event.preventDefault();
+      const point = { x: event.clientX, y: event.clientY };
+      this.touches.set(event.pointerId, { start: point, current: point, gesture: false });
+      this.cancelLongPress();
+      
+      if (this.touches.size > 1) {
+        // A second finger turns any touch interaction into a pinch
+        this.touches.forEach(touch => { touch.gesture = true; });
+        this.currentState.cancel();
+        if (this.touches.size === 2) this.setState(new PinchState(this));
+        return;
+      }
+      this.startLongPress(event);
+    }
+    
+    this.currentState.onPointerDown(event);
+    
+    // Keep receiving moves outside the canvas while dragging (touch is captured implicitly)
+    if (event.pointerType !== 'touch' && !(this.currentState instanceof IdleState)) {
+      this.svg.node()!.setPointerCapture(event.pointerId);
+    }
   }
   
-  private handleMouseMove(event: MouseEvent): void {
+  private handlePointerMove(event: PointerEvent): void {
     if (this.inlineEditor.isActive()) return;
-    this.currentState.onMouseMove(event);
+    
+    const touch = this.touches.get(event.pointerId);
+    if (touch) {
+      touch.current = { x: event.clientX, y: event.clientY };
+      if (this.hasMovedBeyondSlop(touch)) this.cancelLongPress();
+      // Fingers left over from a pinch do nothing until lifted
+      if (touch.gesture && !(this.currentState instanceof PinchState)) return;
+    }
+    
+    this.currentState.onPointerMove(event);
   }
   
-  private handleMouseUp(event: MouseEvent): void {
+  private handlePointerUp(event: PointerEvent): void {
     if (this.inlineEditor.isActive()) return;
-    this.currentState.onMouseUp(event);
+    
+    const touch = this.touches.get(event.pointerId);
+    this.touches.delete(event.pointerId);
+    
+    if (touch?.gesture) {
+      if (this.currentState instanceof PinchState) this.currentState.onPointerUp(event);
+      return;
+    }
+    
+    // A long press already opened the context menu
+    const longPressed = this.longPress?.pointerId === event.pointerId && this.longPress.fired;
+    this.cancelLongPress();
+    if (longPressed) return;
+    
+    this.currentState.onPointerUp(event);
+    
+    if (touch && !this.hasMovedBeyondSlop(touch)) {
+      this.detectDoubleTap(event);
+    }
+  }
+  
+  private handlePointerCancel(event: PointerEvent): void {
+    this.touches.delete(event.pointerId);
+    this.cancelLongPress();
+    this.currentState.cancel();
   }
   
   private handleDoubleClick(event: MouseEvent): void {
-    if (this.inlineEditor.isActive()) return;
+    // Double taps are detected on pointerup
+    if (this.inlineEditor.isActive() || this.lastPointerType === 'touch') return;
     this.currentState.onDoubleClick(event);
   }
   
   private handleContextMenu(event: MouseEvent): void {
     event.preventDefault();
+    // Touch opens the menu with its own long press
+    if (this.lastPointerType === 'touch') return;
+    this.showContextMenu({ x: event.clientX, y: event.clientY });
   }
   
-  private handleKeyDown(event: KeyboardEvent): void {
-    if (this.inlineEditor.isActive()) return;
+  /**
+   * Opens the context menu for the item at a client position.
+   */
+  private showContextMenu(client: Position): void {
+    if (!this.contextMenu || this.inlineEditor.isActive()) return;
     
-    if ((event.ctrlKey || event.metaKey) && event.key === 'z') {
-      event.preventDefault();
-      if (event.shiftKey) {
-        (this.eventBus as any).emit('HISTORY_REDO_REQUESTED');
+    const container = this.svg.node()!.parentElement!;
+    const rect = container.getBoundingClientRect();
+    const position = { x: client.x - rect.left, y: client.y - rect.top };
+    
+    const hit = this.renderEngine.hitTest(client);
+    
+    if (hit?.type === 'handler') {
+      this.contextMenu.show('handler', position, hit.handlerId);
+    } else if (hit && 'nodeId' in hit) {
+      this.contextMenu.show('node', position, hit.nodeId);
+    } else if (hit) {
+      this.contextMenu.show('link', position, hit.linkId);
+    } else {
+      this.contextMenu.show('canvas', position);
+    }
+  }
+  
+  // ========== TOUCH ==========
+  
+  /**
+   * Opens the context menu once a touch has been held still for Config.LONG_PRESS_DELAY.
+   */
+  private startLongPress(event: PointerEvent): void {
+    const client = { x: event.clientX, y: event.clientY };
+    const pointerId = event.pointerId;
+    
+    const timer = window.setTimeout(() => {
+      if (this.longPress?.pointerId !== pointerId) return;
+      this.longPress.fired = true;
+      this.currentState.cancel();
+      this.showContextMenu(client);
+    }, Config.LONG_PRESS_DELAY);
+    
+    this.longPress = { pointerId, timer, fired: false };
+  }
+  
+  private cancelLongPress(): void {
+    if (this.longPress) window.clearTimeout(this.longPress.timer);
+    this.longPress = null;
+  }
+  
+  /**
+   * Treats two taps in quick succession as a double-click: touch has no reliable dblclick.
+   */
+  private detectDoubleTap(event: PointerEvent): void {
+    const position = { x: event.clientX, y: event.clientY };
+    const last = this.lastTap;
+    
+    if (last &&
+        event.timeStamp - last.time <= Config.DOUBLE_TAP_DELAY &&
+        Math.hypot(position.x - last.position.x, position.y - last.position.y) <= Config.TOUCH_SLOP * 2) {
+      this.lastTap = null;
+      this.currentState.onDoubleClick(event);
+    } else {
+      this.lastTap = { time: event.timeStamp, position };
+    }
+  }
+  
+  private hasMovedBeyondSlop(touch: { start: Position; current: Position }): boolean {
+    return Math.hypot(touch.current.x - touch.start.x, touch.current.y - touch.start.y) > Config.TOUCH_SLOP;
+  }
+  
+  // ========== PALETTE DROP ==========
+  
+  private handleDragOver(event: DragEvent): void {
+    if (!event.dataTransfer?.types.includes(NODE_TYPE_DRAG_FORMAT)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  }
+  
+  private handleDrop(event: DragEvent): void {
+    const type = event.dataTransfer?.getData(NODE_TYPE_DRAG_FORMAT);
+    if (!type) return;
+    
+    event.preventDefault();
+    this.dropNode(type, { x: event.clientX, y: event.clientY });
+  }
+  
+  /**
+   * Handles native copy/cut on the focused canvas: copies the selection, which the
+   * clipboard service also puts on the system clipboard as JSON.
+   * Ignored while a text field has focus so regular text editing keeps working.
+   */
+  private handleClipboard(event: ClipboardEvent, action: 'copy' | 'cut'): void {
+    if (!this.isCanvasFocused() || this.inlineEditor.isActive() || this.isEditingText()) return;
+    
+    const { nodes, notes } = this.selectionManager.getSelectionState();
+    if (nodes.length === 0 && notes.length === 0) return;
+    
+    event.preventDefault();
+    
+    if (action === 'cut') {
+      this.api.commands.cutSelection();
+    } else {
+      this.api.commands.copySelection();
+    }
+  }
+  
+  /**
+   * Handles native paste on the focused canvas: accepts diagram JSON from the system
+   * clipboard, falling back to the internal buffer when the clipboard holds something else.
+   */
+  private handlePaste(event: ClipboardEvent): void {
+    if (!this.isCanvasFocused() || this.inlineEditor.isActive() || this.isEditingText()) return;
+    
+    event.preventDefault();
+    const text = event.clipboardData?.getData('text/plain');
+    
+    try {
+      if (text && text.trim().startsWith('{')) {
+        const internal = this.api.queries.getClipboard();
+        // Same content as the internal buffer: paste from the buffer to keep offsets cascading
+        if (internal && JSON.stringify(internal) === text) {
+          this.api.commands.paste();
+        } else {
+          this.api.commands.paste(text);
+        }
       } else {
-        (this.eventBus as any).emit('HISTORY_UNDO_REQUESTED');
+        this.api.commands.paste();
       }
+    } catch (error) {
+      console.warn('[InputSystem] Paste ignored:', error);
+    }
+  }
+  
+  /**
+   * Checks if focus is on this widget's canvas or an element inside it.
+   * Document-level listeners (shortcuts, clipboard) use it so several widgets on a
+   * page and the rest of the page keep their keys.
+   */
+  private isCanvasFocused(): boolean {
+    return this.svg.node()!.contains(document.activeElement);
+  }
+  
+  private isEditingText(): boolean {
+    const active = document.activeElement as HTMLElement | null;
+    if (!active) return false;
+    
+    return active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable;
+  }
+  
+  private handleKeyDown(event: KeyboardEvent): void {
+    if (this.inlineEditor.isActive() || this.isEditingText()) return;
+    
+    // Drags and other gestures in progress own the keyboard (Escape cancels them)
+    if (!(this.currentState instanceof IdleState)) {
+      this.currentState.onKeyDown(event);
       return;
     }
     
-    if (event.key === 'Delete' || event.key === 'Backspace') {
-      const selection = this.selectionManager.getSelection();
-      if (selection) {
-        event.preventDefault();
-        if (selection.type === 'node') {
-          this.store.removeNode(selection.id as NodeId);
-          (this.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
-        } else if (selection.type === 'link') {
-          this.store.removeLink(selection.id as any);
-          (this.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
+    const match = this.keymap.match(event);
+    if (!match || !this.isCanvasFocused()) return;
+    
+    if (this.runKeyAction(match.action, match.shortcut)) {
+      event.preventDefault();
+    }
+  }
+  
+  /**
+   * Runs a keymap action.
+   * 
+   * @returns True if the key was consumed and its default behavior must be prevented
+   */
+  private runKeyAction(action: KeyAction, shortcut: string): boolean {
+    const nudge = NUDGE_ACTIONS[action];
+    if (nudge) {
+      const step = nudge.grid ? Config.GRID_SIZE : Config.NUDGE_STEP;
+      return this.nudgeSelection(nudge.x * step, nudge.y * step);
+    }
+    
+    switch (action) {
+      case 'focusNext':
+        return this.focusAdjacentNode(1);
+      case 'focusPrevious':
+        return this.focusAdjacentNode(-1);
+      case 'followOutgoing':
+        this.followConnection('out');
+        return true;
+      case 'followIncoming':
+        this.followConnection('in');
+        return true;
+      case 'nextConnection':
+        this.cycleConnection(1);
+        return true;
+      case 'previousConnection':
+        this.cycleConnection(-1);
+        return true;
+      case 'editLabel': {
+        const primary = this.selectionManager.getSelection();
+        if (primary?.type !== 'node') return false;
+        this.startNodeLabelEdit(primary.id as NodeId);
+        return true;
+      }
+      case 'selectAll':
+        this.api.commands.selectAll();
+        return true;
+      case 'deselect':
+        if (!this.selectionManager.hasSelection()) return false;
+        this.selectionManager.clearSelection();
+        return true;
+      case 'delete':
+        if (this.activeWaypoint && this.selectionManager.isSelected('link', this.activeWaypoint.linkId)) {
+          this.removeWaypoint(this.activeWaypoint.linkId, this.activeWaypoint.index);
+          return true;
+        }
+        if (!this.selectionManager.hasSelection()) return false;
+        this.api.commands.deleteSelection();
+        return true;
+      case 'copy':
+      case 'cut':
+      case 'paste':
+        // The native clipboard events follow and also reach the system clipboard
+        if (NATIVE_CLIPBOARD_SHORTCUTS[action] === shortcut) return false;
+        this.runClipboardCommand(action);
+        return true;
+      case 'duplicate':
+        if (!this.selectionManager.hasSelection()) return false;
+        this.api.commands.duplicateSelection();
+        return true;
+      case 'undo':
+        (this.eventBus as any).emit('HISTORY_UNDO_REQUESTED');
+        return true;
+      case 'redo':
+        (this.eventBus as any).emit('HISTORY_REDO_REQUESTED');
+        return true;
+      case 'zoomIn':
+        this.api.commands.zoomIn();
+        this.syncZoom();
+        return true;
+      case 'zoomOut':
+        this.api.commands.zoomOut();
+        this.syncZoom();
+        return true;
+      case 'zoomReset':
+        this.api.commands.zoomReset();
+        this.syncZoom();
+        return true;
+      default:
+        return false;
+    }
+  }
+  
+  private runClipboardCommand(action: 'copy' | 'cut' | 'paste'): void {
+    try {
+      if (action === 'paste') {
+        this.api.commands.paste();
+      } else if (this.selectionManager.hasSelection()) {
+        if (action === 'cut') {
+          this.api.commands.cutSelection();
+        } else {
+          this.api.commands.copySelection();
         }
       }
+    } catch (error) {
+      console.warn(`[InputSystem] ${action} ignored:`, error);
+    }
+  }
+  
+  // ========== KEYBOARD NAVIGATION ==========
+  
+  /**
+   * Moves the selected nodes and notes by a graph-space offset as one undo step.
+   */
+  private nudgeSelection(dx: number, dy: number): boolean {
+    const items = this.getSelectedPositions();
+    if (items.length === 0) return false;
+    
+    this.moveWaypoints(this.getCarriedWaypoints(items), dx, dy);
+    items.forEach(item => {
+      const position = { x: item.initialPosition.x + dx, y: item.initialPosition.y + dy };
+      if (item.type === 'node') {
+        this.store.moveNode(item.id as NodeId, position);
+      } else {
+        this.store.updateNote(item.id as NoteId, { position });
+      }
+    });
+    
+    (this.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
+    return true;
+  }
+  
+  /**
+   * Selects the next or previous visible node in reading order (top to bottom, left to right).
+   * 
+   * @returns False when moving past either end, leaving Tab to the browser
+   */
+  private focusAdjacentNode(direction: 1 | -1): boolean {
+    const nodes = this.store.getAllNodes()
+      .filter(node => !this.store.isNodeHidden(node.id))
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+    if (nodes.length === 0) return false;
+    
+    const primary = this.selectionManager.getSelection();
+    const current = primary?.type === 'node' ? nodes.findIndex(n => n.id === primary.id) : -1;
+    const next = current === -1
+      ? (direction === 1 ? 0 : nodes.length - 1)
+      : current + direction;
+    
+    if (next < 0 || next >= nodes.length) {
+      this.selectionManager.clearSelection();
+      return false;
+    }
+    
+    this.focusNode(nodes[next].id);
+    return true;
+  }
+  
+  /**
+   * Walks along connections: from a node to its first outgoing (incoming) connection,
+   * from a connection to its target (source) node.
+   */
+  private followConnection(flow: 'in' | 'out'): void {
+    const primary = this.selectionManager.getSelection();
+    if (!primary) return;
+    
+    if (primary.type === 'node') {
+      const [first] = this.getConnections(primary.id as NodeId, flow);
+      if (first) this.focusLink(first.id);
+    } else if (primary.type === 'link') {
+      const link = this.store.getLink(primary.id as ConnectionId);
+      if (!link) return;
+      
+      const nodeId = this.store.getVisibleNodeIdForHandler(flow === 'out' ? link.targetHandlerId : link.sourceHandlerId);
+      if (nodeId) this.focusNode(nodeId);
+    }
+  }
+  
+  /**
+   * Moves from a connection to the next (previous) connection leaving the same node.
+   * A selected node starts at its first outgoing connection.
+   */
+  private cycleConnection(direction: 1 | -1): void {
+    const primary = this.selectionManager.getSelection();
+    if (primary?.type === 'node') {
+      this.followConnection('out');
       return;
     }
+    if (primary?.type !== 'link') return;
+    
+    const link = this.store.getLink(primary.id as ConnectionId);
+    const sourceId = link ? this.store.getVisibleNodeIdForHandler(link.sourceHandlerId) : null;
+    if (!sourceId) return;
     
-    this.currentState.onKeyDown(event);
+    const siblings = this.getConnections(sourceId, 'out');
+    const index = siblings.findIndex(l => l.id === primary.id);
+    const next = siblings[(index + direction + siblings.length) % siblings.length];
+    if (next) this.focusLink(next.id);
+  }
+  
+  /**
+   * Outgoing or incoming connections of a visible node, in handler order.
+   */
+  private getConnections(nodeId: NodeId, flow: 'in' | 'out'): Array<{ id: ConnectionId; handlerId: HandlerId }> {
+    const node = this.store.getNode(nodeId);
+    if (!node) return [];
+    
+    const handlerOrder = [...node.handlers, ...this.store.getProxyHandlers(nodeId)].map(h => h.id);
+    const order = (handlerId: HandlerId) => {
+      const index = handlerOrder.indexOf(handlerId);
+      return index === -1 ? handlerOrder.length : index;
+    };
+    
+    return this.store.getAllLinks()
+      .map(link => ({ id: link.id, handlerId: flow === 'out' ? link.sourceHandlerId : link.targetHandlerId }))
+      .filter(entry => this.store.getVisibleNodeIdForHandler(entry.handlerId) === nodeId)
+      .sort((a, b) => order(a.handlerId) - order(b.handlerId));
+  }
+  
+  private focusNode(nodeId: NodeId): void {
+    const node = this.store.getNode(nodeId);
+    if (!node) return;
+    
+    this.selectionManager.selectNode(nodeId);
+    this.scrollIntoView({ x: node.position.x, y: node.position.y, width: node.width, height: node.height });
+  }
+  
+  private focusLink(linkId: ConnectionId): void {
+    const link = this.store.getLink(linkId);
+    if (!link) return;
+    
+    this.selectionManager.selectLink(linkId);
+    const target = this.store.getHandlerAbsolutePosition(link.targetHandlerId);
+    if (target) this.scrollIntoView({ x: target.x, y: target.y, width: 0, height: 0 });
+  }
+  
+  /**
+   * Pans the viewport just enough to show a graph-space rectangle.
+   */
+  private scrollIntoView(rect: Rect): void {
+    const svgRect = this.svg.node()!.getBoundingClientRect();
+    const transform = this.store.getTransform();
+    const margin = Config.FOCUS_MARGIN;
+    
+    const topLeft = CoordinateTransform.graphToScreen(rect.x, rect.y, transform);
+    const bottomRight = CoordinateTransform.graphToScreen(rect.x + rect.width, rect.y + rect.height, transform);
+    
+    const shift = (start: number, end: number, size: number): number => {
+      if (start < margin) return margin - start;
+      if (end > size - margin) return Math.max(margin - start, size - margin - end);
+      return 0;
+    };
+    
+    const dx = shift(topLeft.x, bottomRight.x, svgRect.width);
+    const dy = shift(topLeft.y, bottomRight.y, svgRect.height);
+    if (dx === 0 && dy === 0) return;
+    
+    this.applyTransform({ ...transform, x: transform.x + dx, y: transform.y + dy });
+  }
+  
+  /**
+   * Applies the stored transform to the zoom behavior, so the next wheel or
+   * drag gesture continues from it instead of jumping back.
+   */
+  private syncZoom(): void {
+    this.applyTransform(this.store.getTransform());
   }
   
   setState(newState: InteractionState): void {
@@ -477,7 +1418,7 @@ export class InputSystem {
     this.currentState.enter();
   }
   
-  getMousePosition(event: MouseEvent): Position {
+  getPointerPosition(event: MouseEvent): Position {
     const transform = this.store.getTransform();
     const rect = this.svg.node()!.getBoundingClientRect();
     
@@ -487,6 +1428,174 @@ export class InputSystem {
     return CoordinateTransform.screenToGraph(screenX, screenY, transform);
   }
   
+  /**
+   * Captures the current positions of every selected node and note.
+   * Nodes inside a selected group are left out: the group moves them.
+   */
+  getSelectedPositions(): DragItem[] {
+    const items: DragItem[] = [];
+    const selectedNodeIds = this.selectionManager.getSelectedNodeIds();
+    const carried = new Set<string>();
+    selectedNodeIds.forEach(id => this.store.getDescendantIds(id).forEach(childId => carried.add(childId)));
+    
+    selectedNodeIds.forEach(id => {
+      if (carried.has(id)) return;
+      const node = this.store.getNode(id);
+      if (node) items.push({ type: 'node', id, initialPosition: { ...node.position } });
+    });
+    
+    this.selectionManager.getSelectedNoteIds().forEach(id => {
+      const note = this.store.getNote(id);
+      if (note) items.push({ type: 'note', id, initialPosition: { ...note.position } });
+    });
+    
+    return items;
+  }
+  
+  /**
+   * Waypoints of the connections whose both ends move with the given items
+   * (directly or inside a moved group), which move along with them.
+   */
+  getCarriedWaypoints(items: ReadonlyArray<DragItem>): Map<ConnectionId, Position[]> {
+    const movedIds = new Set<NodeId>();
+    items.filter(item => item.type === 'node').forEach(item => {
+      movedIds.add(item.id as NodeId);
+      this.store.getDescendantIds(item.id as NodeId).forEach(id => movedIds.add(id));
+    });
+    
+    const carried = new Map<ConnectionId, Position[]>();
+    movedIds.forEach(nodeId => {
+      this.store.getLinksForNode(nodeId).forEach(link => {
+        if (link.waypoints.length === 0 || carried.has(link.id)) return;
+        
+        const sourceId = this.store.getNodeIdForHandler(link.sourceHandlerId);
+        const targetId = this.store.getNodeIdForHandler(link.targetHandlerId);
+        if (sourceId && targetId && movedIds.has(sourceId) && movedIds.has(targetId)) {
+          carried.set(link.id, link.waypoints.map(p => ({ ...p })));
+        }
+      });
+    });
+    
+    return carried;
+  }
+  
+  /**
+   * Moves waypoints by an offset from the positions given (see getCarriedWaypoints).
+   */
+  moveWaypoints(waypoints: ReadonlyMap<ConnectionId, ReadonlyArray<Position>>, dx: number, dy: number): void {
+    waypoints.forEach((points, id) => {
+      this.store.updateLink(id, { waypoints: points.map(p => ({ x: p.x + dx, y: p.y + dy })) });
+    });
+  }
+  
+  /**
+   * Adds a waypoint to a connection, in the leg closest to the point.
+   */
+  addWaypoint(linkId: ConnectionId, point: Position): void {
+    const link = this.store.getLink(linkId);
+    if (!link) return;
+    
+    const waypoints = link.waypoints.map(p => ({ ...p }));
+    waypoints.splice(PathCalculator.findWaypointIndex(link, point, this.store), 0, point);
+    this.api.commands.updateLink({ id: linkId, waypoints });
+  }
+  
+  /**
+   * Removes a waypoint from a connection.
+   */
+  removeWaypoint(linkId: ConnectionId, index: number): void {
+    const link = this.store.getLink(linkId);
+    this.activeWaypoint = null;
+    if (!link || index >= link.waypoints.length) return;
+    
+    this.api.commands.updateLink({ id: linkId, waypoints: link.waypoints.filter((_, i) => i !== index) });
+  }
+  
+  /**
+   * Finds nodes and notes fully inside a graph-space rectangle,
+   * plus the links whose both endpoints belong to those nodes.
+   */
+  getItemsInRect(rect: Rect): Selection[] {
+    const contains = (x: number, y: number, width: number, height: number): boolean =>
+      x >= rect.x && y >= rect.y &&
+      x + width <= rect.x + rect.width &&
+      y + height <= rect.y + rect.height;
+    
+    const items: Selection[] = [];
+    const handlerIds = new Set<string>();
+    
+    this.store.getNodesInRect(rect).forEach(node => {
+      if (this.store.isNodeHidden(node.id)) return;
+      if (contains(node.position.x, node.position.y, node.width, node.height)) {
+        items.push({ type: 'node', id: node.id });
+        node.handlers.forEach(h => handlerIds.add(h.id));
+      }
+    });
+    
+    this.store.getLinksInRect(rect).forEach(link => {
+      if (handlerIds.has(link.sourceHandlerId) && handlerIds.has(link.targetHandlerId)) {
+        items.push({ type: 'link', id: link.id });
+      }
+    });
+    
+    this.store.getAllNotes().forEach(note => {
+      if (contains(note.position.x, note.position.y, note.dimensions.width, note.dimensions.height)) {
+        items.push({ type: 'note', id: note.id });
+      }
+    });
+    
+    return items;
+  }
+  
+  /**
+   * Active touch points relative to the canvas, in screen pixels.
+   */
+  getTouchPoints(): Position[] {
+    const rect = this.svg.node()!.getBoundingClientRect();
+    return [...this.touches.values()].map(touch => ({
+      x: touch.current.x - rect.left,
+      y: touch.current.y - rect.top
+    }));
+  }
+  
+  /**
+   * Sets the viewport transform through the zoom behavior, keeping both in sync.
+   */
+  applyTransform(transform: Transform): void {
+    this.svg.call(this.zoom.transform, d3.zoomIdentity.translate(transform.x, transform.y).scale(transform.k));
+  }
+  
+  /**
+   * Creates a node dropped from the palette, its top-left corner at the drop point.
+   * 
+   * @param type - Node type
+   * @param client - Drop point in client coordinates
+   * @returns False if the point is not over the canvas
+   */
+  dropNode(type: string, client: Position): boolean {
+    const svgNode = this.svg.node()!;
+    const target = document.elementFromPoint(client.x, client.y);
+    if (!target || !svgNode.contains(target)) return false;
+    
+    const rect = svgNode.getBoundingClientRect();
+    const point = CoordinateTransform.screenToGraph(client.x - rect.left, client.y - rect.top, this.store.getTransform());
+    const position = this.snapService.snapPoint(point);
+    
+    try {
+      this.api.commands.createNode({ type, x: position.x, y: position.y });
+    } catch (error) {
+      console.warn('[InputSystem] Drop ignored:', error);
+    }
+    return true;
+  }
+  
+  /**
+   * Attaches the context menu shown on right-click or long press.
+   */
+  setContextMenu(menu: ContextMenu): void {
+    this.contextMenu = menu;
+  }
+  
   setZoomEnabled(enabled: boolean): void {
     if (enabled) {
       this.svg.call(this.zoom);
@@ -495,7 +1604,7 @@ export class InputSystem {
     }
   }
   
-  startNodeLabelEdit(nodeId: NodeId, event: MouseEvent): void {
+  startNodeLabelEdit(nodeId: NodeId): void {
     const node = this.store.getNode(nodeId);
     if (!node) return;
     
@@ -517,14 +1626,27 @@ export class InputSystem {
       fontSize: node.style.fontSize || Config.DEFAULT_FONT_SIZE,
       fontFamily: Config.DEFAULT_FONT_FAMILY,
       onCommit: (value) => {
-        this.store.updateNode(nodeId, { label: value });
-        (this.eventBus as any).emit('HISTORY_SAVE_REQUESTED');
+        // Through the API so auto-sized nodes fit the new label
+        try {
+          this.api.commands.updateNode({ id: nodeId, label: value });
+        } catch (error) {
+          console.warn('[InputSystem] Label edit ignored:', error);
+        }
+        this.svg.node()!.focus({ preventScroll: true });
       },
-      onCancel: () => {}
+      onCancel: () => this.svg.node()!.focus({ preventScroll: true })
     });
   }
   
   destroy(): void {
+    this.cancelLongPress();
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('copy', this.onCopy);
+    document.removeEventListener('cut', this.onCut);
+    document.removeEventListener('paste', this.onPaste);
+    this.unsubscribers.forEach(unsub => unsub());
+    
+    this.contextMenu?.hide();
     this.inlineEditor.hide();
     this.svg.on('.zoom', null);
   }
@@ -0,0 +1,154 @@
+/**
+ * Keymap: resolves keyboard events to editor actions.
+ * Defaults can be overridden per action through WidgetConfig.keymap.
+ */
+import { KeyAction, KeyBindings } from '../core/types';
+
+// Parsed shortcut; `mod` is resolved to Cmd or Ctrl when matching
+interface KeyChord {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+interface Binding {
+  action: KeyAction;
+  shortcut: string;
+  chord: KeyChord;
+}
+
+/**
+ * Default shortcuts of every action.
+ */
+export const DEFAULT_KEY_BINDINGS: Readonly<Record<KeyAction, ReadonlyArray<string>>> = {
+  focusNext: ['Tab'],
+  focusPrevious: ['Shift+Tab'],
+  followOutgoing: ['Alt+ArrowRight'],
+  followIncoming: ['Alt+ArrowLeft'],
+  nextConnection: ['Alt+ArrowDown'],
+  previousConnection: ['Alt+ArrowUp'],
+  nudgeLeft: ['ArrowLeft'],
+  nudgeRight: ['ArrowRight'],
+  nudgeUp: ['ArrowUp'],
+  nudgeDown: ['ArrowDown'],
+  nudgeLeftGrid: ['Shift+ArrowLeft'],
+  nudgeRightGrid: ['Shift+ArrowRight'],
+  nudgeUpGrid: ['Shift+ArrowUp'],
+  nudgeDownGrid: ['Shift+ArrowDown'],
+  editLabel: ['Enter', 'F2'],
+  selectAll: ['Mod+a'],
+  deselect: ['Escape'],
+  delete: ['Delete', 'Backspace'],
+  copy: ['Mod+c'],
+  cut: ['Mod+x'],
+  paste: ['Mod+v'],
+  duplicate: ['Mod+d'],
+  undo: ['Mod+z'],
+  redo: ['Mod+Shift+z', 'Mod+y'],
+  zoomIn: ['+', '='],
+  zoomOut: ['-'],
+  zoomReset: ['0']
+};
+
+/**
+ * Matches keyboard events against the bound shortcuts.
+ *
+ * Shortcuts are modifiers (`Mod`, `Ctrl`, `Alt`, `Shift`, `Meta`) followed by a
+ * `KeyboardEvent.key` value, joined with `+`; keys are compared case-insensitively.
+ * Shift is ignored for symbol keys such as `+`, which need it on many layouts.
+ *
+ * @example
+ * ```typescript
+ * const keymap = new Keymap({ duplicate: 'Mod+Shift+d' });
+ * keymap.match(event); // { action: 'duplicate', shortcut: 'Mod+Shift+d' }
+ * ```
+ */
+export class Keymap {
+  private bindings: Binding[] = [];
+  private isMac: boolean;
+
+  /**
+   * Creates a new Keymap instance.
+   *
+   * @param overrides - Shortcuts replacing the defaults of their action
+   */
+  constructor(overrides: KeyBindings = {}) {
+    this.isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+    (Object.keys(DEFAULT_KEY_BINDINGS) as KeyAction[]).forEach(action => {
+      const override = overrides[action];
+      const shortcuts = override === undefined
+        ? DEFAULT_KEY_BINDINGS[action]
+        : typeof override === 'string' ? [override] : override;
+
+      shortcuts.forEach(shortcut => {
+        const chord = this.parse(shortcut);
+        if (chord) {
+          this.bindings.push({ action, shortcut, chord });
+        } else {
+          console.warn(`[Keymap] Invalid shortcut "${shortcut}" for action "${action}"`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Finds the action bound to a key event.
+   *
+   * @returns The action and the shortcut that matched, or null
+   */
+  match(event: KeyboardEvent): { action: KeyAction; shortcut: string } | null {
+    const binding = this.bindings.find(b => this.matches(b.chord, event));
+    return binding ? { action: binding.action, shortcut: binding.shortcut } : null;
+  }
+
+  /**
+   * Gets the shortcuts bound to every action.
+   */
+  getBindings(): Record<KeyAction, string[]> {
+    const result = {} as Record<KeyAction, string[]>;
+    (Object.keys(DEFAULT_KEY_BINDINGS) as KeyAction[]).forEach(action => { result[action] = []; });
+    this.bindings.forEach(b => result[b.action].push(b.shortcut));
+    return result;
+  }
+
+  // ========== HELPERS ==========
+
+  private parse(shortcut: string): KeyChord | null {
+    if (typeof shortcut !== 'string' || shortcut.length === 0) return null;
+
+    // A trailing "+" is the plus key itself ("+", "Shift++")
+    const parts = shortcut.endsWith('+')
+      ? [...shortcut.slice(0, -1).split('+').filter(Boolean), '+']
+      : shortcut.split('+');
+    const key = parts.pop()!;
+    const modifiers = parts.map(part => part.toLowerCase());
+
+    if (!key || modifiers.some(m => !['mod', 'ctrl', 'alt', 'shift', 'meta'].includes(m))) {
+      return null;
+    }
+
+    return {
+      key: key.toLowerCase(),
+      mod: modifiers.includes('mod'),
+      ctrl: modifiers.includes('ctrl'),
+      alt: modifiers.includes('alt'),
+      shift: modifiers.includes('shift'),
+      meta: modifiers.includes('meta')
+    };
+  }
+
+  private matches(chord: KeyChord, event: KeyboardEvent): boolean {
+    if (event.key.toLowerCase() !== chord.key) return false;
+
+    const ctrl = chord.ctrl || (chord.mod && !this.isMac);
+    const meta = chord.meta || (chord.mod && this.isMac);
+    if (event.ctrlKey !== ctrl || event.metaKey !== meta || event.altKey !== chord.alt) return false;
+
+    const isSymbol = chord.key.length === 1 && chord.key.toLowerCase() === chord.key.toUpperCase();
+    return isSymbol || event.shiftKey === chord.shift;
+  }
+}
@@ -0,0 +1,665 @@
+/**
+ * Automatic layout service: layered (Sugiyama) and tree layouts with animated moves.
+ * Works on top-level nodes; connections are resolved to nodes through their handlers.
+ */
+import * as d3 from 'd3';
+import { Store } from '../core/State';
+import { CoordinateTransform } from '../utils/CoordinateTransform';
+import {
+  NodeId,
+  HandlerId,
+  Position,
+  Dimensions,
+  Direction,
+  FlowType,
+  LayoutAlgorithm,
+  LayoutDirection,
+  LayoutSpacing,
+  NodeAlignment,
+  DistributeAxis
+} from '../core/types';
+import { Node } from '../domain/models/Node';
+
+/**
+ * Fully resolved layout options.
+ */
+export interface LayoutOptions {
+  algorithm: LayoutAlgorithm;
+  direction: LayoutDirection;
+  spacing: LayoutSpacing;
+}
+
+/**
+ * Node-level snapshot used by the layout algorithms.
+ * Only top-level nodes take part: a group is one block of its fitted size and
+ * connections of grouped nodes count for the top-level group holding them.
+ * Successors are ordered by the position of their source handler on the node,
+ * so e.g. a decision's "true" branch stays on the same side as its handler.
+ */
+interface LayoutGraph {
+  ids: NodeId[];
+  sizes: Map<NodeId, Dimensions>;
+  successors: Map<NodeId, NodeId[]>;
+  predecessors: Map<NodeId, NodeId[]>;
+}
+
+// Layer slot of a real node or of a dummy node on a long edge
+interface LayerItem {
+  id: string;
+  /** Extent across the flow (height for LR, width for TB) */
+  cross: number;
+  /** Extent along the flow */
+  main: number;
+}
+
+const BARYCENTER_SWEEPS = 8;
+const COORDINATE_PASSES = 6;
+
+/**
+ * Computes node positions and animates nodes towards them.
+ *
+ * The layered layout follows the Sugiyama scheme: cycles are broken, nodes are
+ * assigned to layers by longest path, long edges get dummy nodes, layers are
+ * ordered by barycenter sweeps and nodes are aligned with their neighbours.
+ * The tree layout places a spanning tree of the graph with Reingold-Tilford.
+ *
+ * The computed layout keeps the top-left corner of the current graph bounds.
+ * Groups are placed as a whole and carry their children along, so nodes keep
+ * their place inside their group and collapsed groups hide theirs.
+ *
+ * Alignment and distribution only move the given nodes; nodes inside a group
+ * that is moved as well are carried along with it.
+ *
+ * @example
+ * ```typescript
+ * const layout = new LayoutService(store);
+ * const direction = layout.inferDirection();
+ * const positions = layout.compute({ algorithm: 'layered', direction, spacing: { node: 40, layer: 80 } });
+ * await layout.animate(positions, 400);
+ * ```
+ */
+export class LayoutService {
+  private store: Store;
+  private frameId: number | null = null;
+  private finishAnimation: (() => void) | null = null;
+
+  /**
+   * Creates a new LayoutService instance.
+   *
+   * @param store - State store providing and receiving node positions
+   */
+  constructor(store: Store) {
+    this.store = store;
+  }
+
+  /**
+   * Infers the flow direction from the output handlers:
+   * top-to-bottom if most of them face down, left-to-right otherwise.
+   */
+  inferDirection(): LayoutDirection {
+    let horizontal = 0;
+    let vertical = 0;
+
+    this.store.getAllNodes().forEach(node => {
+      node.handlers
+        .filter(h => h.flow === FlowType.OUT)
+        .forEach(h => {
+          if (h.direction === Direction.BOTTOM || h.direction === Direction.TOP) vertical++;
+          if (h.direction === Direction.RIGHT || h.direction === Direction.LEFT) horizontal++;
+        });
+    });
+
+    return vertical > horizontal ? 'TB' : 'LR';
+  }
+
+  /**
+   * Computes the target position of every top-level node (groups included).
+   *
+   * @param options - Algorithm, direction and spacing
+   * @returns Top-left position per top-level node
+   */
+  compute(options: LayoutOptions): Map<NodeId, Position> {
+    const graph = this.buildGraph(options.direction);
+    if (graph.ids.length === 0) return new Map();
+
+    // Centers: main = along the flow, cross = across it
+    const centers = options.algorithm === 'tree'
+      ? this.computeTree(graph, options)
+      : this.computeLayered(graph, options);
+
+    return this.toPositions(graph, centers, options.direction);
+  }
+
+  /**
+   * Moves nodes to their targets, easing over `duration` milliseconds.
+   * A running animation is finished immediately before the new one starts.
+   *
+   * @param targets - Top-left position per node
+   * @param duration - Animation length (0 moves at once)
+   * @returns Resolves when every node reached its target
+   */
+  animate(targets: Map<NodeId, Position>, duration: number): Promise<void> {
+    this.finish();
+
+    const starts = new Map<NodeId, Position>();
+    targets.forEach((_, id) => {
+      const node = this.store.getNode(id);
+      if (node) starts.set(id, { ...node.position });
+    });
+
+    const reducedMotion = typeof window !== 'undefined' &&
+      window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+    if (duration <= 0 || reducedMotion) {
+      this.moveTo(starts, targets, 1);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>(resolve => {
+      const startTime = performance.now();
+
+      this.finishAnimation = () => {
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+        this.finishAnimation = null;
+        this.moveTo(starts, targets, 1);
+        resolve();
+      };
+
+      const step = (now: number) => {
+        const t = Math.min(1, (now - startTime) / duration);
+        if (t >= 1) {
+          this.finishAnimation?.();
+          return;
+        }
+        this.moveTo(starts, targets, d3.easeCubicInOut(t));
+        this.frameId = requestAnimationFrame(step);
+      };
+      this.frameId = requestAnimationFrame(step);
+    });
+  }
+
+  /**
+   * Jumps a running animation to its end.
+   */
+  finish(): void {
+    this.finishAnimation?.();
+  }
+
+  // ========== ALIGNMENT ==========
+
+  /**
+   * Computes positions lining nodes up on the outermost edge (or the common
+   * center) of their bounds.
+   *
+   * @param nodeIds - Nodes to align
+   * @param alignment - Edge or center line
+   * @returns Top-left position per moved node
+   */
+  computeAlignment(nodeIds: ReadonlyArray<NodeId>, alignment: NodeAlignment): Map<NodeId, Position> {
+    const nodes = this.getMovableNodes(nodeIds);
+    const positions = new Map<NodeId, Position>();
+    if (nodes.length < 2) return positions;
+
+    const left = Math.min(...nodes.map(n => n.position.x));
+    const right = Math.max(...nodes.map(n => n.position.x + n.width));
+    const top = Math.min(...nodes.map(n => n.position.y));
+    const bottom = Math.max(...nodes.map(n => n.position.y + n.height));
+
+    nodes.forEach(node => {
+      const { x, y } = node.position;
+      switch (alignment) {
+        case 'left': positions.set(node.id, { x: left, y }); break;
+        case 'right': positions.set(node.id, { x: right - node.width, y }); break;
+        case 'center': positions.set(node.id, { x: Math.round((left + right - node.width) / 2), y }); break;
+        case 'top': positions.set(node.id, { x, y: top }); break;
+        case 'bottom': positions.set(node.id, { x, y: bottom - node.height }); break;
+        case 'middle': positions.set(node.id, { x, y: Math.round((top + bottom - node.height) / 2) }); break;
+      }
+    });
+
+    return positions;
+  }
+
+  /**
+   * Computes positions spacing nodes with equal gaps along an axis.
+   * The first and last node (by position) stay where they are.
+   *
+   * @param nodeIds - Nodes to distribute
+   * @param axis - Horizontal (gaps between x extents) or vertical
+   * @returns Top-left position per moved node
+   */
+  computeDistribution(nodeIds: ReadonlyArray<NodeId>, axis: DistributeAxis): Map<NodeId, Position> {
+    const positions = new Map<NodeId, Position>();
+    const horizontal = axis === 'horizontal';
+    const start = (n: Node) => horizontal ? n.position.x : n.position.y;
+    const extent = (n: Node) => horizontal ? n.width : n.height;
+
+    const nodes = this.getMovableNodes(nodeIds).sort((a, b) => start(a) - start(b));
+    if (nodes.length < 3) return positions;
+
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    const span = start(last) + extent(last) - start(first);
+    const gap = (span - nodes.reduce((sum, n) => sum + extent(n), 0)) / (nodes.length - 1);
+
+    let cursor = start(first);
+    nodes.forEach(node => {
+      const value = Math.round(cursor);
+      positions.set(node.id, horizontal ? { x: value, y: node.position.y } : { x: node.position.x, y: value });
+      cursor += extent(node) + gap;
+    });
+
+    return positions;
+  }
+
+  // ========== LAYERED ==========
+
+  private computeLayered(graph: LayoutGraph, options: LayoutOptions): Map<string, Position> {
+    const acyclic = this.breakCycles(graph);
+    const layerOf = this.assignLayers(graph.ids, acyclic);
+    const { layers, neighbours } = this.buildLayers(graph, acyclic, layerOf, options.direction);
+
+    this.orderLayers(layers, neighbours);
+    const cross = this.assignCross(layers, neighbours, options.spacing.node);
+
+    const centers = new Map<string, Position>();
+    let layerStart = 0;
+    layers.forEach(layer => {
+      const depth = Math.max(...layer.map(item => item.main));
+      layer.forEach(item => {
+        centers.set(item.id, { x: layerStart + depth / 2, y: cross.get(item.id)! });
+      });
+      layerStart += depth + options.spacing.layer;
+    });
+
+    return centers;
+  }
+
+  /**
+   * Depth-first search from the roots; edges closing a cycle are reversed.
+   *
+   * @returns Acyclic successor lists
+   */
+  private breakCycles(graph: LayoutGraph): Map<NodeId, NodeId[]> {
+    const acyclic = new Map<NodeId, NodeId[]>(graph.ids.map(id => [id, []]));
+    const state = new Map<NodeId, 'active' | 'done'>();
+    // Depth-first search with an explicit stack: the active path and the next successor of each node on it
+    const path: { id: NodeId; next: number }[] = [];
+
+    const open = (id: NodeId) => {
+      state.set(id, 'active');
+      path.push({ id, next: 0 });
+    };
+
+    const roots = graph.ids.filter(id => graph.predecessors.get(id)!.length === 0);
+    [...roots, ...graph.ids].forEach(start => {
+      if (state.has(start)) return;
+      open(start);
+
+      while (path.length > 0) {
+        const frame = path[path.length - 1];
+        const successors = graph.successors.get(frame.id)!;
+        if (frame.next === successors.length) {
+          state.set(frame.id, 'done');
+          path.pop();
+          continue;
+        }
+
+        const next = successors[frame.next++];
+        if (state.get(next) === 'active') {
+          if (!acyclic.get(next)!.includes(frame.id)) acyclic.get(next)!.push(frame.id);
+          continue;
+        }
+        acyclic.get(frame.id)!.push(next);
+        if (!state.has(next)) open(next);
+      }
+    });
+
+    return acyclic;
+  }
+
+  /**
+   * Longest-path layering: each node sits one layer after its deepest predecessor.
+   */
+  private assignLayers(ids: NodeId[], acyclic: Map<NodeId, NodeId[]>): Map<NodeId, number> {
+    const inDegree = new Map<NodeId, number>(ids.map(id => [id, 0]));
+    acyclic.forEach(targets => targets.forEach(t => inDegree.set(t, inDegree.get(t)! + 1)));
+
+    const layerOf = new Map<NodeId, number>(ids.map(id => [id, 0]));
+    const queue = ids.filter(id => inDegree.get(id) === 0);
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      acyclic.get(id)!.forEach(next => {
+        layerOf.set(next, Math.max(layerOf.get(next)!, layerOf.get(id)! + 1));
+        const remaining = inDegree.get(next)! - 1;
+        inDegree.set(next, remaining);
+        if (remaining === 0) queue.push(next);
+      });
+    }
+
+    return layerOf;
+  }
+
+  /**
+   * Fills layers in depth-first order and splits edges spanning several layers
+   * with dummy items, so long edges take part in crossing reduction.
+   */
+  private buildLayers(
+    graph: LayoutGraph,
+    acyclic: Map<NodeId, NodeId[]>,
+    layerOf: Map<NodeId, number>,
+    direction: LayoutDirection
+  ): { layers: LayerItem[][]; neighbours: Map<string, { up: string[]; down: string[] }> } {
+    const layerCount = Math.max(...Array.from(layerOf.values())) + 1;
+    const layers: LayerItem[][] = Array.from({ length: layerCount }, () => []);
+    const neighbours = new Map<string, { up: string[]; down: string[] }>();
+    const link = (from: string, to: string) => {
+      neighbours.get(from)!.down.push(to);
+      neighbours.get(to)!.up.push(from);
+    };
+
+    // Depth-first placement keeps branches together before the first sweep;
+    // targets are stacked in reverse so the first one is placed first
+    const placed = new Set<NodeId>();
+    const place = (start: NodeId) => {
+      const pending = [start];
+
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (placed.has(id)) continue;
+        placed.add(id);
+
+        const size = graph.sizes.get(id)!;
+        layers[layerOf.get(id)!].push({
+          id,
+          cross: direction === 'LR' ? size.height : size.width,
+          main: direction === 'LR' ? size.width : size.height
+        });
+        neighbours.set(id, { up: [], down: [] });
+
+        const targets = acyclic.get(id)!;
+        for (let i = targets.length - 1; i >= 0; i--) {
+          pending.push(targets[i]);
+        }
+      }
+    };
+    graph.ids.filter(id => layerOf.get(id) === 0).forEach(place);
+    graph.ids.forEach(place);
+
+    let dummyCount = 0;
+    graph.ids.forEach(id => {
+      acyclic.get(id)!.forEach(target => {
+        let previous: string = id;
+        for (let layer = layerOf.get(id)! + 1; layer < layerOf.get(target)!; layer++) {
+          const dummy = `__layout_dummy_${dummyCount++}`;
+          layers[layer].push({ id: dummy, cross: 0, main: 0 });
+          neighbours.set(dummy, { up: [], down: [] });
+          link(previous, dummy);
+          previous = dummy;
+        }
+        link(previous, target);
+      });
+    });
+
+    return { layers, neighbours };
+  }
+
+  /**
+   * Crossing reduction: alternately sorts every layer by the mean index of its
+   * neighbours in the previous (downward sweep) or next (upward sweep) layer.
+   */
+  private orderLayers(layers: LayerItem[][], neighbours: Map<string, { up: string[]; down: string[] }>): void {
+    const indexOf = new Map<string, number>();
+    const reindex = (layer: LayerItem[]) => layer.forEach((item, index) => indexOf.set(item.id, index));
+    layers.forEach(reindex);
+
+    const sortLayer = (layer: LayerItem[], side: 'up' | 'down') => {
+      const barycenter = new Map<string, number>();
+      layer.forEach((item, index) => {
+        const adjacent = neighbours.get(item.id)![side];
+        barycenter.set(item.id, adjacent.length > 0
+          ? adjacent.reduce((sum, id) => sum + indexOf.get(id)!, 0) / adjacent.length
+          : index);
+      });
+      // Array.prototype.sort is stable: ties keep their current order
+      layer.sort((a, b) => barycenter.get(a.id)! - barycenter.get(b.id)!);
+      reindex(layer);
+    };
+
+    for (let sweep = 0; sweep < BARYCENTER_SWEEPS; sweep++) {
+      if (sweep % 2 === 0) {
+        for (let i = 1; i < layers.length; i++) sortLayer(layers[i], 'up');
+      } else {
+        for (let i = layers.length - 2; i >= 0; i--) sortLayer(layers[i], 'down');
+      }
+    }
+  }
+
+  /**
+   * Positions items across the flow: each item is pulled towards the mean of
+   * its neighbours, then the layer is spread so items keep their order and gaps.
+   */
+  private assignCross(
+    layers: LayerItem[][],
+    neighbours: Map<string, { up: string[]; down: string[] }>,
+    gap: number
+  ): Map<string, number> {
+    const cross = new Map<string, number>();
+
+    // Initial packing, each layer centered on 0
+    layers.forEach(layer => {
+      const total = layer.reduce((sum, item) => sum + item.cross, 0) + gap * (layer.length - 1);
+      let offset = -total / 2;
+      layer.forEach(item => {
+        cross.set(item.id, offset + item.cross / 2);
+        offset += item.cross + gap;
+      });
+    });
+
+    const alignLayer = (layer: LayerItem[], side: 'up' | 'down') => {
+      const desired = layer.map(item => {
+        const adjacent = neighbours.get(item.id)![side];
+        return adjacent.length > 0
+          ? adjacent.reduce((sum, id) => sum + cross.get(id)!, 0) / adjacent.length
+          : cross.get(item.id)!;
+      });
+      this.spread(layer, desired, gap).forEach((value, index) => cross.set(layer[index].id, value));
+    };
+
+    for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+      if (pass % 2 === 0) {
+        for (let i = 1; i < layers.length; i++) alignLayer(layers[i], 'up');
+      } else {
+        for (let i = layers.length - 2; i >= 0; i--) alignLayer(layers[i], 'down');
+      }
+    }
+
+    return cross;
+  }
+
+  /**
+   * Closest ordered placement to the desired centers: the average of a
+   * left-packed and a right-packed placement, both respecting the gaps.
+   */
+  private spread(layer: LayerItem[], desired: number[], gap: number): number[] {
+    const distance = (i: number) => (layer[i - 1].cross + layer[i].cross) / 2 + gap;
+
+    const left = [...desired];
+    for (let i = 1; i < layer.length; i++) {
+      left[i] = Math.max(left[i], left[i - 1] + distance(i));
+    }
+
+    const right = [...desired];
+    for (let i = layer.length - 2; i >= 0; i--) {
+      right[i] = Math.min(right[i], right[i + 1] - distance(i + 1));
+    }
+
+    return left.map((value, i) => (value + right[i]) / 2);
+  }
+
+  // ========== TREE ==========
+
+  /**
+   * Lays out a breadth-first spanning tree (first parent wins) with d3's tidy tree.
+   * Connections outside the tree (joins, back edges) do not affect placement.
+   */
+  private computeTree(graph: LayoutGraph, options: LayoutOptions): Map<string, Position> {
+    interface TreeItem { id: string; children: TreeItem[] }
+
+    const items = new Map<NodeId, TreeItem>(graph.ids.map(id => [id, { id, children: [] }]));
+    const root: TreeItem = { id: '__layout_root', children: [] };
+    const claimed = new Set<NodeId>();
+
+    const grow = (start: NodeId) => {
+      claimed.add(start);
+      root.children.push(items.get(start)!);
+
+      const queue = [start];
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        graph.successors.get(id)!.forEach(next => {
+          if (claimed.has(next)) return;
+          claimed.add(next);
+          items.get(id)!.children.push(items.get(next)!);
+          queue.push(next);
+        });
+      }
+    };
+
+    graph.ids.filter(id => graph.predecessors.get(id)!.length === 0).forEach(grow);
+    graph.ids.filter(id => !claimed.has(id)).forEach(grow);
+
+    const crossOf = (size: Dimensions) => options.direction === 'LR' ? size.height : size.width;
+    const mainOf = (size: Dimensions) => options.direction === 'LR' ? size.width : size.height;
+    const sizes = Array.from(graph.sizes.values());
+    const crossStep = Math.max(...sizes.map(crossOf)) + options.spacing.node;
+    const mainStep = Math.max(...sizes.map(mainOf)) + options.spacing.layer;
+
+    const hierarchy = d3.hierarchy(root, item => item.children);
+    d3.tree<TreeItem>().nodeSize([crossStep, mainStep]).separation(() => 1)(hierarchy);
+
+    const centers = new Map<string, Position>();
+    hierarchy.descendants().forEach(point => {
+      if (point.data === root) return;
+      // The virtual root occupies depth 0
+      centers.set(point.data.id, { x: (point.y ?? 0) - mainStep, y: point.x ?? 0 });
+    });
+
+    return centers;
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * Builds the graph of top-level nodes. Connections inside a group become
+   * self-loops of the group; self-loops and duplicate edges are dropped.
+   */
+  private buildGraph(direction: LayoutDirection): LayoutGraph {
+    const nodes = this.store.getAllNodes() as Node[];
+    const parentOf = new Map<NodeId, NodeId | null>(nodes.map(node => [node.id, node.parentId]));
+    const topLevel = nodes.filter(node => !node.parentId);
+    const ids = topLevel.map(node => node.id);
+    const sizes = new Map<NodeId, Dimensions>(topLevel.map(node => [node.id, node.getDimensions()]));
+    const edges = new Map<NodeId, { target: NodeId; order: number }[]>(ids.map(id => [id, []]));
+    const predecessors = new Map<NodeId, NodeId[]>(ids.map(id => [id, []]));
+
+    // Top-level node holding a node (the node itself when it is not grouped)
+    const blockOf = (handlerId: HandlerId): NodeId | null => {
+      let id = this.store.getNodeIdForHandler(handlerId);
+      const seen = new Set<NodeId>();
+      while (id && parentOf.get(id) && !seen.has(id)) {
+        seen.add(id);
+        id = parentOf.get(id)!;
+      }
+      return id;
+    };
+
+    this.store.getAllLinks().forEach(link => {
+      const source = blockOf(link.sourceHandlerId);
+      const target = blockOf(link.targetHandlerId);
+      if (!source || !target || source === target) return;
+      if (!edges.has(source) || !edges.has(target)) return;
+      if (edges.get(source)!.some(edge => edge.target === target)) return;
+
+      // Absolute positions order the handlers of grouped nodes as well
+      const handler = this.store.getHandlerAbsolutePosition(link.sourceHandlerId);
+      const order = handler ? (direction === 'LR' ? handler.y : handler.x) : 0;
+
+      edges.get(source)!.push({ target, order });
+      predecessors.get(target)!.push(source);
+    });
+
+    const successors = new Map<NodeId, NodeId[]>();
+    edges.forEach((list, id) => {
+      successors.set(id, [...list].sort((a, b) => a.order - b.order).map(edge => edge.target));
+    });
+
+    return { ids, sizes, successors, predecessors };
+  }
+
+  /**
+   * Converts (main, cross) centers to top-left positions, anchored at the
+   * top-left corner of the current graph bounds.
+   */
+  private toPositions(
+    graph: LayoutGraph,
+    centers: Map<string, Position>,
+    direction: LayoutDirection
+  ): Map<NodeId, Position> {
+    const positions = new Map<NodeId, Position>();
+
+    graph.ids.forEach(id => {
+      const center = centers.get(id)!;
+      const size = graph.sizes.get(id)!;
+      const x = direction === 'LR' ? center.x : center.y;
+      const y = direction === 'LR' ? center.y : center.x;
+      positions.set(id, { x: x - size.width / 2, y: y - size.height / 2 });
+    });
+
+    const current = graph.ids.map(id => this.store.getNode(id)!.position);
+    const anchor = CoordinateTransform.snapToGrid({
+      x: Math.min(...current.map(p => p.x)),
+      y: Math.min(...current.map(p => p.y))
+    });
+    const laidOut = Array.from(positions.values());
+    const minX = Math.min(...laidOut.map(p => p.x));
+    const minY = Math.min(...laidOut.map(p => p.y));
+
+    positions.forEach((position, id) => {
+      positions.set(id, {
+        x: Math.round(position.x - minX + anchor.x),
+        y: Math.round(position.y - minY + anchor.y)
+      });
+    });
+
+    return positions;
+  }
+
+  /**
+   * Existing nodes, without those carried along by another node of the list.
+   */
+  private getMovableNodes(nodeIds: ReadonlyArray<NodeId>): Node[] {
+    const carried = new Set<NodeId>();
+    nodeIds.forEach(id => this.store.getDescendantIds(id).forEach(childId => carried.add(childId)));
+
+    return [...new Set(nodeIds)]
+      .filter(id => !carried.has(id))
+      .map(id => this.store.getNode(id))
+      .filter((node): node is Node => !!node);
+  }
+
+  private moveTo(starts: Map<NodeId, Position>, targets: Map<NodeId, Position>, t: number): void {
+    starts.forEach((start, id) => {
+      // Nodes deleted while animating are left alone
+      if (!this.store.getNode(id)) return;
+
+      const target = targets.get(id)!;
+      this.store.moveNode(id, {
+        x: start.x + (target.x - start.x) * t,
+        y: start.y + (target.y - start.y) * t
+      });
+    });
+  }
+}
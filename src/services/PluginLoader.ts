@@ -21,6 +21,7 @@ export interface PluginBundle {
   handlers?: string[];
   strategies?: string[];
   connections?: string[];
+  validators?: string[];
   styles?: string[];
   config?: Record<string, unknown>;
 }
@@ -28,7 +29,7 @@ export interface PluginBundle {
 /**
  * Plugin category types.
  */
-export type PluginCategory = 'nodes' | 'handlers' | 'strategies' | 'connections';
+export type PluginCategory = 'nodes' | 'handlers' | 'strategies' | 'connections' | 'validators';
 
 /**
  * Custom error for plugin loading failures.
@@ -159,7 +160,7 @@ export class PluginLoader {
       }
       
       // Load plugin modules by category
-      const categories: PluginCategory[] = ['nodes', 'handlers', 'strategies', 'connections'];
+      const categories: PluginCategory[] = ['nodes', 'handlers', 'strategies', 'connections', 'validators'];
       
       for (const category of categories) {
         const files = bundle[category];
@@ -276,6 +277,12 @@ export class PluginLoader {
               console.log(`[PluginLoader]       ✓ Connection: ${type}`);
               registeredCount++;
               break;
+            
+            case 'validators':
+              this.registry.registerValidator(instance);
+              console.log(`[PluginLoader]       ✓ Validator: ${type}`);
+              registeredCount++;
+              break;
           }
           
         } catch (error) {
@@ -383,6 +390,7 @@ export class PluginLoader {
       handlers: number;
       strategies: number;
       connections: number;
+      validators: number;
     };
   } {
     const registryStats = this.registry.getStats();
@@ -394,7 +402,8 @@ export class PluginLoader {
         nodes: registryStats.nodes,
         handlers: registryStats.handlers,
         strategies: registryStats.strategies,
-        connections: registryStats.connections
+        connections: registryStats.connections,
+        validators: registryStats.validators
       }
     };
   }
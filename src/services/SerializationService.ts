@@ -3,6 +3,7 @@
  * Handles handler ID preservation, plugin validation, and orphaned connection cleanup.
  */
 import { Registry } from '../core/Registry';
+import { Config } from '../core/Config';
 import { Store } from '../core/State';
 import { 
   SerializedState, 
@@ -22,7 +23,7 @@ import {
 } from '../core/types';
 import { Node } from '../domain/models/Node';
 import { Connection } from '../domain/models/Connection';
-import { Handler } from '../domain/models/Handler';
+import { Handler, resolveHandlerFlow, getRoleForFlow } from '../domain/models/Handler';
 import { Note } from '../domain/models/Note';
 
 /**
@@ -84,12 +85,13 @@ export class SerializationService {
    * Serializes current graph state to JSON-compatible format.
    * Preserves all handler IDs and metadata.
    * 
+   * @param graph - Runtime graph to serialize instead of the store's (e.g. a parent level of a sub-diagram)
    * @returns Serialized state object
    * @throws {SerializationError} If serialization fails
    */
-  serialize(): SerializedState {
+  serialize(graph?: Readonly<GraphState>): SerializedState {
     try {
-      const state = this.store.getState();
+      const state = graph ?? this.store.getState();
       
       return {
         metadata: {
@@ -108,6 +110,49 @@ export class SerializationService {
     }
   }
   
+  /**
+   * Serializes a subset of the graph (e.g. the current selection).
+   * Only connections whose both endpoints belong to the given nodes are included.
+   * 
+   * @param nodeIds - Nodes to include
+   * @param noteIds - Notes to include
+   * @returns Serialized fragment in the same format as a full state
+   * @throws {SerializationError} If serialization fails
+   */
+  serializeFragment(
+    nodeIds: ReadonlyArray<NodeId>,
+    noteIds: ReadonlyArray<NoteId> = []
+  ): SerializedState {
+    try {
+      const state = this.store.getState();
+      const nodeSet = new Set<string>(nodeIds);
+      const noteSet = new Set<string>(noteIds);
+      
+      const nodes: Node[] = state.nodes.filter((node: Node) => nodeSet.has(node.id));
+      const handlerIds = new Set<string>();
+      nodes.forEach(node => node.handlers.forEach(h => handlerIds.add(h.id)));
+      
+      const links: Connection[] = state.links.filter((link: Connection) =>
+        handlerIds.has(link.sourceHandlerId) && handlerIds.has(link.targetHandlerId)
+      );
+      
+      return {
+        metadata: {
+          version: '1.0.0',
+          createdAt: new Date().toISOString(),
+          viewport: state.transform
+        },
+        nodes: this.serializeNodes(nodes),
+        connections: this.serializeConnections(links),
+        notes: this.serializeNotes(state.notes.filter((note: Note) => noteSet.has(note.id)))
+      };
+      
+    } catch (error) {
+      console.error('[SerializationService] Fragment serialization failed:', error);
+      throw new SerializationError('Failed to serialize graph fragment', error);
+    }
+  }
+  
   /**
    * Deserializes JSON state back to runtime graph state.
    * Validates plugins and preserves handler IDs.
@@ -146,12 +191,14 @@ export class SerializationService {
   /**
    * Serializes nodes to JSON format.
    * Preserves handler IDs in nested hash map.
+   * Parent references are kept only when the parent is serialized too.
    * 
    * @param nodes - Runtime node instances
    * @returns Serialized nodes indexed by ID
    */
   private serializeNodes(nodes: ReadonlyArray<Readonly<Node>>): Record<string, SerializedNode> {
     const result: Record<string, SerializedNode> = {};
+    const nodeIds = new Set<string>(nodes.map(node => node.id));
     
     nodes.forEach(node => {
       result[node.id] = {
@@ -162,9 +209,12 @@ export class SerializationService {
         data: { ...node.data },
         presentation: {
           position: { ...node.position },
-          style: { ...node.style }
+          size: { width: node.width, height: node.height },
+          style: { ...node.style },
+          ...(node.collapsed ? { collapsed: true } : {})
         },
-        handles: this.serializeHandlers(node.handlers)
+        handles: this.serializeHandlers(node.handlers),
+        ...(node.parentId && nodeIds.has(node.parentId) ? { parentId: node.parentId } : {})
       };
     });
     
@@ -187,6 +237,7 @@ export class SerializationService {
         type: handler.type,
         label: handler.label,
         flow: handler.flow,
+        maxConnections: handler.maxConnections,
         presentation: {
           offset: { ...handler.offset },
           direction: handler.direction
@@ -217,6 +268,7 @@ export class SerializationService {
         pathType: conn.pathType,
         label: conn.label ? { ...conn.label } : undefined,
         style: { ...conn.style },
+        waypoints: conn.waypoints.length > 0 ? conn.waypoints.map(p => ({ ...p })) : undefined,
         data: { ...conn.data }
       };
     });
@@ -268,23 +320,28 @@ export class SerializationService {
       }
       
       try {
-        // Create node instance
-        // Note: Handlers will be created by Node constructor based on definition
+        // CRITICAL: Rebuild handlers with their original IDs so connections remain valid
+        const handlers = this.deserializeHandlers(nodeData.handles || {}, nodeData.id);
+        
+        // Create node instance; older documents have no size and were drawn at the template size
+        const size = nodeData.presentation.size;
         const node = new Node(
           createNodeId(nodeData.id),
           nodeData.type,
           definition,
-          nodeData.presentation.position,
+          { ...nodeData.presentation.position },
           nodeData.label,
-          nodeData.data
+          { ...nodeData.data },
+          handlers,
+          size?.width ?? Config.NODE_MIN_WIDTH,
+          size?.height ?? Config.NODE_MIN_HEIGHT
         );
         
         // Restore additional properties
         node.note = nodeData.note;
         node.style = { ...nodeData.presentation.style };
-        
-        // CRITICAL: Restore handler IDs from serialized data
-        this.restoreHandlerIds(node, nodeData.handles);
+        node.collapsed = !!nodeData.presentation.collapsed;
+        node.parentId = nodeData.parentId ? createNodeId(nodeData.parentId) : null;
         
         instances.push(node);
         
@@ -304,54 +361,52 @@ export class SerializationService {
       );
     }
     
+    // Children of skipped groups move to the top level
+    const loaded = new Set<string>(instances.map(node => node.id));
+    instances.forEach(node => {
+      if (node.parentId && !loaded.has(node.parentId)) node.parentId = null;
+    });
+    
     return instances;
   }
   
   /**
-   * Restores handler IDs from serialized data.
-   * Matches handlers by type and index (FIFO order).
-   * 
-   * CRITICAL: This preserves handler IDs so connections remain valid.
+   * Rebuilds handler instances from serialized data.
+   * Preserves handler IDs, offsets, directions and labels.
    * 
-   * @param node - Node instance with newly created handlers
    * @param savedHandlers - Serialized handler data with original IDs
+   * @param nodeId - Owning node ID (for diagnostics)
+   * @returns Runtime handler instances
    */
-  private restoreHandlerIds(node: Node, savedHandlers: Record<string, SerializedHandler>): void {
-    const savedHandlersList = Object.values(savedHandlers);
+  private deserializeHandlers(
+    savedHandlers: Record<string, SerializedHandler>,
+    nodeId: string
+  ): Handler[] {
+    const handlers: Handler[] = [];
     
-    // Group saved handlers by type
-    const handlersByType = new Map<string, SerializedHandler[]>();
-    savedHandlersList.forEach(h => {
-      if (!handlersByType.has(h.type)) {
-        handlersByType.set(h.type, []);
-      }
-      handlersByType.get(h.type)!.push(h);
-    });
-    
-    // Match node handlers with saved handlers by type and index
-    const typeIndices = new Map<string, number>();
-    
-    node.handlers.forEach(handler => {
-      const typeIndex = typeIndices.get(handler.type) || 0;
-      typeIndices.set(handler.type, typeIndex + 1);
+    Object.values(savedHandlers).forEach(handlerData => {
+      const definition = this.registry.getHandlerDefinition(handlerData.type);
       
-      const savedHandlersOfType = handlersByType.get(handler.type);
-      if (savedHandlersOfType && savedHandlersOfType[typeIndex]) {
-        const savedHandler = savedHandlersOfType[typeIndex];
-        
-        // Restore the original handler ID
-        (handler as any).id = createHandlerId(savedHandler.id);
-        
-        // Restore label if it was customized
-        if (savedHandler.label) {
-          handler.label = savedHandler.label;
-        }
-      } else {
+      if (!definition) {
         console.warn(
-          `[SerializationService] Could not match handler type "${handler.type}" at index ${typeIndex} for node ${node.id}`
+          `[SerializationService] Handler type "${handlerData.type}" not registered. Skipping handler ${handlerData.id} of node ${nodeId}.`
         );
+        return;
       }
+      
+      handlers.push(new Handler(
+        createHandlerId(handlerData.id),
+        handlerData.type,
+        definition,
+        { ...handlerData.presentation.offset },
+        handlerData.label || '',
+        getRoleForFlow(resolveHandlerFlow(definition)),
+        handlerData.presentation.direction,
+        handlerData.maxConnections
+      ));
     });
+    
+    return handlers;
   }
   
   /**
@@ -414,6 +469,7 @@ export class SerializationService {
         // Restore additional properties
         connection.style = { ...connData.style };
         connection.label = connData.label ? { ...connData.label } : undefined;
+        connection.waypoints = (connData.waypoints ?? []).map(p => ({ x: p.x, y: p.y }));
         connection.data = { ...connData.data };
         
         instances.push(connection);
@@ -0,0 +1,195 @@
+/**
+ * Snapping service: grid snapping and alignment guides for dragged nodes.
+ * Works on the bounds of everything dragged, so relative offsets are kept.
+ */
+import { Store } from '../core/State';
+import { Config } from '../core/Config';
+import { CoordinateTransform } from '../utils/CoordinateTransform';
+import { NodeId, Position, Rect, AlignmentGuide, SnapOptions } from '../core/types';
+
+/**
+ * Snapped position of dragged bounds and the guides to draw.
+ */
+export interface SnapResult {
+  /** Top-left corner of the dragged bounds after snapping */
+  position: Position;
+  guides: AlignmentGuide[];
+}
+
+type Axis = 'x' | 'y';
+
+const DEFAULT_OPTIONS: SnapOptions = { grid: true, guides: true };
+
+/**
+ * Snaps dragged bounds to the grid and to the edges and centers of nearby nodes.
+ *
+ * Per axis, a guide within Config.SNAP_THRESHOLD screen pixels wins over the grid.
+ * Dragged nodes, their descendants and their enclosing groups are never aligned
+ * with, since they move or resize along with the drag.
+ *
+ * @example
+ * ```typescript
+ * const snap = new SnapService(store, { guides: true });
+ * const { position, guides } = snap.snap(draggedBounds, new Set([nodeId]), transform.k);
+ * ```
+ */
+export class SnapService {
+  private store: Store;
+  private options: SnapOptions;
+
+  /**
+   * Creates a new SnapService instance.
+   *
+   * @param store - State store providing the nodes to align with
+   * @param options - Initial snapping options (default: grid and guides on)
+   */
+  constructor(store: Store, options: Partial<SnapOptions> = {}) {
+    this.store = store;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getOptions(): SnapOptions {
+    return { ...this.options };
+  }
+
+  setOptions(options: Partial<SnapOptions>): void {
+    this.options = { ...this.options, ...options };
+    console.log('[SnapService] Snapping:', this.options);
+  }
+
+  isEnabled(): boolean {
+    return this.options.grid || this.options.guides;
+  }
+
+  /**
+   * Snaps a point to the grid, if grid snapping is on.
+   */
+  snapPoint(point: Position): Position {
+    return this.options.grid ? CoordinateTransform.snapToGrid(point) : { x: point.x, y: point.y };
+  }
+
+  /**
+   * Snaps the bounds of the dragged nodes.
+   *
+   * @param bounds - Dragged bounds at the unsnapped pointer position
+   * @param dragged - IDs of the dragged nodes
+   * @param scale - Current zoom factor (the threshold is in screen pixels)
+   * @returns Snapped top-left corner and the guides it lines up with
+   */
+  snap(bounds: Rect, dragged: ReadonlySet<NodeId>, scale: number): SnapResult {
+    const targets = this.options.guides ? this.getTargets(bounds, dragged) : [];
+    const threshold = Config.SNAP_THRESHOLD / scale;
+    const grid = this.snapPoint(bounds);
+
+    const dx = this.matchAxis('x', bounds, targets, threshold);
+    const dy = this.matchAxis('y', bounds, targets, threshold);
+
+    const position = {
+      x: dx !== null ? bounds.x + dx : grid.x,
+      y: dy !== null ? bounds.y + dy : grid.y
+    };
+    const snapped: Rect = { ...bounds, ...position };
+
+    return {
+      position,
+      guides: [
+        ...this.collectGuides('x', snapped, targets),
+        ...this.collectGuides('y', snapped, targets)
+      ]
+    };
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * Visible nodes near the dragged bounds that do not move with the drag.
+   */
+  private getTargets(bounds: Rect, dragged: ReadonlySet<NodeId>): Rect[] {
+    const excluded = new Set<NodeId>();
+    dragged.forEach(id => {
+      excluded.add(id);
+      this.store.getDescendantIds(id).forEach(childId => excluded.add(childId));
+
+      // Enclosing groups are refitted around the dragged node
+      let parentId = this.store.getNode(id)?.parentId ?? null;
+      while (parentId && !excluded.has(parentId)) {
+        excluded.add(parentId);
+        parentId = this.store.getNode(parentId)?.parentId ?? null;
+      }
+    });
+
+    const range = Config.SNAP_GUIDE_RANGE;
+    const area: Rect = {
+      x: bounds.x - range,
+      y: bounds.y - range,
+      width: bounds.width + range * 2,
+      height: bounds.height + range * 2
+    };
+
+    return this.store.getNodesInRect(area)
+      .filter(node => !excluded.has(node.id) && !this.store.isNodeHidden(node.id))
+      .map(node => ({ x: node.position.x, y: node.position.y, width: node.width, height: node.height }));
+  }
+
+  /**
+   * Smallest shift that puts an edge or the center of the bounds on an edge or
+   * center of a target, or null if none is within the threshold.
+   */
+  private matchAxis(axis: Axis, bounds: Rect, targets: Rect[], threshold: number): number | null {
+    let best: number | null = null;
+
+    this.getLines(axis, bounds).forEach(line => {
+      targets.forEach(target => {
+        this.getLines(axis, target).forEach(targetLine => {
+          const delta = targetLine - line;
+          if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+            best = delta;
+          }
+        });
+      });
+    });
+
+    return best;
+  }
+
+  /**
+   * One guide per edge or center of the snapped bounds that lines up with targets,
+   * spanning the bounds and all of those targets.
+   */
+  private collectGuides(axis: Axis, snapped: Rect, targets: Rect[]): AlignmentGuide[] {
+    const guides: AlignmentGuide[] = [];
+
+    this.getLines(axis, snapped).forEach(line => {
+      const aligned = targets.filter(target =>
+        this.getLines(axis, target).some(targetLine => Math.abs(targetLine - line) < 0.5)
+      );
+      if (aligned.length === 0) return;
+
+      const rects = [snapped, ...aligned];
+      guides.push(axis === 'x'
+        ? {
+            orientation: 'vertical',
+            position: line,
+            from: Math.min(...rects.map(r => r.y)),
+            to: Math.max(...rects.map(r => r.y + r.height))
+          }
+        : {
+            orientation: 'horizontal',
+            position: line,
+            from: Math.min(...rects.map(r => r.x)),
+            to: Math.max(...rects.map(r => r.x + r.width))
+          });
+    });
+
+    return guides;
+  }
+
+  /**
+   * Start edge, center and end edge of a rectangle along an axis.
+   */
+  private getLines(axis: Axis, rect: Rect): number[] {
+    const start = axis === 'x' ? rect.x : rect.y;
+    const size = axis === 'x' ? rect.width : rect.height;
+    return [start, start + size / 2, start + size];
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Sub-diagram service: resolves the graphs referenced by sub-diagram nodes and
+ * navigates into them and back.
+ * A node references its graph either embedded (`data.diagram`) or by ID
+ * (`data.diagramId`, loaded through the host's resolver).
+ */
+import { EventBus } from '../core/EventBus';
+import { Store } from '../core/State';
+import { SelectionManager } from '../core/SelectionManager';
+import { SerializationService } from './SerializationService';
+import { HistoryManager, HistorySnapshot } from './HistoryManager';
+import {
+  NodeId,
+  HandlerId,
+  FlowType,
+  NodeInstance,
+  ConnectionInstance,
+  GraphState,
+  SerializedState,
+  SubDiagramResolver,
+  BreadcrumbItem
+} from '../core/types';
+
+/**
+ * Custom error for sub-diagrams that cannot be resolved or entered.
+ */
+export class SubDiagramError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'SubDiagramError';
+  }
+}
+
+/**
+ * Graph of a sub-diagram, loaded outside the store.
+ */
+export interface SubDiagramGraph {
+  nodes: NodeInstance[];
+  links: ConnectionInstance[];
+}
+
+/**
+ * Handlers of a sub-diagram node mapped to the entry and exit nodes of its graph.
+ */
+export interface SubDiagramPorts {
+  inputs: Record<HandlerId, NodeId[]>;
+  outputs: Record<HandlerId, NodeId[]>;
+}
+
+/**
+ * Result of leaving a sub-diagram.
+ */
+export interface SubDiagramExit {
+  nodeId: NodeId;
+  /** Referenced graph ID, or null if the graph is embedded in the node */
+  diagramId: string | null;
+  /** Graph as it was left */
+  state: SerializedState;
+  /** True if the graph was edited since it was entered */
+  changed: boolean;
+}
+
+// Parent document put aside while a sub-diagram is open
+interface NavigationFrame {
+  nodeId: NodeId;
+  label: string;
+  diagramId: string | null;
+  parentState: SerializedState;
+  history: HistorySnapshot;
+  initialState: string;
+}
+
+type SubDiagramReference =
+  | { embedded: SerializedState }
+  | { diagramId: string };
+
+/**
+ * Resolves sub-diagram references and keeps the navigation stack.
+ *
+ * Entering a sub-diagram puts the current graph and its undo history aside and
+ * loads the child graph into the store; leaving restores them. The graph shown
+ * is always the innermost level of the path.
+ *
+ * Ports: a single input (output) handler maps to all entry (exit) nodes of the
+ * child graph; with several handlers the i-th handler maps to the i-th entry
+ * (exit) node. Entry nodes have output handlers only, exit nodes input handlers only.
+ *
+ * @example
+ * ```typescript
+ * const subDiagrams = new SubDiagramService(eventBus, store, selection, serialization, history, id => library[id]);
+ * await subDiagrams.enter(nodeId);
+ * subDiagrams.getPath(); // [{ nodeId: null, label: 'Main' }, { nodeId, label: 'Checkout' }]
+ * subDiagrams.exit();
+ * ```
+ */
+export class SubDiagramService {
+  private eventBus: EventBus;
+  private store: Store;
+  private selectionManager: SelectionManager;
+  private serializationService: SerializationService;
+  private historyManager: HistoryManager;
+  private resolver: SubDiagramResolver | null;
+
+  private stack: NavigationFrame[] = [];
+  // Node whose graph is being resolved by enter()
+  private entering: NodeId | null = null;
+
+  /**
+   * Creates a new SubDiagramService instance.
+   *
+   * @param eventBus - Event bus for navigation events
+   * @param store - State store holding the graph shown
+   * @param selectionManager - Selection cleared on navigation
+   * @param serializationService - Converts between stored and runtime graphs
+   * @param historyManager - Undo history put aside per level
+   * @param resolver - Host callback loading graphs referenced by ID
+   */
+  constructor(
+    eventBus: EventBus,
+    store: Store,
+    selectionManager: SelectionManager,
+    serializationService: SerializationService,
+    historyManager: HistoryManager,
+    resolver?: SubDiagramResolver
+  ) {
+    this.eventBus = eventBus;
+    this.store = store;
+    this.selectionManager = selectionManager;
+    this.serializationService = serializationService;
+    this.historyManager = historyManager;
+    this.resolver = resolver ?? null;
+  }
+
+  // ========== RESOLUTION ==========
+
+  /**
+   * Checks if a node references a sub-diagram.
+   */
+  isSubDiagram(node: { data: Record<string, unknown> }): boolean {
+    return this.getReference(node.data) !== null;
+  }
+
+  /**
+   * Loads the graph referenced by a sub-diagram node.
+   *
+   * @param node - Sub-diagram node
+   * @returns Serialized child graph
+   * @throws {SubDiagramError} If the node has no reference or the graph cannot be resolved
+   */
+  async resolve(node: { id: NodeId; data: Record<string, unknown> }): Promise<SerializedState> {
+    const reference = this.getReference(node.data);
+    if (!reference) {
+      throw new SubDiagramError(`Node ${node.id} does not reference a sub-diagram`, 'NOT_A_SUBDIAGRAM');
+    }
+
+    if ('embedded' in reference) {
+      return reference.embedded;
+    }
+
+    if (!this.resolver) {
+      throw new SubDiagramError('No sub-diagram resolver configured', 'NO_RESOLVER', { diagramId: reference.diagramId });
+    }
+
+    const state = await this.resolver(reference.diagramId);
+    if (!this.isSerializedState(state)) {
+      throw new SubDiagramError(`Sub-diagram "${reference.diagramId}" not found`, 'NOT_FOUND', { diagramId: reference.diagramId });
+    }
+    return state;
+  }
+
+  /**
+   * Builds runtime nodes and links of a child graph without touching the store.
+   */
+  load(state: SerializedState): SubDiagramGraph {
+    const graph = this.serializationService.deserialize(state);
+    return {
+      nodes: graph.nodes as unknown as NodeInstance[],
+      links: graph.links as unknown as ConnectionInstance[]
+    };
+  }
+
+  /**
+   * Maps the handlers of a sub-diagram node to the entry and exit nodes of its graph.
+   */
+  getPorts(node: NodeInstance, graph: SubDiagramGraph): SubDiagramPorts {
+    const hasFlow = (n: NodeInstance, flow: FlowType) => n.handlers.some(h => h.flow === flow);
+    const entries = graph.nodes.filter(n => hasFlow(n, FlowType.OUT) && !hasFlow(n, FlowType.IN)).map(n => n.id);
+    const exits = graph.nodes.filter(n => hasFlow(n, FlowType.IN) && !hasFlow(n, FlowType.OUT)).map(n => n.id);
+
+    const map = (handlers: ReadonlyArray<{ id: HandlerId }>, targets: NodeId[]): Record<HandlerId, NodeId[]> => {
+      const result: Record<HandlerId, NodeId[]> = {};
+      handlers.forEach((handler, index) => {
+        result[handler.id] = handlers.length === 1
+          ? [...targets]
+          : targets[index] ? [targets[index]] : [];
+      });
+      return result;
+    };
+
+    return {
+      inputs: map(node.handlers.filter(h => h.flow === FlowType.IN), entries),
+      outputs: map(node.handlers.filter(h => h.flow === FlowType.OUT), exits)
+    };
+  }
+
+  // ========== NAVIGATION ==========
+
+  /**
+   * Gets the navigation path, root first.
+   */
+  getPath(): BreadcrumbItem[] {
+    return [
+      { nodeId: null, label: 'Main' },
+      ...this.stack.map(frame => ({ nodeId: frame.nodeId, label: frame.label }))
+    ];
+  }
+
+  /**
+   * Gets the number of sub-diagram levels currently entered.
+   */
+  getDepth(): number {
+    return this.stack.length;
+  }
+
+  /**
+   * Checks if enter() is still resolving a graph.
+   */
+  isEntering(): boolean {
+    return this.entering !== null;
+  }
+
+  /**
+   * Shows the graph of a sub-diagram node, putting the current graph aside.
+   *
+   * @param nodeId - Sub-diagram node of the graph shown
+   * @throws {SubDiagramError} If another sub-diagram is being entered, the node does not exist or its graph cannot be resolved
+   */
+  async enter(nodeId: NodeId): Promise<void> {
+    if (this.entering !== null) {
+      throw new SubDiagramError(`Already entering the sub-diagram of ${this.entering}`, 'ENTER_PENDING', { nodeId });
+    }
+
+    const node = this.store.getNode(nodeId);
+    if (!node) {
+      throw new SubDiagramError(`Node ${nodeId} not found`, 'NODE_NOT_FOUND');
+    }
+
+    const reference = this.getReference(node.data);
+    let state: SerializedState;
+    this.entering = nodeId;
+    try {
+      state = await this.resolve(node);
+    } finally {
+      this.entering = null;
+    }
+    // Parsing first: a broken child graph leaves the current one untouched
+    const graph = this.serializationService.deserialize(state);
+
+    const frame: NavigationFrame = {
+      nodeId,
+      label: node.label || node.type,
+      diagramId: reference && 'diagramId' in reference ? reference.diagramId : null,
+      parentState: this.serializationService.serialize(),
+      history: this.historyManager.snapshot(),
+      initialState: ''
+    };
+
+    this.selectionManager.clearSelection();
+    this.store.setState(graph);
+    this.historyManager.reset();
+    this.historyManager.save();
+
+    // Compared on exit, after the same load/serialize round trip
+    frame.initialState = this.fingerprint(this.serializationService.serialize());
+    this.stack.push(frame);
+
+    this.eventBus.emit('SUBDIAGRAM_ENTERED', { nodeId, path: this.getPath() });
+    console.log(`[SubDiagramService] Entered sub-diagram of ${nodeId} (depth ${this.stack.length})`);
+  }
+
+  /**
+   * Leaves the innermost sub-diagram and shows its parent graph again.
+   *
+   * @param apply - Called with the parent restored, e.g. to write an edited embedded graph back into its node
+   * @returns The graph left, or null at the root
+   */
+  exit(apply?: (exit: SubDiagramExit) => void): SubDiagramExit | null {
+    const frame = this.stack.pop();
+    if (!frame) return null;
+
+    const state = this.serializationService.serialize();
+    const exit: SubDiagramExit = {
+      nodeId: frame.nodeId,
+      diagramId: frame.diagramId,
+      state,
+      changed: this.fingerprint(state) !== frame.initialState
+    };
+
+    this.selectionManager.clearSelection();
+    this.store.setState(this.serializationService.deserialize(frame.parentState));
+    this.historyManager.restore(frame.history);
+
+    apply?.(exit);
+
+    this.eventBus.emit('SUBDIAGRAM_EXITED', { nodeId: frame.nodeId, path: this.getPath(), state });
+    console.log(`[SubDiagramService] Left sub-diagram of ${frame.nodeId} (depth ${this.stack.length})`);
+
+    return exit;
+  }
+
+  /**
+   * Forgets the levels entered without restoring them, e.g. after another
+   * document was loaded over the innermost one.
+   */
+  reset(): void {
+    const outermost = this.stack[0];
+    if (!outermost) return;
+
+    this.stack = [];
+    this.eventBus.emit('SUBDIAGRAM_EXITED', {
+      nodeId: outermost.nodeId,
+      path: this.getPath(),
+      state: this.serializationService.serialize()
+    });
+    console.log('[SubDiagramService] Navigation reset');
+  }
+
+  /**
+   * Gets the whole document as if every open level were left: each level is
+   * handed to its parent, innermost first, without touching the store.
+   * 
+   * @param apply - Called with each parent graph, e.g. to write an edited embedded graph back into its node
+   * @returns The root graph
+   */
+  getRootState(apply: (parent: GraphState, exit: SubDiagramExit) => void): SerializedState {
+    let state = this.serializationService.serialize();
+
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const frame = this.stack[i];
+      const parent = this.serializationService.deserialize(frame.parentState);
+
+      apply(parent, {
+        nodeId: frame.nodeId,
+        diagramId: frame.diagramId,
+        state,
+        changed: this.fingerprint(state) !== frame.initialState
+      });
+      state = this.serializationService.serialize(parent);
+    }
+
+    return state;
+  }
+
+  // ========== HELPERS ==========
+
+  private getReference(data: Record<string, unknown>): SubDiagramReference | null {
+    if (this.isSerializedState(data.diagram)) {
+      return { embedded: data.diagram };
+    }
+    if (typeof data.diagramId === 'string' && data.diagramId.trim() !== '') {
+      return { diagramId: data.diagramId };
+    }
+    return null;
+  }
+
+  private isSerializedState(value: unknown): value is SerializedState {
+    return !!value && typeof value === 'object' &&
+      !!(value as any).metadata && !!(value as any).nodes && !!(value as any).connections;
+  }
+
+  /**
+   * Graph content without volatile metadata (creation time, viewport).
+   */
+  private fingerprint(state: SerializedState): string {
+    return JSON.stringify({ nodes: state.nodes, connections: state.connections, notes: state.notes || {} });
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * Traversal engine executing strategy visitors asynchronously.
+ * Supports cancellation, pausing, step-over/step-into and node breakpoints.
+ */
+import { EventBus } from '../core/EventBus';
+import { Store } from '../core/State';
+import { Registry } from '../core/Registry';
+import { Config } from '../core/Config';
+import { SubDiagramService, SubDiagramError } from './SubDiagramService';
+import {
+  NodeId,
+  NodeInstance,
+  ConnectionInstance,
+  StrategyPluginDefinition,
+  TraverseContext,
+  TraversePausedPayload,
+  TraversalStatus,
+  SubDiagramRun,
+  VisitorMap
+} from '../core/types';
+
+/**
+ * Custom error for traversals that cannot start or fail while running.
+ */
+export class TraversalError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: any
+  ) {
+    super(message);
+    this.name = 'TraversalError';
+  }
+}
+
+/**
+ * Thrown inside a traversal when it is cancelled.
+ */
+export class TraversalCancelledError extends Error {
+  constructor() {
+    super('Traversal cancelled');
+    this.name = 'TraversalCancelledError';
+  }
+}
+
+/**
+ * Options of a single traversal run.
+ */
+export interface TraversalOptions {
+  signal?: AbortSignal;
+  paused?: boolean;
+  variables?: Record<string, unknown>;
+  concurrency?: number;
+  /** Run the graphs of sub-diagram nodes in place (default: true) */
+  recurse?: boolean;
+}
+
+/**
+ * Outcome of a run: the final aggregator, or cancelled.
+ */
+export interface TraversalOutcome<TAggregator = unknown> {
+  cancelled: boolean;
+  result: TAggregator | null;
+}
+
+type PauseReason = TraversePausedPayload['reason'];
+
+interface ActiveRun {
+  strategy: string;
+  definition: StrategyPluginDefinition<any>;
+  controller: AbortController;
+  visitors: VisitorMap;
+  aggregator: unknown;
+  context: TraverseContext;
+  recurse: boolean;
+  paused: boolean;
+  activeNodeId: NodeId | null;
+  // Pause before the next node (pause() or TraversalOptions.paused)
+  pauseRequested: boolean;
+  // Step mode set by stepInto/stepOver while paused
+  step: { mode: 'into' | 'over'; depth: number } | null;
+  pausedDepth: number;
+  resume: (() => void) | null;
+}
+
+/**
+ * Runs a strategy over the diagram, one node at a time.
+ *
+ * Visitors may be async; the engine awaits each one before moving on, checks for
+ * cancellation between nodes, and can suspend before any node (breakpoint,
+ * pause request or step). Only one traversal runs at a time.
+ *
+ * Strategies providing `getLevels` run level by level instead: nodes of a level
+ * start concurrently (up to the concurrency limit) and the next level starts once
+ * all of them completed. Pauses still happen one node at a time, before a node starts.
+ *
+ * Sub-diagram nodes run the nodes of their graph (in strategy order, one level
+ * deeper) before their own visitor, which then gets `context.subDiagram`. Each
+ * such run gets the aggregator returned by the strategy's `enterSubDiagram`.
+ *
+ * @example
+ * ```typescript
+ * const engine = new TraversalEngine(eventBus, store, registry);
+ * engine.setBreakpoint(taskId, true);
+ *
+ * const controller = new AbortController();
+ * const run = engine.run('sequential', { signal: controller.signal });
+ * // ... TRAVERSE_PAUSED at taskId
+ * engine.stepOver();
+ * ```
+ */
+export class TraversalEngine {
+  private eventBus: EventBus;
+  private store: Store;
+  private registry: Registry;
+  private subDiagrams: SubDiagramService;
+
+  private breakpoints: Set<NodeId> = new Set();
+  private active: ActiveRun | null = null;
+
+  /**
+   * Creates a new TraversalEngine instance.
+   *
+   * @param eventBus - Event bus for traversal events
+   * @param store - State store providing nodes and links
+   * @param registry - Plugin registry providing strategies
+   * @param subDiagrams - Resolves the graphs of sub-diagram nodes
+   */
+  constructor(eventBus: EventBus, store: Store, registry: Registry, subDiagrams: SubDiagramService) {
+    this.eventBus = eventBus;
+    this.store = store;
+    this.registry = registry;
+    this.subDiagrams = subDiagrams;
+  }
+
+  // ========== RUN ==========
+
+  /**
+   * Runs a traversal to completion, cancellation or failure.
+   *
+   * @param strategyType - Registered strategy type
+   * @param options - Signal, initial pause and runtime variables
+   * @returns Final aggregator, or `cancelled: true`
+   * @throws {TraversalError} If a traversal is already running, the strategy is unknown or a visitor fails
+   */
+  async run<TAggregator = unknown>(
+    strategyType: string,
+    options: TraversalOptions = {}
+  ): Promise<TraversalOutcome<TAggregator>> {
+    if (this.active) {
+      throw new TraversalError('A traversal is already running', 'TRAVERSAL_RUNNING', { strategy: this.active.strategy });
+    }
+
+    const strategy = this.registry.getStrategy(strategyType) as StrategyPluginDefinition<TAggregator> | null;
+    if (!strategy) {
+      throw new TraversalError(`Strategy "${strategyType}" not found`, 'STRATEGY_NOT_FOUND');
+    }
+
+    const nodes = this.store.getAllNodes() as unknown as NodeInstance[];
+    const links = this.store.getAllLinks() as unknown as ConnectionInstance[];
+    const controller = new AbortController();
+
+    const onExternalAbort = () => controller.abort();
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', onExternalAbort);
+
+    const run: ActiveRun = {
+      strategy: strategyType,
+      definition: strategy,
+      controller,
+      visitors: strategy.getVisitors(),
+      aggregator: strategy.getInitialAggregator(),
+      context: {
+        nodes,
+        links,
+        signal: controller.signal,
+        variables: Object.freeze({ ...(options.variables || {}) })
+      },
+      recurse: options.recurse !== false,
+      paused: false,
+      activeNodeId: null,
+      pauseRequested: !!options.paused,
+      step: null,
+      pausedDepth: 0,
+      resume: null
+    };
+    this.active = run;
+
+    try {
+      if (strategy.getLevels) {
+        const concurrency = options.concurrency ?? strategy.concurrency ?? (strategy as any).constructor.concurrency;
+        await this.visitLevels(run, strategy.getLevels([...nodes], [...links]), concurrency ?? Infinity);
+      } else {
+        const sorted = strategy.sortNodes([...nodes], [...links]);
+
+        for (const node of sorted) {
+          await this.visit(run, node, 0);
+        }
+      }
+
+      return { cancelled: false, result: run.aggregator as TAggregator };
+
+    } catch (error) {
+      if (error instanceof TraversalCancelledError || controller.signal.aborted) {
+        this.eventBus.emit('TRAVERSE_CANCELLED', { strategy: strategyType, nodeId: run.activeNodeId });
+        console.log(`[TraversalEngine] Traversal cancelled: ${strategyType}`);
+        return { cancelled: true, result: null };
+      }
+      throw error instanceof TraversalError
+        ? error
+        : new TraversalError(error instanceof Error ? error.message : 'Traversal failed', 'TRAVERSAL_ERROR', error);
+
+    } finally {
+      options.signal?.removeEventListener('abort', onExternalAbort);
+      this.active = null;
+    }
+  }
+
+  // ========== CONTROL ==========
+
+  /**
+   * Requests a pause before the next node.
+   */
+  pause(): void {
+    if (this.active && !this.active.paused) {
+      this.active.pauseRequested = true;
+    }
+  }
+
+  /**
+   * Continues a paused traversal until the next breakpoint.
+   */
+  resume(): void {
+    this.continueWith(null);
+  }
+
+  /**
+   * Runs the node the traversal is paused at (including any nested nodes)
+   * and pauses before the next node on the same or an outer level.
+   */
+  stepOver(): void {
+    if (!this.active?.paused) return;
+    this.continueWith({ mode: 'over', depth: this.active.pausedDepth });
+  }
+
+  /**
+   * Pauses before the very next node, entering nested levels.
+   */
+  stepInto(): void {
+    if (!this.active?.paused) return;
+    this.continueWith({ mode: 'into', depth: this.active.pausedDepth });
+  }
+
+  /**
+   * Cancels the running traversal.
+   */
+  cancel(): void {
+    this.active?.controller.abort();
+  }
+
+  // ========== BREAKPOINTS ==========
+
+  /**
+   * Enables or disables the breakpoint on a node.
+   */
+  setBreakpoint(nodeId: NodeId, enabled: boolean = true): void {
+    const changed = enabled ? !this.breakpoints.has(nodeId) : this.breakpoints.has(nodeId);
+    if (!changed) return;
+
+    if (enabled) {
+      this.breakpoints.add(nodeId);
+    } else {
+      this.breakpoints.delete(nodeId);
+    }
+    this.emitBreakpoints();
+  }
+
+  toggleBreakpoint(nodeId: NodeId): void {
+    this.setBreakpoint(nodeId, !this.breakpoints.has(nodeId));
+  }
+
+  clearBreakpoints(): void {
+    if (this.breakpoints.size === 0) return;
+
+    this.breakpoints.clear();
+    this.emitBreakpoints();
+  }
+
+  /**
+   * Gets nodes with a breakpoint (deleted nodes are left out).
+   */
+  getBreakpoints(): NodeId[] {
+    return Array.from(this.breakpoints).filter(id => this.store.getNode(id) !== null);
+  }
+
+  // ========== STATUS ==========
+
+  isRunning(): boolean {
+    return this.active !== null;
+  }
+
+  getStatus(): TraversalStatus {
+    const run = this.active;
+    return Object.freeze({
+      state: !run ? 'idle' : run.paused ? 'paused' : 'running',
+      strategy: run?.strategy ?? null,
+      activeNodeId: run?.activeNodeId ?? null
+    });
+  }
+
+  // ========== HELPERS ==========
+
+  /**
+   * Visits one node: optional pause, visitor call and the per-node events.
+   *
+   * @param run - Active run
+   * @param node - Node to visit
+   * @param depth - Nesting level of the node
+   */
+  private async visit(
+    run: ActiveRun,
+    node: NodeInstance,
+    depth: number,
+    context: TraverseContext = run.context,
+    aggregator: unknown = run.aggregator
+  ): Promise<boolean> {
+    if (await this.enter(run, node, depth, context, aggregator)) {
+      await this.execute(run, node, depth, context, aggregator);
+      return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Runs the graph of a sub-diagram node one level deeper, with its own nodes and
+   * links and the aggregator the strategy scopes to it (`enterSubDiagram`).
+   *
+   * @returns Ports and completed child nodes, handed to the node's visitor
+   */
+  private async visitSubDiagram(
+    run: ActiveRun,
+    node: NodeInstance,
+    depth: number,
+    context: TraverseContext,
+    aggregator: unknown
+  ): Promise<SubDiagramRun> {
+    if (depth + 1 > Config.SUBDIAGRAM_MAX_DEPTH) {
+      throw new TraversalError(
+        `Sub-diagrams nested deeper than ${Config.SUBDIAGRAM_MAX_DEPTH} levels`,
+        'SUBDIAGRAM_DEPTH',
+        { nodeId: node.id }
+      );
+    }
+
+    let graph;
+    try {
+      graph = this.subDiagrams.load(await this.subDiagrams.resolve(node));
+    } catch (error) {
+      throw error instanceof SubDiagramError
+        ? new TraversalError(error.message, error.code, { nodeId: node.id, ...error.details })
+        : error;
+    }
+    this.throwIfCancelled(run);
+
+    const ports = this.subDiagrams.getPorts(node, graph);
+    const childAggregator = run.definition.enterSubDiagram
+      ? run.definition.enterSubDiagram(node, aggregator, context, ports.inputs)
+      : aggregator;
+    const childContext: TraverseContext = { ...context, nodes: graph.nodes, links: graph.links, subDiagram: undefined };
+    const completed: NodeId[] = [];
+
+    for (const child of run.definition.sortNodes([...graph.nodes], [...graph.links])) {
+      if (await this.visit(run, child, depth + 1, childContext, childAggregator)) {
+        completed.push(child.id);
+      }
+    }
+
+    return { nodeId: node.id, inputs: ports.inputs, outputs: ports.outputs, completed };
+  }
+
+  /**
+   * Runs levels in order, starting up to `concurrency` nodes of a level at once.
+   * A failing node lets the others of its level finish, then fails the run.
+   */
+  private async visitLevels(run: ActiveRun, levels: NodeInstance[][], concurrency: number): Promise<void> {
+    const limit = Math.max(1, concurrency);
+
+    for (const level of levels) {
+      const running = new Set<Promise<void>>();
+      let failure: unknown = null;
+
+      for (const node of level) {
+        if (failure) break;
+        if (!(await this.enter(run, node, 0, run.context, run.aggregator))) continue;
+
+        const task: Promise<void> = this.execute(run, node, 0, run.context, run.aggregator)
+          .catch(error => { failure = failure ?? error; })
+          .finally(() => running.delete(task));
+        running.add(task);
+
+        if (running.size >= limit) {
+          await Promise.race(running);
+        }
+      }
+
+      await Promise.all(running);
+      if (failure) throw failure;
+    }
+  }
+
+  /**
+   * Checks cancellation, skips nodes rejected by the strategy and pauses if needed.
+   *
+   * @returns False if the node is skipped
+   */
+  private async enter(
+    run: ActiveRun,
+    node: NodeInstance,
+    depth: number,
+    context: TraverseContext,
+    aggregator: unknown
+  ): Promise<boolean> {
+    this.throwIfCancelled(run);
+
+    // Nodes rejected by the strategy (e.g. on a branch not taken) never pause
+    const { definition } = run;
+    if (definition.shouldVisit && !definition.shouldVisit(node, aggregator, context)) {
+      definition.visitSkipped?.(node, aggregator, context);
+      this.eventBus.emit('TRAVERSE_NODE_SKIPPED', this.createPayload(run, node, depth));
+      return false;
+    }
+
+    const reason = this.getPauseReason(run, node.id, depth);
+    if (reason) {
+      await this.suspend(run, node.id, depth, reason);
+    }
+    return true;
+  }
+
+  /**
+   * Calls the node's visitor between the STARTED and COMPLETED events.
+   * Sub-diagram nodes run their graph first.
+   */
+  private async execute(
+    run: ActiveRun,
+    node: NodeInstance,
+    depth: number,
+    context: TraverseContext,
+    aggregator: unknown
+  ): Promise<void> {
+    const payload = this.createPayload(run, node, depth);
+
+    run.activeNodeId = node.id;
+    this.eventBus.emit('TRAVERSE_NODE_STARTED', payload);
+
+    const startTime = performance.now();
+    let visitorContext = context;
+    if (run.recurse && this.subDiagrams.isSubDiagram(node)) {
+      const subDiagram = await this.visitSubDiagram(run, node, depth, context, aggregator);
+      visitorContext = { ...context, subDiagram };
+      run.activeNodeId = node.id;
+    }
+
+    const visitor = run.visitors[node.type];
+    if (visitor) {
+      await visitor(node, aggregator, visitorContext);
+    }
+    this.throwIfCancelled(run);
+
+    this.eventBus.emit('TRAVERSE_NODE_COMPLETED', { ...payload, durationMs: performance.now() - startTime });
+  }
+
+  private createPayload(run: ActiveRun, node: NodeInstance, depth: number) {
+    return { strategy: run.strategy, nodeId: node.id, nodeType: node.type, depth };
+  }
+
+  private getPauseReason(run: ActiveRun, nodeId: NodeId, depth: number): PauseReason | null {
+    if (this.breakpoints.has(nodeId)) return 'breakpoint';
+    if (run.pauseRequested) return 'pause';
+    if (run.step?.mode === 'into') return 'step';
+    if (run.step?.mode === 'over' && depth <= run.step.depth) return 'step';
+    return null;
+  }
+
+  /**
+   * Waits until resumed or cancelled.
+   */
+  private suspend(run: ActiveRun, nodeId: NodeId, depth: number, reason: PauseReason): Promise<void> {
+    run.paused = true;
+    run.pauseRequested = false;
+    run.step = null;
+    run.pausedDepth = depth;
+    run.activeNodeId = nodeId;
+
+    this.eventBus.emit('TRAVERSE_PAUSED', { strategy: run.strategy, nodeId, reason });
+    console.log(`[TraversalEngine] Paused before ${nodeId} (${reason})`);
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        run.paused = false;
+        run.resume = null;
+        reject(new TraversalCancelledError());
+      };
+
+      run.controller.signal.addEventListener('abort', onAbort, { once: true });
+      run.resume = () => {
+        run.controller.signal.removeEventListener('abort', onAbort);
+        run.paused = false;
+        run.resume = null;
+        this.eventBus.emit('TRAVERSE_RESUMED', { strategy: run.strategy, nodeId });
+        resolve();
+      };
+    });
+  }
+
+  private continueWith(step: ActiveRun['step']): void {
+    const run = this.active;
+    if (!run?.paused || !run.resume) return;
+
+    run.step = step;
+    run.resume();
+  }
+
+  private throwIfCancelled(run: ActiveRun): void {
+    if (run.controller.signal.aborted) {
+      throw new TraversalCancelledError();
+    }
+  }
+
+  private emitBreakpoints(): void {
+    this.eventBus.emit('BREAKPOINTS_CHANGED', { nodeIds: Array.from(this.breakpoints) });
+    this.eventBus.emit('RENDER_REQUESTED', undefined);
+  }
+}
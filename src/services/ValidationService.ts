@@ -0,0 +1,205 @@
+/**
+ * Validation service running the registered validation rules against the graph.
+ * Produces diagnostics shown as badges on nodes and connections.
+ */
+import { EventBus } from '../core/EventBus';
+import { Store } from '../core/State';
+import { Registry } from '../core/Registry';
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  ValidationContext,
+  ValidationRulePluginDefinition,
+  DiagnosticReport,
+  PropertySchema,
+  WidgetQueries,
+  NodeId,
+  ConnectionId,
+  EventType,
+  UnsubscribeFn
+} from '../core/types';
+
+/**
+ * Events after which the rules are re-run.
+ * NODE_MOVED is left out on purpose: it fires on every drag frame and rules
+ * describe structure and data, not layout.
+ */
+const TRIGGER_EVENTS: EventType[] = [
+  'NODE_CREATED',
+  'NODE_UPDATED',
+  'NODE_REMOVED',
+  'CONNECTION_CREATED',
+  'CONNECTION_UPDATED',
+  'CONNECTION_REMOVED',
+  'STATE_LOADED',
+  'PLUGINS_LOADED'
+];
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2
+};
+
+/**
+ * Runs validation rule plugins on every state change and publishes the
+ * resulting diagnostics with VALIDATION_CHANGED.
+ *
+ * Changes are coalesced: a burst of mutations (paste, transaction, import)
+ * triggers a single validation pass in the next microtask.
+ *
+ * @example
+ * ```typescript
+ * const validation = new ValidationService(eventBus, store, registry);
+ * validation.start(api.queries);
+ *
+ * eventBus.on('VALIDATION_CHANGED', ({ diagnostics }) => console.table(diagnostics));
+ * ```
+ */
+export class ValidationService {
+  private eventBus: EventBus;
+  private store: Store;
+  private registry: Registry;
+
+  private queries: WidgetQueries | null = null;
+  private diagnostics: ReadonlyArray<Diagnostic> = Object.freeze([]);
+  private scheduled: boolean = false;
+  private unsubscribers: UnsubscribeFn[] = [];
+
+  /**
+   * Creates a new ValidationService instance.
+   *
+   * @param eventBus - Event bus for state changes and VALIDATION_CHANGED
+   * @param store - State store providing the graph snapshot
+   * @param registry - Plugin registry providing rules and node schemas
+   */
+  constructor(eventBus: EventBus, store: Store, registry: Registry) {
+    this.eventBus = eventBus;
+    this.store = store;
+    this.registry = registry;
+  }
+
+  /**
+   * Starts validating on state changes and runs a first pass.
+   *
+   * @param queries - Read-only queries handed to the rules
+   */
+  start(queries: WidgetQueries): void {
+    this.stop();
+    this.queries = queries;
+
+    TRIGGER_EVENTS.forEach(event => {
+      this.unsubscribers.push(this.eventBus.on(event, () => this.schedule()));
+    });
+
+    this.validate();
+  }
+
+  /**
+   * Stops listening to state changes. Current diagnostics are kept.
+   */
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Gets the current diagnostics, most severe first.
+   *
+   * @param elementId - Only diagnostics of this node or connection
+   * @returns Frozen diagnostics list
+   */
+  getDiagnostics(elementId?: NodeId | ConnectionId): ReadonlyArray<Diagnostic> {
+    if (elementId === undefined) {
+      return this.diagnostics;
+    }
+
+    return Object.freeze(this.diagnostics.filter(d => d.nodeId === elementId || d.linkId === elementId));
+  }
+
+  /**
+   * Runs every registered rule now.
+   * Emits VALIDATION_CHANGED only if the diagnostics differ from the previous pass.
+   *
+   * @returns Current diagnostics
+   */
+  validate(): ReadonlyArray<Diagnostic> {
+    if (!this.queries) {
+      console.warn('[ValidationService] Cannot validate before start()');
+      return this.diagnostics;
+    }
+
+    const context: ValidationContext = {
+      nodes: this.store.getAllNodes().map(node => node.getData()),
+      links: this.store.getAllLinks().map(link => link.getData()),
+      queries: this.queries,
+      getNodeSchema: (type: string) => this.getNodeSchema(type)
+    };
+
+    const diagnostics: Diagnostic[] = [];
+    this.registry.getAllValidators().forEach(rule => {
+      diagnostics.push(...this.runRule(rule, context));
+    });
+
+    diagnostics.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    if (!this.isSame(diagnostics)) {
+      this.diagnostics = Object.freeze(diagnostics);
+      this.eventBus.emit('VALIDATION_CHANGED', { diagnostics: this.diagnostics });
+      this.eventBus.emit('RENDER_REQUESTED', undefined);
+    }
+
+    return this.diagnostics;
+  }
+
+  // ========== HELPERS ==========
+
+  private schedule(): void {
+    if (this.scheduled) return;
+
+    this.scheduled = true;
+    queueMicrotask(() => {
+      this.scheduled = false;
+      this.validate();
+    });
+  }
+
+  /**
+   * Runs a single rule. A failing rule is reported on the console and skipped.
+   */
+  private runRule(rule: ValidationRulePluginDefinition, context: ValidationContext): Diagnostic[] {
+    const ctor = (rule as any).constructor;
+    const type: string = ctor.type;
+    const defaultSeverity: DiagnosticSeverity = rule.severity ?? ctor.severity ?? 'error';
+
+    try {
+      const reports: ReadonlyArray<DiagnosticReport> =
+        (rule.validate ? rule.validate(context) : ctor.validate(context)) || [];
+
+      return reports.map(report => Object.freeze({
+        rule: type,
+        severity: report.severity ?? defaultSeverity,
+        message: report.message,
+        ...(report.nodeId !== undefined ? { nodeId: report.nodeId } : {}),
+        ...(report.linkId !== undefined ? { linkId: report.linkId } : {})
+      }));
+    } catch (error) {
+      console.error(`[ValidationService] Rule "${type}" failed:`, error);
+      return [];
+    }
+  }
+
+  private getNodeSchema(type: string): PropertySchema | null {
+    if (!this.registry.hasNodeType(type)) return null;
+
+    const definition = this.registry.getNodeDefinition(type)!;
+    return definition.schema ?? (definition as any).constructor.schema ?? null;
+  }
+
+  private isSame(next: ReadonlyArray<Diagnostic>): boolean {
+    if (next.length !== this.diagnostics.length) return false;
+
+    const key = (d: Diagnostic) => `${d.rule}|${d.severity}|${d.nodeId ?? ''}|${d.linkId ?? ''}|${d.message}`;
+    return next.every((d, index) => key(d) === key(this.diagnostics[index]));
+  }
+}
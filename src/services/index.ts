@@ -3,6 +3,22 @@
  */
 export { InputSystem } from './InputSystem';
 export { HistoryManager } from './HistoryManager';
+export type { HistorySnapshot } from './HistoryManager';
 export { SerializationService, SerializationError, DeserializationError } from './SerializationService';
+export { ClipboardService, ClipboardError } from './ClipboardService';
+export type { ClipboardResult } from './ClipboardService';
+export { HandlerFactory } from './HandlerFactory';
+export { GraphQueryService } from './GraphQueryService';
+export { ValidationService } from './ValidationService';
+export { LayoutService } from './LayoutService';
+export type { LayoutOptions } from './LayoutService';
+export { SnapService } from './SnapService';
+export { Keymap, DEFAULT_KEY_BINDINGS } from './Keymap';
+export type { SnapResult } from './SnapService';
+export { SubDiagramService, SubDiagramError } from './SubDiagramService';
+export type { SubDiagramGraph, SubDiagramPorts, SubDiagramExit } from './SubDiagramService';
+export { TraversalEngine, TraversalError, TraversalCancelledError } from './TraversalEngine';
+export type { TraversalOptions, TraversalOutcome } from './TraversalEngine';
+export type { GraphSubset } from './GraphQueryService';
 export { PluginLoader, PluginLoadError } from './PluginLoader';
 export type { PluginManifest, PluginBundle, PluginCategory } from './PluginLoader';
\ No newline at end of file
@@ -0,0 +1,125 @@
+/**
+ * Text descriptions of nodes, connections and the graph structure for assistive technology.
+ */
+import { Store } from '../core/State';
+import { Node } from '../domain/models/Node';
+import { Connection } from '../domain/models/Connection';
+import { NodeId, HandlerId, OutlineEntry } from '../core/types';
+
+export class GraphDescription {
+  /**
+   * Short name of a node: its label, or its type when unlabeled
+   */
+  static nodeName(node: Readonly<Node>): string {
+    return node.label.trim() || `Untitled ${node.type}`;
+  }
+  
+  /**
+   * Name and type of a node, e.g. "Check stock, decision node"
+   */
+  static nodeSummary(node: Readonly<Node>): string {
+    return `${GraphDescription.nodeName(node)}, ${node.type} node`;
+  }
+  
+  /**
+   * Full description of a node, e.g. "Check stock, decision node, 1 incoming and 2 outgoing connections"
+   */
+  static describeNode(store: Store, node: Readonly<Node>): string {
+    const parts = [GraphDescription.nodeSummary(node)];
+    
+    if (node.isContainer()) {
+      const children = store.getChildNodeIds(node.id).length;
+      parts.push(`group of ${children} ${children === 1 ? 'node' : 'nodes'}${node.collapsed ? ', collapsed' : ''}`);
+    }
+    
+    const { incoming, outgoing } = GraphDescription.countConnections(store, node.id);
+    if (incoming + outgoing > 0) {
+      parts.push(`${incoming} incoming and ${outgoing} outgoing ${incoming + outgoing === 1 ? 'connection' : 'connections'}`);
+    } else if (node.handlers.length > 0) {
+      parts.push('not connected');
+    }
+    
+    return parts.join(', ');
+  }
+  
+  /**
+   * Description of a connection, e.g. "Check stock (Yes) → Ship order"
+   */
+  static describeLink(store: Store, link: Readonly<Connection>): string {
+    const text = `${GraphDescription.endpointName(store, link.sourceHandlerId)} → ${GraphDescription.endpointName(store, link.targetHandlerId)}`;
+    return link.label?.text ? `${text}, "${link.label.text}"` : text;
+  }
+  
+  /**
+   * Graph structure as a tree: top-level nodes in reading order (top to bottom,
+   * left to right), each followed by the nodes it groups and its outgoing connections.
+   */
+  static outline(store: Store): OutlineEntry[] {
+    const nodes = [...store.getAllNodes()]
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+    const order = new Map(nodes.map((node, index) => [node.id, index]));
+    
+    // Children and links come from the store's indexes, so the outline stays linear in the graph size
+    const build = (node: Readonly<Node>, level: number): OutlineEntry => {
+      const handlerIds = new Set(node.handlers.map(h => h.id));
+      const childNodes = store.getChildNodeIds(node.id)
+        .sort((a, b) => order.get(a)! - order.get(b)!)
+        .map(id => store.getNode(id)!);
+      const children: OutlineEntry[] = [
+        ...childNodes.map(child => build(child, level + 1)),
+        ...store.getLinksForNode(node.id)
+          .filter(link => handlerIds.has(link.sourceHandlerId))
+          .map(link => ({
+            type: 'link' as const,
+            id: link.id,
+            text: GraphDescription.describeLink(store, link),
+            level: level + 1,
+            children: []
+          }))
+      ];
+      
+      return { type: 'node', id: node.id, text: GraphDescription.describeNode(store, node), level, children };
+    };
+    
+    return nodes
+      .filter(node => !node.parentId || !store.getNode(node.parentId))
+      .map(node => build(node, 1));
+  }
+  
+  /**
+   * Formats an outline as indented plain text, one entry per line
+   */
+  static formatOutline(entries: ReadonlyArray<OutlineEntry>): string {
+    const lines: string[] = [];
+    const visit = (entry: OutlineEntry) => {
+      lines.push(`${'  '.repeat(entry.level - 1)}- ${entry.text}`);
+      entry.children.forEach(visit);
+    };
+    entries.forEach(visit);
+    return lines.join('\n');
+  }
+  
+  private static endpointName(store: Store, handlerId: HandlerId): string {
+    const nodeId = store.getNodeIdForHandler(handlerId);
+    const node = nodeId ? store.getNode(nodeId) : null;
+    if (!node) return 'unknown node';
+    
+    const handler = node.handlers.find(h => h.id === handlerId);
+    // Handler labels tell the branches of a node apart (e.g. "Yes" / "No")
+    return handler?.label ? `${GraphDescription.nodeName(node)} (${handler.label})` : GraphDescription.nodeName(node);
+  }
+  
+  private static countConnections(store: Store, nodeId: NodeId): { incoming: number; outgoing: number } {
+    const node = store.getNode(nodeId);
+    const handlerIds = new Set(node ? node.handlers.map(h => h.id) : []);
+    let incoming = 0;
+    let outgoing = 0;
+    
+    store.getLinksForNode(nodeId).forEach(link => {
+      if (handlerIds.has(link.sourceHandlerId)) outgoing++;
+      if (handlerIds.has(link.targetHandlerId)) incoming++;
+    });
+    
+    return { incoming, outgoing };
+  }
+}
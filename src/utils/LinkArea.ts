@@ -0,0 +1,26 @@
+/**
+ * Area a connection may be drawn in, shared by the store's link index and the orthogonal router.
+ */
+import { Position, Rect } from '../core/types';
+import { Config } from '../core/Config';
+
+/**
+ * Box around a connection's endpoints and waypoints, widened by how far the
+ * drawn path may leave it: curves bulge out by up to 3/4 of the endpoint
+ * distance (BezierPathStrategy) and routes step around nodes by at least
+ * 2 × CLEARANCE.
+ */
+export function getLinkArea(source: Position, target: Position, waypoints: ReadonlyArray<Position> = []): Rect {
+  const points = [source, ...waypoints, target];
+  const distance = Math.hypot(target.x - source.x, target.y - source.y);
+  const margin = Math.max(distance * 0.75, Config.CLEARANCE * 2);
+  const x = Math.min(...points.map(p => p.x)) - margin;
+  const y = Math.min(...points.map(p => p.y)) - margin;
+  
+  return {
+    x,
+    y,
+    width: Math.max(...points.map(p => p.x)) + margin - x,
+    height: Math.max(...points.map(p => p.y)) + margin - y
+  };
+}
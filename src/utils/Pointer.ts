@@ -0,0 +1,12 @@
+/**
+ * Utilities for pointer capabilities of the device.
+ */
+
+/**
+ * Checks if a coarse pointer (finger) is available, e.g. on tablets.
+ */
+export function hasCoarsePointer(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia('(any-pointer: coarse)').matches;
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+/**
+ * Region quadtree of keyed rectangles for fast area queries.
+ */
+import { Rect } from '../core/types';
+
+// Items a quad holds before it splits
+const QUAD_CAPACITY = 16;
+const MAX_DEPTH = 12;
+// Initial bounds; the tree grows to fit items placed outside
+const INITIAL_BOUNDS: Rect = { x: -2048, y: -2048, width: 4096, height: 4096 };
+
+interface Quad<K> {
+  bounds: Rect;
+  depth: number;
+  items: Map<K, Rect>;
+  children: Quad<K>[] | null;
+}
+
+/**
+ * Spatial index answering "which rectangles intersect this area" without
+ * testing every item.
+ *
+ * An item lives in the smallest quad that fully contains it, so items across
+ * quad borders stay higher up. Quads are not merged again after removals.
+ *
+ * @example
+ * ```typescript
+ * const index = new QuadTree<NodeId>();
+ * index.insert(node.id, { x: 0, y: 0, width: 160, height: 80 });
+ * index.search(viewport); // IDs of the items intersecting the viewport
+ * ```
+ */
+export class QuadTree<K> {
+  private root: Quad<K> = QuadTree.createQuad(INITIAL_BOUNDS, 0);
+  private locations = new Map<K, Quad<K>>();
+  
+  /**
+   * Number of items in the tree
+   */
+  get size(): number {
+    return this.locations.size;
+  }
+  
+  /**
+   * Adds an item, or moves it if the key is already present.
+   * Rectangles with non-finite coordinates are not indexed.
+   */
+  insert(key: K, rect: Rect): void {
+    this.remove(key);
+    if (![rect.x, rect.y, rect.width, rect.height].every(Number.isFinite)) return;
+    
+    if (!QuadTree.contains(this.root.bounds, rect)) {
+      this.grow(rect);
+    }
+    
+    this.insertInto(this.root, key, rect);
+  }
+  
+  /**
+   * Removes an item
+   *
+   * @returns True if the key was present
+   */
+  remove(key: K): boolean {
+    const quad = this.locations.get(key);
+    if (!quad) return false;
+    
+    quad.items.delete(key);
+    this.locations.delete(key);
+    return true;
+  }
+  
+  /**
+   * Keys of the items intersecting an area (touching edges count)
+   */
+  search(area: Rect): K[] {
+    const result: K[] = [];
+    const stack = [this.root];
+    
+    while (stack.length > 0) {
+      const quad = stack.pop()!;
+      if (!QuadTree.intersects(quad.bounds, area)) continue;
+      
+      quad.items.forEach((rect, key) => {
+        if (QuadTree.intersects(rect, area)) result.push(key);
+      });
+      if (quad.children) stack.push(...quad.children);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Removes every item
+   */
+  clear(): void {
+    this.root = QuadTree.createQuad(INITIAL_BOUNDS, 0);
+    this.locations.clear();
+  }
+  
+  // ========== HELPERS ==========
+  
+  private insertInto(quad: Quad<K>, key: K, rect: Rect): void {
+    let current = quad;
+    
+    for (;;) {
+      if (!current.children && current.items.size >= QUAD_CAPACITY && current.depth < MAX_DEPTH) {
+        this.split(current);
+      }
+      
+      const child = current.children?.find(c => QuadTree.contains(c.bounds, rect));
+      if (!child) break;
+      current = child;
+    }
+    
+    current.items.set(key, rect);
+    this.locations.set(key, current);
+  }
+  
+  private split(quad: Quad<K>): void {
+    const { x, y } = quad.bounds;
+    const width = quad.bounds.width / 2;
+    const height = quad.bounds.height / 2;
+    
+    quad.children = [
+      { x, y },
+      { x: x + width, y },
+      { x, y: y + height },
+      { x: x + width, y: y + height }
+    ].map(corner => QuadTree.createQuad({ ...corner, width, height }, quad.depth + 1));
+    
+    // Push the items that fit a child down
+    const items = [...quad.items];
+    quad.items.clear();
+    items.forEach(([key, rect]) => this.insertInto(quad, key, rect));
+  }
+  
+  /**
+   * Rebuilds the tree with bounds twice the size needed to hold the rectangle.
+   */
+  private grow(rect: Rect): void {
+    const bounds = this.root.bounds;
+    const minX = Math.min(bounds.x, rect.x);
+    const minY = Math.min(bounds.y, rect.y);
+    const maxX = Math.max(bounds.x + bounds.width, rect.x + rect.width);
+    const maxY = Math.max(bounds.y + bounds.height, rect.y + rect.height);
+    const size = Math.max(maxX - minX, maxY - minY) * 2;
+    
+    const items: [K, Rect][] = [];
+    this.locations.forEach((quad, key) => items.push([key, quad.items.get(key)!]));
+    
+    this.root = QuadTree.createQuad({
+      x: (minX + maxX - size) / 2,
+      y: (minY + maxY - size) / 2,
+      width: size,
+      height: size
+    }, 0);
+    this.locations.clear();
+    items.forEach(([key, itemRect]) => this.insertInto(this.root, key, itemRect));
+  }
+  
+  private static createQuad<K>(bounds: Rect, depth: number): Quad<K> {
+    return { bounds, depth, items: new Map(), children: null };
+  }
+  
+  private static contains(outer: Rect, inner: Rect): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+      inner.x + inner.width <= outer.x + outer.width &&
+      inner.y + inner.height <= outer.y + outer.height;
+  }
+  
+  private static intersects(a: Rect, b: Rect): boolean {
+    return a.x <= b.x + b.width && b.x <= a.x + a.width &&
+      a.y <= b.y + b.height && b.y <= a.y + a.height;
+  }
+}
\ No newline at end of file